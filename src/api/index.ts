@@ -3,9 +3,18 @@ import { App } from '@rocket.chat/apps-engine/definition/App';
 
 import { LogsAuditEndpoint } from './logs/LogsAuditEndpoint';
 import { LogsActionsEndpoint } from './logs/LogsActionsEndpoint';
+import { LogsCompareEndpoint } from './logs/LogsCompareEndpoint';
 import { LogsConfigEndpoint } from './logs/LogsConfigEndpoint';
+import { LogsContextEndpoint } from './logs/LogsContextEndpoint';
+import { LogsCorrelateEndpoint } from './logs/LogsCorrelateEndpoint';
+import { LogsEntitiesEndpoint } from './logs/LogsEntitiesEndpoint';
+import { LogsExportEndpoint } from './logs/LogsExportEndpoint';
 import { LogsHealthEndpoint } from './logs/LogsHealthEndpoint';
+import { LogsHistogramEndpoint } from './logs/LogsHistogramEndpoint';
+import { LogsLabelsEndpoint } from './logs/LogsLabelsEndpoint';
+import { LogsPatternsEndpoint } from './logs/LogsPatternsEndpoint';
 import { LogsQueryEndpoint } from './logs/LogsQueryEndpoint';
+import { LogsTailEndpoint } from './logs/LogsTailEndpoint';
 import { LogsThreadsEndpoint } from './logs/LogsThreadsEndpoint';
 import { LogsTargetsEndpoint } from './logs/LogsTargetsEndpoint';
 import { LogsViewsEndpoint } from './logs/LogsViewsEndpoint';
@@ -13,7 +22,7 @@ import { LogsViewsEndpoint } from './logs/LogsViewsEndpoint';
 export const createAppApi = (app: App): IApi => ({
     visibility: ApiVisibility.PUBLIC,
     security: ApiSecurity.UNSECURE,
-    endpoints: [new LogsHealthEndpoint(app), new LogsConfigEndpoint(app), new LogsQueryEndpoint(app), new LogsAuditEndpoint(app), new LogsActionsEndpoint(app), new LogsTargetsEndpoint(app), new LogsThreadsEndpoint(app), new LogsViewsEndpoint(app)],
+    endpoints: [new LogsHealthEndpoint(app), new LogsConfigEndpoint(app), new LogsQueryEndpoint(app), new LogsLabelsEndpoint(app), new LogsHistogramEndpoint(app), new LogsPatternsEndpoint(app), new LogsCompareEndpoint(app), new LogsTailEndpoint(app), new LogsContextEndpoint(app), new LogsCorrelateEndpoint(app), new LogsEntitiesEndpoint(app), new LogsExportEndpoint(app), new LogsAuditEndpoint(app), new LogsActionsEndpoint(app), new LogsTargetsEndpoint(app), new LogsThreadsEndpoint(app), new LogsViewsEndpoint(app)],
 });
 
 // Backward-compatible alias used in older docs/notes.
@@ -1,10 +1,28 @@
 import { HttpStatusCode, IHttp, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
 import { ApiEndpoint, IApiEndpointInfo, IApiRequest, IApiResponse } from '@rocket.chat/apps-engine/definition/api';
+import { IRoom } from '@rocket.chat/apps-engine/definition/rooms';
+import { IUser } from '@rocket.chat/apps-engine/definition/users';
 
 import { SETTINGS } from '../../constants';
-import { authorizeRequestUser, parseWorkspacePermissionCode, parseWorkspacePermissionMode, WorkspacePermissionMode } from '../../security/accessControl';
+import {
+    authorizeRequestUser,
+    parseWorkspacePermissionCode,
+    parseWorkspacePermissionMode,
+    resolveWorkspaceOrigin,
+    WorkspacePermissionMode,
+} from '../../security/accessControl';
 import { appendAuditEntry, consumeRateLimitToken, parseAllowedRoles } from '../../security/querySecurity';
-import { composeActionMessage, LogsActionType, parseAndNormalizeLogActionRequest } from './actionValidation';
+import { RedactionOptions, redactFieldValues, redactLogMessage } from '../../security/redaction';
+import { parseRedactionRules } from '../../security/redactionRules';
+import { detectEntityRefs } from '../../sources/entityRefs';
+import { parseLogsSourceMode, resolveLogSource } from '../../sources/registry';
+import { composeActionMessage, LogsActionType, ParsedLogActionRequest, parseAndNormalizeLogActionRequest } from './actionValidation';
+import { formatEntityLinksForMarkdown, resolveEntityLinks, toEntitiesRequest } from './entityLinks';
+import { collectExportEntries, ExportGuardrails, redactExportLines } from './exportCollector';
+import { parseExportRequest } from './exportValidation';
+import { buildInvestigationBundle, formatBundleNote, readAuditExcerpts, resolveBundleMaxBytes } from './investigationBundle';
+import { clusterLogPatterns } from './logPatterns';
+import { formatLevelFilter, parseAllowedLabelNames } from './queryValidation';
 
 type SecuritySettings = {
     allowedRoles: Array<string>;
@@ -233,12 +251,37 @@ export class LogsActionsEndpoint extends ApiEndpoint {
             });
         }
 
+        if (parsed.request.action === 'export_bundle') {
+            return this.postInvestigationBundle(request, request.user, read, modify, http, persistence, security, parsed.request, room, appUser);
+        }
+
+        // The entry comes from the client, so it is redacted again before anything is posted or resolved from it.
+        const redaction = await this.readRedactionOptions(read);
+        const redactedMessage = redactLogMessage(parsed.request.entry.message, redaction);
+        const redactedLabels = redactFieldValues(parsed.request.entry.labels, redaction);
+        const actionRequest: ParsedLogActionRequest = {
+            ...parsed.request,
+            entry: {
+                ...parsed.request.entry,
+                message: redactedMessage.message,
+                labels: redactedLabels.values,
+            },
+        };
+
+        // Links resolve as the sharing user sees them, so a post never names a room they cannot open themselves.
+        const entityRefs = detectEntityRefs(actionRequest.entry);
+        const entityLinks = entityRefs.length > 0
+            ? formatEntityLinksForMarkdown(
+                await resolveEntityLinks(read, request.user.id, toEntitiesRequest(entityRefs), await resolveWorkspaceOrigin(read, request.headers)),
+            )
+            : '';
+
         const messageBuilder = modify.getCreator().startMessage();
         messageBuilder.setRoom(room);
         messageBuilder.setSender(appUser);
         messageBuilder.setGroupable(false);
         messageBuilder.setParseUrls(false);
-        messageBuilder.setText(composeActionMessage(parsed.request));
+        messageBuilder.setText(composeActionMessage(actionRequest, entityLinks));
         if (parsed.request.targetThreadId) {
             messageBuilder.setThreadId(parsed.request.targetThreadId);
         }
@@ -257,6 +300,7 @@ export class LogsActionsEndpoint extends ApiEndpoint {
                     targetThreadId: parsed.request.targetThreadId || null,
                     postedMessageId: messageId,
                     level: parsed.request.entry.level,
+                    totalRedactions: redactedMessage.redactionCount + redactedLabels.redactionCount,
                 },
             },
             security,
@@ -273,6 +317,305 @@ export class LogsActionsEndpoint extends ApiEndpoint {
         });
     }
 
+    // Re-runs the query like POST /export and uploads the result as a tar file into the target room.
+    private async postInvestigationBundle(
+        request: IApiRequest,
+        user: IUser,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persistence: IPersistence,
+        security: SecuritySettings,
+        actionRequest: ParsedLogActionRequest,
+        room: IRoom,
+        appUser: IUser,
+    ): Promise<IApiResponse> {
+        const targetScope = {
+            targetRoomId: actionRequest.targetRoomId,
+            targetThreadId: actionRequest.targetThreadId || null,
+        };
+
+        // Bundles run upstream queries, so they also take a token from the caller's /query bucket.
+        const rateLimit = await consumeRateLimitToken(read, persistence, user.id, security.rateLimitQpm);
+        if (!rateLimit.allowed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'export_bundle_denied',
+                    userId: user.id,
+                    outcome: 'denied',
+                    reason: 'rate_limited',
+                    scope: { ...targetScope, retryAfterSeconds: rateLimit.retryAfterSeconds },
+                },
+                security,
+            );
+            return this.json({
+                status: HttpStatusCode.TOO_MANY_REQUESTS,
+                headers: {
+                    'retry-after': String(rateLimit.retryAfterSeconds || 1),
+                },
+                content: {
+                    ok: false,
+                    error: 'Rate limit exceeded for logs query.',
+                    retryAfterSeconds: rateLimit.retryAfterSeconds || 1,
+                },
+            });
+        }
+
+        const settingsReader = read.getEnvironmentReader().getSettings();
+        const [
+            logsSourceModeRaw,
+            defaultTimeRange,
+            allowedLabelFiltersRaw,
+            maxTimeWindowHours,
+            maxLinesPerQuery,
+            queryTimeoutMs,
+            exportMaxWindowHours,
+            exportMaxLines,
+            bundleMaxSizeKb,
+        ] = await Promise.all([
+            settingsReader.getValueById(SETTINGS.LOGS_SOURCE_MODE),
+            settingsReader.getValueById(SETTINGS.DEFAULT_TIME_RANGE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_LABEL_FILTERS),
+            settingsReader.getValueById(SETTINGS.MAX_TIME_WINDOW_HOURS),
+            settingsReader.getValueById(SETTINGS.MAX_LINES_PER_QUERY),
+            settingsReader.getValueById(SETTINGS.QUERY_TIMEOUT_MS),
+            settingsReader.getValueById(SETTINGS.EXPORT_MAX_WINDOW_HOURS),
+            settingsReader.getValueById(SETTINGS.EXPORT_MAX_LINES),
+            settingsReader.getValueById(SETTINGS.BUNDLE_MAX_SIZE_KB),
+        ]);
+
+        const parsed = parseExportRequest({
+            requestContent: actionRequest.query,
+            defaultTimeRange: typeof defaultTimeRange === 'string' ? defaultTimeRange : '15m',
+            maxExportWindowHours: this.readNumberSetting(exportMaxWindowHours, 168, 1, 720),
+            maxExportLines: this.readNumberSetting(exportMaxLines, 20000, 100, 100000),
+            allowedLabelNames: parseAllowedLabelNames(allowedLabelFiltersRaw),
+        });
+        if ('error' in parsed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'export_bundle_denied',
+                    userId: user.id,
+                    outcome: 'denied',
+                    reason: 'invalid_query',
+                    scope: { ...targetScope, details: parsed.details },
+                },
+                security,
+            );
+            return this.badRequest(parsed.error, parsed.details);
+        }
+
+        const query = parsed.request.query;
+        const sourceMode = parseLogsSourceMode(logsSourceModeRaw);
+        const source = resolveLogSource(sourceMode);
+        const namedSources = source.listSources ? await source.listSources(read) : [];
+        if (query.source && !source.listSources) {
+            return this.badRequest(`Named sources are not supported in ${sourceMode} mode.`, { sourceMode, source: query.source });
+        }
+
+        const guardrails: ExportGuardrails = {
+            maxTimeWindowHours: this.readNumberSetting(maxTimeWindowHours, 24, 1, 168),
+            maxLinesPerQuery: this.readNumberSetting(maxLinesPerQuery, 2000, 100, 5000),
+            queryTimeoutMs: this.readNumberSetting(queryTimeoutMs, 30000, 1000, 120000),
+        };
+        const selectedSource = query.source ? namedSources.find((candidate) => candidate.id === query.source) : namedSources[0];
+        if (selectedSource) {
+            guardrails.maxTimeWindowHours = Math.min(guardrails.maxTimeWindowHours, selectedSource.maxTimeWindowHours || guardrails.maxTimeWindowHours);
+            guardrails.maxLinesPerQuery = Math.min(guardrails.maxLinesPerQuery, selectedSource.maxLinesPerQuery || guardrails.maxLinesPerQuery);
+        }
+
+        const collected = await collectExportEntries(
+            source,
+            { http, read, appId: this.app.getID(), request, userRoles: user.roles },
+            query,
+            guardrails,
+        );
+        if ('error' in collected) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'export_bundle_denied',
+                    userId: user.id,
+                    outcome: 'denied',
+                    reason: `${sourceMode}_error`,
+                    scope: { ...targetScope, sourceMode, tenantId: collected.tenant || null },
+                },
+                security,
+            );
+            return this.json({
+                status: collected.status || HttpStatusCode.BAD_GATEWAY,
+                content: {
+                    ok: false,
+                    error: collected.error,
+                    details: collected.details,
+                },
+            });
+        }
+
+        const redaction = await this.readRedactionOptions(read);
+        const { lines, redactedLines, totalRedactions } = redactExportLines(collected.entries, query.parser, redaction);
+        const createdAt = new Date();
+        const window = { start: query.start.toISOString(), end: query.end.toISOString() };
+        const filters = {
+            level: formatLevelFilter(query.levels),
+            search: query.search || null,
+            labels: query.labels || [],
+            parser: query.parser || null,
+            fields: query.fields || [],
+        };
+
+        const bundle = buildInvestigationBundle({
+            manifest: {
+                generatedAt: createdAt.toISOString(),
+                requester: { id: user.id, username: user.username || null },
+                sourceMode,
+                sourceId: collected.source || null,
+                query: collected.query,
+                selector: collected.labelScope?.selector || null,
+                tenantId: collected.tenant || null,
+                window,
+                filters,
+                lines: lines.length,
+                truncated: collected.truncated,
+                chunks: collected.chunks,
+                requests: collected.requests,
+                redaction: { enabled: redaction.enabled, redactedLines, totalRedactions },
+                anchor: { timestamp: actionRequest.entry.timestamp, level: actionRequest.entry.level },
+                target: targetScope,
+            },
+            lines,
+            signatures: clusterLogPatterns(lines),
+            auditEntries: await readAuditExcerpts(read, user.id, query.start),
+            maxBytes: await resolveBundleMaxBytes(read, this.readNumberSetting(bundleMaxSizeKb, 2048, 64, 51200)),
+            createdAt,
+        });
+        if ('error' in bundle) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'export_bundle_denied',
+                    userId: user.id,
+                    outcome: 'denied',
+                    reason: 'bundle_too_large',
+                    scope: { ...targetScope, details: bundle.details },
+                },
+                security,
+            );
+            return this.badRequest(bundle.error, bundle.details);
+        }
+
+        let upload: { id: string; name: string; url: string } | undefined;
+        try {
+            upload = await modify.getCreator().getUploadCreator().uploadBuffer(bundle.buffer, { filename: bundle.filename, room, user: appUser });
+        } catch {
+            upload = undefined;
+        }
+        if (!upload) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'export_bundle_denied',
+                    userId: user.id,
+                    outcome: 'denied',
+                    reason: 'upload_failed',
+                    scope: { ...targetScope, bytes: bundle.buffer.length },
+                },
+                security,
+            );
+            return this.json({
+                status: HttpStatusCode.BAD_GATEWAY,
+                content: {
+                    ok: false,
+                    error: 'Uploading the investigation bundle to Rocket.Chat failed.',
+                },
+            });
+        }
+
+        // Uploads cannot target a thread, so a thread target gets a note linking the file.
+        let postedMessageId: string | null = null;
+        if (actionRequest.targetThreadId) {
+            const origin = await resolveWorkspaceOrigin(read, request.headers);
+            const messageBuilder = modify.getCreator().startMessage();
+            messageBuilder.setRoom(room);
+            messageBuilder.setSender(appUser);
+            messageBuilder.setGroupable(false);
+            messageBuilder.setParseUrls(false);
+            messageBuilder.setThreadId(actionRequest.targetThreadId);
+            messageBuilder.setText(formatBundleNote({
+                filename: bundle.filename,
+                url: upload.url && upload.url.startsWith('/') && origin ? `${origin}${upload.url}` : upload.url || undefined,
+                window: `${window.start} -> ${window.end}`,
+                filters: [
+                    query.levels ? `level \`${query.levels.join(',')}\`` : '',
+                    query.search ? `search \`${query.search}\`` : '',
+                ].filter(Boolean).join(', ') || undefined,
+                lines: bundle.lines,
+                droppedLines: bundle.droppedLines,
+                requester: user.username || user.id,
+            }));
+            postedMessageId = await modify.getCreator().finish(messageBuilder);
+        }
+
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'export_bundle',
+                userId: user.id,
+                outcome: 'allowed',
+                scope: {
+                    ...targetScope,
+                    uploadId: upload.id,
+                    postedMessageId,
+                    filename: bundle.filename,
+                    bytes: bundle.buffer.length,
+                    start: window.start,
+                    end: window.end,
+                    level: filters.level,
+                    searchProvided: Boolean(query.search),
+                    labelFilters: filters.labels,
+                    lines: bundle.lines,
+                    droppedLines: bundle.droppedLines,
+                    truncated: collected.truncated,
+                    sourceMode,
+                    sourceId: collected.source || null,
+                    redactedLines,
+                    totalRedactions,
+                },
+            },
+            security,
+        );
+
+        return this.success({
+            ok: true,
+            action: 'export_bundle',
+            postedMessageId,
+            target: {
+                roomId: actionRequest.targetRoomId,
+                threadId: actionRequest.targetThreadId || null,
+            },
+            upload: {
+                id: upload.id,
+                filename: bundle.filename,
+                bytes: bundle.buffer.length,
+                url: upload.url || null,
+            },
+            bundle: {
+                lines: bundle.lines,
+                droppedLines: bundle.droppedLines,
+                truncated: collected.truncated,
+                files: bundle.files,
+            },
+        });
+    }
+
     private readRequestedAction(content: unknown): LogsActionType {
         const raw = content as { action?: unknown };
         if (raw && raw.action === 'incident_draft') {
@@ -281,17 +624,14 @@ export class LogsActionsEndpoint extends ApiEndpoint {
         if (raw && raw.action === 'thread_note') {
             return 'thread_note';
         }
+        if (raw && raw.action === 'export_bundle') {
+            return 'export_bundle';
+        }
         return 'share';
     }
 
-    private deniedActionFor(action: LogsActionType): 'share_denied' | 'incident_draft_denied' | 'thread_note_denied' {
-        if (action === 'incident_draft') {
-            return 'incident_draft_denied';
-        }
-        if (action === 'thread_note') {
-            return 'thread_note_denied';
-        }
-        return 'share_denied';
+    private deniedActionFor(action: LogsActionType): `${LogsActionType}_denied` {
+        return `${action}_denied`;
     }
 
     private async validateThread(read: IRead, threadId: string, roomId: string): Promise<boolean> {
@@ -316,6 +656,40 @@ export class LogsActionsEndpoint extends ApiEndpoint {
         return Math.min(max, Math.max(min, Math.floor(parsed)));
     }
 
+    private async readRedactionOptions(read: IRead): Promise<RedactionOptions> {
+        const settingsReader = read.getEnvironmentReader().getSettings();
+        const [enableRedactionRaw, redactionReplacementRaw, redactionDetectorsRaw, redactionRulesRaw] = await Promise.all([
+            settingsReader.getValueById(SETTINGS.ENABLE_REDACTION),
+            settingsReader.getValueById(SETTINGS.REDACTION_REPLACEMENT),
+            settingsReader.getValueById(SETTINGS.REDACTION_DETECTORS),
+            settingsReader.getValueById(SETTINGS.REDACTION_RULES),
+        ]);
+
+        return {
+            enabled: this.readBooleanSetting(enableRedactionRaw, true),
+            replacement: typeof redactionReplacementRaw === 'string' && redactionReplacementRaw.trim() ? redactionReplacementRaw.trim() : '[REDACTED]',
+            rules: parseRedactionRules(redactionRulesRaw, redactionDetectorsRaw).rules,
+        };
+    }
+
+    private readBooleanSetting(value: unknown, fallback: boolean): boolean {
+        if (typeof value === 'boolean') {
+            return value;
+        }
+
+        if (typeof value === 'string') {
+            const normalized = value.trim().toLowerCase();
+            if (normalized === 'true') {
+                return true;
+            }
+            if (normalized === 'false') {
+                return false;
+            }
+        }
+
+        return fallback;
+    }
+
     private badRequest(message: string, details?: unknown): IApiResponse {
         return this.json({
             status: HttpStatusCode.BAD_REQUEST,
@@ -331,7 +705,7 @@ export class LogsActionsEndpoint extends ApiEndpoint {
         read: IRead,
         persistence: IPersistence,
         entry: {
-            action: 'share' | 'share_denied' | 'incident_draft' | 'incident_draft_denied' | 'thread_note' | 'thread_note_denied';
+            action: LogsActionType | `${LogsActionType}_denied`;
             userId: string;
             outcome: 'allowed' | 'denied';
             reason?: string;
@@ -0,0 +1,518 @@
+import { HttpStatusCode, IHttp, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { ApiEndpoint, IApiEndpointInfo, IApiRequest, IApiResponse } from '@rocket.chat/apps-engine/definition/api';
+
+import { SETTINGS } from '../../constants';
+import {
+    authorizeRequestUser,
+    parseWorkspacePermissionCode,
+    parseWorkspacePermissionMode,
+    WorkspacePermissionMode,
+} from '../../security/accessControl';
+import { appendAuditEntry, consumeRateLimitToken, parseAllowedRoles } from '../../security/querySecurity';
+import { RedactionRule, redactLogMessage } from '../../security/redaction';
+import { parseRedactionRules } from '../../security/redactionRules';
+import { matchesLabelFilters } from '../../sources/logEntries';
+import { extractLogFields, matchesFieldFilters } from '../../sources/logFields';
+import { parseLogsSourceMode, resolveLogSource } from '../../sources/registry';
+import { LogEntry, LogSourceError } from '../../sources/types';
+import { parseCompareRequest } from './compareValidation';
+import { emptyHistogramCounts, HistogramCounts } from './histogramBuckets';
+import { clusterLogPatterns, diffLogPatterns, LogPattern } from './logPatterns';
+import { checkQueryGuardrails, formatLevelFilter, NormalizedQuery, parseAllowedLabelNames } from './queryValidation';
+
+type Guardrails = {
+    maxTimeWindowHours: number;
+    maxLinesPerQuery: number;
+    queryTimeoutMs: number;
+};
+
+type SecuritySettings = {
+    allowedRoles: Array<string>;
+    workspacePermissionCode: string;
+    workspacePermissionMode: WorkspacePermissionMode;
+    rateLimitQpm: number;
+    auditRetentionDays: number;
+    auditMaxEntries: number;
+};
+
+type RedactionSettings = {
+    enabled: boolean;
+    replacement: string;
+    rules: Array<RedactionRule>;
+};
+
+type WindowSummary = {
+    sampledLines: number;
+    truncated: boolean;
+    patterns: Array<LogPattern>;
+    levels: HistogramCounts;
+    redactedLines: number;
+    totalRedactions: number;
+};
+
+export class LogsCompareEndpoint extends ApiEndpoint {
+    public path = 'compare';
+    public authRequired = true;
+
+    public async post(
+        request: IApiRequest,
+        _endpoint: IApiEndpointInfo,
+        read: IRead,
+        _modify: IModify,
+        http: IHttp,
+        persistence: IPersistence,
+    ): Promise<IApiResponse> {
+        if (!request.user) {
+            return this.json({
+                status: HttpStatusCode.UNAUTHORIZED,
+                content: { ok: false, error: 'Authentication required.' },
+            });
+        }
+
+        // Pull all runtime settings once; these drive auth, source selection, and guardrails.
+        const settingsReader = read.getEnvironmentReader().getSettings();
+        const [
+            logsSourceModeRaw,
+            allowedRolesRaw,
+            workspacePermissionCodeRaw,
+            workspacePermissionModeRaw,
+            enableRedactionRaw,
+            redactionReplacementRaw,
+            redactionDetectorsRaw,
+            redactionRulesRaw,
+            defaultTimeRange,
+            allowedLabelFiltersRaw,
+            maxTimeWindowHours,
+            maxLinesPerQuery,
+            queryTimeoutMs,
+            rateLimitQpm,
+            auditRetentionDays,
+            auditMaxEntries,
+        ] = await Promise.all([
+            settingsReader.getValueById(SETTINGS.LOGS_SOURCE_MODE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_ROLES),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_CODE),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_MODE),
+            settingsReader.getValueById(SETTINGS.ENABLE_REDACTION),
+            settingsReader.getValueById(SETTINGS.REDACTION_REPLACEMENT),
+            settingsReader.getValueById(SETTINGS.REDACTION_DETECTORS),
+            settingsReader.getValueById(SETTINGS.REDACTION_RULES),
+            settingsReader.getValueById(SETTINGS.DEFAULT_TIME_RANGE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_LABEL_FILTERS),
+            settingsReader.getValueById(SETTINGS.MAX_TIME_WINDOW_HOURS),
+            settingsReader.getValueById(SETTINGS.MAX_LINES_PER_QUERY),
+            settingsReader.getValueById(SETTINGS.QUERY_TIMEOUT_MS),
+            settingsReader.getValueById(SETTINGS.RATE_LIMIT_QPM),
+            settingsReader.getValueById(SETTINGS.AUDIT_RETENTION_DAYS),
+            settingsReader.getValueById(SETTINGS.AUDIT_MAX_ENTRIES),
+        ]);
+
+        const sourceMode = parseLogsSourceMode(logsSourceModeRaw);
+        const source = resolveLogSource(sourceMode);
+
+        const security: SecuritySettings = {
+            allowedRoles: parseAllowedRoles(allowedRolesRaw),
+            workspacePermissionCode: parseWorkspacePermissionCode(workspacePermissionCodeRaw),
+            workspacePermissionMode: parseWorkspacePermissionMode(workspacePermissionModeRaw),
+            rateLimitQpm: this.readNumberSetting(rateLimitQpm, 60, 1, 1000),
+            auditRetentionDays: this.readNumberSetting(auditRetentionDays, 90, 1, 365),
+            auditMaxEntries: this.readNumberSetting(auditMaxEntries, 5000, 100, 20000),
+        };
+
+        const accessDecision = await authorizeRequestUser({
+            request,
+            read,
+            http,
+            allowedRoles: security.allowedRoles,
+            workspacePermissionCode: security.workspacePermissionCode,
+            workspacePermissionMode: security.workspacePermissionMode,
+        });
+        if (!accessDecision.allowed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'compare_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: accessDecision.reason || 'forbidden_role',
+                    scope: {
+                        requiredRoles: security.allowedRoles,
+                        workspacePermissionCode: security.workspacePermissionCode,
+                        workspacePermissionMode: security.workspacePermissionMode,
+                        details: accessDecision.details,
+                    },
+                },
+                security,
+            );
+
+            return this.json({
+                status: HttpStatusCode.FORBIDDEN,
+                content: {
+                    ok: false,
+                    error: 'Insufficient authorization for logs compare.',
+                    reason: accessDecision.reason || 'forbidden_role',
+                },
+            });
+        }
+
+        // One compare spends a single token even though it queries two windows.
+        const rateLimit = await consumeRateLimitToken(read, persistence, request.user.id, security.rateLimitQpm);
+        if (!rateLimit.allowed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'compare_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: 'rate_limited',
+                    scope: {
+                        retryAfterSeconds: rateLimit.retryAfterSeconds,
+                        rateLimitQpm: security.rateLimitQpm,
+                    },
+                },
+                security,
+            );
+
+            return this.json({
+                status: HttpStatusCode.TOO_MANY_REQUESTS,
+                headers: {
+                    'retry-after': String(rateLimit.retryAfterSeconds || 1),
+                },
+                content: {
+                    ok: false,
+                    error: 'Rate limit exceeded for logs compare.',
+                    retryAfterSeconds: rateLimit.retryAfterSeconds || 1,
+                },
+            });
+        }
+
+        const guardrails: Guardrails = {
+            maxTimeWindowHours: this.readNumberSetting(maxTimeWindowHours, 24, 1, 168),
+            maxLinesPerQuery: this.readNumberSetting(maxLinesPerQuery, 2000, 100, 5000),
+            queryTimeoutMs: this.readNumberSetting(queryTimeoutMs, 30000, 1000, 120000),
+        };
+
+        const redaction: RedactionSettings = {
+            enabled: this.readBooleanSetting(enableRedactionRaw, true),
+            replacement: this.readReplacementSetting(redactionReplacementRaw, '[REDACTED]'),
+            rules: parseRedactionRules(redactionRulesRaw, redactionDetectorsRaw).rules,
+        };
+
+        const compareResult = parseCompareRequest({
+            requestContent: request.content,
+            defaultTimeRange: typeof defaultTimeRange === 'string' ? defaultTimeRange : '15m',
+            maxTimeWindowHours: guardrails.maxTimeWindowHours,
+            maxLinesPerQuery: guardrails.maxLinesPerQuery,
+            allowedLabelNames: parseAllowedLabelNames(allowedLabelFiltersRaw),
+        });
+        if ('error' in compareResult) {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, compareResult);
+        }
+
+        const { query: normalized, baseline } = compareResult.request;
+        const namedSources = source.listSources ? await source.listSources(read) : [];
+        if (normalized.source && !source.listSources) {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, {
+                error: `Named sources are not supported in ${sourceMode} mode.`,
+                details: { sourceMode, source: normalized.source },
+            });
+        }
+
+        // Unknown ids fall through to the adapter, which reports the available sources.
+        const selectedSource = normalized.source
+            ? namedSources.find((candidate) => candidate.id === normalized.source)
+            : namedSources[0];
+        if (selectedSource) {
+            guardrails.maxTimeWindowHours = Math.min(guardrails.maxTimeWindowHours, selectedSource.maxTimeWindowHours || guardrails.maxTimeWindowHours);
+            guardrails.maxLinesPerQuery = Math.min(guardrails.maxLinesPerQuery, selectedSource.maxLinesPerQuery || guardrails.maxLinesPerQuery);
+
+            const guardrailError = checkQueryGuardrails(normalized, guardrails)
+                || checkQueryGuardrails({ ...normalized, start: baseline.start, end: baseline.end }, guardrails);
+            if (guardrailError) {
+                return this.rejectInvalidQuery(read, persistence, request.user.id, security, {
+                    error: guardrailError.error,
+                    details: { source: selectedSource.id },
+                });
+            }
+        }
+
+        // Both windows run the same filters; only the time range differs.
+        const queryContext = { http, read, appId: this.app.getID(), request, userRoles: request.user.roles };
+        const queryWindow = (window: { start: Date; end: Date }) => source.query(queryContext, {
+            start: window.start,
+            end: window.end,
+            limit: normalized.limit,
+            levels: normalized.levels,
+            search: normalized.search,
+            source: normalized.source,
+            labels: normalized.labels,
+            parser: normalized.parser,
+            fields: normalized.fields,
+            timeoutMs: guardrails.queryTimeoutMs,
+        });
+        const [targetResult, baselineResult] = await Promise.all([queryWindow(normalized), queryWindow(baseline)]);
+
+        const sourceId = normalized.source || selectedSource?.id || null;
+        if ('error' in targetResult) {
+            return this.rejectSourceError(read, persistence, request.user.id, security, sourceMode, sourceId, targetResult);
+        }
+        if ('error' in baselineResult) {
+            return this.rejectSourceError(read, persistence, request.user.id, security, sourceMode, sourceId, baselineResult);
+        }
+
+        const target = this.summarizeWindow(targetResult.entries, normalized, redaction);
+        const baselineSummary = this.summarizeWindow(baselineResult.entries, normalized, redaction);
+        // Scale baseline counts to the target window length so a longer baseline does not hide increases.
+        const targetMs = normalized.end.getTime() - normalized.start.getTime();
+        const baselineMs = baseline.end.getTime() - baseline.start.getTime();
+        const diff = diffLogPatterns(baselineSummary.patterns, target.patterns, baselineMs > 0 ? targetMs / baselineMs : 1);
+        const redactedLines = target.redactedLines + baselineSummary.redactedLines;
+        const totalRedactions = target.totalRedactions + baselineSummary.totalRedactions;
+
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'compare',
+                userId: request.user.id,
+                outcome: 'allowed',
+                scope: {
+                    start: normalized.start.toISOString(),
+                    end: normalized.end.toISOString(),
+                    baselineStart: baseline.start.toISOString(),
+                    baselineEnd: baseline.end.toISOString(),
+                    level: formatLevelFilter(normalized.levels),
+                    searchProvided: Boolean(normalized.search),
+                    labelFilters: normalized.labels || [],
+                    parser: normalized.parser || null,
+                    fieldFilters: normalized.fields || [],
+                    targetLines: target.sampledLines,
+                    baselineLines: baselineSummary.sampledLines,
+                    newPatterns: diff.new.length,
+                    gonePatterns: diff.gone.length,
+                    increasedPatterns: diff.increased.length,
+                    accessMode: accessDecision.mode,
+                    sourceMode,
+                    sourceId: targetResult.source || null,
+                    tenantId: targetResult.tenant || null,
+                    labelScope: targetResult.labelScope || null,
+                    redactedLines,
+                    totalRedactions,
+                },
+            },
+            security,
+        );
+
+        return this.json({
+            status: HttpStatusCode.OK,
+            content: {
+                ok: true,
+                source: sourceMode,
+                meta: {
+                    query: targetResult.query,
+                    sourceId: targetResult.source || null,
+                    requestedLimit: normalized.limit,
+                    target: {
+                        start: normalized.start.toISOString(),
+                        end: normalized.end.toISOString(),
+                        sampledLines: target.sampledLines,
+                        truncated: target.truncated,
+                        patterns: target.patterns.length,
+                    },
+                    baseline: {
+                        start: baseline.start.toISOString(),
+                        end: baseline.end.toISOString(),
+                        offsetSeconds: compareResult.request.baselineOffsetMs === undefined
+                            ? null
+                            : Math.round(compareResult.request.baselineOffsetMs / 1000),
+                        sampledLines: baselineSummary.sampledLines,
+                        truncated: baselineSummary.truncated,
+                        patterns: baselineSummary.patterns.length,
+                    },
+                    requestedLevel: formatLevelFilter(normalized.levels),
+                    search: normalized.search || null,
+                    labels: normalized.labels || [],
+                    parser: normalized.parser || null,
+                    fields: normalized.fields || [],
+                    redaction: {
+                        enabled: redaction.enabled,
+                        redactedLines,
+                        totalRedactions,
+                    },
+                },
+                levels: {
+                    target: target.levels,
+                    baseline: baselineSummary.levels,
+                },
+                patterns: diff,
+            },
+        });
+    }
+
+    /**
+     * Applies the /query post-filters to one window, redacts it, and clusters what is left. Signatures and samples
+     * come from redacted lines so the diff never surfaces a secret.
+     */
+    private summarizeWindow(entries: Array<LogEntry>, normalized: NormalizedQuery, redaction: RedactionSettings): WindowSummary {
+        const filteredByLabels = normalized.labels
+            ? entries.filter((entry) => matchesLabelFilters(entry.labels, normalized.labels || []))
+            : entries;
+        const levels = normalized.levels;
+        const filteredByLevel = levels
+            ? filteredByLabels.filter((entry) => levels.includes(entry.level))
+            : filteredByLabels;
+        const fieldFilters = normalized.fields;
+        const parser = normalized.parser;
+        const filteredByFields = parser && fieldFilters
+            ? filteredByLevel.filter((entry) => matchesFieldFilters(extractLogFields(entry.message, parser), fieldFilters))
+            : filteredByLevel;
+
+        let redactedLines = 0;
+        let totalRedactions = 0;
+        const levelCounts = emptyHistogramCounts();
+        const redactedEntries = filteredByFields.map((entry) => {
+            const redacted = redactLogMessage(entry.message, redaction);
+            if (redacted.redactionCount > 0) {
+                redactedLines += 1;
+                totalRedactions += redacted.redactionCount;
+            }
+            levelCounts[entry.level] += 1;
+            return { timestamp: entry.timestamp, level: entry.level, message: redacted.message };
+        });
+
+        return {
+            sampledLines: redactedEntries.length,
+            // A full upstream batch means older lines in the window were not counted.
+            truncated: entries.length >= normalized.limit,
+            patterns: clusterLogPatterns(redactedEntries),
+            levels: levelCounts,
+            redactedLines,
+            totalRedactions,
+        };
+    }
+
+    private readNumberSetting(value: unknown, fallback: number, min: number, max: number): number {
+        const parsed = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(parsed)) {
+            return fallback;
+        }
+        return Math.min(max, Math.max(min, Math.floor(parsed)));
+    }
+
+    private readBooleanSetting(value: unknown, fallback: boolean): boolean {
+        if (typeof value === 'boolean') {
+            return value;
+        }
+
+        if (typeof value === 'string') {
+            const normalized = value.trim().toLowerCase();
+            if (normalized === 'true') {
+                return true;
+            }
+            if (normalized === 'false') {
+                return false;
+            }
+        }
+
+        return fallback;
+    }
+
+    private readReplacementSetting(value: unknown, fallback: string): string {
+        if (typeof value !== 'string') {
+            return fallback;
+        }
+
+        const trimmed = value.trim();
+        return trimmed || fallback;
+    }
+
+    private badRequest(message: string, details?: unknown): IApiResponse {
+        return this.json({
+            status: HttpStatusCode.BAD_REQUEST,
+            content: {
+                ok: false,
+                error: message,
+                details,
+            },
+        });
+    }
+
+    private async rejectInvalidQuery(
+        read: IRead,
+        persistence: IPersistence,
+        userId: string,
+        security: SecuritySettings,
+        failure: { error: string; details?: unknown },
+    ): Promise<IApiResponse> {
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'compare_denied',
+                userId,
+                outcome: 'denied',
+                reason: 'invalid_query',
+                scope: { details: failure.details },
+            },
+            security,
+        );
+        return this.badRequest(failure.error, failure.details);
+    }
+
+    private async rejectSourceError(
+        read: IRead,
+        persistence: IPersistence,
+        userId: string,
+        security: SecuritySettings,
+        sourceMode: string,
+        sourceId: string | null,
+        failure: LogSourceError,
+    ): Promise<IApiResponse> {
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'compare_denied',
+                userId,
+                outcome: 'denied',
+                reason: `${sourceMode}_error`,
+                scope: {
+                    sourceMode,
+                    sourceId,
+                    tenantId: failure.tenant || null,
+                    labelScope: failure.labelScope || null,
+                },
+            },
+            security,
+        );
+        return this.json({
+            status: failure.status || HttpStatusCode.BAD_GATEWAY,
+            content: {
+                ok: false,
+                error: failure.error,
+                details: failure.details,
+            },
+        });
+    }
+
+    private async audit(
+        read: IRead,
+        persistence: IPersistence,
+        entry: {
+            action: 'compare' | 'compare_denied';
+            userId: string;
+            outcome: 'allowed' | 'denied';
+            reason?: string;
+            scope?: Record<string, unknown>;
+        },
+        security: SecuritySettings,
+    ): Promise<void> {
+        try {
+            await appendAuditEntry(read, persistence, entry, security.auditRetentionDays, security.auditMaxEntries);
+        } catch {
+            // Audit failures should not block compare responses.
+        }
+    }
+}
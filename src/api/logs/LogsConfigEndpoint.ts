@@ -4,6 +4,10 @@ import { ApiEndpoint, IApiEndpointInfo, IApiRequest, IApiResponse } from '@rocke
 import { SETTINGS, WORKSPACE_PERMISSIONS } from '../../constants';
 import { authorizeRequestUser, parseWorkspacePermissionCode, parseWorkspacePermissionMode } from '../../security/accessControl';
 import { parseAllowedRoles } from '../../security/querySecurity';
+import { parseRedactionRules } from '../../security/redactionRules';
+import { resolveLokiAccessScope, resolveLokiLabelScopes } from '../../sources/lokiSource';
+import { parseLogsSourceMode, resolveLogSource } from '../../sources/registry';
+import { parseAllowedLabelNames } from './queryValidation';
 
 export class LogsConfigEndpoint extends ApiEndpoint {
     public path = 'config';
@@ -25,19 +29,21 @@ export class LogsConfigEndpoint extends ApiEndpoint {
         }
 
         const settingsReader = read.getEnvironmentReader().getSettings();
-        const [logsSourceModeRaw, lokiBaseUrl, requiredLabelSelector, allowedRolesRaw, workspacePermissionCodeRaw, workspacePermissionModeRaw, defaultTimeRange, maxTimeWindowHours, maxLinesPerQuery, queryTimeoutMs, rateLimitQpm, externalComponentUrl] = await Promise.all([
+        const [logsSourceModeRaw, lokiBaseUrl, allowedRolesRaw, workspacePermissionCodeRaw, workspacePermissionModeRaw, defaultTimeRange, allowedLabelFiltersRaw, maxTimeWindowHours, maxLinesPerQuery, queryTimeoutMs, rateLimitQpm, externalComponentUrl, redactionDetectorsRaw, redactionRulesRaw] = await Promise.all([
             settingsReader.getValueById(SETTINGS.LOGS_SOURCE_MODE),
             settingsReader.getValueById(SETTINGS.LOKI_BASE_URL),
-            settingsReader.getValueById(SETTINGS.REQUIRED_LABEL_SELECTOR),
             settingsReader.getValueById(SETTINGS.ALLOWED_ROLES),
             settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_CODE),
             settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_MODE),
             settingsReader.getValueById(SETTINGS.DEFAULT_TIME_RANGE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_LABEL_FILTERS),
             settingsReader.getValueById(SETTINGS.MAX_TIME_WINDOW_HOURS),
             settingsReader.getValueById(SETTINGS.MAX_LINES_PER_QUERY),
             settingsReader.getValueById(SETTINGS.QUERY_TIMEOUT_MS),
             settingsReader.getValueById(SETTINGS.RATE_LIMIT_QPM),
             settingsReader.getValueById(SETTINGS.EXTERNAL_COMPONENT_URL),
+            settingsReader.getValueById(SETTINGS.REDACTION_DETECTORS),
+            settingsReader.getValueById(SETTINGS.REDACTION_RULES),
         ]);
 
         const decision = await authorizeRequestUser({
@@ -59,29 +65,36 @@ export class LogsConfigEndpoint extends ApiEndpoint {
             });
         }
 
-        const sourceMode = this.parseLogsSourceMode(logsSourceModeRaw);
-        const readinessIssues: Array<string> = [];
+        const sourceMode = parseLogsSourceMode(logsSourceModeRaw);
+        const source = resolveLogSource(sourceMode);
+        const [readinessIssues, sourceDescriptors, lokiAccess, lokiLabelScopes] = await Promise.all([
+            source.checkReadiness(read),
+            source.listSources ? source.listSources(read) : Promise.resolve([]),
+            sourceMode === 'loki' ? resolveLokiAccessScope(read, request.user.roles) : Promise.resolve(undefined),
+            sourceMode === 'loki' ? resolveLokiLabelScopes(read, request.user.roles) : Promise.resolve(undefined),
+        ]);
+        // Named sources combine the role selector map with their own base selector, so each gets its own scope.
+        const sources = lokiLabelScopes
+            ? sourceDescriptors.map((descriptor) => ({ ...descriptor, labelScope: lokiLabelScopes[descriptor.id] || null }))
+            : sourceDescriptors;
         const warnings: Array<string> = [];
-        if (sourceMode === 'loki') {
-            const baseUrl = typeof lokiBaseUrl === 'string' ? lokiBaseUrl.trim() : '';
-            const selector = typeof requiredLabelSelector === 'string' ? requiredLabelSelector.trim() : '';
-            if (!baseUrl) {
-                readinessIssues.push('Loki base URL is not configured.');
-            }
-            if (!this.isValidSelector(selector)) {
-                readinessIssues.push('Required label selector is invalid. Use a plain selector like {job="rocketchat"} with no pipelines.');
-            }
-        }
         if (typeof workspacePermissionCodeRaw === 'string' && workspacePermissionCodeRaw.trim() && workspacePermissionCodeRaw.trim() !== WORKSPACE_PERMISSIONS.VIEW_LOGS) {
             warnings.push(`workspace_permission_code is deprecated and ignored. Logs Viewer always enforces ${WORKSPACE_PERMISSIONS.VIEW_LOGS}.`);
         }
+        // Skipped rules mask nothing, so admins need to see them.
+        warnings.push(...parseRedactionRules(redactionRulesRaw, redactionDetectorsRaw).issues);
 
         return this.success({
             ok: true,
             config: {
                 lokiBaseUrl,
                 sourceMode,
+                sourceCapabilities: source.capabilities,
+                sources,
+                // Effective stream selector for the caller on the default source; null outside Loki mode.
+                labelScope: lokiAccess?.labelScope || null,
                 defaultTimeRange,
+                allowedLabelFilters: parseAllowedLabelNames(allowedLabelFiltersRaw),
                 maxTimeWindowHours,
                 maxLinesPerQuery,
                 queryTimeoutMs,
@@ -95,34 +108,10 @@ export class LogsConfigEndpoint extends ApiEndpoint {
                 readiness: {
                     ready: readinessIssues.length === 0,
                     issues: readinessIssues,
+                    // Tenant the caller's default-source Loki requests carry; null for single-tenant setups.
+                    lokiTenantId: lokiAccess?.tenantId || null,
                 },
             },
         });
     }
-
-    private parseLogsSourceMode(rawValue: unknown): 'loki' | 'app_logs' {
-        if (typeof rawValue !== 'string') {
-            return 'loki';
-        }
-
-        const normalized = rawValue.trim().toLowerCase();
-        if (normalized === 'app_logs') {
-            return 'app_logs';
-        }
-
-        return 'loki';
-    }
-
-    private isValidSelector(selector: string): boolean {
-        if (!selector) {
-            return false;
-        }
-        if (!selector.startsWith('{') || !selector.endsWith('}')) {
-            return false;
-        }
-        if (selector.includes('|') || selector.includes('\n') || selector.includes('\r')) {
-            return false;
-        }
-        return true;
-    }
 }
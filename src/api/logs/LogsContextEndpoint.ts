@@ -0,0 +1,452 @@
+import { HttpStatusCode, IHttp, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { ApiEndpoint, IApiEndpointInfo, IApiRequest, IApiResponse } from '@rocket.chat/apps-engine/definition/api';
+
+import { SETTINGS } from '../../constants';
+import {
+    authorizeRequestUser,
+    parseWorkspacePermissionCode,
+    parseWorkspacePermissionMode,
+    WorkspacePermissionMode,
+} from '../../security/accessControl';
+import { appendAuditEntry, consumeRateLimitToken, parseAllowedRoles } from '../../security/querySecurity';
+import { isRedactedValue, RedactionRule, redactFieldValues, redactLogMessage } from '../../security/redaction';
+import { parseRedactionRules } from '../../security/redactionRules';
+import { matchesLabelFilters, nsToIso } from '../../sources/logEntries';
+import { parseLogsSourceMode, resolveLogSource } from '../../sources/registry';
+import { LogEntry, LogSourceError } from '../../sources/types';
+import { parseContextRequest } from './contextValidation';
+import { buildContextWindow } from './contextWindow';
+import { LabelFilter } from './queryValidation';
+
+type SecuritySettings = {
+    allowedRoles: Array<string>;
+    workspacePermissionCode: string;
+    workspacePermissionMode: WorkspacePermissionMode;
+    rateLimitQpm: number;
+    auditRetentionDays: number;
+    auditMaxEntries: number;
+};
+
+type RedactionSettings = {
+    enabled: boolean;
+    replacement: string;
+    rules: Array<RedactionRule>;
+};
+
+// Each side of the anchor searches at most this far, and never more than half the max query window.
+const CONTEXT_LOOKAROUND_MS = 60 * 60 * 1000;
+// Extra backward lines fetched so lines sharing the anchor's timestamp do not crowd out `before`.
+const CONTEXT_ANCHOR_SLACK = 20;
+
+export class LogsContextEndpoint extends ApiEndpoint {
+    public path = 'context';
+    public authRequired = true;
+
+    public async post(
+        request: IApiRequest,
+        _endpoint: IApiEndpointInfo,
+        read: IRead,
+        _modify: IModify,
+        http: IHttp,
+        persistence: IPersistence,
+    ): Promise<IApiResponse> {
+        if (!request.user) {
+            return this.json({
+                status: HttpStatusCode.UNAUTHORIZED,
+                content: { ok: false, error: 'Authentication required.' },
+            });
+        }
+
+        const settingsReader = read.getEnvironmentReader().getSettings();
+        const [
+            logsSourceModeRaw,
+            allowedRolesRaw,
+            workspacePermissionCodeRaw,
+            workspacePermissionModeRaw,
+            enableRedactionRaw,
+            redactionReplacementRaw,
+            redactionDetectorsRaw,
+            redactionRulesRaw,
+            maxTimeWindowHours,
+            maxLinesPerQuery,
+            queryTimeoutMs,
+            rateLimitQpm,
+            auditRetentionDays,
+            auditMaxEntries,
+        ] = await Promise.all([
+            settingsReader.getValueById(SETTINGS.LOGS_SOURCE_MODE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_ROLES),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_CODE),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_MODE),
+            settingsReader.getValueById(SETTINGS.ENABLE_REDACTION),
+            settingsReader.getValueById(SETTINGS.REDACTION_REPLACEMENT),
+            settingsReader.getValueById(SETTINGS.REDACTION_DETECTORS),
+            settingsReader.getValueById(SETTINGS.REDACTION_RULES),
+            settingsReader.getValueById(SETTINGS.MAX_TIME_WINDOW_HOURS),
+            settingsReader.getValueById(SETTINGS.MAX_LINES_PER_QUERY),
+            settingsReader.getValueById(SETTINGS.QUERY_TIMEOUT_MS),
+            settingsReader.getValueById(SETTINGS.RATE_LIMIT_QPM),
+            settingsReader.getValueById(SETTINGS.AUDIT_RETENTION_DAYS),
+            settingsReader.getValueById(SETTINGS.AUDIT_MAX_ENTRIES),
+        ]);
+
+        const sourceMode = parseLogsSourceMode(logsSourceModeRaw);
+        const source = resolveLogSource(sourceMode);
+        const security: SecuritySettings = {
+            allowedRoles: parseAllowedRoles(allowedRolesRaw),
+            workspacePermissionCode: parseWorkspacePermissionCode(workspacePermissionCodeRaw),
+            workspacePermissionMode: parseWorkspacePermissionMode(workspacePermissionModeRaw),
+            rateLimitQpm: this.readNumberSetting(rateLimitQpm, 60, 1, 1000),
+            auditRetentionDays: this.readNumberSetting(auditRetentionDays, 90, 1, 365),
+            auditMaxEntries: this.readNumberSetting(auditMaxEntries, 5000, 100, 20000),
+        };
+
+        const accessDecision = await authorizeRequestUser({
+            request,
+            read,
+            http,
+            allowedRoles: security.allowedRoles,
+            workspacePermissionCode: security.workspacePermissionCode,
+            workspacePermissionMode: security.workspacePermissionMode,
+        });
+        if (!accessDecision.allowed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'context_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: accessDecision.reason || 'forbidden_role',
+                    scope: {
+                        requiredRoles: security.allowedRoles,
+                        workspacePermissionCode: security.workspacePermissionCode,
+                        workspacePermissionMode: security.workspacePermissionMode,
+                        details: accessDecision.details,
+                    },
+                },
+                security,
+            );
+
+            return this.json({
+                status: HttpStatusCode.FORBIDDEN,
+                content: {
+                    ok: false,
+                    error: 'Insufficient authorization for logs context.',
+                    reason: accessDecision.reason || 'forbidden_role',
+                },
+            });
+        }
+
+        // Context requests spend the same per-user tokens as /query.
+        const rateLimit = await consumeRateLimitToken(read, persistence, request.user.id, security.rateLimitQpm);
+        if (!rateLimit.allowed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'context_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: 'rate_limited',
+                    scope: {
+                        retryAfterSeconds: rateLimit.retryAfterSeconds,
+                        rateLimitQpm: security.rateLimitQpm,
+                    },
+                },
+                security,
+            );
+
+            return this.json({
+                status: HttpStatusCode.TOO_MANY_REQUESTS,
+                headers: {
+                    'retry-after': String(rateLimit.retryAfterSeconds || 1),
+                },
+                content: {
+                    ok: false,
+                    error: 'Rate limit exceeded for logs context.',
+                    retryAfterSeconds: rateLimit.retryAfterSeconds || 1,
+                },
+            });
+        }
+
+        const redaction: RedactionSettings = {
+            enabled: this.readBooleanSetting(enableRedactionRaw, true),
+            replacement: this.readReplacementSetting(redactionReplacementRaw, '[REDACTED]'),
+            rules: parseRedactionRules(redactionRulesRaw, redactionDetectorsRaw).rules,
+        };
+
+        const guardrails = {
+            maxTimeWindowHours: this.readNumberSetting(maxTimeWindowHours, 24, 1, 168),
+            maxLinesPerQuery: this.readNumberSetting(maxLinesPerQuery, 2000, 100, 5000),
+            queryTimeoutMs: this.readNumberSetting(queryTimeoutMs, 30000, 1000, 120000),
+        };
+
+        const parsed = parseContextRequest({
+            requestContent: request.content,
+            maxLinesPerQuery: guardrails.maxLinesPerQuery,
+        });
+        if ('error' in parsed) {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, parsed);
+        }
+
+        const context = parsed.request;
+        if (context.source && !source.listSources) {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, {
+                error: `Named sources are not supported in ${sourceMode} mode.`,
+                details: { sourceMode, source: context.source },
+            });
+        }
+
+        const namedSources = source.listSources ? await source.listSources(read) : [];
+        const selectedSource = context.source
+            ? namedSources.find((candidate) => candidate.id === context.source)
+            : namedSources[0];
+        if (selectedSource) {
+            guardrails.maxTimeWindowHours = Math.min(guardrails.maxTimeWindowHours, selectedSource.maxTimeWindowHours || guardrails.maxTimeWindowHours);
+            guardrails.maxLinesPerQuery = Math.min(guardrails.maxLinesPerQuery, selectedSource.maxLinesPerQuery || guardrails.maxLinesPerQuery);
+        }
+        const before = Math.min(context.before, guardrails.maxLinesPerQuery);
+        const after = Math.min(context.after, guardrails.maxLinesPerQuery);
+
+        // The stream labels become equality filters, so the selected line's stream is all that can match. Labels the
+        // client only saw masked are left out upstream and compared against each line's redacted labels instead.
+        const labels: Array<LabelFilter> = Object.entries(context.labels).map(([name, value]) => ({ name, op: 'eq', value }));
+        const upstreamLabels = labels.filter((filter) => !isRedactedValue(filter.name, filter.value, redaction));
+        const matchesStream = (entry: LogEntry) => matchesLabelFilters(redactFieldValues(entry.labels, redaction).values, labels);
+        const lookaroundMs = Math.min(CONTEXT_LOOKAROUND_MS, (guardrails.maxTimeWindowHours * 60 * 60 * 1000) / 2);
+        const anchorMs = Number(BigInt(context.anchor.timestampNs) / 1000000n);
+        // Tail-based sources keep the newest lines of a window, so they read a full batch to reach the anchor.
+        const forwardCapable = source.capabilities.supportsForwardQuery;
+        const backwardLimit = forwardCapable ? Math.min(guardrails.maxLinesPerQuery, before + CONTEXT_ANCHOR_SLACK) : guardrails.maxLinesPerQuery;
+        const forwardLimit = forwardCapable ? Math.max(1, after) : guardrails.maxLinesPerQuery;
+
+        const sourceContext = { http, read, appId: this.app.getID(), request, userRoles: request.user.roles };
+        const [backwardResult, forwardResult] = await Promise.all([
+            source.query(sourceContext, {
+                start: new Date(anchorMs - lookaroundMs),
+                end: new Date(anchorMs + 1),
+                limit: backwardLimit,
+                source: context.source,
+                labels: upstreamLabels,
+                direction: 'backward',
+                timeoutMs: guardrails.queryTimeoutMs,
+            }),
+            source.query(sourceContext, {
+                start: new Date(anchorMs + 1),
+                end: new Date(anchorMs + lookaroundMs),
+                limit: forwardLimit,
+                source: context.source,
+                labels: upstreamLabels,
+                direction: 'forward',
+                timeoutMs: guardrails.queryTimeoutMs,
+            }),
+        ]);
+
+        if ('error' in backwardResult || 'error' in forwardResult) {
+            const failure = 'error' in backwardResult ? backwardResult : (forwardResult as LogSourceError);
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'context_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: `${sourceMode}_error`,
+                    scope: {
+                        sourceMode,
+                        sourceId: context.source || selectedSource?.id || null,
+                        tenantId: failure.tenant || null,
+                        labelScope: failure.labelScope || null,
+                    },
+                },
+                security,
+            );
+            return this.json({
+                status: failure.status || HttpStatusCode.BAD_GATEWAY,
+                content: {
+                    ok: false,
+                    error: failure.error,
+                    details: failure.details,
+                },
+            });
+        }
+
+        const window = buildContextWindow({
+            anchor: context.anchor,
+            backward: backwardResult.entries.filter(matchesStream),
+            forward: forwardResult.entries.filter(matchesStream),
+            before,
+            after,
+        });
+        const backwardFull = backwardResult.entries.length >= backwardLimit;
+        const forwardFull = after > 0 && forwardResult.entries.length >= forwardLimit;
+
+        let redactedLines = 0;
+        let totalRedactions = 0;
+        const toResponseEntry = ({ rawTimestampNs: _rawTimestampNs, ...entry }: LogEntry, position: 'before' | 'anchor' | 'after') => {
+            const redacted = redactLogMessage(entry.message, redaction);
+            const redactedLabels = redactFieldValues(entry.labels, redaction);
+            const redactionCount = redacted.redactionCount + redactedLabels.redactionCount;
+            if (redactionCount > 0) {
+                redactedLines += 1;
+                totalRedactions += redactionCount;
+            }
+            return { ...entry, message: redacted.message, labels: redactedLabels.values, position };
+        };
+        const entries = [
+            ...window.before.map((entry) => toResponseEntry(entry, 'before')),
+            ...window.anchor.map((entry) => toResponseEntry(entry, 'anchor')),
+            ...window.after.map((entry) => toResponseEntry(entry, 'after')),
+        ];
+        const beforeMeta = {
+            requested: before,
+            returned: window.before.length,
+            truncated: window.moreBefore || backwardFull,
+            // False when a tail-based source filled its batch, so lines next to the anchor may be missing.
+            contiguous: forwardCapable || !backwardFull,
+        };
+        const afterMeta = {
+            requested: after,
+            returned: window.after.length,
+            truncated: window.moreAfter || forwardFull,
+            contiguous: forwardCapable || !forwardFull,
+        };
+
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'context',
+                userId: request.user.id,
+                outcome: 'allowed',
+                scope: {
+                    anchor: nsToIso(context.anchor.timestampNs),
+                    streamLabels: Object.keys(context.labels),
+                    before: window.before.length,
+                    anchorLines: window.anchor.length,
+                    after: window.after.length,
+                    accessMode: accessDecision.mode,
+                    sourceMode,
+                    sourceId: backwardResult.source || null,
+                    tenantId: backwardResult.tenant || null,
+                    labelScope: backwardResult.labelScope || null,
+                    redactedLines,
+                    totalRedactions,
+                },
+            },
+            security,
+        );
+
+        return this.json({
+            status: HttpStatusCode.OK,
+            content: {
+                ok: true,
+                source: sourceMode,
+                meta: {
+                    sourceId: backwardResult.source || null,
+                    anchor: {
+                        timestamp: nsToIso(context.anchor.timestampNs),
+                        precision: context.anchor.precision,
+                        found: window.anchor.length > 0,
+                    },
+                    labels: context.labels,
+                    start: new Date(anchorMs - lookaroundMs).toISOString(),
+                    end: new Date(anchorMs + lookaroundMs).toISOString(),
+                    before: beforeMeta,
+                    after: afterMeta,
+                    redaction: {
+                        enabled: redaction.enabled,
+                        redactedLines,
+                        totalRedactions,
+                    },
+                    guardrails,
+                },
+                entries,
+            },
+        });
+    }
+
+    private readNumberSetting(value: unknown, fallback: number, min: number, max: number): number {
+        const parsed = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(parsed)) {
+            return fallback;
+        }
+        return Math.min(max, Math.max(min, Math.floor(parsed)));
+    }
+
+    private readBooleanSetting(value: unknown, fallback: boolean): boolean {
+        if (typeof value === 'boolean') {
+            return value;
+        }
+
+        if (typeof value === 'string') {
+            const normalized = value.trim().toLowerCase();
+            if (normalized === 'true') {
+                return true;
+            }
+            if (normalized === 'false') {
+                return false;
+            }
+        }
+
+        return fallback;
+    }
+
+    private readReplacementSetting(value: unknown, fallback: string): string {
+        if (typeof value !== 'string') {
+            return fallback;
+        }
+
+        const trimmed = value.trim();
+        return trimmed || fallback;
+    }
+
+    private async rejectInvalidQuery(
+        read: IRead,
+        persistence: IPersistence,
+        userId: string,
+        security: SecuritySettings,
+        failure: { error: string; details?: unknown },
+    ): Promise<IApiResponse> {
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'context_denied',
+                userId,
+                outcome: 'denied',
+                reason: 'invalid_query',
+                scope: { details: failure.details },
+            },
+            security,
+        );
+        return this.json({
+            status: HttpStatusCode.BAD_REQUEST,
+            content: {
+                ok: false,
+                error: failure.error,
+                details: failure.details,
+            },
+        });
+    }
+
+    private async audit(
+        read: IRead,
+        persistence: IPersistence,
+        entry: {
+            action: 'context' | 'context_denied';
+            userId: string;
+            outcome: 'allowed' | 'denied';
+            reason?: string;
+            scope?: Record<string, unknown>;
+        },
+        security: SecuritySettings,
+    ): Promise<void> {
+        try {
+            await appendAuditEntry(read, persistence, entry, security.auditRetentionDays, security.auditMaxEntries);
+        } catch {
+            // Audit failures should not block context responses.
+        }
+    }
+}
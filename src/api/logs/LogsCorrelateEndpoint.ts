@@ -0,0 +1,436 @@
+import { HttpStatusCode, IHttp, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { ApiEndpoint, IApiEndpointInfo, IApiRequest, IApiResponse } from '@rocket.chat/apps-engine/definition/api';
+
+import { SETTINGS } from '../../constants';
+import {
+    authorizeRequestUser,
+    parseWorkspacePermissionCode,
+    parseWorkspacePermissionMode,
+    WorkspacePermissionMode,
+} from '../../security/accessControl';
+import { appendAuditEntry, consumeRateLimitToken, parseAllowedRoles } from '../../security/querySecurity';
+import { RedactionRule, redactFieldValues, redactLogMessage } from '../../security/redaction';
+import { parseRedactionRules } from '../../security/redactionRules';
+import { detectCorrelationIds, parseCorrelationConfig } from '../../sources/correlationIds';
+import { parseLogsSourceMode, resolveLogSource } from '../../sources/registry';
+import { parseCorrelationRequest } from './correlationValidation';
+import { hashStreamLabels, sortEntriesForPaging } from './queryCursor';
+import { checkQueryGuardrails } from './queryValidation';
+
+type Guardrails = {
+    maxTimeWindowHours: number;
+    maxLinesPerQuery: number;
+    queryTimeoutMs: number;
+};
+
+type SecuritySettings = {
+    allowedRoles: Array<string>;
+    workspacePermissionCode: string;
+    workspacePermissionMode: WorkspacePermissionMode;
+    rateLimitQpm: number;
+    auditRetentionDays: number;
+    auditMaxEntries: number;
+};
+
+type RedactionSettings = {
+    enabled: boolean;
+    replacement: string;
+    rules: Array<RedactionRule>;
+};
+
+export class LogsCorrelateEndpoint extends ApiEndpoint {
+    public path = 'correlate';
+    public authRequired = true;
+
+    public async post(
+        request: IApiRequest,
+        _endpoint: IApiEndpointInfo,
+        read: IRead,
+        _modify: IModify,
+        http: IHttp,
+        persistence: IPersistence,
+    ): Promise<IApiResponse> {
+        if (!request.user) {
+            return this.json({
+                status: HttpStatusCode.UNAUTHORIZED,
+                content: { ok: false, error: 'Authentication required.' },
+            });
+        }
+
+        // Pull all runtime settings once; these drive auth, source selection, and guardrails.
+        const settingsReader = read.getEnvironmentReader().getSettings();
+        const [
+            logsSourceModeRaw,
+            allowedRolesRaw,
+            workspacePermissionCodeRaw,
+            workspacePermissionModeRaw,
+            enableRedactionRaw,
+            redactionReplacementRaw,
+            redactionDetectorsRaw,
+            redactionRulesRaw,
+            defaultTimeRange,
+            correlationFieldsRaw,
+            correlationIdPatternRaw,
+            maxTimeWindowHours,
+            maxLinesPerQuery,
+            queryTimeoutMs,
+            rateLimitQpm,
+            auditRetentionDays,
+            auditMaxEntries,
+        ] = await Promise.all([
+            settingsReader.getValueById(SETTINGS.LOGS_SOURCE_MODE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_ROLES),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_CODE),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_MODE),
+            settingsReader.getValueById(SETTINGS.ENABLE_REDACTION),
+            settingsReader.getValueById(SETTINGS.REDACTION_REPLACEMENT),
+            settingsReader.getValueById(SETTINGS.REDACTION_DETECTORS),
+            settingsReader.getValueById(SETTINGS.REDACTION_RULES),
+            settingsReader.getValueById(SETTINGS.DEFAULT_TIME_RANGE),
+            settingsReader.getValueById(SETTINGS.CORRELATION_FIELDS),
+            settingsReader.getValueById(SETTINGS.CORRELATION_ID_PATTERN),
+            settingsReader.getValueById(SETTINGS.MAX_TIME_WINDOW_HOURS),
+            settingsReader.getValueById(SETTINGS.MAX_LINES_PER_QUERY),
+            settingsReader.getValueById(SETTINGS.QUERY_TIMEOUT_MS),
+            settingsReader.getValueById(SETTINGS.RATE_LIMIT_QPM),
+            settingsReader.getValueById(SETTINGS.AUDIT_RETENTION_DAYS),
+            settingsReader.getValueById(SETTINGS.AUDIT_MAX_ENTRIES),
+        ]);
+
+        const sourceMode = parseLogsSourceMode(logsSourceModeRaw);
+        const source = resolveLogSource(sourceMode);
+
+        const security: SecuritySettings = {
+            allowedRoles: parseAllowedRoles(allowedRolesRaw),
+            workspacePermissionCode: parseWorkspacePermissionCode(workspacePermissionCodeRaw),
+            workspacePermissionMode: parseWorkspacePermissionMode(workspacePermissionModeRaw),
+            rateLimitQpm: this.readNumberSetting(rateLimitQpm, 60, 1, 1000),
+            auditRetentionDays: this.readNumberSetting(auditRetentionDays, 90, 1, 365),
+            auditMaxEntries: this.readNumberSetting(auditMaxEntries, 5000, 100, 20000),
+        };
+
+        const accessDecision = await authorizeRequestUser({
+            request,
+            read,
+            http,
+            allowedRoles: security.allowedRoles,
+            workspacePermissionCode: security.workspacePermissionCode,
+            workspacePermissionMode: security.workspacePermissionMode,
+        });
+        if (!accessDecision.allowed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'correlate_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: accessDecision.reason || 'forbidden_role',
+                    scope: {
+                        requiredRoles: security.allowedRoles,
+                        workspacePermissionCode: security.workspacePermissionCode,
+                        workspacePermissionMode: security.workspacePermissionMode,
+                        details: accessDecision.details,
+                    },
+                },
+                security,
+            );
+
+            return this.json({
+                status: HttpStatusCode.FORBIDDEN,
+                content: {
+                    ok: false,
+                    error: 'Insufficient authorization for logs correlation.',
+                    reason: accessDecision.reason || 'forbidden_role',
+                },
+            });
+        }
+
+        // Correlation lookups spend the same per-user tokens as /query.
+        const rateLimit = await consumeRateLimitToken(read, persistence, request.user.id, security.rateLimitQpm);
+        if (!rateLimit.allowed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'correlate_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: 'rate_limited',
+                    scope: {
+                        retryAfterSeconds: rateLimit.retryAfterSeconds,
+                        rateLimitQpm: security.rateLimitQpm,
+                    },
+                },
+                security,
+            );
+
+            return this.json({
+                status: HttpStatusCode.TOO_MANY_REQUESTS,
+                headers: {
+                    'retry-after': String(rateLimit.retryAfterSeconds || 1),
+                },
+                content: {
+                    ok: false,
+                    error: 'Rate limit exceeded for logs correlation.',
+                    retryAfterSeconds: rateLimit.retryAfterSeconds || 1,
+                },
+            });
+        }
+
+        const guardrails: Guardrails = {
+            maxTimeWindowHours: this.readNumberSetting(maxTimeWindowHours, 24, 1, 168),
+            maxLinesPerQuery: this.readNumberSetting(maxLinesPerQuery, 2000, 100, 5000),
+            queryTimeoutMs: this.readNumberSetting(queryTimeoutMs, 30000, 1000, 120000),
+        };
+
+        const redaction: RedactionSettings = {
+            enabled: this.readBooleanSetting(enableRedactionRaw, true),
+            replacement: this.readReplacementSetting(redactionReplacementRaw, '[REDACTED]'),
+            rules: parseRedactionRules(redactionRulesRaw, redactionDetectorsRaw).rules,
+        };
+
+        const parsed = parseCorrelationRequest({
+            requestContent: request.content,
+            defaultTimeRange: typeof defaultTimeRange === 'string' ? defaultTimeRange : '15m',
+            maxTimeWindowHours: guardrails.maxTimeWindowHours,
+            maxLinesPerQuery: guardrails.maxLinesPerQuery,
+        });
+        if ('error' in parsed) {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, parsed);
+        }
+
+        const { id, query: normalized } = parsed.request;
+        const namedSources = source.listSources ? await source.listSources(read) : [];
+        if (normalized.source && !source.listSources) {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, {
+                error: `Named sources are not supported in ${sourceMode} mode.`,
+                details: { sourceMode, source: normalized.source },
+            });
+        }
+
+        // Unknown ids fall through to the adapter, which reports the available sources.
+        const selectedSource = normalized.source
+            ? namedSources.find((candidate) => candidate.id === normalized.source)
+            : namedSources[0];
+        if (selectedSource) {
+            guardrails.maxTimeWindowHours = Math.min(guardrails.maxTimeWindowHours, selectedSource.maxTimeWindowHours || guardrails.maxTimeWindowHours);
+            guardrails.maxLinesPerQuery = Math.min(guardrails.maxLinesPerQuery, selectedSource.maxLinesPerQuery || guardrails.maxLinesPerQuery);
+
+            const guardrailError = checkQueryGuardrails(normalized, guardrails);
+            if (guardrailError) {
+                return this.rejectInvalidQuery(read, persistence, request.user.id, security, {
+                    error: guardrailError.error,
+                    details: { source: selectedSource.id },
+                });
+            }
+        }
+
+        // No label filters: the adapter's role scoping alone decides which streams are searched. The ID is a quoted
+        // phrase, and forward-capable sources keep the oldest lines when the batch fills.
+        const queryResult = await source.query(
+            { http, read, appId: this.app.getID(), request, userRoles: request.user.roles },
+            {
+                start: normalized.start,
+                end: normalized.end,
+                limit: normalized.limit,
+                search: `"${id}"`,
+                source: normalized.source,
+                direction: 'forward',
+                timeoutMs: guardrails.queryTimeoutMs,
+            },
+        );
+
+        if ('error' in queryResult) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'correlate_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: `${sourceMode}_error`,
+                    scope: {
+                        sourceMode,
+                        sourceId: normalized.source || selectedSource?.id || null,
+                        tenantId: queryResult.tenant || null,
+                        labelScope: queryResult.labelScope || null,
+                    },
+                },
+                security,
+            );
+            return this.json({
+                status: queryResult.status || HttpStatusCode.BAD_GATEWAY,
+                content: {
+                    ok: false,
+                    error: queryResult.error,
+                    details: queryResult.details,
+                },
+            });
+        }
+
+        // Oldest first, as a timeline.
+        const matching = sortEntriesForPaging(queryResult.entries.filter((entry) => entry.message.includes(id))).reverse();
+        const truncated = queryResult.entries.length >= normalized.limit;
+        const streams = new Set(matching.map((entry) => hashStreamLabels(entry.labels)));
+
+        let redactedLines = 0;
+        let totalRedactions = 0;
+        const correlation = parseCorrelationConfig(correlationFieldsRaw, correlationIdPatternRaw);
+        const entries = matching.map(({ rawTimestampNs: _rawTimestampNs, ...entry }) => {
+            const redacted = redactLogMessage(entry.message, redaction);
+            const redactedLabels = redactFieldValues(entry.labels, redaction);
+            const redactionCount = redacted.redactionCount + redactedLabels.redactionCount;
+            if (redactionCount > 0) {
+                redactedLines += 1;
+                totalRedactions += redactionCount;
+            }
+            const correlationIds = detectCorrelationIds(redacted.message, correlation);
+            return {
+                ...entry,
+                message: redacted.message,
+                labels: redactedLabels.values,
+                ...(correlationIds.length > 0 ? { correlationIds } : {}),
+            };
+        });
+
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'correlate',
+                userId: request.user.id,
+                outcome: 'allowed',
+                scope: {
+                    start: normalized.start.toISOString(),
+                    end: normalized.end.toISOString(),
+                    returned: entries.length,
+                    streams: streams.size,
+                    truncated,
+                    accessMode: accessDecision.mode,
+                    sourceMode,
+                    sourceId: queryResult.source || null,
+                    tenantId: queryResult.tenant || null,
+                    labelScope: queryResult.labelScope || null,
+                    redactedLines,
+                    totalRedactions,
+                },
+            },
+            security,
+        );
+
+        return this.json({
+            status: HttpStatusCode.OK,
+            content: {
+                ok: true,
+                source: sourceMode,
+                meta: {
+                    query: queryResult.query,
+                    sourceId: queryResult.source || null,
+                    id,
+                    start: normalized.start.toISOString(),
+                    end: normalized.end.toISOString(),
+                    requestedLimit: normalized.limit,
+                    returned: entries.length,
+                    streams: streams.size,
+                    truncated,
+                    // Which end of the timeline a full batch cut: tail-based sources keep the newest lines, so they lose the start.
+                    truncatedAt: truncated ? (source.capabilities.supportsForwardQuery ? 'end' : 'start') : null,
+                    redaction: {
+                        enabled: redaction.enabled,
+                        redactedLines,
+                        totalRedactions,
+                    },
+                },
+                entries,
+            },
+        });
+    }
+
+    private readNumberSetting(value: unknown, fallback: number, min: number, max: number): number {
+        const parsed = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(parsed)) {
+            return fallback;
+        }
+        return Math.min(max, Math.max(min, Math.floor(parsed)));
+    }
+
+    private readBooleanSetting(value: unknown, fallback: boolean): boolean {
+        if (typeof value === 'boolean') {
+            return value;
+        }
+
+        if (typeof value === 'string') {
+            const normalized = value.trim().toLowerCase();
+            if (normalized === 'true') {
+                return true;
+            }
+            if (normalized === 'false') {
+                return false;
+            }
+        }
+
+        return fallback;
+    }
+
+    private readReplacementSetting(value: unknown, fallback: string): string {
+        if (typeof value !== 'string') {
+            return fallback;
+        }
+
+        const trimmed = value.trim();
+        return trimmed || fallback;
+    }
+
+    private badRequest(message: string, details?: unknown): IApiResponse {
+        return this.json({
+            status: HttpStatusCode.BAD_REQUEST,
+            content: {
+                ok: false,
+                error: message,
+                details,
+            },
+        });
+    }
+
+    private async rejectInvalidQuery(
+        read: IRead,
+        persistence: IPersistence,
+        userId: string,
+        security: SecuritySettings,
+        failure: { error: string; details?: unknown },
+    ): Promise<IApiResponse> {
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'correlate_denied',
+                userId,
+                outcome: 'denied',
+                reason: 'invalid_query',
+                scope: { details: failure.details },
+            },
+            security,
+        );
+        return this.badRequest(failure.error, failure.details);
+    }
+
+    private async audit(
+        read: IRead,
+        persistence: IPersistence,
+        entry: {
+            action: 'correlate' | 'correlate_denied';
+            userId: string;
+            outcome: 'allowed' | 'denied';
+            reason?: string;
+            scope?: Record<string, unknown>;
+        },
+        security: SecuritySettings,
+    ): Promise<void> {
+        try {
+            await appendAuditEntry(read, persistence, entry, security.auditRetentionDays, security.auditMaxEntries);
+        } catch {
+            // Audit failures should not block correlation responses.
+        }
+    }
+}
@@ -0,0 +1,115 @@
+import { HttpStatusCode, IHttp, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { ApiEndpoint, IApiEndpointInfo, IApiRequest, IApiResponse } from '@rocket.chat/apps-engine/definition/api';
+
+import { SETTINGS } from '../../constants';
+import {
+    authorizeRequestUser,
+    parseWorkspacePermissionCode,
+    parseWorkspacePermissionMode,
+    resolveWorkspaceOrigin,
+} from '../../security/accessControl';
+import { consumeRateLimitToken, parseAllowedRoles } from '../../security/querySecurity';
+import { parseEntitiesRequest } from './entitiesValidation';
+import { resolveEntityLinks } from './entityLinks';
+
+export class LogsEntitiesEndpoint extends ApiEndpoint {
+    public path = 'entities';
+    public authRequired = true;
+
+    public async post(
+        request: IApiRequest,
+        _endpoint: IApiEndpointInfo,
+        read: IRead,
+        _modify: IModify,
+        http: IHttp,
+        persistence: IPersistence,
+    ): Promise<IApiResponse> {
+        if (!request.user) {
+            return this.json({
+                status: HttpStatusCode.UNAUTHORIZED,
+                content: { ok: false, error: 'Authentication required.' },
+            });
+        }
+
+        const settingsReader = read.getEnvironmentReader().getSettings();
+        const [allowedRolesRaw, workspacePermissionCodeRaw, workspacePermissionModeRaw, rateLimitQpmRaw] = await Promise.all([
+            settingsReader.getValueById(SETTINGS.ALLOWED_ROLES),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_CODE),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_MODE),
+            settingsReader.getValueById(SETTINGS.RATE_LIMIT_QPM),
+        ]);
+
+        const decision = await authorizeRequestUser({
+            request,
+            read,
+            http,
+            allowedRoles: parseAllowedRoles(allowedRolesRaw),
+            workspacePermissionCode: parseWorkspacePermissionCode(workspacePermissionCodeRaw),
+            workspacePermissionMode: parseWorkspacePermissionMode(workspacePermissionModeRaw),
+        });
+        if (!decision.allowed) {
+            return this.json({
+                status: HttpStatusCode.FORBIDDEN,
+                content: {
+                    ok: false,
+                    error: 'Insufficient authorization for logs entity lookup.',
+                    reason: decision.reason,
+                },
+            });
+        }
+
+        // Lookups get their own bucket so resolving links after each query does not eat into query tokens.
+        const rateLimit = await consumeRateLimitToken(read, persistence, `entities:${request.user.id}`, this.readNumberSetting(rateLimitQpmRaw, 60, 1, 1000));
+        if (!rateLimit.allowed) {
+            return this.json({
+                status: HttpStatusCode.TOO_MANY_REQUESTS,
+                headers: {
+                    'retry-after': String(rateLimit.retryAfterSeconds || 1),
+                },
+                content: {
+                    ok: false,
+                    error: 'Rate limit exceeded for logs entity lookup.',
+                    retryAfterSeconds: rateLimit.retryAfterSeconds || 1,
+                },
+            });
+        }
+
+        const parsed = parseEntitiesRequest(request.content);
+        if ('error' in parsed) {
+            return this.json({
+                status: HttpStatusCode.BAD_REQUEST,
+                content: {
+                    ok: false,
+                    error: parsed.error,
+                    details: parsed.details,
+                },
+            });
+        }
+
+        const workspaceOrigin = await resolveWorkspaceOrigin(read, request.headers);
+        const resolved = await resolveEntityLinks(read, request.user.id, parsed.request, workspaceOrigin);
+        const requested = parsed.request.rooms.length + parsed.request.users.length + parsed.request.usernames.length + parsed.request.messages.length;
+
+        return this.success({
+            ok: true,
+            entities: {
+                rooms: resolved.rooms,
+                users: resolved.users,
+                messages: resolved.messages,
+            },
+            meta: {
+                requested,
+                unresolved: resolved.unresolved,
+                workspaceOrigin: workspaceOrigin || null,
+            },
+        });
+    }
+
+    private readNumberSetting(value: unknown, fallback: number, min: number, max: number): number {
+        const parsed = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(parsed)) {
+            return fallback;
+        }
+        return Math.min(max, Math.max(min, Math.floor(parsed)));
+    }
+}
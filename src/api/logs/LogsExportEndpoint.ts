@@ -0,0 +1,416 @@
+import { HttpStatusCode, IHttp, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { ApiEndpoint, IApiEndpointInfo, IApiRequest, IApiResponse } from '@rocket.chat/apps-engine/definition/api';
+
+import { SETTINGS } from '../../constants';
+import {
+    authorizeRequestUser,
+    parseWorkspacePermissionCode,
+    parseWorkspacePermissionMode,
+    WorkspacePermissionMode,
+} from '../../security/accessControl';
+import { appendAuditEntry, consumeRateLimitToken, parseAllowedRoles } from '../../security/querySecurity';
+import { RedactionRule } from '../../security/redaction';
+import { parseRedactionRules } from '../../security/redactionRules';
+import { parseLogsSourceMode, resolveLogSource } from '../../sources/registry';
+import { collectExportEntries, ExportGuardrails, redactExportLines } from './exportCollector';
+import { ExportManifest, formatExport } from './exportFormat';
+import { parseExportRequest } from './exportValidation';
+import { formatLevelFilter, parseAllowedLabelNames } from './queryValidation';
+
+type SecuritySettings = {
+    allowedRoles: Array<string>;
+    workspacePermissionCode: string;
+    workspacePermissionMode: WorkspacePermissionMode;
+    rateLimitQpm: number;
+    auditRetentionDays: number;
+    auditMaxEntries: number;
+};
+
+type RedactionSettings = {
+    enabled: boolean;
+    replacement: string;
+    rules: Array<RedactionRule>;
+};
+
+/**
+ * Re-runs a validated query over a window that may exceed the interactive limits: the window is read in chunks of at
+ * most `max_time_window_hours`, each paged in batches of at most `max_lines_per_query`, until `export_max_lines`.
+ * Apps-Engine buffers responses, so the file is returned in one body with its manifest first.
+ */
+export class LogsExportEndpoint extends ApiEndpoint {
+    public path = 'export';
+    public authRequired = true;
+
+    public async post(
+        request: IApiRequest,
+        _endpoint: IApiEndpointInfo,
+        read: IRead,
+        _modify: IModify,
+        http: IHttp,
+        persistence: IPersistence,
+    ): Promise<IApiResponse> {
+        if (!request.user) {
+            return this.json({
+                status: HttpStatusCode.UNAUTHORIZED,
+                content: { ok: false, error: 'Authentication required.' },
+            });
+        }
+
+        const settingsReader = read.getEnvironmentReader().getSettings();
+        const [
+            logsSourceModeRaw,
+            allowedRolesRaw,
+            workspacePermissionCodeRaw,
+            workspacePermissionModeRaw,
+            enableRedactionRaw,
+            redactionReplacementRaw,
+            redactionDetectorsRaw,
+            redactionRulesRaw,
+            defaultTimeRange,
+            allowedLabelFiltersRaw,
+            maxTimeWindowHours,
+            maxLinesPerQuery,
+            queryTimeoutMs,
+            exportMaxWindowHours,
+            exportMaxLines,
+            rateLimitQpm,
+            auditRetentionDays,
+            auditMaxEntries,
+        ] = await Promise.all([
+            settingsReader.getValueById(SETTINGS.LOGS_SOURCE_MODE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_ROLES),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_CODE),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_MODE),
+            settingsReader.getValueById(SETTINGS.ENABLE_REDACTION),
+            settingsReader.getValueById(SETTINGS.REDACTION_REPLACEMENT),
+            settingsReader.getValueById(SETTINGS.REDACTION_DETECTORS),
+            settingsReader.getValueById(SETTINGS.REDACTION_RULES),
+            settingsReader.getValueById(SETTINGS.DEFAULT_TIME_RANGE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_LABEL_FILTERS),
+            settingsReader.getValueById(SETTINGS.MAX_TIME_WINDOW_HOURS),
+            settingsReader.getValueById(SETTINGS.MAX_LINES_PER_QUERY),
+            settingsReader.getValueById(SETTINGS.QUERY_TIMEOUT_MS),
+            settingsReader.getValueById(SETTINGS.EXPORT_MAX_WINDOW_HOURS),
+            settingsReader.getValueById(SETTINGS.EXPORT_MAX_LINES),
+            settingsReader.getValueById(SETTINGS.RATE_LIMIT_QPM),
+            settingsReader.getValueById(SETTINGS.AUDIT_RETENTION_DAYS),
+            settingsReader.getValueById(SETTINGS.AUDIT_MAX_ENTRIES),
+        ]);
+
+        const sourceMode = parseLogsSourceMode(logsSourceModeRaw);
+        const source = resolveLogSource(sourceMode);
+
+        const security: SecuritySettings = {
+            allowedRoles: parseAllowedRoles(allowedRolesRaw),
+            workspacePermissionCode: parseWorkspacePermissionCode(workspacePermissionCodeRaw),
+            workspacePermissionMode: parseWorkspacePermissionMode(workspacePermissionModeRaw),
+            rateLimitQpm: this.readNumberSetting(rateLimitQpm, 60, 1, 1000),
+            auditRetentionDays: this.readNumberSetting(auditRetentionDays, 90, 1, 365),
+            auditMaxEntries: this.readNumberSetting(auditMaxEntries, 5000, 100, 20000),
+        };
+
+        const accessDecision = await authorizeRequestUser({
+            request,
+            read,
+            http,
+            allowedRoles: security.allowedRoles,
+            workspacePermissionCode: security.workspacePermissionCode,
+            workspacePermissionMode: security.workspacePermissionMode,
+        });
+        if (!accessDecision.allowed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'export_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: accessDecision.reason || 'forbidden_role',
+                    scope: {
+                        requiredRoles: security.allowedRoles,
+                        workspacePermissionCode: security.workspacePermissionCode,
+                        workspacePermissionMode: security.workspacePermissionMode,
+                        details: accessDecision.details,
+                    },
+                },
+                security,
+            );
+
+            return this.json({
+                status: HttpStatusCode.FORBIDDEN,
+                content: {
+                    ok: false,
+                    error: 'Insufficient authorization for logs export.',
+                    reason: accessDecision.reason || 'forbidden_role',
+                },
+            });
+        }
+
+        // One token per export, from the same bucket as /query, however many upstream batches it reads.
+        const rateLimit = await consumeRateLimitToken(read, persistence, request.user.id, security.rateLimitQpm);
+        if (!rateLimit.allowed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'export_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: 'rate_limited',
+                    scope: {
+                        retryAfterSeconds: rateLimit.retryAfterSeconds,
+                        rateLimitQpm: security.rateLimitQpm,
+                    },
+                },
+                security,
+            );
+
+            return this.json({
+                status: HttpStatusCode.TOO_MANY_REQUESTS,
+                headers: {
+                    'retry-after': String(rateLimit.retryAfterSeconds || 1),
+                },
+                content: {
+                    ok: false,
+                    error: 'Rate limit exceeded for logs export.',
+                    retryAfterSeconds: rateLimit.retryAfterSeconds || 1,
+                },
+            });
+        }
+
+        const guardrails: ExportGuardrails = {
+            maxTimeWindowHours: this.readNumberSetting(maxTimeWindowHours, 24, 1, 168),
+            maxLinesPerQuery: this.readNumberSetting(maxLinesPerQuery, 2000, 100, 5000),
+            queryTimeoutMs: this.readNumberSetting(queryTimeoutMs, 30000, 1000, 120000),
+        };
+
+        const redaction: RedactionSettings = {
+            enabled: this.readBooleanSetting(enableRedactionRaw, true),
+            replacement: this.readReplacementSetting(redactionReplacementRaw, '[REDACTED]'),
+            rules: parseRedactionRules(redactionRulesRaw, redactionDetectorsRaw).rules,
+        };
+
+        const parsed = parseExportRequest({
+            requestContent: request.content,
+            defaultTimeRange: typeof defaultTimeRange === 'string' ? defaultTimeRange : '15m',
+            maxExportWindowHours: this.readNumberSetting(exportMaxWindowHours, 168, 1, 720),
+            maxExportLines: this.readNumberSetting(exportMaxLines, 20000, 100, 100000),
+            allowedLabelNames: parseAllowedLabelNames(allowedLabelFiltersRaw),
+        });
+        if ('error' in parsed) {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, parsed);
+        }
+
+        const exportRequest = parsed.request;
+        const normalized = exportRequest.query;
+        const namedSources = source.listSources ? await source.listSources(read) : [];
+        if (normalized.source && !source.listSources) {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, {
+                error: `Named sources are not supported in ${sourceMode} mode.`,
+                details: { sourceMode, source: normalized.source },
+            });
+        }
+
+        // Unknown ids fall through to the adapter. Per-source guardrails shrink chunks and batches, not the export window.
+        const selectedSource = normalized.source
+            ? namedSources.find((candidate) => candidate.id === normalized.source)
+            : namedSources[0];
+        if (selectedSource) {
+            guardrails.maxTimeWindowHours = Math.min(guardrails.maxTimeWindowHours, selectedSource.maxTimeWindowHours || guardrails.maxTimeWindowHours);
+            guardrails.maxLinesPerQuery = Math.min(guardrails.maxLinesPerQuery, selectedSource.maxLinesPerQuery || guardrails.maxLinesPerQuery);
+        }
+
+        const collected = await collectExportEntries(
+            source,
+            { http, read, appId: this.app.getID(), request, userRoles: request.user.roles },
+            normalized,
+            guardrails,
+        );
+        if ('error' in collected) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'export_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: `${sourceMode}_error`,
+                    scope: {
+                        format: exportRequest.format,
+                        sourceMode,
+                        sourceId: normalized.source || selectedSource?.id || null,
+                        tenantId: collected.tenant || null,
+                        labelScope: collected.labelScope || null,
+                    },
+                },
+                security,
+            );
+            return this.json({
+                status: collected.status || HttpStatusCode.BAD_GATEWAY,
+                content: {
+                    ok: false,
+                    error: collected.error,
+                    details: collected.details,
+                },
+            });
+        }
+
+        const { lines, redactedLines, totalRedactions } = redactExportLines(collected.entries, normalized.parser, redaction);
+
+        const generatedAt = new Date();
+        const manifest: ExportManifest = {
+            generatedAt: generatedAt.toISOString(),
+            requester: { id: request.user.id, username: request.user.username || null },
+            format: exportRequest.format,
+            sourceMode,
+            sourceId: collected.source || null,
+            query: collected.query,
+            selector: collected.labelScope?.selector || null,
+            tenantId: collected.tenant || null,
+            window: { start: normalized.start.toISOString(), end: normalized.end.toISOString() },
+            filters: {
+                level: formatLevelFilter(normalized.levels),
+                search: normalized.search || null,
+                labels: normalized.labels || [],
+                parser: normalized.parser || null,
+                fields: normalized.fields || [],
+            },
+            lines: lines.length,
+            truncated: collected.truncated,
+            chunks: collected.chunks,
+            requests: collected.requests,
+            redaction: { enabled: redaction.enabled, redactedLines, totalRedactions },
+        };
+        const formatted = formatExport(exportRequest.format, manifest, lines);
+
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'export',
+                userId: request.user.id,
+                outcome: 'allowed',
+                scope: {
+                    format: exportRequest.format,
+                    start: manifest.window.start,
+                    end: manifest.window.end,
+                    level: manifest.filters.level,
+                    searchProvided: Boolean(normalized.search),
+                    labelFilters: manifest.filters.labels,
+                    parser: manifest.filters.parser,
+                    fieldFilters: manifest.filters.fields,
+                    returned: lines.length,
+                    truncated: collected.truncated,
+                    chunks: collected.chunks,
+                    requests: collected.requests,
+                    accessMode: accessDecision.mode,
+                    sourceMode,
+                    sourceId: manifest.sourceId,
+                    tenantId: manifest.tenantId,
+                    labelScope: collected.labelScope || null,
+                    redactedLines,
+                    totalRedactions,
+                },
+            },
+            security,
+        );
+
+        const stamp = generatedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+        return {
+            status: HttpStatusCode.OK,
+            headers: {
+                'content-type': formatted.contentType,
+                'content-disposition': `attachment; filename="logs-export-${stamp}.${formatted.extension}"`,
+                'cache-control': 'no-store',
+            },
+            content: formatted.body,
+        };
+    }
+
+    private readNumberSetting(value: unknown, fallback: number, min: number, max: number): number {
+        const parsed = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(parsed)) {
+            return fallback;
+        }
+        return Math.min(max, Math.max(min, Math.floor(parsed)));
+    }
+
+    private readBooleanSetting(value: unknown, fallback: boolean): boolean {
+        if (typeof value === 'boolean') {
+            return value;
+        }
+
+        if (typeof value === 'string') {
+            const normalized = value.trim().toLowerCase();
+            if (normalized === 'true') {
+                return true;
+            }
+            if (normalized === 'false') {
+                return false;
+            }
+        }
+
+        return fallback;
+    }
+
+    private readReplacementSetting(value: unknown, fallback: string): string {
+        if (typeof value !== 'string') {
+            return fallback;
+        }
+
+        const trimmed = value.trim();
+        return trimmed || fallback;
+    }
+
+    private badRequest(message: string, details?: unknown): IApiResponse {
+        return this.json({
+            status: HttpStatusCode.BAD_REQUEST,
+            content: {
+                ok: false,
+                error: message,
+                details,
+            },
+        });
+    }
+
+    private async rejectInvalidQuery(
+        read: IRead,
+        persistence: IPersistence,
+        userId: string,
+        security: SecuritySettings,
+        failure: { error: string; details?: unknown },
+    ): Promise<IApiResponse> {
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'export_denied',
+                userId,
+                outcome: 'denied',
+                reason: 'invalid_query',
+                scope: { details: failure.details },
+            },
+            security,
+        );
+        return this.badRequest(failure.error, failure.details);
+    }
+
+    private async audit(
+        read: IRead,
+        persistence: IPersistence,
+        entry: {
+            action: 'export' | 'export_denied';
+            userId: string;
+            outcome: 'allowed' | 'denied';
+            reason?: string;
+            scope?: Record<string, unknown>;
+        },
+        security: SecuritySettings,
+    ): Promise<void> {
+        try {
+            await appendAuditEntry(read, persistence, entry, security.auditRetentionDays, security.auditMaxEntries);
+        } catch {
+            // Audit failures should not block the export.
+        }
+    }
+}
@@ -0,0 +1,343 @@
+import { HttpStatusCode, IHttp, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { ApiEndpoint, IApiEndpointInfo, IApiRequest, IApiResponse } from '@rocket.chat/apps-engine/definition/api';
+
+import { SETTINGS } from '../../constants';
+import {
+    authorizeRequestUser,
+    parseWorkspacePermissionCode,
+    parseWorkspacePermissionMode,
+    WorkspacePermissionMode,
+} from '../../security/accessControl';
+import { appendAuditEntry, consumeRateLimitToken, parseAllowedRoles } from '../../security/querySecurity';
+import { queryLokiHistogram } from '../../sources/lokiSource';
+import { parseLogsSourceMode, resolveLogSource } from '../../sources/registry';
+import { buildHistogramBuckets, chooseHistogramStepSeconds, emptyHistogramCounts } from './histogramBuckets';
+import { formatLevelFilter, parseAllowedLabelNames, parseAndNormalizeQuery } from './queryValidation';
+
+type SecuritySettings = {
+    allowedRoles: Array<string>;
+    workspacePermissionCode: string;
+    workspacePermissionMode: WorkspacePermissionMode;
+    rateLimitQpm: number;
+    auditRetentionDays: number;
+    auditMaxEntries: number;
+};
+
+export class LogsHistogramEndpoint extends ApiEndpoint {
+    public path = 'histogram';
+    public authRequired = true;
+
+    public async post(
+        request: IApiRequest,
+        _endpoint: IApiEndpointInfo,
+        read: IRead,
+        _modify: IModify,
+        http: IHttp,
+        persistence: IPersistence,
+    ): Promise<IApiResponse> {
+        if (!request.user) {
+            return this.json({
+                status: HttpStatusCode.UNAUTHORIZED,
+                content: { ok: false, error: 'Authentication required.' },
+            });
+        }
+
+        const settingsReader = read.getEnvironmentReader().getSettings();
+        const [
+            logsSourceModeRaw,
+            allowedRolesRaw,
+            workspacePermissionCodeRaw,
+            workspacePermissionModeRaw,
+            defaultTimeRange,
+            allowedLabelFiltersRaw,
+            maxTimeWindowHours,
+            queryTimeoutMs,
+            rateLimitQpm,
+            auditRetentionDays,
+            auditMaxEntries,
+        ] = await Promise.all([
+            settingsReader.getValueById(SETTINGS.LOGS_SOURCE_MODE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_ROLES),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_CODE),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_MODE),
+            settingsReader.getValueById(SETTINGS.DEFAULT_TIME_RANGE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_LABEL_FILTERS),
+            settingsReader.getValueById(SETTINGS.MAX_TIME_WINDOW_HOURS),
+            settingsReader.getValueById(SETTINGS.QUERY_TIMEOUT_MS),
+            settingsReader.getValueById(SETTINGS.RATE_LIMIT_QPM),
+            settingsReader.getValueById(SETTINGS.AUDIT_RETENTION_DAYS),
+            settingsReader.getValueById(SETTINGS.AUDIT_MAX_ENTRIES),
+        ]);
+
+        const sourceMode = parseLogsSourceMode(logsSourceModeRaw);
+        const security: SecuritySettings = {
+            allowedRoles: parseAllowedRoles(allowedRolesRaw),
+            workspacePermissionCode: parseWorkspacePermissionCode(workspacePermissionCodeRaw),
+            workspacePermissionMode: parseWorkspacePermissionMode(workspacePermissionModeRaw),
+            rateLimitQpm: this.readNumberSetting(rateLimitQpm, 60, 1, 1000),
+            auditRetentionDays: this.readNumberSetting(auditRetentionDays, 90, 1, 365),
+            auditMaxEntries: this.readNumberSetting(auditMaxEntries, 5000, 100, 20000),
+        };
+
+        const accessDecision = await authorizeRequestUser({
+            request,
+            read,
+            http,
+            allowedRoles: security.allowedRoles,
+            workspacePermissionCode: security.workspacePermissionCode,
+            workspacePermissionMode: security.workspacePermissionMode,
+        });
+        if (!accessDecision.allowed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'histogram_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: accessDecision.reason || 'forbidden_role',
+                    scope: {
+                        requiredRoles: security.allowedRoles,
+                        workspacePermissionCode: security.workspacePermissionCode,
+                        workspacePermissionMode: security.workspacePermissionMode,
+                        details: accessDecision.details,
+                    },
+                },
+                security,
+            );
+
+            return this.json({
+                status: HttpStatusCode.FORBIDDEN,
+                content: {
+                    ok: false,
+                    error: 'Insufficient authorization for logs histogram.',
+                    reason: accessDecision.reason || 'forbidden_role',
+                },
+            });
+        }
+
+        // Histogram requests spend the same per-user tokens as /query.
+        const rateLimit = await consumeRateLimitToken(read, persistence, request.user.id, security.rateLimitQpm);
+        if (!rateLimit.allowed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'histogram_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: 'rate_limited',
+                    scope: {
+                        retryAfterSeconds: rateLimit.retryAfterSeconds,
+                        rateLimitQpm: security.rateLimitQpm,
+                    },
+                },
+                security,
+            );
+
+            return this.json({
+                status: HttpStatusCode.TOO_MANY_REQUESTS,
+                headers: {
+                    'retry-after': String(rateLimit.retryAfterSeconds || 1),
+                },
+                content: {
+                    ok: false,
+                    error: 'Rate limit exceeded for logs histogram.',
+                    retryAfterSeconds: rateLimit.retryAfterSeconds || 1,
+                },
+            });
+        }
+
+        if (sourceMode !== 'loki') {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, {
+                error: `Log volume histograms are not supported in ${sourceMode} mode.`,
+                details: { sourceMode },
+            });
+        }
+
+        const windowLimitHours = this.readNumberSetting(maxTimeWindowHours, 24, 1, 168);
+        // Same window and filter validation as /query; the line limit does not apply to metric queries.
+        const normalizedResult = parseAndNormalizeQuery({
+            requestQuery: (request.query || {}) as Record<string, unknown>,
+            requestContent: request.content,
+            defaultTimeRange: typeof defaultTimeRange === 'string' ? defaultTimeRange : '15m',
+            maxTimeWindowHours: windowLimitHours,
+            maxLinesPerQuery: Number.MAX_SAFE_INTEGER,
+            allowedLabelNames: parseAllowedLabelNames(allowedLabelFiltersRaw),
+        });
+        if ('error' in normalizedResult) {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, normalizedResult);
+        }
+
+        const normalized = normalizedResult.query;
+        const source = resolveLogSource(sourceMode);
+        const namedSources = source.listSources ? await source.listSources(read) : [];
+        const selectedSource = normalized.source
+            ? namedSources.find((candidate) => candidate.id === normalized.source)
+            : namedSources[0];
+        const sourceWindowHours = Math.min(windowLimitHours, selectedSource?.maxTimeWindowHours || windowLimitHours);
+        if (normalized.end.getTime() - normalized.start.getTime() > sourceWindowHours * 60 * 60 * 1000) {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, {
+                error: `Requested time window exceeds max of ${sourceWindowHours} hours.`,
+                details: { source: selectedSource?.id },
+            });
+        }
+
+        const stepSeconds = chooseHistogramStepSeconds(normalized.start, normalized.end);
+        const result = await queryLokiHistogram(
+            { http, read, appId: this.app.getID(), request, userRoles: request.user.roles },
+            {
+                start: normalized.start,
+                end: normalized.end,
+                stepSeconds,
+                levels: normalized.levels,
+                search: normalized.search,
+                labels: normalized.labels,
+                parser: normalized.parser,
+                fields: normalized.fields,
+                source: normalized.source,
+                timeoutMs: this.readNumberSetting(queryTimeoutMs, 30000, 1000, 120000),
+            },
+        );
+        if ('error' in result) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'histogram_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: 'loki_error',
+                    scope: {
+                        sourceMode,
+                        sourceId: normalized.source || selectedSource?.id || null,
+                        tenantId: result.tenant || null,
+                        labelScope: result.labelScope || null,
+                    },
+                },
+                security,
+            );
+            return this.json({
+                status: result.status || HttpStatusCode.BAD_GATEWAY,
+                content: {
+                    ok: false,
+                    error: result.error,
+                    details: result.details,
+                },
+            });
+        }
+
+        const buckets = buildHistogramBuckets(result.series, normalized.start, normalized.end, stepSeconds);
+        const totals = emptyHistogramCounts();
+        for (const bucket of buckets) {
+            for (const level of Object.keys(totals) as Array<keyof typeof totals>) {
+                totals[level] += bucket.counts[level];
+            }
+        }
+        const total = buckets.reduce((sum, bucket) => sum + bucket.total, 0);
+
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'histogram',
+                userId: request.user.id,
+                outcome: 'allowed',
+                scope: {
+                    start: normalized.start.toISOString(),
+                    end: normalized.end.toISOString(),
+                    stepSeconds,
+                    level: formatLevelFilter(normalized.levels),
+                    searchProvided: Boolean(normalized.search),
+                    labelFilters: normalized.labels || [],
+                    fieldFilters: normalized.fields || [],
+                    total,
+                    accessMode: accessDecision.mode,
+                    sourceMode,
+                    sourceId: result.source,
+                    tenantId: result.tenant || null,
+                    labelScope: result.labelScope,
+                },
+            },
+            security,
+        );
+
+        return this.json({
+            status: HttpStatusCode.OK,
+            content: {
+                ok: true,
+                source: sourceMode,
+                meta: {
+                    query: result.query,
+                    sourceId: result.source,
+                    start: normalized.start.toISOString(),
+                    end: normalized.end.toISOString(),
+                    stepSeconds,
+                    requestedLevel: formatLevelFilter(normalized.levels),
+                    search: normalized.search || null,
+                    labels: normalized.labels || [],
+                    fields: normalized.fields || [],
+                    total,
+                    totals,
+                },
+                buckets,
+            },
+        });
+    }
+
+    private readNumberSetting(value: unknown, fallback: number, min: number, max: number): number {
+        const parsed = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(parsed)) {
+            return fallback;
+        }
+        return Math.min(max, Math.max(min, Math.floor(parsed)));
+    }
+
+    private async rejectInvalidQuery(
+        read: IRead,
+        persistence: IPersistence,
+        userId: string,
+        security: SecuritySettings,
+        failure: { error: string; details?: unknown },
+    ): Promise<IApiResponse> {
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'histogram_denied',
+                userId,
+                outcome: 'denied',
+                reason: 'invalid_query',
+                scope: { details: failure.details },
+            },
+            security,
+        );
+        return this.json({
+            status: HttpStatusCode.BAD_REQUEST,
+            content: {
+                ok: false,
+                error: failure.error,
+                details: failure.details,
+            },
+        });
+    }
+
+    private async audit(
+        read: IRead,
+        persistence: IPersistence,
+        entry: {
+            action: 'histogram' | 'histogram_denied';
+            userId: string;
+            outcome: 'allowed' | 'denied';
+            reason?: string;
+            scope?: Record<string, unknown>;
+        },
+        security: SecuritySettings,
+    ): Promise<void> {
+        try {
+            await appendAuditEntry(read, persistence, entry, security.auditRetentionDays, security.auditMaxEntries);
+        } catch {
+            // Audit failures should not block histogram responses.
+        }
+    }
+}
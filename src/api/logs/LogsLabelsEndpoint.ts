@@ -0,0 +1,368 @@
+import { HttpStatusCode, IHttp, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { ApiEndpoint, IApiEndpointInfo, IApiRequest, IApiResponse } from '@rocket.chat/apps-engine/definition/api';
+
+import { SETTINGS } from '../../constants';
+import {
+    authorizeRequestUser,
+    parseWorkspacePermissionCode,
+    parseWorkspacePermissionMode,
+    WorkspacePermissionMode,
+} from '../../security/accessControl';
+import { appendAuditEntry, consumeRateLimitToken, parseAllowedRoles } from '../../security/querySecurity';
+import { listLokiLabels, resolveLokiAccessScope } from '../../sources/lokiSource';
+import { parseLogsSourceMode, resolveLogSource } from '../../sources/registry';
+import { buildLabelsCacheKey, readCachedLabels, writeCachedLabels } from './labelsCache';
+import { parseLabelsQuery } from './labelsValidation';
+import { parseAllowedLabelNames } from './queryValidation';
+
+type SecuritySettings = {
+    allowedRoles: Array<string>;
+    workspacePermissionCode: string;
+    workspacePermissionMode: WorkspacePermissionMode;
+    rateLimitQpm: number;
+    auditRetentionDays: number;
+    auditMaxEntries: number;
+};
+
+const MAX_LABEL_VALUES = 500;
+
+export class LogsLabelsEndpoint extends ApiEndpoint {
+    public path = 'labels';
+    public authRequired = true;
+
+    public async get(
+        request: IApiRequest,
+        _endpoint: IApiEndpointInfo,
+        read: IRead,
+        _modify: IModify,
+        http: IHttp,
+        persistence: IPersistence,
+    ): Promise<IApiResponse> {
+        if (!request.user) {
+            return this.json({
+                status: HttpStatusCode.UNAUTHORIZED,
+                content: { ok: false, error: 'Authentication required.' },
+            });
+        }
+
+        const settingsReader = read.getEnvironmentReader().getSettings();
+        const [
+            logsSourceModeRaw,
+            allowedRolesRaw,
+            workspacePermissionCodeRaw,
+            workspacePermissionModeRaw,
+            defaultTimeRange,
+            allowedLabelFiltersRaw,
+            maxTimeWindowHours,
+            queryTimeoutMs,
+            rateLimitQpm,
+            auditRetentionDays,
+            auditMaxEntries,
+        ] = await Promise.all([
+            settingsReader.getValueById(SETTINGS.LOGS_SOURCE_MODE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_ROLES),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_CODE),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_MODE),
+            settingsReader.getValueById(SETTINGS.DEFAULT_TIME_RANGE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_LABEL_FILTERS),
+            settingsReader.getValueById(SETTINGS.MAX_TIME_WINDOW_HOURS),
+            settingsReader.getValueById(SETTINGS.QUERY_TIMEOUT_MS),
+            settingsReader.getValueById(SETTINGS.RATE_LIMIT_QPM),
+            settingsReader.getValueById(SETTINGS.AUDIT_RETENTION_DAYS),
+            settingsReader.getValueById(SETTINGS.AUDIT_MAX_ENTRIES),
+        ]);
+
+        const sourceMode = parseLogsSourceMode(logsSourceModeRaw);
+        const security: SecuritySettings = {
+            allowedRoles: parseAllowedRoles(allowedRolesRaw),
+            workspacePermissionCode: parseWorkspacePermissionCode(workspacePermissionCodeRaw),
+            workspacePermissionMode: parseWorkspacePermissionMode(workspacePermissionModeRaw),
+            rateLimitQpm: this.readNumberSetting(rateLimitQpm, 60, 1, 1000),
+            auditRetentionDays: this.readNumberSetting(auditRetentionDays, 90, 1, 365),
+            auditMaxEntries: this.readNumberSetting(auditMaxEntries, 5000, 100, 20000),
+        };
+
+        const accessDecision = await authorizeRequestUser({
+            request,
+            read,
+            http,
+            allowedRoles: security.allowedRoles,
+            workspacePermissionCode: security.workspacePermissionCode,
+            workspacePermissionMode: security.workspacePermissionMode,
+        });
+        if (!accessDecision.allowed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'labels_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: accessDecision.reason || 'forbidden_role',
+                    scope: {
+                        requiredRoles: security.allowedRoles,
+                        workspacePermissionCode: security.workspacePermissionCode,
+                        workspacePermissionMode: security.workspacePermissionMode,
+                        details: accessDecision.details,
+                    },
+                },
+                security,
+            );
+
+            return this.json({
+                status: HttpStatusCode.FORBIDDEN,
+                content: {
+                    ok: false,
+                    error: 'Insufficient authorization for logs labels.',
+                    reason: accessDecision.reason || 'forbidden_role',
+                },
+            });
+        }
+
+        // Discovery shares the /query token bucket so dropdowns cannot be used to bypass query limits.
+        const rateLimit = await consumeRateLimitToken(read, persistence, request.user.id, security.rateLimitQpm);
+        if (!rateLimit.allowed) {
+            await this.audit(
+                read,
+                persistence,
+                {
+                    action: 'labels_denied',
+                    userId: request.user.id,
+                    outcome: 'denied',
+                    reason: 'rate_limited',
+                    scope: {
+                        retryAfterSeconds: rateLimit.retryAfterSeconds,
+                        rateLimitQpm: security.rateLimitQpm,
+                    },
+                },
+                security,
+            );
+
+            return this.json({
+                status: HttpStatusCode.TOO_MANY_REQUESTS,
+                headers: {
+                    'retry-after': String(rateLimit.retryAfterSeconds || 1),
+                },
+                content: {
+                    ok: false,
+                    error: 'Rate limit exceeded for logs labels.',
+                    retryAfterSeconds: rateLimit.retryAfterSeconds || 1,
+                },
+            });
+        }
+
+        if (sourceMode !== 'loki') {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, {
+                error: `Label discovery is not supported in ${sourceMode} mode.`,
+                details: { sourceMode },
+            });
+        }
+
+        const allowedLabelNames = parseAllowedLabelNames(allowedLabelFiltersRaw);
+        const windowLimitHours = this.readNumberSetting(maxTimeWindowHours, 24, 1, 168);
+        const parsed = parseLabelsQuery({
+            requestQuery: (request.query || {}) as Record<string, unknown>,
+            defaultTimeRange: typeof defaultTimeRange === 'string' ? defaultTimeRange : '15m',
+            maxTimeWindowHours: windowLimitHours,
+            allowedLabelNames,
+        });
+        if ('error' in parsed) {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, parsed);
+        }
+
+        const labelsQuery = parsed.query;
+        const source = resolveLogSource(sourceMode);
+        const namedSources = source.listSources ? await source.listSources(read) : [];
+        const selectedSource = labelsQuery.source
+            ? namedSources.find((candidate) => candidate.id === labelsQuery.source)
+            : namedSources[0];
+        const sourceWindowHours = Math.min(windowLimitHours, selectedSource?.maxTimeWindowHours || windowLimitHours);
+        if (labelsQuery.end.getTime() - labelsQuery.start.getTime() > sourceWindowHours * 60 * 60 * 1000) {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, {
+                error: `Requested time window exceeds max of ${sourceWindowHours} hours.`,
+                details: { source: selectedSource?.id },
+            });
+        }
+
+        const userRoles = request.user.roles || [];
+        const access = await resolveLokiAccessScope(read, userRoles, labelsQuery.source);
+        const cacheKey = selectedSource && access.labelScope
+            ? buildLabelsCacheKey({
+                source: selectedSource.id,
+                tenant: access.tenantId,
+                selector: access.labelScope.selector,
+                name: labelsQuery.name,
+                allowedLabelNames,
+                start: labelsQuery.start,
+                end: labelsQuery.end,
+            })
+            : undefined;
+
+        let values = cacheKey ? await this.readCache(read, cacheKey) : undefined;
+        const cached = values !== undefined;
+        if (!values) {
+            const result = await listLokiLabels(
+                { http, read, appId: this.app.getID(), request, userRoles },
+                {
+                    start: labelsQuery.start,
+                    end: labelsQuery.end,
+                    name: labelsQuery.name,
+                    source: labelsQuery.source,
+                    timeoutMs: this.readNumberSetting(queryTimeoutMs, 30000, 1000, 120000),
+                },
+            );
+            if ('error' in result) {
+                await this.audit(
+                    read,
+                    persistence,
+                    {
+                        action: 'labels_denied',
+                        userId: request.user.id,
+                        outcome: 'denied',
+                        reason: 'loki_error',
+                        scope: {
+                            sourceMode,
+                            sourceId: labelsQuery.source || selectedSource?.id || null,
+                            tenantId: result.tenant || null,
+                            labelScope: result.labelScope || null,
+                            name: labelsQuery.name || null,
+                        },
+                    },
+                    security,
+                );
+                return this.json({
+                    status: result.status || HttpStatusCode.BAD_GATEWAY,
+                    content: {
+                        ok: false,
+                        error: result.error,
+                        details: result.details,
+                    },
+                });
+            }
+
+            // Only allow-listed names are useful for filters; one extra value is kept to report truncation.
+            const visible = labelsQuery.name ? result.values : result.values.filter((value) => allowedLabelNames.includes(value));
+            values = [...new Set(visible)].sort((a, b) => a.localeCompare(b)).slice(0, MAX_LABEL_VALUES + 1);
+            if (cacheKey) {
+                await this.writeCache(read, persistence, cacheKey, values);
+            }
+        }
+
+        const truncated = values.length > MAX_LABEL_VALUES;
+        const returnedValues = values.slice(0, MAX_LABEL_VALUES);
+
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'labels',
+                userId: request.user.id,
+                outcome: 'allowed',
+                scope: {
+                    start: labelsQuery.start.toISOString(),
+                    end: labelsQuery.end.toISOString(),
+                    name: labelsQuery.name || null,
+                    returned: returnedValues.length,
+                    truncated,
+                    cached,
+                    accessMode: accessDecision.mode,
+                    sourceMode,
+                    sourceId: selectedSource?.id || null,
+                    tenantId: access.tenantId || null,
+                    labelScope: access.labelScope || null,
+                },
+            },
+            security,
+        );
+
+        return this.json({
+            status: HttpStatusCode.OK,
+            content: {
+                ok: true,
+                source: sourceMode,
+                meta: {
+                    sourceId: selectedSource?.id || null,
+                    name: labelsQuery.name || null,
+                    start: labelsQuery.start.toISOString(),
+                    end: labelsQuery.end.toISOString(),
+                    returned: returnedValues.length,
+                    truncated,
+                    cached,
+                },
+                values: returnedValues,
+            },
+        });
+    }
+
+    private async readCache(read: IRead, key: string): Promise<Array<string> | undefined> {
+        try {
+            return await readCachedLabels(read, key);
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async writeCache(read: IRead, persistence: IPersistence, key: string, values: Array<string>): Promise<void> {
+        try {
+            await writeCachedLabels(read, persistence, key, values);
+        } catch {
+            // Cache failures only cost an extra upstream call.
+        }
+    }
+
+    private readNumberSetting(value: unknown, fallback: number, min: number, max: number): number {
+        const parsed = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(parsed)) {
+            return fallback;
+        }
+        return Math.min(max, Math.max(min, Math.floor(parsed)));
+    }
+
+    private async rejectInvalidQuery(
+        read: IRead,
+        persistence: IPersistence,
+        userId: string,
+        security: SecuritySettings,
+        failure: { error: string; details?: unknown },
+    ): Promise<IApiResponse> {
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'labels_denied',
+                userId,
+                outcome: 'denied',
+                reason: 'invalid_query',
+                scope: { details: failure.details },
+            },
+            security,
+        );
+        return this.json({
+            status: HttpStatusCode.BAD_REQUEST,
+            content: {
+                ok: false,
+                error: failure.error,
+                details: failure.details,
+            },
+        });
+    }
+
+    private async audit(
+        read: IRead,
+        persistence: IPersistence,
+        entry: {
+            action: 'labels' | 'labels_denied';
+            userId: string;
+            outcome: 'allowed' | 'denied';
+            reason?: string;
+            scope?: Record<string, unknown>;
+        },
+        security: SecuritySettings,
+    ): Promise<void> {
+        try {
+            await appendAuditEntry(read, persistence, entry, security.auditRetentionDays, security.auditMaxEntries);
+        } catch {
+            // Audit failures should not block label discovery.
+        }
+    }
+}
@@ -1,20 +1,23 @@
-import { HttpStatusCode, IHttp, IHttpResponse, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { HttpStatusCode, IHttp, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
 import { ApiEndpoint, IApiEndpointInfo, IApiRequest, IApiResponse } from '@rocket.chat/apps-engine/definition/api';
 
 import { SETTINGS } from '../../constants';
 import {
     authorizeRequestUser,
-    extractAuthHeaders,
     parseWorkspacePermissionCode,
     parseWorkspacePermissionMode,
-    resolveWorkspaceOrigin,
     WorkspacePermissionMode,
 } from '../../security/accessControl';
 import { appendAuditEntry, consumeRateLimitToken, parseAllowedRoles } from '../../security/querySecurity';
-import { redactLogMessage } from '../../security/redaction';
-import { parseAndNormalizeQuery, QueryLevel } from './queryValidation';
-
-type ResolvedLevel = QueryLevel | 'unknown';
+import { addRuleCounts, RedactionRule, redactFieldValues, redactLogMessage } from '../../security/redaction';
+import { parseRedactionRules } from '../../security/redactionRules';
+import { matchesLabelFilters } from '../../sources/logEntries';
+import { detectCorrelationIds, parseCorrelationConfig } from '../../sources/correlationIds';
+import { detectEntityRefs } from '../../sources/entityRefs';
+import { extractLogFields, matchesFieldFilters } from '../../sources/logFields';
+import { parseLogsSourceMode, resolveLogSource } from '../../sources/registry';
+import { applyQueryCursor, buildNextQueryCursor, cursorQueryEnd, encodeQueryCursor, sortEntriesForPaging } from './queryCursor';
+import { checkQueryGuardrails, formatLevelFilter, parseAllowedLabelNames, parseAndNormalizeQuery } from './queryValidation';
 
 type Guardrails = {
     maxTimeWindowHours: number;
@@ -34,51 +37,7 @@ type SecuritySettings = {
 type RedactionSettings = {
     enabled: boolean;
     replacement: string;
-};
-
-type LogEntry = {
-    timestamp: string;
-    rawTimestampNs: string;
-    level: ResolvedLevel;
-    message: string;
-    labels: Record<string, string>;
-};
-
-type LogsSourceMode = 'loki' | 'app_logs';
-
-type LokiStreamResult = {
-    stream?: Record<string, string>;
-    values?: Array<[string, string]>;
-};
-
-type LokiQueryResponse = {
-    status?: string;
-    error?: string;
-    errorType?: string;
-    data?: {
-        resultType?: string;
-        result?: Array<LokiStreamResult>;
-    };
-};
-
-type AppLogsEntryPayload = {
-    timestamp?: string;
-    severity?: string;
-    method?: string;
-    args?: Array<unknown>;
-    caller?: string;
-};
-
-type AppLogsRecordPayload = {
-    method?: string;
-    entries?: Array<AppLogsEntryPayload>;
-};
-
-type AppLogsQueryResponse = {
-    success?: boolean;
-    logs?: Array<AppLogsRecordPayload>;
-    error?: string;
-    total?: number;
+    rules: Array<RedactionRule>;
 };
 
 export class LogsQueryEndpoint extends ApiEndpoint {
@@ -100,20 +59,21 @@ export class LogsQueryEndpoint extends ApiEndpoint {
             });
         }
 
-        // Pull all runtime settings once; these drive auth, selector scoping, and guardrails.
+        // Pull all runtime settings once; these drive auth, source selection, and guardrails.
         const settingsReader = read.getEnvironmentReader().getSettings();
         const [
             logsSourceModeRaw,
-            lokiBaseUrl,
-            lokiUsername,
-            lokiToken,
-            requiredLabelSelector,
             allowedRolesRaw,
             workspacePermissionCodeRaw,
             workspacePermissionModeRaw,
             enableRedactionRaw,
             redactionReplacementRaw,
+            redactionDetectorsRaw,
+            redactionRulesRaw,
             defaultTimeRange,
+            allowedLabelFiltersRaw,
+            correlationFieldsRaw,
+            correlationIdPatternRaw,
             maxTimeWindowHours,
             maxLinesPerQuery,
             queryTimeoutMs,
@@ -122,16 +82,17 @@ export class LogsQueryEndpoint extends ApiEndpoint {
             auditMaxEntries,
         ] = await Promise.all([
             settingsReader.getValueById(SETTINGS.LOGS_SOURCE_MODE),
-            settingsReader.getValueById(SETTINGS.LOKI_BASE_URL),
-            settingsReader.getValueById(SETTINGS.LOKI_USERNAME),
-            settingsReader.getValueById(SETTINGS.LOKI_TOKEN),
-            settingsReader.getValueById(SETTINGS.REQUIRED_LABEL_SELECTOR),
             settingsReader.getValueById(SETTINGS.ALLOWED_ROLES),
             settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_CODE),
             settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_MODE),
             settingsReader.getValueById(SETTINGS.ENABLE_REDACTION),
             settingsReader.getValueById(SETTINGS.REDACTION_REPLACEMENT),
+            settingsReader.getValueById(SETTINGS.REDACTION_DETECTORS),
+            settingsReader.getValueById(SETTINGS.REDACTION_RULES),
             settingsReader.getValueById(SETTINGS.DEFAULT_TIME_RANGE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_LABEL_FILTERS),
+            settingsReader.getValueById(SETTINGS.CORRELATION_FIELDS),
+            settingsReader.getValueById(SETTINGS.CORRELATION_ID_PATTERN),
             settingsReader.getValueById(SETTINGS.MAX_TIME_WINDOW_HOURS),
             settingsReader.getValueById(SETTINGS.MAX_LINES_PER_QUERY),
             settingsReader.getValueById(SETTINGS.QUERY_TIMEOUT_MS),
@@ -140,7 +101,8 @@ export class LogsQueryEndpoint extends ApiEndpoint {
             settingsReader.getValueById(SETTINGS.AUDIT_MAX_ENTRIES),
         ]);
 
-        const sourceMode = this.parseLogsSourceMode(logsSourceModeRaw);
+        const sourceMode = parseLogsSourceMode(logsSourceModeRaw);
+        const source = resolveLogSource(sourceMode);
 
         const security: SecuritySettings = {
             allowedRoles: parseAllowedRoles(allowedRolesRaw),
@@ -228,6 +190,7 @@ export class LogsQueryEndpoint extends ApiEndpoint {
         const redaction: RedactionSettings = {
             enabled: this.readBooleanSetting(enableRedactionRaw, true),
             replacement: this.readReplacementSetting(redactionReplacementRaw, '[REDACTED]'),
+            rules: parseRedactionRules(redactionRulesRaw, redactionDetectorsRaw).rules,
         };
 
         const normalizedResult = parseAndNormalizeQuery({
@@ -236,6 +199,7 @@ export class LogsQueryEndpoint extends ApiEndpoint {
             defaultTimeRange: typeof defaultTimeRange === 'string' ? defaultTimeRange : '15m',
             maxTimeWindowHours: guardrails.maxTimeWindowHours,
             maxLinesPerQuery: guardrails.maxLinesPerQuery,
+            allowedLabelNames: parseAllowedLabelNames(allowedLabelFiltersRaw),
         });
         if ('error' in normalizedResult) {
             await this.audit(
@@ -254,27 +218,52 @@ export class LogsQueryEndpoint extends ApiEndpoint {
         }
 
         const normalized = normalizedResult.query;
-        const queryResult = sourceMode === 'app_logs'
-            ? await this.queryRocketChatAppLogs(http, request, read, {
-                  start: normalized.start,
-                  end: normalized.end,
-                  limit: normalized.limit,
-                  level: normalized.level,
-                  search: normalized.search,
-                  timeoutMs: guardrails.queryTimeoutMs,
-              })
-            : await this.queryLokiSource(http, {
-                  lokiBaseUrl,
-                  lokiUsername,
-                  lokiToken,
-                  requiredLabelSelector,
-                  start: normalized.start,
-                  end: normalized.end,
-                  limit: normalized.limit,
-                  level: normalized.level,
-                  search: normalized.search,
-                  timeoutMs: guardrails.queryTimeoutMs,
-              });
+        const namedSources = source.listSources ? await source.listSources(read) : [];
+        if (normalized.source && !source.listSources) {
+            return this.rejectInvalidQuery(read, persistence, request.user.id, security, {
+                error: `Named sources are not supported in ${sourceMode} mode.`,
+                details: { sourceMode, source: normalized.source },
+            });
+        }
+
+        // Unknown ids fall through to the adapter, which reports the available sources.
+        const selectedSource = normalized.source
+            ? namedSources.find((candidate) => candidate.id === normalized.source)
+            : namedSources[0];
+        if (selectedSource) {
+            guardrails.maxTimeWindowHours = Math.min(guardrails.maxTimeWindowHours, selectedSource.maxTimeWindowHours || guardrails.maxTimeWindowHours);
+            guardrails.maxLinesPerQuery = Math.min(guardrails.maxLinesPerQuery, selectedSource.maxLinesPerQuery || guardrails.maxLinesPerQuery);
+
+            const guardrailError = checkQueryGuardrails(normalized, guardrails);
+            if (guardrailError) {
+                return this.rejectInvalidQuery(read, persistence, request.user.id, security, {
+                    error: guardrailError.error,
+                    details: { source: selectedSource.id },
+                });
+            }
+        }
+
+        // Later pages query up to the cursor and widen the fetch by the lines they will drop again at its millisecond.
+        const cursor = normalized.cursor;
+        const upstreamLimit = normalized.limit + (cursor?.seen || 0);
+        const upstreamEnd = cursor
+            ? new Date(Math.max(normalized.start.getTime() + 1, Math.min(normalized.end.getTime(), cursorQueryEnd(cursor).getTime())))
+            : normalized.end;
+        const queryResult = await source.query(
+            { http, read, appId: this.app.getID(), request, userRoles: request.user.roles },
+            {
+                start: normalized.start,
+                end: upstreamEnd,
+                limit: upstreamLimit,
+                levels: normalized.levels,
+                search: normalized.search,
+                source: normalized.source,
+                labels: normalized.labels,
+                parser: normalized.parser,
+                fields: normalized.fields,
+                timeoutMs: guardrails.queryTimeoutMs,
+            },
+        );
 
         if ('error' in queryResult) {
             await this.audit(
@@ -284,15 +273,18 @@ export class LogsQueryEndpoint extends ApiEndpoint {
                     action: 'query_denied',
                     userId: request.user.id,
                     outcome: 'denied',
-                    reason: sourceMode === 'app_logs' ? 'app_logs_error' : 'loki_error',
+                    reason: `${sourceMode}_error`,
                     scope: {
                         sourceMode,
+                        sourceId: normalized.source || selectedSource?.id || null,
+                        tenantId: queryResult.tenant || null,
+                        labelScope: queryResult.labelScope || null,
                     },
                 },
                 security,
             );
             return this.json({
-                status: queryResult.status || (sourceMode === 'app_logs' ? HttpStatusCode.BAD_REQUEST : HttpStatusCode.BAD_GATEWAY),
+                status: queryResult.status || HttpStatusCode.BAD_GATEWAY,
                 content: {
                     ok: false,
                     error: queryResult.error,
@@ -301,28 +293,66 @@ export class LogsQueryEndpoint extends ApiEndpoint {
             });
         }
 
-        const filteredByLevel = normalized.level
-            ? queryResult.entries.filter((entry) => entry.level === normalized.level)
+        const filteredByLabels = normalized.labels
+            ? queryResult.entries.filter((entry) => matchesLabelFilters(entry.labels, normalized.labels || []))
             : queryResult.entries;
-        const sorted = filteredByLevel.sort((a, b) => this.compareNsDesc(a.rawTimestampNs, b.rawTimestampNs));
-        const truncated = sorted.length > normalized.limit;
+        const levels = normalized.levels;
+        const filteredByLevel = levels
+            ? filteredByLabels.filter((entry) => levels.includes(entry.level))
+            : filteredByLabels;
+        const parser = normalized.parser;
+        const withFields = parser
+            ? filteredByLevel.map((entry) => ({ ...entry, fields: extractLogFields(entry.message, parser) }))
+            : filteredByLevel;
+        const filteredByFields = normalized.fields
+            ? withFields.filter((entry) => matchesFieldFilters(entry.fields, normalized.fields || []))
+            : withFields;
+        const sorted = sortEntriesForPaging(filteredByFields);
+        const remaining = cursor ? applyQueryCursor(sorted, cursor) : sorted;
+        const page = remaining.slice(0, normalized.limit);
+        // A full upstream batch may hide older lines even when nothing was cut here. An empty page has no position to
+        // continue from, so `truncated` is only reported together with a cursor that can fetch the rest.
+        const nextCursor = remaining.length > normalized.limit || queryResult.entries.length >= upstreamLimit
+            ? buildNextQueryCursor(page, cursor)
+            : undefined;
+        const truncated = Boolean(nextCursor);
 
         let redactedLines = 0;
         let totalRedactions = 0;
-        const finalEntries = sorted.slice(0, normalized.limit).map(({ rawTimestampNs, ...entry }) => {
-            const redacted = redactLogMessage(entry.message, {
-                enabled: redaction.enabled,
-                replacement: redaction.replacement,
-            });
+        const ruleCounts: Record<string, number> = {};
+        const correlation = parseCorrelationConfig(correlationFieldsRaw, correlationIdPatternRaw);
+        const finalEntries = page.map(({ rawTimestampNs, fields, ...entry }) => {
+            const redacted = redactLogMessage(entry.message, redaction);
+            let redactionCount = redacted.redactionCount;
+            addRuleCounts(ruleCounts, redacted.ruleCounts);
+
+            // Labels and extracted values are redacted on their own, since they leave the message they were checked in.
+            const redactedLabels = redactFieldValues(entry.labels, redaction);
+            redactionCount += redactedLabels.redactionCount;
+            addRuleCounts(ruleCounts, redactedLabels.ruleCounts);
+            let redactedFields: Record<string, string> | undefined;
+            if (parser) {
+                const redactedValues = redactFieldValues(fields || {}, redaction);
+                redactedFields = redactedValues.values;
+                redactionCount += redactedValues.redactionCount;
+                addRuleCounts(ruleCounts, redactedValues.ruleCounts);
+            }
 
-            if (redacted.redacted) {
+            if (redactionCount > 0) {
                 redactedLines += 1;
-                totalRedactions += redacted.redactionCount;
+                totalRedactions += redactionCount;
             }
 
+            // IDs come from the redacted line, so a value masked as a secret never becomes a chip.
+            const correlationIds = detectCorrelationIds(redacted.message, correlation);
+            const entityRefs = detectEntityRefs({ message: redacted.message, labels: redactedLabels.values });
             return {
                 ...entry,
                 message: redacted.message,
+                labels: redactedLabels.values,
+                ...(redactedFields ? { fields: redactedFields } : {}),
+                ...(correlationIds.length > 0 ? { correlationIds } : {}),
+                ...(entityRefs.length > 0 ? { entityRefs } : {}),
             };
         });
 
@@ -336,11 +366,19 @@ export class LogsQueryEndpoint extends ApiEndpoint {
                 scope: {
                     start: normalized.start.toISOString(),
                     end: normalized.end.toISOString(),
-                    level: normalized.level || null,
+                    level: formatLevelFilter(normalized.levels),
                     searchProvided: Boolean(normalized.search),
+                    labelFilters: normalized.labels || [],
+                    parser: normalized.parser || null,
+                    fieldFilters: normalized.fields || [],
                     returned: finalEntries.length,
                     truncated,
+                    paged: Boolean(cursor),
                     accessMode: accessDecision.mode,
+                    sourceMode,
+                    sourceId: queryResult.source || null,
+                    tenantId: queryResult.tenant || null,
+                    labelScope: queryResult.labelScope || null,
                     redactedLines,
                     totalRedactions,
                 },
@@ -355,17 +393,26 @@ export class LogsQueryEndpoint extends ApiEndpoint {
                 source: sourceMode,
                 meta: {
                     query: queryResult.query,
+                    sourceId: queryResult.source || null,
                     start: normalized.start.toISOString(),
                     end: normalized.end.toISOString(),
                     requestedLimit: normalized.limit,
                     returned: finalEntries.length,
                     truncated,
-                    requestedLevel: normalized.level || null,
+                    nextCursor: nextCursor ? encodeQueryCursor(nextCursor) : null,
+                    requestedLevel: formatLevelFilter(normalized.levels),
                     search: normalized.search || null,
+                    labels: normalized.labels || [],
+                    parser: normalized.parser || null,
+                    fields: normalized.fields || [],
                     redaction: {
                         enabled: redaction.enabled,
                         redactedLines,
                         totalRedactions,
+                        // Matches per rule on this page, in rule order; rules that matched nothing are left out.
+                        rules: redaction.rules
+                            .filter((rule) => ruleCounts[rule.name])
+                            .map((rule) => ({ name: rule.name, count: ruleCounts[rule.name] })),
                     },
                     access: {
                         mode: accessDecision.mode,
@@ -379,518 +426,6 @@ export class LogsQueryEndpoint extends ApiEndpoint {
         });
     }
 
-    private buildLogQl(selector: string, search?: string, level?: QueryLevel): string {
-        const escapedSearch = search ? search.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, ' ') : '';
-        const withSearch = escapedSearch ? `${selector} |= "${escapedSearch}"` : selector;
-        if (!level) {
-            return withSearch;
-        }
-
-        const pattern = this.buildLevelRegex(level);
-        return `${withSearch} |~ "(?i)${pattern}"`;
-    }
-
-    private buildLevelRegex(level: QueryLevel): string {
-        if (level === 'error') {
-            return '\\\\b(error|err|fatal|panic|exception)\\\\b';
-        }
-
-        if (level === 'warn') {
-            return '\\\\b(warn|warning)\\\\b';
-        }
-
-        if (level === 'info') {
-            return '\\\\b(info|information)\\\\b';
-        }
-
-        return '\\\\b(debug|trace|verbose)\\\\b';
-    }
-
-    private parseLogsSourceMode(rawValue: unknown): LogsSourceMode {
-        if (typeof rawValue !== 'string') {
-            return 'loki';
-        }
-
-        const normalized = rawValue.trim().toLowerCase();
-        if (normalized === 'app_logs' || normalized === 'loki') {
-            return normalized;
-        }
-
-        return 'loki';
-    }
-
-    private async queryLokiSource(
-        http: IHttp,
-        args: {
-            lokiBaseUrl: unknown;
-            lokiUsername: unknown;
-            lokiToken: unknown;
-            requiredLabelSelector: unknown;
-            start: Date;
-            end: Date;
-            limit: number;
-            level?: QueryLevel;
-            search?: string;
-            timeoutMs: number;
-        },
-    ): Promise<{ entries: Array<LogEntry>; query: string } | { error: string; details?: unknown; status?: HttpStatusCode }> {
-        const baseUrl = typeof args.lokiBaseUrl === 'string' ? args.lokiBaseUrl.trim() : '';
-        if (!baseUrl) {
-            return {
-                error: 'Loki base URL is not configured.',
-                status: HttpStatusCode.BAD_REQUEST,
-                details: {
-                    sourceMode: 'loki',
-                    setting: SETTINGS.LOKI_BASE_URL,
-                    hint: 'Set loki_base_url to your Loki endpoint origin (for example https://observability.example.com).',
-                },
-            };
-        }
-
-        const selector = typeof args.requiredLabelSelector === 'string' ? args.requiredLabelSelector.trim() : '';
-        if (!this.isValidSelector(selector)) {
-            return {
-                error: 'Required label selector is invalid. Expected format like {job="rocketchat"} with no pipelines.',
-                status: HttpStatusCode.BAD_REQUEST,
-                details: {
-                    sourceMode: 'loki',
-                    setting: SETTINGS.REQUIRED_LABEL_SELECTOR,
-                    hint: 'Use a plain selector like {job="rocketchat"} and do not include LogQL pipelines.',
-                },
-            };
-        }
-
-        const logQlQuery = this.buildLogQl(selector, args.search, args.level);
-        const lokiResponse = await this.queryLoki(http, {
-            baseUrl,
-            username: typeof args.lokiUsername === 'string' ? args.lokiUsername.trim() : '',
-            token: typeof args.lokiToken === 'string' ? args.lokiToken.trim() : '',
-            query: logQlQuery,
-            start: args.start,
-            end: args.end,
-            limit: args.limit,
-            timeoutMs: args.timeoutMs,
-        });
-        if ('error' in lokiResponse) {
-            return {
-                error: lokiResponse.error,
-                details: lokiResponse.details,
-                status: HttpStatusCode.BAD_GATEWAY,
-            };
-        }
-
-        return {
-            entries: this.flattenResults(lokiResponse.payload.data?.result || []),
-            query: logQlQuery,
-        };
-    }
-
-    private async queryRocketChatAppLogs(
-        http: IHttp,
-        request: IApiRequest,
-        read: IRead,
-        args: {
-            start: Date;
-            end: Date;
-            limit: number;
-            level?: QueryLevel;
-            search?: string;
-            timeoutMs: number;
-        },
-    ): Promise<{ entries: Array<LogEntry>; query: string } | { error: string; details?: unknown; status?: HttpStatusCode }> {
-        const auth = extractAuthHeaders(request.headers);
-        if (!auth) {
-            return {
-                error: 'Request auth headers are unavailable for app logs mode.',
-                status: HttpStatusCode.FORBIDDEN,
-                details: {
-                    sourceMode: 'app_logs',
-                    requiredHeaders: ['x-user-id', 'x-auth-token'],
-                },
-            };
-        }
-
-        const workspaceOrigin = await resolveWorkspaceOrigin(read, request.headers);
-        if (!workspaceOrigin) {
-            return {
-                error: 'Unable to resolve workspace origin for app logs mode.',
-                status: HttpStatusCode.BAD_REQUEST,
-                details: {
-                    sourceMode: 'app_logs',
-                    hint: 'Ensure Site_Url is configured or host/x-forwarded-proto headers are present.',
-                },
-            };
-        }
-
-        const levelFilter = this.toAppLogsLevel(args.level);
-        const response = await http.get(`${workspaceOrigin}/api/apps/logs`, {
-            headers: {
-                Accept: 'application/json',
-                'X-User-Id': auth.userId,
-                'X-Auth-Token': auth.authToken,
-            },
-            params: {
-                appId: this.app.getID(),
-                startDate: args.start.toISOString(),
-                endDate: args.end.toISOString(),
-                count: String(args.limit),
-                offset: '0',
-                ...(typeof levelFilter === 'number' ? { logLevel: String(levelFilter) } : {}),
-            },
-            timeout: args.timeoutMs,
-        });
-
-        const parsed = this.parseRocketChatAppLogsResponse(response);
-        if ('error' in parsed) {
-            return {
-                error: parsed.error,
-                details: parsed.details,
-                status: HttpStatusCode.BAD_GATEWAY,
-            };
-        }
-
-        if (response.statusCode >= 400) {
-            return {
-                error: 'Rocket.Chat app logs API returned an error response.',
-                status: HttpStatusCode.BAD_GATEWAY,
-                details: {
-                    statusCode: response.statusCode,
-                    payload: parsed.payload,
-                },
-            };
-        }
-
-        if (parsed.payload.success === false) {
-            return {
-                error: parsed.payload.error || 'Rocket.Chat app logs API did not return success.',
-                status: HttpStatusCode.BAD_REQUEST,
-                details: parsed.payload,
-            };
-        }
-
-        const entries = this.flattenRocketChatAppLogs(parsed.payload.logs || []);
-        const filteredBySearch = args.search
-            ? entries.filter((entry) => entry.message.toLowerCase().includes(args.search!.toLowerCase()))
-            : entries;
-
-        return {
-            entries: filteredBySearch,
-            query: `app_logs(appId="${this.app.getID()}", start="${args.start.toISOString()}", end="${args.end.toISOString()}")`,
-        };
-    }
-
-    private async queryLoki(
-        http: IHttp,
-        args: {
-            baseUrl: string;
-            username?: string;
-            token?: string;
-            query: string;
-            start: Date;
-            end: Date;
-            limit: number;
-            timeoutMs: number;
-        },
-    ): Promise<{ payload: LokiQueryResponse } | { error: string; details?: unknown }> {
-        const headers: Record<string, string> = {
-            Accept: 'application/json',
-        };
-
-        if (args.username && args.token) {
-            headers.Authorization = `Basic ${this.toBase64(`${args.username}:${args.token}`)}`;
-        } else if (args.token) {
-            headers.Authorization = `Bearer ${args.token}`;
-        }
-
-        const url = `${args.baseUrl.replace(/\/+$/, '')}/loki/api/v1/query_range`;
-        const response = await http.get(url, {
-            headers,
-            params: {
-                query: args.query,
-                start: this.toEpochNs(args.start),
-                end: this.toEpochNs(args.end),
-                limit: String(args.limit),
-                direction: 'backward',
-            },
-            timeout: args.timeoutMs,
-        });
-
-        const parsed = this.parseLokiResponse(response);
-        if ('error' in parsed) {
-            return parsed;
-        }
-
-        if (response.statusCode >= 400) {
-            return {
-                error: 'Loki returned an error response.',
-                details: {
-                    statusCode: response.statusCode,
-                    payload: parsed.payload,
-                },
-            };
-        }
-
-        if (parsed.payload.status !== 'success') {
-            return {
-                error: 'Loki query did not return success status.',
-                details: parsed.payload,
-            };
-        }
-
-        return parsed;
-    }
-
-    private parseLokiResponse(response: IHttpResponse): { payload: LokiQueryResponse } | { error: string; details?: unknown } {
-        if (response.data && typeof response.data === 'object') {
-            return { payload: response.data as LokiQueryResponse };
-        }
-
-        if (typeof response.content === 'string' && response.content.trim()) {
-            try {
-                return { payload: JSON.parse(response.content) as LokiQueryResponse };
-            } catch (error) {
-                return {
-                    error: 'Failed to parse Loki response payload as JSON.',
-                    details: String(error),
-                };
-            }
-        }
-
-        return {
-            error: 'Loki response did not contain a valid JSON payload.',
-            details: {
-                statusCode: response.statusCode,
-            },
-        };
-    }
-
-    private parseRocketChatAppLogsResponse(
-        response: IHttpResponse,
-    ): { payload: AppLogsQueryResponse } | { error: string; details?: unknown } {
-        if (response.data && typeof response.data === 'object') {
-            return { payload: response.data as AppLogsQueryResponse };
-        }
-
-        if (typeof response.content === 'string' && response.content.trim()) {
-            try {
-                return { payload: JSON.parse(response.content) as AppLogsQueryResponse };
-            } catch (error) {
-                return {
-                    error: 'Failed to parse Rocket.Chat app logs response payload as JSON.',
-                    details: String(error),
-                };
-            }
-        }
-
-        return {
-            error: 'Rocket.Chat app logs response did not contain a valid JSON payload.',
-            details: {
-                statusCode: response.statusCode,
-            },
-        };
-    }
-
-    private flattenRocketChatAppLogs(records: Array<AppLogsRecordPayload>): Array<LogEntry> {
-        const entries: Array<LogEntry> = [];
-
-        for (const record of records) {
-            const method = typeof record.method === 'string' ? record.method : '';
-            const recordEntries = Array.isArray(record.entries) ? record.entries : [];
-            for (const entry of recordEntries) {
-                const timestamp = this.parseAppLogTimestamp(entry.timestamp);
-                const level = this.normalizeLevel(entry.severity) || 'unknown';
-                const message = this.buildAppLogMessage(method || entry.method, entry.args);
-                entries.push({
-                    timestamp: timestamp.iso,
-                    rawTimestampNs: timestamp.rawTimestampNs,
-                    level,
-                    message,
-                    labels: {
-                        source: 'app_logs',
-                        ...(method ? { method } : {}),
-                        ...(typeof entry.caller === 'string' && entry.caller ? { caller: entry.caller } : {}),
-                    },
-                });
-            }
-        }
-
-        return entries;
-    }
-
-    private parseAppLogTimestamp(rawValue: unknown): { iso: string; rawTimestampNs: string } {
-        const parsed = typeof rawValue === 'string' ? Date.parse(rawValue) : NaN;
-        if (!Number.isFinite(parsed)) {
-            return {
-                iso: new Date(0).toISOString(),
-                rawTimestampNs: '0',
-            };
-        }
-
-        return {
-            iso: new Date(parsed).toISOString(),
-            rawTimestampNs: (BigInt(Math.floor(parsed)) * 1000000n).toString(),
-        };
-    }
-
-    private buildAppLogMessage(method: unknown, args: unknown): string {
-        const methodText = typeof method === 'string' && method.trim() ? method.trim() : '';
-        const argValues = Array.isArray(args) ? args : [];
-        const serializedArgs = argValues.map((value) => this.serializeLogArg(value)).join(' ');
-        const combined = [methodText, serializedArgs].filter(Boolean).join(' ');
-        return combined || '[app log entry]';
-    }
-
-    private serializeLogArg(value: unknown): string {
-        if (typeof value === 'string') {
-            return value;
-        }
-        if (typeof value === 'number' || typeof value === 'boolean') {
-            return String(value);
-        }
-        if (value === null || value === undefined) {
-            return '';
-        }
-        try {
-            return JSON.stringify(value);
-        } catch {
-            return String(value);
-        }
-    }
-
-    private toAppLogsLevel(level?: QueryLevel): number | undefined {
-        if (!level) {
-            return undefined;
-        }
-
-        // Rocket.Chat app logs API expects numeric levels (0=DEBUG, 1=INFO, 2=WARN/ERROR).
-        if (level === 'debug') {
-            return 0;
-        }
-        if (level === 'info') {
-            return 1;
-        }
-        return 2;
-    }
-
-    private flattenResults(results: Array<LokiStreamResult>): Array<LogEntry> {
-        const entries: Array<LogEntry> = [];
-        for (const result of results) {
-            const labels = result.stream || {};
-            const values = result.values || [];
-
-            for (const value of values) {
-                if (!Array.isArray(value) || value.length < 2) {
-                    continue;
-                }
-
-                const rawTimestampNs = String(value[0]);
-                const message = String(value[1]);
-                entries.push({
-                    timestamp: this.nsToIso(rawTimestampNs),
-                    rawTimestampNs,
-                    level: this.resolveLevel(labels, message),
-                    message,
-                    labels,
-                });
-            }
-        }
-
-        return entries;
-    }
-
-    private resolveLevel(labels: Record<string, string>, message: string): ResolvedLevel {
-        const labelCandidates = [labels.level, labels.severity, labels.lvl, labels.loglevel];
-        for (const candidate of labelCandidates) {
-            const normalized = this.normalizeLevel(candidate);
-            if (normalized) {
-                return normalized;
-            }
-        }
-
-        if (/\b(error|err|fatal|panic|exception)\b/i.test(message)) {
-            return 'error';
-        }
-        if (/\b(warn|warning)\b/i.test(message)) {
-            return 'warn';
-        }
-        if (/\b(info|information)\b/i.test(message)) {
-            return 'info';
-        }
-        if (/\b(debug|trace|verbose)\b/i.test(message)) {
-            return 'debug';
-        }
-
-        return 'unknown';
-    }
-
-    private normalizeLevel(value?: string): QueryLevel | undefined {
-        if (!value) {
-            return undefined;
-        }
-
-        const normalized = value.trim().toLowerCase();
-        if (['error', 'err', 'fatal', 'panic'].includes(normalized)) {
-            return 'error';
-        }
-        if (['warn', 'warning'].includes(normalized)) {
-            return 'warn';
-        }
-        if (['info', 'information'].includes(normalized)) {
-            return 'info';
-        }
-        if (['debug', 'trace', 'verbose'].includes(normalized)) {
-            return 'debug';
-        }
-        return undefined;
-    }
-
-    private compareNsDesc(a: string, b: string): number {
-        const aParsed = this.safeBigInt(a);
-        const bParsed = this.safeBigInt(b);
-        if (aParsed !== undefined && bParsed !== undefined) {
-            if (aParsed === bParsed) {
-                return 0;
-            }
-            return aParsed > bParsed ? -1 : 1;
-        }
-
-        return b.localeCompare(a);
-    }
-
-    private safeBigInt(value: string): bigint | undefined {
-        try {
-            return BigInt(value);
-        } catch {
-            return undefined;
-        }
-    }
-
-    private nsToIso(rawNs: string): string {
-        const parsed = this.safeBigInt(rawNs);
-        if (parsed === undefined) {
-            return new Date(0).toISOString();
-        }
-
-        const ms = Number(parsed / 1000000n);
-        return new Date(ms).toISOString();
-    }
-
-    private toEpochNs(date: Date): string {
-        return (BigInt(date.getTime()) * 1000000n).toString();
-    }
-
-    private toBase64(value: string): string {
-        if (typeof Buffer !== 'undefined') {
-            return Buffer.from(value).toString('base64');
-        }
-
-        if (typeof btoa !== 'undefined') {
-            return btoa(value);
-        }
-
-        throw new Error('No base64 encoder available for Basic auth header.');
-    }
-
     private readNumberSetting(value: unknown, fallback: number, min: number, max: number): number {
         const parsed = typeof value === 'number' ? value : Number(value);
         if (!Number.isFinite(parsed)) {
@@ -926,19 +461,6 @@ export class LogsQueryEndpoint extends ApiEndpoint {
         return trimmed || fallback;
     }
 
-    private isValidSelector(selector: string): boolean {
-        if (!selector) {
-            return false;
-        }
-        if (!selector.startsWith('{') || !selector.endsWith('}')) {
-            return false;
-        }
-        if (selector.includes('|') || selector.includes('\n') || selector.includes('\r')) {
-            return false;
-        }
-        return true;
-    }
-
     private badRequest(message: string, details?: unknown): IApiResponse {
         return this.json({
             status: HttpStatusCode.BAD_REQUEST,
@@ -950,6 +472,28 @@ export class LogsQueryEndpoint extends ApiEndpoint {
         });
     }
 
+    private async rejectInvalidQuery(
+        read: IRead,
+        persistence: IPersistence,
+        userId: string,
+        security: SecuritySettings,
+        failure: { error: string; details?: unknown },
+    ): Promise<IApiResponse> {
+        await this.audit(
+            read,
+            persistence,
+            {
+                action: 'query_denied',
+                userId,
+                outcome: 'denied',
+                reason: 'invalid_query',
+                scope: { details: failure.details },
+            },
+            security,
+        );
+        return this.badRequest(failure.error, failure.details);
+    }
+
     private invalidConfig(message: string): IApiResponse {
         return this.json({
             status: HttpStatusCode.INTERNAL_SERVER_ERROR,
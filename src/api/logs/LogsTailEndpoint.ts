@@ -0,0 +1,458 @@
+import { HttpStatusCode, IHttp, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { ApiEndpoint, IApiEndpointInfo, IApiRequest, IApiResponse } from '@rocket.chat/apps-engine/definition/api';
+
+import { SETTINGS } from '../../constants';
+import {
+    authorizeRequestUser,
+    parseWorkspacePermissionCode,
+    parseWorkspacePermissionMode,
+    WorkspacePermissionMode,
+} from '../../security/accessControl';
+import { appendAuditEntry, consumeRateLimitToken, parseAllowedRoles } from '../../security/querySecurity';
+import { redactFieldValues, redactLogMessage } from '../../security/redaction';
+import { parseRedactionRules } from '../../security/redactionRules';
+import { compareNsDesc, matchesLabelFilters, safeBigInt } from '../../sources/logEntries';
+import { parseLogsSourceMode, resolveLogSource } from '../../sources/registry';
+import { formatLevelFilter, parseAllowedLabelNames } from './queryValidation';
+import { formatServerSentEvents, ServerSentEvent } from './serverSentEvents';
+import { closeTailSession, openTailSession, readTailSession, recordTailDelivery, TailSession } from './tailSessionStore';
+import { parseTailRequest } from './tailValidation';
+
+type SecuritySettings = {
+    allowedRoles: Array<string>;
+    workspacePermissionCode: string;
+    workspacePermissionMode: WorkspacePermissionMode;
+    rateLimitQpm: number;
+    auditRetentionDays: number;
+    auditMaxEntries: number;
+};
+
+type TailAuditAction = 'stream_start' | 'stream_start_denied' | 'stream_end';
+
+const TAIL_POLL_INTERVAL_MS = 2000;
+// Polls arriving faster than this get an empty batch instead of an upstream query.
+const TAIL_MIN_POLL_INTERVAL_MS = 1000;
+const TAIL_INITIAL_LOOKBACK_MS = 60 * 1000;
+const TAIL_BATCH_LIMIT = 500;
+
+/**
+ * Live tail over Server-Sent Events.
+ *
+ * Apps-Engine endpoints cannot hold a response open or proxy Loki's WebSocket tail API, so each request
+ * returns one `text/event-stream` batch of lines newer than the client cursor and a `retry:` hint for the
+ * next request. The first request opens a stream session (counted against the per-user limit and audited
+ * as `stream_start`); later requests only carry the stream id and cursor.
+ */
+export class LogsTailEndpoint extends ApiEndpoint {
+    public path = 'tail';
+    public authRequired = true;
+
+    public async post(
+        request: IApiRequest,
+        _endpoint: IApiEndpointInfo,
+        read: IRead,
+        _modify: IModify,
+        http: IHttp,
+        persistence: IPersistence,
+    ): Promise<IApiResponse> {
+        if (!request.user) {
+            return this.json({
+                status: HttpStatusCode.UNAUTHORIZED,
+                content: { ok: false, error: 'Authentication required.' },
+            });
+        }
+
+        const settingsReader = read.getEnvironmentReader().getSettings();
+        const [
+            logsSourceModeRaw,
+            allowedRolesRaw,
+            workspacePermissionCodeRaw,
+            workspacePermissionModeRaw,
+            enableRedactionRaw,
+            redactionReplacementRaw,
+            redactionDetectorsRaw,
+            redactionRulesRaw,
+            allowedLabelFiltersRaw,
+            maxTimeWindowHours,
+            maxLinesPerQuery,
+            queryTimeoutMs,
+            rateLimitQpm,
+            tailMaxStreamsRaw,
+            auditRetentionDays,
+            auditMaxEntries,
+        ] = await Promise.all([
+            settingsReader.getValueById(SETTINGS.LOGS_SOURCE_MODE),
+            settingsReader.getValueById(SETTINGS.ALLOWED_ROLES),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_CODE),
+            settingsReader.getValueById(SETTINGS.WORKSPACE_PERMISSION_MODE),
+            settingsReader.getValueById(SETTINGS.ENABLE_REDACTION),
+            settingsReader.getValueById(SETTINGS.REDACTION_REPLACEMENT),
+            settingsReader.getValueById(SETTINGS.REDACTION_DETECTORS),
+            settingsReader.getValueById(SETTINGS.REDACTION_RULES),
+            settingsReader.getValueById(SETTINGS.ALLOWED_LABEL_FILTERS),
+            settingsReader.getValueById(SETTINGS.MAX_TIME_WINDOW_HOURS),
+            settingsReader.getValueById(SETTINGS.MAX_LINES_PER_QUERY),
+            settingsReader.getValueById(SETTINGS.QUERY_TIMEOUT_MS),
+            settingsReader.getValueById(SETTINGS.RATE_LIMIT_QPM),
+            settingsReader.getValueById(SETTINGS.TAIL_MAX_STREAMS_PER_USER),
+            settingsReader.getValueById(SETTINGS.AUDIT_RETENTION_DAYS),
+            settingsReader.getValueById(SETTINGS.AUDIT_MAX_ENTRIES),
+        ]);
+
+        const sourceMode = parseLogsSourceMode(logsSourceModeRaw);
+        const source = resolveLogSource(sourceMode);
+        const userId = request.user.id;
+        const security: SecuritySettings = {
+            allowedRoles: parseAllowedRoles(allowedRolesRaw),
+            workspacePermissionCode: parseWorkspacePermissionCode(workspacePermissionCodeRaw),
+            workspacePermissionMode: parseWorkspacePermissionMode(workspacePermissionModeRaw),
+            rateLimitQpm: this.readNumberSetting(rateLimitQpm, 60, 1, 1000),
+            auditRetentionDays: this.readNumberSetting(auditRetentionDays, 90, 1, 365),
+            auditMaxEntries: this.readNumberSetting(auditMaxEntries, 5000, 100, 20000),
+        };
+        const tailMaxStreams = this.readNumberSetting(tailMaxStreamsRaw, 2, 1, 20);
+
+        const accessDecision = await authorizeRequestUser({
+            request,
+            read,
+            http,
+            allowedRoles: security.allowedRoles,
+            workspacePermissionCode: security.workspacePermissionCode,
+            workspacePermissionMode: security.workspacePermissionMode,
+        });
+        if (!accessDecision.allowed) {
+            await this.audit(read, persistence, security, {
+                action: 'stream_start_denied',
+                userId,
+                outcome: 'denied',
+                reason: accessDecision.reason || 'forbidden_role',
+                scope: {
+                    requiredRoles: security.allowedRoles,
+                    workspacePermissionCode: security.workspacePermissionCode,
+                    workspacePermissionMode: security.workspacePermissionMode,
+                    details: accessDecision.details,
+                },
+            });
+
+            return this.json({
+                status: HttpStatusCode.FORBIDDEN,
+                content: {
+                    ok: false,
+                    error: 'Insufficient authorization for logs tail.',
+                    reason: accessDecision.reason || 'forbidden_role',
+                },
+            });
+        }
+
+        const parsed = parseTailRequest({
+            requestContent: request.content,
+            allowedLabelNames: parseAllowedLabelNames(allowedLabelFiltersRaw),
+        });
+        if ('error' in parsed) {
+            await this.audit(read, persistence, security, {
+                action: 'stream_start_denied',
+                userId,
+                outcome: 'denied',
+                reason: 'invalid_query',
+                scope: { details: parsed.details },
+            });
+            return this.badRequest(parsed.error, parsed.details);
+        }
+
+        const tail = parsed.request;
+        if (tail.end && tail.stream) {
+            const closed = await closeTailSession(read, persistence, userId, tail.stream);
+            await this.auditExpired(read, persistence, security, userId, closed.expired);
+            if (closed.session) {
+                await this.auditStreamEnd(read, persistence, security, userId, closed.session, 'closed');
+            }
+            return this.eventStream([{ event: 'end', data: { stream: tail.stream, reason: 'closed' } }]);
+        }
+
+        const now = Date.now();
+        let session: TailSession;
+        if (!tail.stream) {
+            const rateLimit = await consumeRateLimitToken(read, persistence, userId, security.rateLimitQpm);
+            if (!rateLimit.allowed) {
+                await this.audit(read, persistence, security, {
+                    action: 'stream_start_denied',
+                    userId,
+                    outcome: 'denied',
+                    reason: 'rate_limited',
+                    scope: {
+                        retryAfterSeconds: rateLimit.retryAfterSeconds,
+                        rateLimitQpm: security.rateLimitQpm,
+                    },
+                });
+
+                return this.json({
+                    status: HttpStatusCode.TOO_MANY_REQUESTS,
+                    headers: {
+                        'retry-after': String(rateLimit.retryAfterSeconds || 1),
+                    },
+                    content: {
+                        ok: false,
+                        error: 'Rate limit exceeded for logs tail.',
+                        retryAfterSeconds: rateLimit.retryAfterSeconds || 1,
+                    },
+                });
+            }
+
+            const filters = tail.filters || {};
+            if (filters.source && !source.listSources) {
+                return this.badRequest(`Named sources are not supported in ${sourceMode} mode.`, { sourceMode, source: filters.source });
+            }
+
+            const opened = await openTailSession(read, persistence, userId, { maxStreams: tailMaxStreams, filters }, now);
+            await this.auditExpired(read, persistence, security, userId, opened.expired);
+            if ('error' in opened) {
+                await this.audit(read, persistence, security, {
+                    action: 'stream_start_denied',
+                    userId,
+                    outcome: 'denied',
+                    reason: 'stream_limit',
+                    scope: { active: opened.active, maxStreams: tailMaxStreams },
+                });
+                return this.json({
+                    status: HttpStatusCode.TOO_MANY_REQUESTS,
+                    content: {
+                        ok: false,
+                        error: `Too many live tail streams. Close one of your ${opened.active} active streams and try again.`,
+                        details: { active: opened.active, maxStreams: tailMaxStreams },
+                    },
+                });
+            }
+
+            session = opened.session;
+            await this.audit(read, persistence, security, {
+                action: 'stream_start',
+                userId,
+                outcome: 'allowed',
+                scope: {
+                    streamId: session.id,
+                    level: formatLevelFilter(filters.levels),
+                    searchProvided: Boolean(filters.search),
+                    labelFilters: filters.labels || [],
+                    accessMode: accessDecision.mode,
+                    sourceMode,
+                    sourceId: filters.source || null,
+                    maxStreams: tailMaxStreams,
+                },
+            });
+        } else {
+            const existing = await readTailSession(read, userId, tail.stream, now);
+            if (!existing) {
+                return this.json({
+                    status: HttpStatusCode.GONE,
+                    content: {
+                        ok: false,
+                        error: 'Tail stream expired or unknown. Start a new stream.',
+                    },
+                });
+            }
+            if (now - Date.parse(existing.lastSeenAt) < TAIL_MIN_POLL_INTERVAL_MS) {
+                return this.eventStream([this.streamEvent(existing, tail.cursor || null, 0, false)]);
+            }
+            session = existing;
+        }
+
+        const filters = session.filters;
+        const namedSources = source.listSources ? await source.listSources(read) : [];
+        const selectedSource = filters.source
+            ? namedSources.find((candidate) => candidate.id === filters.source)
+            : namedSources[0];
+        const windowLimitHours = Math.min(
+            this.readNumberSetting(maxTimeWindowHours, 24, 1, 168),
+            selectedSource?.maxTimeWindowHours || Number.MAX_SAFE_INTEGER,
+        );
+        const batchLimit = Math.min(
+            TAIL_BATCH_LIMIT,
+            this.readNumberSetting(maxLinesPerQuery, 2000, 100, 5000),
+            selectedSource?.maxLinesPerQuery || Number.MAX_SAFE_INTEGER,
+        );
+
+        // Resume from the cursor, but never reach further back than the max query window.
+        const cursorNs = tail.cursor ? safeBigInt(tail.cursor) : undefined;
+        const earliestMs = now - windowLimitHours * 60 * 60 * 1000;
+        const startMs = cursorNs !== undefined ? Math.max(earliestMs, Number(cursorNs / 1000000n)) : now - TAIL_INITIAL_LOOKBACK_MS;
+
+        const queryResult = await source.query(
+            { http, read, appId: this.app.getID(), request, userRoles: request.user.roles },
+            {
+                start: new Date(startMs),
+                end: new Date(now),
+                // One extra line tells us whether the batch overflowed.
+                limit: batchLimit + 1,
+                levels: filters.levels,
+                search: filters.search,
+                source: filters.source,
+                labels: filters.labels,
+                timeoutMs: this.readNumberSetting(queryTimeoutMs, 30000, 1000, 120000),
+            },
+        );
+        if ('error' in queryResult) {
+            return this.json({
+                status: queryResult.status || HttpStatusCode.BAD_GATEWAY,
+                content: {
+                    ok: false,
+                    error: queryResult.error,
+                    details: queryResult.details,
+                },
+            });
+        }
+
+        const fresh = queryResult.entries.filter((entry) =>
+            (!tail.cursor || compareNsDesc(entry.rawTimestampNs, tail.cursor) < 0)
+            && (!filters.labels || matchesLabelFilters(entry.labels, filters.labels))
+            && (!filters.levels || filters.levels.includes(entry.level)));
+        // Oldest first so clients can append; when a batch overflows, the newest lines win.
+        const ordered = fresh.sort((a, b) => compareNsDesc(b.rawTimestampNs, a.rawTimestampNs));
+        const truncated = ordered.length > batchLimit;
+        const batch = truncated ? ordered.slice(ordered.length - batchLimit) : ordered;
+
+        const redaction = {
+            enabled: this.readBooleanSetting(enableRedactionRaw, true),
+            replacement: this.readReplacementSetting(redactionReplacementRaw, '[REDACTED]'),
+            rules: parseRedactionRules(redactionRulesRaw, redactionDetectorsRaw).rules,
+        };
+        const logEvents: Array<ServerSentEvent> = batch.map(({ rawTimestampNs, ...entry }) => ({
+            event: 'log',
+            id: rawTimestampNs,
+            data: {
+                ...entry,
+                message: redactLogMessage(entry.message, redaction).message,
+                labels: redactFieldValues(entry.labels, redaction).values,
+            },
+        }));
+
+        const recorded = await recordTailDelivery(read, persistence, userId, session.id, batch.length);
+        await this.auditExpired(read, persistence, security, userId, recorded.expired);
+
+        const cursor = batch.length > 0 ? batch[batch.length - 1].rawTimestampNs : tail.cursor || null;
+        return this.eventStream([this.streamEvent(session, cursor, batch.length, truncated), ...logEvents]);
+    }
+
+    private streamEvent(session: TailSession, cursor: string | null, returned: number, truncated: boolean): ServerSentEvent {
+        return {
+            event: 'stream',
+            data: {
+                stream: session.id,
+                cursor,
+                returned,
+                truncated,
+                pollIntervalMs: TAIL_POLL_INTERVAL_MS,
+            },
+        };
+    }
+
+    private eventStream(events: Array<ServerSentEvent>): IApiResponse {
+        return {
+            status: HttpStatusCode.OK,
+            headers: {
+                'content-type': 'text/event-stream; charset=utf-8',
+                'cache-control': 'no-cache',
+            },
+            content: formatServerSentEvents(events, TAIL_POLL_INTERVAL_MS),
+        };
+    }
+
+    private async auditExpired(
+        read: IRead,
+        persistence: IPersistence,
+        security: SecuritySettings,
+        userId: string,
+        sessions: Array<TailSession>,
+    ): Promise<void> {
+        for (const session of sessions) {
+            await this.auditStreamEnd(read, persistence, security, userId, session, 'expired');
+        }
+    }
+
+    private async auditStreamEnd(
+        read: IRead,
+        persistence: IPersistence,
+        security: SecuritySettings,
+        userId: string,
+        session: TailSession,
+        reason: 'closed' | 'expired',
+    ): Promise<void> {
+        await this.audit(read, persistence, security, {
+            action: 'stream_end',
+            userId,
+            outcome: 'allowed',
+            reason,
+            scope: {
+                streamId: session.id,
+                startedAt: session.startedAt,
+                lastSeenAt: session.lastSeenAt,
+                delivered: session.delivered,
+                sourceId: session.filters.source || null,
+            },
+        });
+    }
+
+    private readNumberSetting(value: unknown, fallback: number, min: number, max: number): number {
+        const parsed = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(parsed)) {
+            return fallback;
+        }
+        return Math.min(max, Math.max(min, Math.floor(parsed)));
+    }
+
+    private readBooleanSetting(value: unknown, fallback: boolean): boolean {
+        if (typeof value === 'boolean') {
+            return value;
+        }
+
+        if (typeof value === 'string') {
+            const normalized = value.trim().toLowerCase();
+            if (normalized === 'true') {
+                return true;
+            }
+            if (normalized === 'false') {
+                return false;
+            }
+        }
+
+        return fallback;
+    }
+
+    private readReplacementSetting(value: unknown, fallback: string): string {
+        if (typeof value !== 'string') {
+            return fallback;
+        }
+
+        const trimmed = value.trim();
+        return trimmed || fallback;
+    }
+
+    private badRequest(message: string, details?: unknown): IApiResponse {
+        return this.json({
+            status: HttpStatusCode.BAD_REQUEST,
+            content: {
+                ok: false,
+                error: message,
+                details,
+            },
+        });
+    }
+
+    private async audit(
+        read: IRead,
+        persistence: IPersistence,
+        security: SecuritySettings,
+        entry: {
+            action: TailAuditAction;
+            userId: string;
+            outcome: 'allowed' | 'denied';
+            reason?: string;
+            scope?: Record<string, unknown>;
+        },
+    ): Promise<void> {
+        try {
+            await appendAuditEntry(read, persistence, entry, security.auditRetentionDays, security.auditMaxEntries);
+        } catch {
+            // Audit failures should not interrupt an active tail.
+        }
+    }
+}
@@ -1,4 +1,4 @@
-export type LogsActionType = 'share' | 'incident_draft' | 'thread_note';
+export type LogsActionType = 'share' | 'incident_draft' | 'thread_note' | 'export_bundle';
 
 type ParsedContext = {
     source?: string;
@@ -23,6 +23,8 @@ export type ParsedLogActionRequest = {
     targetThreadId?: string;
     entry: ParsedLogActionEntry;
     context: ParsedContext;
+    // `/query` filters and window an `export_bundle` re-runs; validated by the endpoint like `POST /export`.
+    query?: Record<string, unknown>;
 };
 
 const MAX_ROOM_ID_LENGTH = 128;
@@ -35,8 +37,8 @@ const MAX_LABELS = 20;
 const MAX_LABEL_KEY_LENGTH = 80;
 const MAX_LABEL_VALUE_LENGTH = 200;
 
-const ACTIONS = new Set<LogsActionType>(['share', 'incident_draft', 'thread_note']);
-const TOP_LEVEL_KEYS = new Set(['action', 'targetRoomId', 'targetThreadId', 'entry', 'context']);
+const ACTIONS = new Set<LogsActionType>(['share', 'incident_draft', 'thread_note', 'export_bundle']);
+const TOP_LEVEL_KEYS = new Set(['action', 'targetRoomId', 'targetThreadId', 'entry', 'context', 'query']);
 const ENTRY_KEYS = new Set(['timestamp', 'level', 'message', 'labels']);
 const CONTEXT_KEYS = new Set(['source', 'preset', 'roomId', 'roomName', 'threadId', 'search', 'requestedLevel']);
 
@@ -59,7 +61,7 @@ export const parseAndNormalizeLogActionRequest = (
     const actionRaw = typeof objectPayload.action === 'string' ? objectPayload.action.trim() : '';
     if (!ACTIONS.has(actionRaw as LogsActionType)) {
         return {
-            error: 'Invalid action. Expected one of: share, incident_draft, thread_note.',
+            error: 'Invalid action. Expected one of: share, incident_draft, thread_note, export_bundle.',
             details: { action: objectPayload.action },
         };
     }
@@ -81,6 +83,15 @@ export const parseAndNormalizeLogActionRequest = (
         return contextResult;
     }
 
+    const query = objectPayload.query;
+    if (actionRaw === 'export_bundle') {
+        if (!query || typeof query !== 'object' || Array.isArray(query)) {
+            return { error: 'query is required for export_bundle action and must be an object.' };
+        }
+    } else if (query !== undefined) {
+        return { error: 'query is only supported for export_bundle action.' };
+    }
+
     return {
         request: {
             action: actionRaw as LogsActionType,
@@ -88,19 +99,21 @@ export const parseAndNormalizeLogActionRequest = (
             targetThreadId,
             entry: entryResult.entry,
             context: contextResult.context,
+            ...(actionRaw === 'export_bundle' ? { query: query as Record<string, unknown> } : {}),
         },
     };
 };
 
-export const composeActionMessage = (request: ParsedLogActionRequest): string => {
+// `entityLinks` is a preformatted line of Rocket.Chat deep links for entities the entry references.
+export const composeActionMessage = (request: ParsedLogActionRequest, entityLinks = ''): string => {
     if (request.action === 'incident_draft') {
-        return composeIncidentDraft(request);
+        return composeIncidentDraft(request, entityLinks);
     }
     if (request.action === 'thread_note') {
-        return composeThreadNote(request);
+        return composeThreadNote(request, entityLinks);
     }
 
-    return composeSharedLogMessage(request);
+    return composeSharedLogMessage(request, entityLinks);
 };
 
 const parseEntry = (raw: unknown): { entry: ParsedLogActionEntry } | { error: string; details?: unknown } => {
@@ -201,7 +214,7 @@ const parseContext = (raw: unknown): { context: ParsedContext } | { error: strin
     };
 };
 
-const composeSharedLogMessage = (request: ParsedLogActionRequest): string => {
+const composeSharedLogMessage = (request: ParsedLogActionRequest, entityLinks: string): string => {
     const lines = [
         '*Log Entry Shared from Logs Viewer*',
         `- Time: ${formatTimestamp(request.entry.timestamp)}`,
@@ -227,11 +240,15 @@ const composeSharedLogMessage = (request: ParsedLogActionRequest): string => {
         lines.push('');
         lines.push(`*Labels* ${labels}`);
     }
+    if (entityLinks) {
+        lines.push('');
+        lines.push(`*In Rocket.Chat* ${entityLinks}`);
+    }
 
     return lines.join('\n');
 };
 
-const composeIncidentDraft = (request: ParsedLogActionRequest): string => {
+const composeIncidentDraft = (request: ParsedLogActionRequest, entityLinks: string): string => {
     const summary = deriveSummary(request.entry.message);
     const lines = [
         '*:rotating_light: Incident Draft (Logs Viewer)*',
@@ -258,6 +275,9 @@ const composeIncidentDraft = (request: ParsedLogActionRequest): string => {
     if (labels) {
         lines.push(`- Labels: ${labels}`);
     }
+    if (entityLinks) {
+        lines.push(`- In Rocket.Chat: ${entityLinks}`);
+    }
 
     lines.push('');
     lines.push('*Next actions*');
@@ -268,7 +288,7 @@ const composeIncidentDraft = (request: ParsedLogActionRequest): string => {
     return lines.join('\n');
 };
 
-const composeThreadNote = (request: ParsedLogActionRequest): string => {
+const composeThreadNote = (request: ParsedLogActionRequest, entityLinks: string): string => {
     const lines = [
         '*Thread Note (Logs Viewer)*',
         `- Logged at: ${formatTimestamp(request.entry.timestamp)}`,
@@ -294,6 +314,10 @@ const composeThreadNote = (request: ParsedLogActionRequest): string => {
         lines.push('');
         lines.push(`*Labels* ${labels}`);
     }
+    if (entityLinks) {
+        lines.push('');
+        lines.push(`*In Rocket.Chat* ${entityLinks}`);
+    }
 
     return lines.join('\n');
 };
@@ -0,0 +1,111 @@
+import { NormalizedQuery, parseAndNormalizeQuery, parseDuration, readObjectContent } from './queryValidation';
+
+export type CompareWindow = {
+    start: Date;
+    end: Date;
+};
+
+export type CompareRequest = {
+    // Filters plus the target window, validated like POST /query.
+    query: NormalizedQuery;
+    baseline: CompareWindow;
+    // How far the baseline was shifted back from the target, when given as a duration.
+    baselineOffsetMs?: number;
+};
+
+const ALLOWED_BASELINE_KEYS = new Set(['start', 'end']);
+
+/**
+ * Moves a window back by `offsetMs`. An offset shorter than the window would overlap it, so the caller gets
+ * `undefined` and should report that.
+ */
+export const shiftCompareWindow = (target: CompareWindow, offsetMs: number): CompareWindow | undefined => {
+    if (offsetMs < target.end.getTime() - target.start.getTime()) {
+        return undefined;
+    }
+    return { start: new Date(target.start.getTime() - offsetMs), end: new Date(target.end.getTime() - offsetMs) };
+};
+
+/**
+ * Parses a compare payload: the usual /query keys describe the target window and filters, and `baseline` is either
+ * a duration (`"24h"`: the target window shifted back that far) or `{ start, end }`. Without `baseline` the window
+ * right before the target is used.
+ */
+export const parseCompareRequest = (args: {
+    requestContent: unknown;
+    defaultTimeRange: string;
+    maxTimeWindowHours: number;
+    maxLinesPerQuery: number;
+    allowedLabelNames: Array<string>;
+    now?: Date;
+}): { request: CompareRequest } | { error: string; details?: unknown } => {
+    const content = readObjectContent(args.requestContent);
+    if ('error' in content) {
+        return content;
+    }
+
+    const { baseline, ...queryPayload } = content.value;
+    const now = args.now || new Date();
+    const normalized = parseAndNormalizeQuery({
+        requestQuery: {},
+        requestContent: queryPayload,
+        defaultTimeRange: args.defaultTimeRange,
+        maxTimeWindowHours: args.maxTimeWindowHours,
+        maxLinesPerQuery: args.maxLinesPerQuery,
+        allowedLabelNames: args.allowedLabelNames,
+        now,
+    });
+    if ('error' in normalized) {
+        return normalized;
+    }
+
+    const query = normalized.query;
+    if (query.cursor) {
+        return { error: 'Cursors are not supported for compare; each window covers its newest lines.' };
+    }
+
+    const windowMs = query.end.getTime() - query.start.getTime();
+    if (baseline === undefined || baseline === null || baseline === '') {
+        return { request: { query, baseline: shiftCompareWindow(query, windowMs) as CompareWindow, baselineOffsetMs: windowMs } };
+    }
+
+    if (typeof baseline === 'string') {
+        const offset = parseDuration(baseline);
+        if ('error' in offset) {
+            return { error: `Invalid baseline offset: ${offset.error}` };
+        }
+        const shifted = shiftCompareWindow(query, offset.value);
+        if (!shifted) {
+            return { error: 'baseline offset must be at least as long as the target window so the windows do not overlap.' };
+        }
+        return { request: { query, baseline: shifted, baselineOffsetMs: offset.value } };
+    }
+
+    if (typeof baseline !== 'object' || Array.isArray(baseline)) {
+        return { error: 'baseline must be a duration like 24h or an object with start and end.' };
+    }
+
+    const baselineKeys = Object.keys(baseline);
+    const unknownKeys = baselineKeys.filter((key) => !ALLOWED_BASELINE_KEYS.has(key));
+    if (unknownKeys.length > 0 || baselineKeys.length !== ALLOWED_BASELINE_KEYS.size) {
+        return { error: 'baseline must be a duration like 24h or an object with start and end.', details: { unknownKeys } };
+    }
+
+    // Same timestamp and window-size rules as the target window.
+    const baselineWindow = parseAndNormalizeQuery({
+        requestQuery: {},
+        requestContent: baseline,
+        defaultTimeRange: args.defaultTimeRange,
+        maxTimeWindowHours: args.maxTimeWindowHours,
+        maxLinesPerQuery: Number.MAX_SAFE_INTEGER,
+        now,
+    });
+    if ('error' in baselineWindow) {
+        return { error: `Invalid baseline window: ${baselineWindow.error}` };
+    }
+    if (baselineWindow.query.end.getTime() > query.start.getTime()) {
+        return { error: 'baseline window must end before the target window starts.' };
+    }
+
+    return { request: { query, baseline: { start: baselineWindow.query.start, end: baselineWindow.query.end } } };
+};
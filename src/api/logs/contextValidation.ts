@@ -0,0 +1,123 @@
+import { isValidLabelName, isValidSourceId, readObjectContent } from './queryValidation';
+
+export type ContextAnchor = {
+    // Nanosecond timestamp of the selected line.
+    timestampNs: string;
+    // `ms` when the client sent an ISO timestamp; every line in that millisecond then counts as the anchor.
+    precision: 'ns' | 'ms';
+};
+
+export type ContextRequest = {
+    anchor: ContextAnchor;
+    // Full stream label set of the selected line; context is limited to that stream.
+    labels: Record<string, string>;
+    source?: string;
+    before: number;
+    after: number;
+};
+
+export const CONTEXT_DEFAULT_LINES = 50;
+export const CONTEXT_MAX_LINES = 200;
+
+const ALLOWED_CONTEXT_KEYS = new Set(['timestamp', 'labels', 'source', 'before', 'after']);
+const NS_TIMESTAMP_PATTERN = /^\d{1,20}$/;
+const MAX_STREAM_LABELS = 32;
+const MAX_STREAM_LABEL_VALUE_LENGTH = 256;
+
+export const parseContextRequest = (args: {
+    requestContent: unknown;
+    maxLinesPerQuery: number;
+}): { request: ContextRequest } | { error: string; details?: unknown } => {
+    const content = readObjectContent(args.requestContent);
+    if ('error' in content) {
+        return content;
+    }
+
+    const payload = content.value;
+    const unknownKeys = Object.keys(payload).filter((key) => !ALLOWED_CONTEXT_KEYS.has(key));
+    if (unknownKeys.length > 0) {
+        return {
+            error: 'Unsupported context parameters.',
+            details: { unknownKeys, allowedKeys: Array.from(ALLOWED_CONTEXT_KEYS) },
+        };
+    }
+
+    const anchor = parseAnchor(payload.timestamp);
+    if (!anchor) {
+        return { error: 'timestamp must be an ISO-8601 timestamp or a nanosecond timestamp string.' };
+    }
+
+    const labels = parseStreamLabels(payload.labels);
+    if ('error' in labels) {
+        return labels;
+    }
+
+    let source: string | undefined;
+    if (payload.source !== undefined) {
+        if (typeof payload.source !== 'string' || !isValidSourceId(payload.source.trim())) {
+            return { error: 'Invalid source id.' };
+        }
+        source = payload.source.trim();
+    }
+
+    const maxLines = Math.min(CONTEXT_MAX_LINES, args.maxLinesPerQuery);
+    const before = parseLineCount(payload.before, maxLines);
+    const after = parseLineCount(payload.after, maxLines);
+    if (before === undefined || after === undefined) {
+        return { error: `before and after must be integers between 0 and ${maxLines}.` };
+    }
+
+    return { request: { anchor, labels: labels.value, source, before, after } };
+};
+
+const parseAnchor = (raw: unknown): ContextAnchor | undefined => {
+    if (typeof raw !== 'string' || !raw.trim()) {
+        return undefined;
+    }
+
+    const value = raw.trim();
+    if (NS_TIMESTAMP_PATTERN.test(value)) {
+        return { timestampNs: BigInt(value).toString(), precision: 'ns' };
+    }
+
+    const parsed = Date.parse(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+        return undefined;
+    }
+    return { timestampNs: `${BigInt(parsed) * 1000000n}`, precision: 'ms' };
+};
+
+const parseStreamLabels = (raw: unknown): { value: Record<string, string> } | { error: string; details?: unknown } => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { error: 'labels must be an object with the stream labels of the selected line.' };
+    }
+
+    const entries = Object.entries(raw as Record<string, unknown>);
+    if (entries.length > MAX_STREAM_LABELS) {
+        return { error: `Too many stream labels. Maximum ${MAX_STREAM_LABELS}.` };
+    }
+
+    const value: Record<string, string> = {};
+    for (const [name, labelValue] of entries) {
+        if (!isValidLabelName(name)) {
+            return { error: 'Invalid stream label name.', details: { name } };
+        }
+        if (typeof labelValue !== 'string' || labelValue.length > MAX_STREAM_LABEL_VALUE_LENGTH) {
+            return { error: `Stream label "${name}" must be a string of at most ${MAX_STREAM_LABEL_VALUE_LENGTH} characters.` };
+        }
+        value[name] = labelValue;
+    }
+    return { value };
+};
+
+const parseLineCount = (raw: unknown, max: number): number | undefined => {
+    if (raw === undefined) {
+        return Math.min(CONTEXT_DEFAULT_LINES, max);
+    }
+
+    const parsed = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() ? Number(raw) : NaN;
+    if (!Number.isInteger(parsed) || parsed < 0 || parsed > max) {
+        return undefined;
+    }
+    return parsed;
+};
@@ -0,0 +1,64 @@
+import { compareNsDesc, safeBigInt } from '../../sources/logEntries';
+import { LogEntry } from '../../sources/types';
+import { ContextAnchor } from './contextValidation';
+
+export type ContextWindow = {
+    // Oldest first, ending just before the anchor.
+    before: Array<LogEntry>;
+    anchor: Array<LogEntry>;
+    // Oldest first, starting just after the anchor.
+    after: Array<LogEntry>;
+    // More matching lines exist in the batch beyond the returned ones.
+    moreBefore: boolean;
+    moreAfter: boolean;
+};
+
+/**
+ * Splits the backward batch (window ending one millisecond after the anchor) and the forward batch
+ * (window starting there) around the anchor. Each batch only contributes lines on its own side of that
+ * boundary, so sources with coarse or inclusive bounds cannot return the same line twice.
+ */
+export const buildContextWindow = (args: {
+    anchor: ContextAnchor;
+    backward: Array<LogEntry>;
+    forward: Array<LogEntry>;
+    before: number;
+    after: number;
+}): ContextWindow => {
+    const anchorMs = toMs(args.anchor.timestampNs);
+    const candidates = [
+        ...args.backward.filter((entry) => toMs(entry.rawTimestampNs) <= anchorMs),
+        ...args.forward.filter((entry) => toMs(entry.rawTimestampNs) > anchorMs),
+    ];
+
+    const older: Array<LogEntry> = [];
+    const anchor: Array<LogEntry> = [];
+    const newer: Array<LogEntry> = [];
+    for (const entry of candidates) {
+        const position = compareToAnchor(entry, args.anchor, anchorMs);
+        (position < 0 ? older : position > 0 ? newer : anchor).push(entry);
+    }
+
+    const ascending = (a: LogEntry, b: LogEntry) => compareNsDesc(b.rawTimestampNs, a.rawTimestampNs);
+    older.sort(ascending);
+    anchor.sort(ascending);
+    newer.sort(ascending);
+    return {
+        before: older.slice(Math.max(0, older.length - args.before)),
+        anchor,
+        after: newer.slice(0, args.after),
+        moreBefore: older.length > args.before,
+        moreAfter: newer.length > args.after,
+    };
+};
+
+// Negative when the entry is older than the anchor; millisecond anchors match every line in their millisecond.
+const compareToAnchor = (entry: LogEntry, anchor: ContextAnchor, anchorMs: bigint): number => {
+    if (anchor.precision === 'ms') {
+        const entryMs = toMs(entry.rawTimestampNs);
+        return entryMs < anchorMs ? -1 : entryMs > anchorMs ? 1 : 0;
+    }
+    return -compareNsDesc(entry.rawTimestampNs, anchor.timestampNs);
+};
+
+const toMs = (ns: string): bigint => (safeBigInt(ns) || 0n) / 1000000n;
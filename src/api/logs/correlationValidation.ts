@@ -0,0 +1,54 @@
+import { CORRELATION_ID_VALUE_PATTERN } from '../../sources/correlationIds';
+import { NormalizedQuery, parseAndNormalizeQuery, readObjectContent } from './queryValidation';
+
+export type CorrelationRequest = {
+    id: string;
+    // Window, limit, and named source; the other /query filters do not apply to a correlation lookup.
+    query: NormalizedQuery;
+};
+
+const ALLOWED_CORRELATION_KEYS = new Set(['id', 'since', 'start', 'end', 'limit', 'source']);
+
+/**
+ * Parses a `POST /correlate` payload: the ID plus the `/query` window keys. Label, level, search, and field
+ * filters are rejected because the lookup always spans every stream the caller may read.
+ */
+export const parseCorrelationRequest = (args: {
+    requestContent: unknown;
+    defaultTimeRange: string;
+    maxTimeWindowHours: number;
+    maxLinesPerQuery: number;
+    now?: Date;
+}): { request: CorrelationRequest } | { error: string; details?: unknown } => {
+    const content = readObjectContent(args.requestContent);
+    if ('error' in content) {
+        return content;
+    }
+
+    const { id, ...queryPayload } = content.value;
+    const unknownKeys = Object.keys(content.value).filter((key) => !ALLOWED_CORRELATION_KEYS.has(key));
+    if (unknownKeys.length > 0) {
+        return {
+            error: 'Unsupported correlation parameters.',
+            details: { unknownKeys, allowedKeys: Array.from(ALLOWED_CORRELATION_KEYS) },
+        };
+    }
+
+    if (typeof id !== 'string' || !CORRELATION_ID_VALUE_PATTERN.test(id.trim())) {
+        return { error: 'id must be 4-128 characters of letters, digits, ".", "_", ":", or "-".' };
+    }
+
+    const normalized = parseAndNormalizeQuery({
+        requestQuery: {},
+        requestContent: queryPayload,
+        defaultTimeRange: args.defaultTimeRange,
+        maxTimeWindowHours: args.maxTimeWindowHours,
+        maxLinesPerQuery: args.maxLinesPerQuery,
+        now: args.now,
+    });
+    if ('error' in normalized) {
+        return normalized;
+    }
+
+    return { request: { id: id.trim(), query: normalized.query } };
+};
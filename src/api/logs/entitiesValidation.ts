@@ -0,0 +1,58 @@
+import { ENTITY_VALUE_PATTERN } from '../../sources/entityRefs';
+import { readObjectContent } from './queryValidation';
+
+export type EntitiesRequest = {
+    rooms: Array<string>;
+    users: Array<string>;
+    usernames: Array<string>;
+    messages: Array<string>;
+};
+
+const ENTITY_KEYS: Array<keyof EntitiesRequest> = ['rooms', 'users', 'usernames', 'messages'];
+const MAX_VALUES_PER_KIND = 50;
+
+/**
+ * Parses a `POST /entities` payload: up to 50 room ids, user ids, usernames, and message ids, as found in
+ * `/query` `entityRefs`. Duplicates are dropped; at least one value is required.
+ */
+export const parseEntitiesRequest = (requestContent: unknown): { request: EntitiesRequest } | { error: string; details?: unknown } => {
+    const content = readObjectContent(requestContent);
+    if ('error' in content) {
+        return content;
+    }
+
+    const unknownKeys = Object.keys(content.value).filter((key) => !ENTITY_KEYS.includes(key as keyof EntitiesRequest));
+    if (unknownKeys.length > 0) {
+        return {
+            error: 'Unsupported entity parameters.',
+            details: { unknownKeys, allowedKeys: ENTITY_KEYS },
+        };
+    }
+
+    const request: EntitiesRequest = { rooms: [], users: [], usernames: [], messages: [] };
+    for (const key of ENTITY_KEYS) {
+        const raw = content.value[key];
+        if (raw === undefined) {
+            continue;
+        }
+        if (!Array.isArray(raw)) {
+            return { error: `${key} must be an array of ids.` };
+        }
+
+        const values = Array.from(new Set(raw.map((value) => (typeof value === 'string' ? value.trim() : value))));
+        if (values.length > MAX_VALUES_PER_KIND) {
+            return { error: `${key} accepts at most ${MAX_VALUES_PER_KIND} values.`, details: { key, received: values.length } };
+        }
+
+        const invalid = values.filter((value) => typeof value !== 'string' || !ENTITY_VALUE_PATTERN.test(value));
+        if (invalid.length > 0) {
+            return { error: `${key} values must be 2-64 characters of letters, digits, ".", "_", or "-".`, details: { key } };
+        }
+        request[key] = values as Array<string>;
+    }
+
+    if (ENTITY_KEYS.every((key) => request[key].length === 0)) {
+        return { error: 'At least one room, user, username, or message id is required.' };
+    }
+    return { request };
+};
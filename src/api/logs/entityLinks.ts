@@ -0,0 +1,152 @@
+import { IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { IRoom } from '@rocket.chat/apps-engine/definition/rooms';
+
+import { EntityKind, EntityRef } from '../../sources/types';
+import { EntitiesRequest } from './entitiesValidation';
+
+export type RoomLink = {
+    id: string;
+    name: string;
+    displayName: string | null;
+    type: string;
+    path: string;
+    // Absolute deep link, or null when the workspace origin is unknown.
+    url: string | null;
+};
+
+export type UserLink = {
+    id: string;
+    username: string;
+    name: string | null;
+    path: string;
+    url: string | null;
+};
+
+export type MessageLink = {
+    id: string;
+    roomId: string;
+    roomName: string;
+    path: string;
+    url: string | null;
+};
+
+export type ResolvedEntities = {
+    rooms: Array<RoomLink>;
+    users: Array<UserLink>;
+    messages: Array<MessageLink>;
+    // Values that do not exist or that the caller cannot see; the two cases are not told apart.
+    unresolved: Array<{ kind: EntityKind; value: string }>;
+};
+
+const roomPath = (room: IRoom): string => {
+    const name = encodeURIComponent(room.slugifiedName || room.id);
+    switch (room.type) {
+        case 'c':
+            return `/channel/${name}`;
+        case 'p':
+            return `/group/${name}`;
+        case 'l':
+            return `/live/${encodeURIComponent(room.id)}`;
+        default:
+            return `/direct/${encodeURIComponent(room.id)}`;
+    }
+};
+
+/**
+ * Resolves entity references to Rocket.Chat deep links as `userId` sees them: rooms and messages only when the
+ * user is a member of the room, users by id or username. Lookups for one kind run in parallel.
+ */
+export const resolveEntityLinks = async (
+    read: IRead,
+    userId: string,
+    request: EntitiesRequest,
+    workspaceOrigin: string | undefined,
+): Promise<ResolvedEntities> => {
+    const toUrl = (path: string) => (workspaceOrigin ? `${workspaceOrigin}${path}` : null);
+    const resolved: ResolvedEntities = { rooms: [], users: [], messages: [], unresolved: [] };
+    const visibleRoomIds = new Set((await read.getUserReader().getUserRoomIds(userId)) || []);
+
+    const rooms = await Promise.all(request.rooms.map((id) => (visibleRoomIds.has(id) ? read.getRoomReader().getById(id).catch(() => undefined) : undefined)));
+    request.rooms.forEach((id, index) => {
+        const room = rooms[index];
+        if (!room) {
+            resolved.unresolved.push({ kind: 'room', value: id });
+            return;
+        }
+        const path = roomPath(room);
+        resolved.rooms.push({
+            id: room.id,
+            name: room.slugifiedName || room.id,
+            displayName: room.displayName || null,
+            type: room.type,
+            path,
+            url: toUrl(path),
+        });
+    });
+
+    const userLookups: Array<{ kind: 'user' | 'username'; value: string }> = [
+        ...request.users.map((value) => ({ kind: 'user' as const, value })),
+        ...request.usernames.map((value) => ({ kind: 'username' as const, value })),
+    ];
+    const users = await Promise.all(userLookups.map(({ kind, value }) => (
+        (kind === 'user' ? read.getUserReader().getById(value) : read.getUserReader().getByUsername(value)).catch(() => undefined)
+    )));
+    userLookups.forEach(({ kind, value }, index) => {
+        const user = users[index];
+        if (!user || !user.username) {
+            resolved.unresolved.push({ kind, value });
+            return;
+        }
+        if (resolved.users.some((existing) => existing.id === user.id)) {
+            return;
+        }
+        const path = `/direct/${encodeURIComponent(user.username)}`;
+        resolved.users.push({ id: user.id, username: user.username, name: user.name || null, path, url: toUrl(path) });
+    });
+
+    const messages = await Promise.all(request.messages.map((id) => read.getMessageReader().getById(id).catch(() => undefined)));
+    request.messages.forEach((id, index) => {
+        const message = messages[index];
+        if (!message || !message.room || !visibleRoomIds.has(message.room.id)) {
+            resolved.unresolved.push({ kind: 'message', value: id });
+            return;
+        }
+        const path = `${roomPath(message.room)}?msg=${encodeURIComponent(id)}`;
+        resolved.messages.push({
+            id,
+            roomId: message.room.id,
+            roomName: message.room.slugifiedName || message.room.id,
+            path,
+            url: toUrl(path),
+        });
+    });
+
+    return resolved;
+};
+
+/**
+ * Groups detected references into an `/entities` lookup, keeping at most 50 values per kind.
+ */
+export const toEntitiesRequest = (refs: Array<EntityRef>): EntitiesRequest => {
+    const request: EntitiesRequest = { rooms: [], users: [], usernames: [], messages: [] };
+    const keys: Record<EntityKind, keyof EntitiesRequest> = { room: 'rooms', user: 'users', username: 'usernames', message: 'messages' };
+    for (const ref of refs) {
+        const values = request[keys[ref.kind]];
+        if (values.length < 50 && !values.includes(ref.value)) {
+            values.push(ref.value);
+        }
+    }
+    return request;
+};
+
+/**
+ * One markdown line of deep links for a posted message, or an empty string when nothing resolved to a URL.
+ */
+export const formatEntityLinksForMarkdown = (resolved: ResolvedEntities): string => {
+    const links = [
+        ...resolved.rooms.filter((room) => room.url).map((room) => `[#${room.name}](${room.url})`),
+        ...resolved.users.filter((user) => user.url).map((user) => `[@${user.username}](${user.url})`),
+        ...resolved.messages.filter((message) => message.url).map((message) => `[message in #${message.roomName}](${message.url})`),
+    ];
+    return links.join(' · ');
+};
@@ -0,0 +1,152 @@
+import { RedactionOptions, redactFieldValues, redactLogMessage } from '../../security/redaction';
+import { matchesLabelFilters } from '../../sources/logEntries';
+import { extractLogFields, matchesFieldFilters } from '../../sources/logFields';
+import { LogEntry, LogSourceAdapter, LogSourceContext, LogSourceError, LogSourceLabelScope } from '../../sources/types';
+import { ExportLine } from './exportFormat';
+import { planExportChunks } from './exportValidation';
+import { applyQueryCursor, buildNextQueryCursor, cursorQueryEnd, QueryCursor, sortEntriesForPaging } from './queryCursor';
+import { NormalizedQuery } from './queryValidation';
+
+export type ExportGuardrails = {
+    // Chunk size and batch size; the export window and line limit come from the query itself.
+    maxTimeWindowHours: number;
+    maxLinesPerQuery: number;
+    queryTimeoutMs: number;
+};
+
+export type CollectedExport = {
+    // Newest first, at most the requested limit.
+    entries: Array<LogEntry>;
+    truncated: boolean;
+    chunks: number;
+    requests: number;
+    query: string;
+    source?: string;
+    tenant?: string;
+    labelScope?: LogSourceLabelScope;
+};
+
+export type RedactedExportLines = {
+    // Oldest first, as a file reads.
+    lines: Array<ExportLine>;
+    redactedLines: number;
+    totalRedactions: number;
+};
+
+// Upper bound of upstream requests per export, whatever the window and batch sizes.
+const MAX_EXPORT_REQUESTS = 100;
+
+/**
+ * Reads a query window newest first in chunks of `maxTimeWindowHours`, paging each like `/query` cursors in
+ * batches of `maxLinesPerQuery`, until `query.limit` lines passed the `/query` post-filters.
+ */
+export const collectExportEntries = async (
+    source: LogSourceAdapter,
+    context: LogSourceContext,
+    query: NormalizedQuery,
+    guardrails: ExportGuardrails,
+): Promise<CollectedExport | LogSourceError> => {
+    const chunks = planExportChunks(query.start, query.end, guardrails.maxTimeWindowHours);
+    const collected: CollectedExport = { entries: [], truncated: false, chunks: 0, requests: 0, query: '' };
+
+    for (const [chunkIndex, chunk] of chunks.entries()) {
+        collected.chunks += 1;
+        let cursor: QueryCursor | undefined;
+        for (;;) {
+            if (collected.requests >= MAX_EXPORT_REQUESTS) {
+                collected.truncated = true;
+                return collected;
+            }
+
+            // Same paging as /query cursors: later batches end at the cursor and widen by the lines they drop again.
+            const upstreamLimit = guardrails.maxLinesPerQuery + (cursor?.seen || 0);
+            const result = await source.query(context, {
+                start: chunk.start,
+                end: cursor
+                    ? new Date(Math.max(chunk.start.getTime() + 1, Math.min(chunk.end.getTime(), cursorQueryEnd(cursor).getTime())))
+                    : chunk.end,
+                limit: upstreamLimit,
+                levels: query.levels,
+                search: query.search,
+                source: query.source,
+                labels: query.labels,
+                parser: query.parser,
+                fields: query.fields,
+                timeoutMs: guardrails.queryTimeoutMs,
+            });
+            collected.requests += 1;
+            if ('error' in result) {
+                return result;
+            }
+            if (collected.requests === 1) {
+                collected.query = result.query;
+                collected.source = result.source;
+                collected.tenant = result.tenant;
+                collected.labelScope = result.labelScope;
+            }
+
+            // Chunks share a boundary millisecond; lines at the newer chunk's start were read with that chunk.
+            const inChunk = chunkIndex === 0
+                ? result.entries
+                : result.entries.filter((entry) => Date.parse(entry.timestamp) < chunk.end.getTime());
+            const sorted = sortEntriesForPaging(inChunk);
+            const remaining = cursor ? applyQueryCursor(sorted, cursor) : sorted;
+            collected.entries.push(...applyPostFilters(remaining, query));
+
+            const batchFull = result.entries.length >= upstreamLimit;
+            if (collected.entries.length >= query.limit) {
+                collected.truncated = collected.entries.length > query.limit || batchFull || chunkIndex < chunks.length - 1;
+                collected.entries = collected.entries.slice(0, query.limit);
+                return collected;
+            }
+            if (!batchFull || remaining.length === 0) {
+                break;
+            }
+            cursor = buildNextQueryCursor(remaining, cursor);
+        }
+    }
+    return collected;
+};
+
+/**
+ * Redacts collected entries (labels, and fields too when a parser is set) and returns them oldest first with the counts.
+ */
+export const redactExportLines = (
+    entries: Array<LogEntry>,
+    parser: NormalizedQuery['parser'],
+    redaction: RedactionOptions,
+): RedactedExportLines => {
+    let redactedLines = 0;
+    let totalRedactions = 0;
+    const lines = [...entries].reverse().map(({ timestamp, level, message, labels, fields }): ExportLine => {
+        const redacted = redactLogMessage(message, redaction);
+        const redactedLabels = redactFieldValues(labels, redaction);
+        let redactionCount = redacted.redactionCount + redactedLabels.redactionCount;
+
+        let redactedFields: Record<string, string> | undefined;
+        if (parser && fields) {
+            const redactedValues = redactFieldValues(fields, redaction);
+            redactedFields = redactedValues.values;
+            redactionCount += redactedValues.redactionCount;
+        }
+
+        if (redactionCount > 0) {
+            redactedLines += 1;
+            totalRedactions += redactionCount;
+        }
+        return { timestamp, level, message: redacted.message, labels: redactedLabels.values, ...(redactedFields ? { fields: redactedFields } : {}) };
+    });
+
+    return { lines, redactedLines, totalRedactions };
+};
+
+// The filters /query re-applies to every source's entries.
+const applyPostFilters = (entries: Array<LogEntry>, query: NormalizedQuery): Array<LogEntry> => {
+    const levels = query.levels;
+    const parser = query.parser;
+    return entries
+        .filter((entry) => !query.labels || matchesLabelFilters(entry.labels, query.labels))
+        .filter((entry) => !levels || levels.includes(entry.level))
+        .map((entry) => (parser ? { ...entry, fields: extractLogFields(entry.message, parser) } : entry))
+        .filter((entry) => !query.fields || matchesFieldFilters(entry.fields, query.fields));
+};
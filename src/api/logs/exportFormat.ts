@@ -0,0 +1,102 @@
+import { LogEntry } from '../../sources/types';
+import { FieldFilter, LabelFilter } from './queryValidation';
+import { ExportFormat } from './exportValidation';
+
+export type ExportManifest = {
+    generatedAt: string;
+    requester: { id: string; username: string | null };
+    format: ExportFormat;
+    sourceMode: string;
+    sourceId: string | null;
+    // Upstream query of the newest chunk; older chunks differ only in their window.
+    query: string;
+    // Role-scoped selector the source applied, when it reports one.
+    selector: string | null;
+    tenantId: string | null;
+    window: { start: string; end: string };
+    filters: {
+        level: string | Array<string> | null;
+        search: string | null;
+        labels: Array<LabelFilter>;
+        parser: string | null;
+        fields: Array<FieldFilter>;
+    };
+    lines: number;
+    truncated: boolean;
+    chunks: number;
+    requests: number;
+    redaction: { enabled: boolean; redactedLines: number; totalRedactions: number };
+};
+
+export type ExportLine = Pick<LogEntry, 'timestamp' | 'level' | 'message' | 'labels' | 'fields'>;
+
+export type FormattedExport = {
+    contentType: string;
+    extension: string;
+    body: string;
+};
+
+// Spreadsheet apps evaluate cells starting with these characters as formulas.
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Renders an export body with its manifest first: a `{"manifest": ...}` line for JSONL, `#` comment lines for
+ * CSV and text. Lines are written in the order given.
+ */
+export const formatExport = (format: ExportFormat, manifest: ExportManifest, lines: Array<ExportLine>): FormattedExport => {
+    if (format === 'jsonl') {
+        return {
+            contentType: 'application/x-ndjson; charset=utf-8',
+            extension: 'jsonl',
+            body: [JSON.stringify({ manifest }), ...lines.map((line) => JSON.stringify(line))].join('\n') + '\n',
+        };
+    }
+
+    const header = describeManifest(manifest).map(([key, value]) => `# ${key}: ${value}`);
+    if (format === 'csv') {
+        const withFields = Boolean(manifest.filters.parser);
+        const columns = ['timestamp', 'level', 'labels', 'message', ...(withFields ? ['fields'] : [])];
+        const rows = lines.map((line) => [
+            line.timestamp,
+            line.level,
+            JSON.stringify(line.labels),
+            line.message,
+            ...(withFields ? [line.fields ? JSON.stringify(line.fields) : ''] : []),
+        ].map(toCsvCell).join(','));
+        return {
+            contentType: 'text/csv; charset=utf-8',
+            extension: 'csv',
+            body: [...header, columns.join(','), ...rows].join('\r\n') + '\r\n',
+        };
+    }
+
+    const rows = lines.map((line) => {
+        const labels = Object.entries(line.labels).map(([key, value]) => `${key}=${value}`).join(',');
+        return `${line.timestamp} ${line.level.toUpperCase()} {${labels}} ${line.message}`;
+    });
+    return {
+        contentType: 'text/plain; charset=utf-8',
+        extension: 'txt',
+        body: [...header, '', ...rows].join('\n') + '\n',
+    };
+};
+
+const describeManifest = (manifest: ExportManifest): Array<[string, string]> => [
+    ['Logs Viewer export', manifest.generatedAt],
+    ['requester', manifest.requester.username ? `${manifest.requester.username} (${manifest.requester.id})` : manifest.requester.id],
+    ['source', manifest.sourceId ? `${manifest.sourceMode} / ${manifest.sourceId}` : manifest.sourceMode],
+    ['query', manifest.query],
+    ['selector', manifest.selector || '-'],
+    ...(manifest.tenantId ? [['tenant', manifest.tenantId] as [string, string]] : []),
+    ['window', `${manifest.window.start} - ${manifest.window.end}`],
+    ['filters', JSON.stringify(manifest.filters)],
+    ['lines', `${manifest.lines}${manifest.truncated ? ' (truncated at the export limit)' : ''}`],
+    ['redaction', manifest.redaction.enabled
+        ? `${manifest.redaction.redactedLines} lines, ${manifest.redaction.totalRedactions} replacements`
+        : 'disabled'],
+];
+
+const toCsvCell = (value: string): string => {
+    const guarded = CSV_FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(guarded) ? `"${guarded.replace(/"/g, '""')}"` : guarded;
+};
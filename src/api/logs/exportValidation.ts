@@ -0,0 +1,73 @@
+import { NormalizedQuery, parseAndNormalizeQuery, readObjectContent } from './queryValidation';
+
+export type ExportFormat = 'jsonl' | 'csv' | 'text';
+
+export type ExportRequest = {
+    format: ExportFormat;
+    // Filters and the whole export window, validated like POST /query against the export limits.
+    query: NormalizedQuery;
+};
+
+export type ExportChunk = {
+    start: Date;
+    end: Date;
+};
+
+const EXPORT_FORMATS: Array<ExportFormat> = ['jsonl', 'csv', 'text'];
+
+/**
+ * Parses an export payload: the usual /query keys plus `format` (default `jsonl`). The window and `limit` are
+ * checked against the export limits rather than the interactive ones; cursors are rejected because an export
+ * pages through the window itself.
+ */
+export const parseExportRequest = (args: {
+    requestContent: unknown;
+    defaultTimeRange: string;
+    maxExportWindowHours: number;
+    maxExportLines: number;
+    allowedLabelNames: Array<string>;
+    now?: Date;
+}): { request: ExportRequest } | { error: string; details?: unknown } => {
+    const content = readObjectContent(args.requestContent);
+    if ('error' in content) {
+        return content;
+    }
+
+    const { format: formatRaw, ...queryPayload } = content.value;
+    const format = formatRaw === undefined || formatRaw === null || formatRaw === '' ? 'jsonl' : formatRaw;
+    if (typeof format !== 'string' || !EXPORT_FORMATS.includes(format as ExportFormat)) {
+        return { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}.`, details: { format: formatRaw } };
+    }
+
+    const normalized = parseAndNormalizeQuery({
+        requestQuery: {},
+        // Without a limit an export takes as many lines as it may.
+        requestContent: { ...queryPayload, limit: queryPayload.limit ?? args.maxExportLines },
+        defaultTimeRange: args.defaultTimeRange,
+        maxTimeWindowHours: args.maxExportWindowHours,
+        maxLinesPerQuery: args.maxExportLines,
+        allowedLabelNames: args.allowedLabelNames,
+        now: args.now,
+    });
+    if ('error' in normalized) {
+        return normalized;
+    }
+    if (normalized.query.cursor) {
+        return { error: 'Cursors are not supported for export; the export pages through its window itself.' };
+    }
+
+    return { request: { format: format as ExportFormat, query: normalized.query } };
+};
+
+/**
+ * Splits the export window into chunks of at most `chunkHours`, newest first, so each upstream query stays
+ * within the interactive time window guardrail.
+ */
+export const planExportChunks = (start: Date, end: Date, chunkHours: number): Array<ExportChunk> => {
+    const chunkMs = Math.max(1, chunkHours) * 60 * 60 * 1000;
+    const chunks: Array<ExportChunk> = [];
+    for (let chunkEnd = end.getTime(); chunkEnd > start.getTime(); chunkEnd -= chunkMs) {
+        chunks.push({ start: new Date(Math.max(start.getTime(), chunkEnd - chunkMs)), end: new Date(chunkEnd) });
+    }
+    return chunks;
+};
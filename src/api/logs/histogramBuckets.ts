@@ -0,0 +1,61 @@
+import { LokiHistogramSeries } from '../../sources/lokiSource';
+import { ResolvedLevel } from '../../sources/types';
+
+export type HistogramCounts = Record<ResolvedLevel, number>;
+
+export type HistogramBucket = {
+    start: string;
+    end: string;
+    total: number;
+    counts: HistogramCounts;
+};
+
+const HISTOGRAM_TARGET_BUCKETS = 60;
+// Human-friendly steps so bucket edges land on round clock times.
+const HISTOGRAM_STEPS_SECONDS = [1, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600, 7200, 10800, 21600, 43200, 86400];
+
+export const emptyHistogramCounts = (): HistogramCounts => ({ error: 0, warn: 0, info: 0, debug: 0, unknown: 0 });
+
+export const chooseHistogramStepSeconds = (start: Date, end: Date): number => {
+    const windowSeconds = Math.max(1, (end.getTime() - start.getTime()) / 1000);
+    const minimumStep = windowSeconds / HISTOGRAM_TARGET_BUCKETS;
+    return HISTOGRAM_STEPS_SECONDS.find((step) => step >= minimumStep) || HISTOGRAM_STEPS_SECONDS[HISTOGRAM_STEPS_SECONDS.length - 1];
+};
+
+/**
+ * Spreads per-level metric points over step-aligned buckets covering the whole window.
+ *
+ * A Loki point at `t` counts lines in `(t - step, t]`, so it lands in the bucket starting at `t - step`.
+ * Buckets without points are kept with zero counts so the chart has a continuous time axis.
+ */
+export const buildHistogramBuckets = (
+    series: Array<LokiHistogramSeries>,
+    start: Date,
+    end: Date,
+    stepSeconds: number,
+): Array<HistogramBucket> => {
+    const stepMs = stepSeconds * 1000;
+    const gridStartMs = Math.floor(start.getTime() / stepMs) * stepMs;
+    const bucketCount = Math.max(1, Math.ceil((end.getTime() - gridStartMs) / stepMs));
+    const buckets: Array<HistogramBucket> = [];
+    for (let index = 0; index < bucketCount; index += 1) {
+        const bucketStartMs = gridStartMs + index * stepMs;
+        buckets.push({
+            start: new Date(bucketStartMs).toISOString(),
+            end: new Date(bucketStartMs + stepMs).toISOString(),
+            total: 0,
+            counts: emptyHistogramCounts(),
+        });
+    }
+
+    for (const { level, points } of series) {
+        for (const point of points) {
+            const index = Math.floor((point.timestampMs - stepMs - gridStartMs) / stepMs);
+            const bucket = buckets[Math.min(bucketCount - 1, Math.max(0, index))];
+            bucket.counts[level] += point.count;
+            bucket.total += point.count;
+        }
+    }
+
+    return buckets;
+};
@@ -0,0 +1,204 @@
+import { IRead } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { AuditEntry, readAuditEntries } from '../../security/querySecurity';
+import { LogPattern } from './logPatterns';
+
+export type BundleFile = {
+    name: string;
+    content: string;
+};
+
+// Export lines from the web flow; slash cards only keep level and text of their sample.
+export type BundleLine = {
+    timestamp?: string;
+    level: string;
+    message: string;
+    labels?: Record<string, string>;
+    fields?: Record<string, string>;
+};
+
+export type BundleSignature = Pick<LogPattern, 'signature' | 'count'> & Partial<LogPattern>;
+
+export type InvestigationBundleInput = {
+    // Written to manifest.json together with the bundle contents summary.
+    manifest: Record<string, unknown>;
+    // Oldest first; when the archive would exceed `maxBytes`, the oldest lines are left out.
+    lines: Array<BundleLine>;
+    signatures: Array<BundleSignature>;
+    auditEntries: Array<AuditEntry>;
+    maxBytes: number;
+    createdAt: Date;
+};
+
+export type InvestigationBundle = {
+    filename: string;
+    buffer: Buffer;
+    files: Array<string>;
+    lines: number;
+    droppedLines: number;
+};
+
+export type BundleNote = {
+    filename: string;
+    url?: string;
+    window: string;
+    filters?: string;
+    lines: number;
+    droppedLines: number;
+    requester: string;
+};
+
+export const BUNDLE_MAX_SIGNATURES = 20;
+export const BUNDLE_MAX_AUDIT_ENTRIES = 50;
+
+const TAR_BLOCK_SIZE = 512;
+// Room for the manifest's own counters, which are only known once the lines are picked.
+const MANIFEST_SLACK_BYTES = 1024;
+
+/**
+ * Packs redacted lines, the query manifest, top signatures, and audit excerpts into one uncompressed tar
+ * archive, dropping the oldest lines until it fits `maxBytes`.
+ */
+export const buildInvestigationBundle = (input: InvestigationBundleInput): InvestigationBundle | { error: string; details?: unknown } => {
+    const stamp = input.createdAt.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+    const directory = `logs-bundle-${stamp}`;
+    const signatures = input.signatures.slice(0, BUNDLE_MAX_SIGNATURES);
+    const auditEntries = input.auditEntries.slice(0, BUNDLE_MAX_AUDIT_ENTRIES);
+    const fixedFiles: Array<BundleFile> = [
+        { name: `${directory}/signatures.json`, content: `${JSON.stringify(signatures, null, 2)}\n` },
+        { name: `${directory}/audit.jsonl`, content: toJsonLines(auditEntries) },
+    ];
+
+    const emptyArchiveBytes = tarArchiveSize([
+        { name: `${directory}/manifest.json`, content: JSON.stringify(input.manifest, null, 2) },
+        { name: `${directory}/lines.jsonl`, content: '' },
+        ...fixedFiles,
+    ]) + MANIFEST_SLACK_BYTES;
+    if (emptyArchiveBytes > input.maxBytes) {
+        return { error: 'Bundle size limit is too small for the manifest, signatures, and audit excerpts.', details: { maxBytes: input.maxBytes } };
+    }
+
+    // Newest lines win; each file's content is padded to whole tar blocks, so budget the padding too.
+    let budget = input.maxBytes - emptyArchiveBytes - TAR_BLOCK_SIZE;
+    let firstKept = input.lines.length;
+    while (firstKept > 0) {
+        const lineBytes = Buffer.byteLength(`${JSON.stringify(input.lines[firstKept - 1])}\n`, 'utf8');
+        if (lineBytes > budget) {
+            break;
+        }
+        budget -= lineBytes;
+        firstKept -= 1;
+    }
+    const lines = input.lines.slice(firstKept);
+
+    const manifest = {
+        ...input.manifest,
+        bundle: {
+            createdAt: input.createdAt.toISOString(),
+            files: ['manifest.json', 'lines.jsonl', 'signatures.json', 'audit.jsonl'],
+            lines: lines.length,
+            droppedLines: firstKept,
+            signatures: signatures.length,
+            auditEntries: auditEntries.length,
+            maxBytes: input.maxBytes,
+        },
+    };
+    const files: Array<BundleFile> = [
+        { name: `${directory}/manifest.json`, content: `${JSON.stringify(manifest, null, 2)}\n` },
+        { name: `${directory}/lines.jsonl`, content: toJsonLines(lines) },
+        ...fixedFiles,
+    ];
+
+    return {
+        filename: `${directory}.tar`,
+        buffer: buildTarArchive(files, input.createdAt),
+        files: files.map((file) => file.name),
+        lines: lines.length,
+        droppedLines: firstKept,
+    };
+};
+
+/**
+ * Workspace file uploads are capped by `FileUpload_MaxFileSize` as well; the smaller limit wins.
+ */
+export const resolveBundleMaxBytes = async (read: IRead, bundleMaxSizeKb: number): Promise<number> => {
+    const configuredBytes = bundleMaxSizeKb * 1024;
+    try {
+        const uploadMax = Number(await read.getEnvironmentReader().getServerSettings().getValueById('FileUpload_MaxFileSize'));
+        return Number.isFinite(uploadMax) && uploadMax > 0 ? Math.min(configuredBytes, uploadMax) : configuredBytes;
+    } catch {
+        return configuredBytes;
+    }
+};
+
+// Posted next to the uploaded file in a thread, since uploads always land in the room's main timeline.
+export const formatBundleNote = (note: BundleNote): string => {
+    const lines = [
+        '*Investigation Bundle (Logs Viewer)*',
+        `- File: ${note.url ? `[${note.filename}](${note.url})` : `\`${note.filename}\``}`,
+        `- Window: ${note.window}`,
+    ];
+    if (note.filters) {
+        lines.push(`- Filters: ${note.filters}`);
+    }
+    lines.push(`- Lines: ${note.lines}${note.droppedLines > 0 ? ` (${note.droppedLines} older lines left out to fit the size limit)` : ''}`);
+    lines.push(`- Requested by: @${note.requester}`);
+    return lines.join('\n');
+};
+
+/**
+ * The requester's own audit entries since `since`, newest first: what they queried and shared while investigating.
+ */
+export const readAuditExcerpts = async (read: IRead, userId: string, since: Date, limit = BUNDLE_MAX_AUDIT_ENTRIES): Promise<Array<AuditEntry>> => {
+    const { entries } = await readAuditEntries(read, { offset: 0, limit: Number.MAX_SAFE_INTEGER });
+    return entries
+        .filter((entry) => entry.userId === userId && Date.parse(entry.timestamp) >= since.getTime())
+        .slice(0, limit);
+};
+
+/**
+ * Minimal POSIX ustar writer: regular files only, names up to 100 bytes.
+ */
+export const buildTarArchive = (files: Array<BundleFile>, mtime: Date): Buffer => {
+    const blocks: Array<Buffer> = [];
+    for (const file of files) {
+        const content = Buffer.from(file.content, 'utf8');
+        blocks.push(buildTarHeader(file.name, content.length, mtime));
+        blocks.push(content);
+        const padding = (TAR_BLOCK_SIZE - (content.length % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+        if (padding > 0) {
+            blocks.push(Buffer.alloc(padding));
+        }
+    }
+    // Two zero blocks mark the end of the archive.
+    blocks.push(Buffer.alloc(TAR_BLOCK_SIZE * 2));
+    return Buffer.concat(blocks);
+};
+
+const tarArchiveSize = (files: Array<BundleFile>): number =>
+    files.reduce((total, file) => total + TAR_BLOCK_SIZE + Math.ceil(Buffer.byteLength(file.content, 'utf8') / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE, 0)
+        + TAR_BLOCK_SIZE * 2;
+
+const buildTarHeader = (name: string, size: number, mtime: Date): Buffer => {
+    const header = Buffer.alloc(TAR_BLOCK_SIZE);
+    header.write(name.slice(0, 100), 0, 'utf8');
+    header.write('0000644\0', 100, 'ascii');
+    header.write('0000000\0', 108, 'ascii');
+    header.write('0000000\0', 116, 'ascii');
+    header.write(`${size.toString(8).padStart(11, '0')}\0`, 124, 'ascii');
+    header.write(`${Math.floor(mtime.getTime() / 1000).toString(8).padStart(11, '0')}\0`, 136, 'ascii');
+    // The checksum is computed with its own field read as spaces.
+    header.write('        ', 148, 'ascii');
+    header.write('0', 156, 'ascii');
+    header.write('ustar\0', 257, 'ascii');
+    header.write('00', 263, 'ascii');
+
+    let checksum = 0;
+    for (const byte of header) {
+        checksum += byte;
+    }
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii');
+    return header;
+};
+
+const toJsonLines = (values: Array<unknown>): string => values.map((value) => `${JSON.stringify(value)}\n`).join('');
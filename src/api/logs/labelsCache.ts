@@ -0,0 +1,111 @@
+import { IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+
+type LabelsCacheEntry = {
+    key: string;
+    cachedAt: string;
+    values: Array<string>;
+};
+
+type LabelsCacheRecord = {
+    updatedAt: string;
+    entries: Array<LabelsCacheEntry>;
+};
+
+export type LabelsCacheScope = {
+    source: string;
+    tenant?: string;
+    selector: string;
+    name?: string;
+    // Label name lists are filtered by the allow-list before they are cached.
+    allowedLabelNames: Array<string>;
+    start: Date;
+    end: Date;
+};
+
+const LABELS_CACHE_ASSOC_KEY = 'labels-cache:loki';
+export const LABELS_CACHE_TTL_MS = 60 * 1000;
+const LABELS_CACHE_MAX_ENTRIES = 50;
+
+/**
+ * Builds the cache key for one discovery request.
+ *
+ * Entries are shared between users with the same effective tenant and selector, and keyed by the label allow-list
+ * so an admin change takes effect at once. Window bounds are rounded to the TTL so relative ranges like `since=15m`
+ * hit the cache across consecutive requests.
+ */
+export const buildLabelsCacheKey = (scope: LabelsCacheScope): string => {
+    const bucket = (date: Date) => Math.floor(date.getTime() / LABELS_CACHE_TTL_MS);
+    const allowed = [...scope.allowedLabelNames].sort().join(',');
+    return JSON.stringify([scope.source, scope.tenant || '', scope.selector, scope.name || '', allowed, bucket(scope.start), bucket(scope.end)]);
+};
+
+export const readCachedLabels = async (read: IRead, key: string, now = Date.now()): Promise<Array<string> | undefined> => {
+    const current = await read.getPersistenceReader().readByAssociation(association());
+    const record = parseRecord(current[0]);
+    return filterFresh(record.entries, now).find((entry) => entry.key === key)?.values;
+};
+
+export const writeCachedLabels = async (
+    read: IRead,
+    persistence: IPersistence,
+    key: string,
+    values: Array<string>,
+    now = Date.now(),
+): Promise<void> => {
+    const assoc = association();
+    const current = await read.getPersistenceReader().readByAssociation(assoc);
+    const record = parseRecord(current[0]);
+    const retained = filterFresh(record.entries, now).filter((entry) => entry.key !== key);
+
+    retained.push({ key, cachedAt: new Date(now).toISOString(), values });
+    if (retained.length > LABELS_CACHE_MAX_ENTRIES) {
+        retained.splice(0, retained.length - LABELS_CACHE_MAX_ENTRIES);
+    }
+
+    await persistence.updateByAssociation(
+        assoc,
+        {
+            updatedAt: new Date(now).toISOString(),
+            entries: retained,
+        },
+        true,
+    );
+};
+
+const association = (): RocketChatAssociationRecord =>
+    new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, LABELS_CACHE_ASSOC_KEY);
+
+const filterFresh = (entries: Array<LabelsCacheEntry>, now: number): Array<LabelsCacheEntry> =>
+    entries.filter((entry) => {
+        const cachedMs = Date.parse(entry.cachedAt);
+        return Number.isFinite(cachedMs) && now - cachedMs < LABELS_CACHE_TTL_MS;
+    });
+
+const parseRecord = (raw: unknown): LabelsCacheRecord => {
+    if (!raw || typeof raw !== 'object') {
+        return { updatedAt: new Date(0).toISOString(), entries: [] };
+    }
+
+    const candidate = raw as Partial<LabelsCacheRecord>;
+    const entries = Array.isArray(candidate.entries)
+        ? candidate.entries.filter((entry) => isEntry(entry)) as Array<LabelsCacheEntry>
+        : [];
+
+    return {
+        updatedAt: typeof candidate.updatedAt === 'string' ? candidate.updatedAt : new Date(0).toISOString(),
+        entries,
+    };
+};
+
+const isEntry = (value: unknown): value is LabelsCacheEntry => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+
+    const candidate = value as Partial<LabelsCacheEntry>;
+    return typeof candidate.key === 'string'
+        && typeof candidate.cachedAt === 'string'
+        && Array.isArray(candidate.values)
+        && candidate.values.every((item) => typeof item === 'string');
+};
@@ -0,0 +1,68 @@
+import { isValidLabelName, parseAndNormalizeQuery } from './queryValidation';
+
+export type LabelsQuery = {
+    start: Date;
+    end: Date;
+    source?: string;
+    // Label whose values are requested; omitted when listing label names.
+    name?: string;
+};
+
+const ALLOWED_LABELS_KEYS = new Set(['start', 'end', 'since', 'source', 'name']);
+
+export const parseLabelsQuery = (args: {
+    requestQuery: Record<string, unknown>;
+    defaultTimeRange: string;
+    maxTimeWindowHours: number;
+    allowedLabelNames: Array<string>;
+    now?: Date;
+}): { query: LabelsQuery } | { error: string; details?: unknown } => {
+    const unknownKeys = Object.keys(args.requestQuery).filter((key) => !ALLOWED_LABELS_KEYS.has(key));
+    if (unknownKeys.length > 0) {
+        return {
+            error: 'Unsupported labels parameters.',
+            details: { unknownKeys, allowedKeys: Array.from(ALLOWED_LABELS_KEYS) },
+        };
+    }
+
+    const { name: nameRaw, ...windowQuery } = args.requestQuery;
+    let name: string | undefined;
+    if (nameRaw !== undefined) {
+        if (typeof nameRaw !== 'string') {
+            return { error: 'name must be a string.' };
+        }
+        name = nameRaw.trim() || undefined;
+        if (name && !isValidLabelName(name)) {
+            return { error: 'Invalid label name.', details: { name } };
+        }
+        // Value discovery feeds the label filter dropdowns, so it follows the same allow-list.
+        if (name && !args.allowedLabelNames.includes(name)) {
+            return {
+                error: `Label "${name}" is not allowed for filtering.`,
+                details: { name, allowed: args.allowedLabelNames },
+            };
+        }
+    }
+
+    // Window and source share /query validation; the line limit does not apply to label discovery.
+    const normalized = parseAndNormalizeQuery({
+        requestQuery: windowQuery,
+        requestContent: undefined,
+        defaultTimeRange: args.defaultTimeRange,
+        maxTimeWindowHours: args.maxTimeWindowHours,
+        maxLinesPerQuery: Number.MAX_SAFE_INTEGER,
+        now: args.now,
+    });
+    if ('error' in normalized) {
+        return normalized;
+    }
+
+    return {
+        query: {
+            start: normalized.query.start,
+            end: normalized.query.end,
+            source: normalized.query.source,
+            name,
+        },
+    };
+};
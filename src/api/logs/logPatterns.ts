@@ -0,0 +1,171 @@
+import { LogEntry, ResolvedLevel } from '../../sources/types';
+
+export type LogPattern = {
+    signature: string;
+    count: number;
+    // Most frequent level among the grouped lines; ties keep the more severe level.
+    level: ResolvedLevel;
+    firstSeen: string;
+    lastSeen: string;
+    // Newest line of the group, as returned to the caller (already redacted by the endpoint).
+    sample: string;
+};
+
+export type PatternEntry = Pick<LogEntry, 'timestamp' | 'level' | 'message'>;
+
+const MAX_SIGNATURE_LENGTH = 200;
+const LEVEL_ORDER: Array<ResolvedLevel> = ['error', 'warn', 'info', 'debug', 'unknown'];
+
+// Applied in order: the broad shapes first so their digits are not picked up as plain numbers later.
+const SIGNATURE_REPLACEMENTS: Array<[RegExp, string]> = [
+    [/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<ts>'],
+    [/\b\d{2}:\d{2}:\d{2}(?:[.,]\d+)?\b/g, '<ts>'],
+    [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+    [/\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g, '<ip>'],
+    [/\b0x[0-9a-f]+\b/gi, '<hex>'],
+    [/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, '<hex>'],
+    // Mixed letter/digit tokens such as Rocket.Chat and Mongo ids.
+    [/\b(?=[A-Za-z0-9]*\d)(?=[A-Za-z0-9]*[A-Za-z])[A-Za-z0-9]{10,}\b/g, '<id>'],
+    [/(?<![A-Za-z<])\d+(?:\.\d+)?/g, '<num>'],
+];
+
+/**
+ * Reduces a line to its signature: the JSON `msg` when present, otherwise the whole line, with timestamps,
+ * UUIDs, IPs, hex values, ids, and numbers replaced by placeholders and whitespace collapsed.
+ */
+export const normalizeLogSignature = (message: string): string => {
+    let text = message.replace(/\s+/g, ' ').trim();
+    if (text.startsWith('{')) {
+        try {
+            const parsed = JSON.parse(text) as Record<string, unknown>;
+            if (typeof parsed.msg === 'string' && parsed.msg.trim()) {
+                text = parsed.msg.replace(/\s+/g, ' ').trim();
+            }
+        } catch {
+            // Not JSON content; keep the compacted line.
+        }
+    }
+
+    for (const [pattern, placeholder] of SIGNATURE_REPLACEMENTS) {
+        text = text.replace(pattern, placeholder);
+    }
+    if (!text) {
+        return '[empty]';
+    }
+    return text.length > MAX_SIGNATURE_LENGTH ? `${text.slice(0, MAX_SIGNATURE_LENGTH - 3)}...` : text;
+};
+
+/**
+ * Groups lines by signature, most frequent first (ties broken by the most recent line).
+ */
+export const clusterLogPatterns = (entries: Array<PatternEntry>): Array<LogPattern> => {
+    const groups = new Map<string, { pattern: LogPattern; firstMs: number; lastMs: number; levels: Map<ResolvedLevel, number> }>();
+    for (const entry of entries) {
+        const signature = normalizeLogSignature(entry.message);
+        const timeMs = Date.parse(entry.timestamp);
+        const group = groups.get(signature);
+        if (!group) {
+            groups.set(signature, {
+                pattern: {
+                    signature,
+                    count: 1,
+                    level: entry.level,
+                    firstSeen: entry.timestamp,
+                    lastSeen: entry.timestamp,
+                    sample: entry.message,
+                },
+                firstMs: timeMs,
+                lastMs: timeMs,
+                levels: new Map([[entry.level, 1]]),
+            });
+            continue;
+        }
+
+        group.pattern.count += 1;
+        group.levels.set(entry.level, (group.levels.get(entry.level) || 0) + 1);
+        if (timeMs < group.firstMs) {
+            group.firstMs = timeMs;
+            group.pattern.firstSeen = entry.timestamp;
+        }
+        if (timeMs > group.lastMs) {
+            group.lastMs = timeMs;
+            group.pattern.lastSeen = entry.timestamp;
+            group.pattern.sample = entry.message;
+        }
+    }
+
+    return Array.from(groups.values())
+        .map(({ pattern, lastMs, levels }) => {
+            const level = LEVEL_ORDER.reduce((best, candidate) => ((levels.get(candidate) || 0) > (levels.get(best) || 0) ? candidate : best));
+            return { pattern: { ...pattern, level }, lastMs };
+        })
+        .sort((a, b) => b.pattern.count - a.pattern.count || b.lastMs - a.lastMs)
+        .map(({ pattern }) => pattern);
+};
+
+export type PatternChange = {
+    signature: string;
+    level: ResolvedLevel;
+    sample: string;
+    baselineCount: number;
+    targetCount: number;
+    // Target count over the baseline count scaled to the target window length; null for new patterns.
+    ratio: number | null;
+};
+
+export type PatternDiff = {
+    new: Array<PatternChange>;
+    gone: Array<PatternChange>;
+    increased: Array<PatternChange>;
+};
+
+// A pattern counts as increased when it at least doubled and grew by a few lines, so small counts do not flap.
+const INCREASE_RATIO = 2;
+const MIN_INCREASE = 3;
+const MAX_CHANGES_PER_KIND = 20;
+
+/**
+ * Diffs the patterns of two windows. `baselineScale` is the target window length over the baseline window length,
+ * so windows of different lengths compare by rate rather than by raw count.
+ */
+export const diffLogPatterns = (baseline: Array<LogPattern>, target: Array<LogPattern>, baselineScale = 1): PatternDiff => {
+    const baselineBySignature = new Map(baseline.map((pattern) => [pattern.signature, pattern]));
+    const targetSignatures = new Set(target.map((pattern) => pattern.signature));
+    const diff: PatternDiff = { new: [], gone: [], increased: [] };
+
+    for (const pattern of target) {
+        const previous = baselineBySignature.get(pattern.signature);
+        if (!previous) {
+            diff.new.push(toChange(pattern, 0, pattern.count, null));
+            continue;
+        }
+
+        const expected = previous.count * baselineScale;
+        if (pattern.count >= expected * INCREASE_RATIO && pattern.count - expected >= MIN_INCREASE) {
+            diff.increased.push(toChange(pattern, previous.count, pattern.count, Math.round((pattern.count / expected) * 10) / 10));
+        }
+    }
+    for (const pattern of baseline) {
+        if (!targetSignatures.has(pattern.signature)) {
+            diff.gone.push(toChange(pattern, pattern.count, 0, 0));
+        }
+    }
+
+    diff.new.sort((a, b) => b.targetCount - a.targetCount);
+    diff.gone.sort((a, b) => b.baselineCount - a.baselineCount);
+    diff.increased.sort((a, b) => (b.targetCount - b.baselineCount * baselineScale) - (a.targetCount - a.baselineCount * baselineScale));
+    return {
+        new: diff.new.slice(0, MAX_CHANGES_PER_KIND),
+        gone: diff.gone.slice(0, MAX_CHANGES_PER_KIND),
+        increased: diff.increased.slice(0, MAX_CHANGES_PER_KIND),
+    };
+};
+
+const toChange = (pattern: LogPattern, baselineCount: number, targetCount: number, ratio: number | null): PatternChange => ({
+    signature: pattern.signature,
+    level: pattern.level,
+    sample: pattern.sample,
+    baselineCount,
+    targetCount,
+    ratio,
+});
@@ -0,0 +1,126 @@
+import { compareNsDesc, safeBigInt } from '../../sources/logEntries';
+import { LogEntry } from '../../sources/types';
+
+/**
+ * Position of the last line a `/query` page returned, in the paging order
+ * (timestamp descending, then stream hash ascending, then upstream order).
+ */
+export type QueryCursor = {
+    // Nanosecond timestamp of the last returned line.
+    ts: string;
+    // Stream hash of the last returned line; breaks ties between streams at the same timestamp.
+    stream: string;
+    // Lines already returned from that stream at `ts`.
+    skip: number;
+    // Lines already returned within the millisecond of `ts`. The next upstream query ends one millisecond
+    // after the cursor, so its fetch is widened by this many lines to make room for the ones dropped again.
+    seen: number;
+};
+
+const TIMESTAMP_PATTERN = /^\d{1,20}$/;
+const STREAM_HASH_PATTERN = /^[0-9a-f]{8}$/;
+const MAX_CURSOR_LENGTH = 256;
+const MAX_CURSOR_COUNT = 100000;
+
+export const encodeQueryCursor = (cursor: QueryCursor): string =>
+    Buffer.from(JSON.stringify({ t: cursor.ts, s: cursor.stream, k: cursor.skip, n: cursor.seen }), 'utf8').toString('base64url');
+
+export const decodeQueryCursor = (raw: unknown): QueryCursor | undefined => {
+    if (typeof raw !== 'string' || !raw || raw.length > MAX_CURSOR_LENGTH) {
+        return undefined;
+    }
+
+    try {
+        const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8')) as Record<string, unknown>;
+        if (
+            typeof parsed.t !== 'string'
+            || !TIMESTAMP_PATTERN.test(parsed.t)
+            || typeof parsed.s !== 'string'
+            || !STREAM_HASH_PATTERN.test(parsed.s)
+            || !isCount(parsed.k)
+            || !isCount(parsed.n)
+            || parsed.k > parsed.n
+        ) {
+            return undefined;
+        }
+        return { ts: parsed.t, stream: parsed.s, skip: parsed.k, seen: parsed.n };
+    } catch {
+        return undefined;
+    }
+};
+
+// End of the next page's upstream query: sources take millisecond bounds, so it covers the cursor's whole millisecond.
+export const cursorQueryEnd = (cursor: QueryCursor): Date => new Date(Number(toMs(cursor.ts)) + 1);
+
+// FNV-1a over the sorted label set, so the same stream hashes identically on every page.
+export const hashStreamLabels = (labels: Record<string, string>): string => {
+    const key = Object.keys(labels)
+        .sort()
+        .map((name) => `${name}=${labels[name]}`)
+        .join('\u0000');
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < key.length; index += 1) {
+        hash ^= key.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Stable sort into paging order; lines from one stream at one timestamp keep their upstream order.
+export const sortEntriesForPaging = (entries: Array<LogEntry>): Array<LogEntry> => {
+    const hashes = new Map<LogEntry, string>(entries.map((entry) => [entry, hashStreamLabels(entry.labels)]));
+    return [...entries].sort((a, b) => {
+        const byTime = compareNsDesc(a.rawTimestampNs, b.rawTimestampNs);
+        if (byTime !== 0) {
+            return byTime;
+        }
+        const aHash = hashes.get(a) || '';
+        const bHash = hashes.get(b) || '';
+        return aHash < bHash ? -1 : aHash > bHash ? 1 : 0;
+    });
+};
+
+// Drops sorted entries at or before the cursor position.
+export const applyQueryCursor = (sorted: Array<LogEntry>, cursor: QueryCursor): Array<LogEntry> => {
+    let skippedInStream = 0;
+    return sorted.filter((entry) => {
+        const byTime = compareNsDesc(entry.rawTimestampNs, cursor.ts);
+        if (byTime !== 0) {
+            return byTime > 0;
+        }
+
+        const hash = hashStreamLabels(entry.labels);
+        if (hash !== cursor.stream) {
+            return hash > cursor.stream;
+        }
+        skippedInStream += 1;
+        return skippedInStream > cursor.skip;
+    });
+};
+
+// Cursor after the last line of `page`; counts carry over when the page ends on the previous cursor's timestamp.
+export const buildNextQueryCursor = (page: Array<LogEntry>, previous?: QueryCursor): QueryCursor | undefined => {
+    const last = page[page.length - 1];
+    if (!last) {
+        return undefined;
+    }
+
+    const stream = hashStreamLabels(last.labels);
+    const lastMs = toMs(last.rawTimestampNs);
+    const sameStream = page.filter((entry) =>
+        compareNsDesc(entry.rawTimestampNs, last.rawTimestampNs) === 0 && hashStreamLabels(entry.labels) === stream);
+    const sameMs = page.filter((entry) => toMs(entry.rawTimestampNs) === lastMs);
+    const carryStream = previous && compareNsDesc(previous.ts, last.rawTimestampNs) === 0 && previous.stream === stream;
+    const carryMs = previous && toMs(previous.ts) === lastMs;
+    return {
+        ts: last.rawTimestampNs,
+        stream,
+        skip: sameStream.length + (carryStream ? previous.skip : 0),
+        seen: sameMs.length + (carryMs ? previous.seen : 0),
+    };
+};
+
+const toMs = (ns: string): bigint => (safeBigInt(ns) || 0n) / 1000000n;
+
+const isCount = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_CURSOR_COUNT;
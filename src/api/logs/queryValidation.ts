@@ -1,5 +1,40 @@
+import { findBacktrackingRisk } from '../../security/redactionRules';
+import { decodeQueryCursor, QueryCursor } from './queryCursor';
+
 export type QueryLevel = 'error' | 'warn' | 'info' | 'debug';
 
+// Levels a query can select; `unknown` isolates lines no level label or keyword classifies.
+export type QueryLevelFilter = QueryLevel | 'unknown';
+
+export type LabelFilterOperator = 'eq' | 'neq' | 'regex';
+
+export type LabelFilter = {
+    name: string;
+    op: LabelFilterOperator;
+    value: string;
+};
+
+export type FieldParser = 'json' | 'logfmt';
+
+export type FieldFilterOperator = 'eq' | 'neq' | 'regex' | 'gt' | 'gte' | 'lt' | 'lte';
+
+// Filter on a field extracted from the line; `name` uses dots for nested JSON keys (`msg.userId`).
+export type FieldFilter = {
+    name: string;
+    op: FieldFilterOperator;
+    value: string;
+};
+
+export type SearchTermKind = 'include' | 'exclude' | 'regex' | 'exclude_regex';
+
+// One clause of the `search` grammar; a line matches when every clause holds.
+export type SearchTerm = {
+    kind: SearchTermKind;
+    value: string;
+    // Regex clauses only: set by the `/pattern/i` form.
+    ignoreCase?: boolean;
+};
+
 export type QueryPayload = {
     start?: unknown;
     end?: unknown;
@@ -7,14 +42,32 @@ export type QueryPayload = {
     limit?: unknown;
     level?: unknown;
     search?: unknown;
+    source?: unknown;
+    labels?: unknown;
+    parser?: unknown;
+    fields?: unknown;
+    cursor?: unknown;
 };
 
 export type NormalizedQuery = {
     start: Date;
     end: Date;
     limit: number;
-    level?: QueryLevel;
+    // Lines at any of these levels match; always in QUERY_LEVEL_FILTERS order.
+    levels?: Array<QueryLevelFilter>;
     search?: string;
+    source?: string;
+    labels?: Array<LabelFilter>;
+    // Extracts `fields` from each line; field filters need it.
+    parser?: FieldParser;
+    fields?: Array<FieldFilter>;
+    // Resume point from a previous page's `meta.nextCursor`; the window stays the one the first page used.
+    cursor?: QueryCursor;
+};
+
+export type QueryGuardrailLimits = {
+    maxTimeWindowHours: number;
+    maxLinesPerQuery: number;
 };
 
 export type QueryValidationSuccess = {
@@ -28,8 +81,324 @@ export type QueryValidationError = {
 
 export type QueryValidationResult = QueryValidationSuccess | QueryValidationError;
 
-const ALLOWED_QUERY_KEYS = new Set(['start', 'end', 'since', 'limit', 'level', 'search']);
-const ALLOWED_LEVELS = new Set<QueryLevel>(['error', 'warn', 'info', 'debug']);
+const ALLOWED_QUERY_KEYS = new Set(['start', 'end', 'since', 'limit', 'level', 'search', 'source', 'labels', 'parser', 'fields', 'cursor']);
+export const QUERY_LEVEL_FILTERS: Array<QueryLevelFilter> = ['error', 'warn', 'info', 'debug', 'unknown'];
+const SOURCE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]{0,127}$/;
+const LABEL_FILTER_OPERATORS = new Set<LabelFilterOperator>(['eq', 'neq', 'regex']);
+// LogQL-style operator tokens used by `/logs label.<name>...` args and viewer deep links.
+const LABEL_FILTER_EXPRESSION = /^([a-zA-Z_][a-zA-Z0-9_]*)(!=|=~|=)(.*)$/s;
+const LABEL_EXPRESSION_OPERATORS: Record<string, LabelFilterOperator> = { '=': 'eq', '!=': 'neq', '=~': 'regex' };
+const MAX_LABEL_FILTERS = 10;
+const MAX_LABEL_VALUE_LENGTH = 256;
+// Filter regexes run in-process against every fetched line, so they stay short and free of backtracking constructs.
+const MAX_FILTER_REGEX_LENGTH = 128;
+const FIELD_PARSERS = new Set<FieldParser>(['json', 'logfmt']);
+// Up to 8 dot-separated identifier segments; Loki's json parser addresses nested keys the same way.
+const FIELD_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]{0,63}(\.[a-zA-Z_][a-zA-Z0-9_]{0,63}){0,7}$/;
+const FIELD_FILTER_OPERATORS = new Set<FieldFilterOperator>(['eq', 'neq', 'regex', 'gt', 'gte', 'lt', 'lte']);
+const NUMERIC_FIELD_OPERATORS = new Set<FieldFilterOperator>(['gt', 'gte', 'lt', 'lte']);
+const NUMERIC_VALUE_PATTERN = /^-?\d+(\.\d+)?$/;
+const MAX_FIELD_FILTERS = 10;
+const MAX_SEARCH_LENGTH = 512;
+const MAX_SEARCH_TERMS = 10;
+const MAX_SEARCH_REGEX_LENGTH = 256;
+
+export const isValidSourceId = (value: string): boolean => SOURCE_ID_PATTERN.test(value);
+
+export const isValidLabelName = (value: string): boolean => LABEL_NAME_PATTERN.test(value);
+
+export const parseAllowedLabelNames = (raw: unknown): Array<string> => {
+    if (typeof raw !== 'string') {
+        return [];
+    }
+
+    const names = raw
+        .split(',')
+        .map((name) => name.trim())
+        .filter((name) => LABEL_NAME_PATTERN.test(name));
+    return Array.from(new Set(names));
+};
+
+/**
+ * Validates a `labels` filter list. Names must appear in `allowedLabelNames` when one is given; saved views
+ * skip that check because the allow-list is re-applied when the view runs.
+ */
+export const parseLabelFilters = (raw: unknown, allowedLabelNames?: Array<string>): { labels: Array<LabelFilter> } | QueryValidationError => {
+    if (!Array.isArray(raw)) {
+        return { error: 'labels must be an array of { name, op, value } filters.' };
+    }
+    if (raw.length > MAX_LABEL_FILTERS) {
+        return { error: `Too many label filters. Maximum ${MAX_LABEL_FILTERS}.` };
+    }
+
+    const labels: Array<LabelFilter> = [];
+    for (const candidate of raw) {
+        const record = candidate && typeof candidate === 'object' && !Array.isArray(candidate) ? (candidate as Record<string, unknown>) : {};
+        const name = typeof record.name === 'string' ? record.name.trim() : '';
+        const op = typeof record.op === 'string' ? (record.op.trim().toLowerCase() as LabelFilterOperator) : 'eq';
+        const value = typeof record.value === 'string' ? record.value : '';
+        if (!LABEL_NAME_PATTERN.test(name)) {
+            return { error: 'Invalid label filter name.', details: { name } };
+        }
+        if (allowedLabelNames && !allowedLabelNames.includes(name)) {
+            return { error: `Label filter on "${name}" is not allowed.`, details: { allowed: allowedLabelNames } };
+        }
+        if (!LABEL_FILTER_OPERATORS.has(op)) {
+            return { error: 'Invalid label filter operator.', details: { allowed: Array.from(LABEL_FILTER_OPERATORS) } };
+        }
+        if (value.length > MAX_LABEL_VALUE_LENGTH) {
+            return { error: `Label filter value is too long. Maximum ${MAX_LABEL_VALUE_LENGTH} characters.` };
+        }
+        if (op === 'regex') {
+            const issue = findFilterRegexIssue(value);
+            if (issue) {
+                return { error: `Label filter regex for "${name}" ${issue}.` };
+            }
+        }
+        labels.push({ name, op, value });
+    }
+
+    return { labels };
+};
+
+/**
+ * Validates a `level` filter: one level, a comma-separated list, or an array of levels (including `unknown`).
+ * Duplicates collapse; an empty list means no level filter.
+ */
+export const parseLevelFilter = (raw: unknown): { levels?: Array<QueryLevelFilter> } | QueryValidationError => {
+    const candidates = typeof raw === 'string' ? raw.split(',') : Array.isArray(raw) ? raw : undefined;
+    if (!candidates || candidates.some((candidate) => typeof candidate !== 'string')) {
+        return { error: 'level must be a level name or an array of level names.' };
+    }
+
+    const requested = new Set<string>();
+    for (const candidate of candidates as Array<string>) {
+        const normalized = candidate.trim().toLowerCase();
+        if (!normalized) {
+            continue;
+        }
+        if (!QUERY_LEVEL_FILTERS.includes(normalized as QueryLevelFilter)) {
+            return { error: 'Invalid level filter.', details: { allowed: QUERY_LEVEL_FILTERS } };
+        }
+        requested.add(normalized);
+    }
+
+    const levels = QUERY_LEVEL_FILTERS.filter((level) => requested.has(level));
+    return { levels: levels.length > 0 ? levels : undefined };
+};
+
+// Echoes a level selection in responses, audit entries, and saved views: one level as a string, several as an array.
+export const formatLevelFilter = (levels?: Array<QueryLevelFilter>): QueryLevelFilter | Array<QueryLevelFilter> | null => {
+    if (!levels || levels.length === 0) {
+        return null;
+    }
+    return levels.length === 1 ? levels[0] : levels;
+};
+
+export const isValidFieldName = (value: string): boolean => FIELD_NAME_PATTERN.test(value);
+
+export const isNumericFieldOperator = (op: FieldFilterOperator): boolean => NUMERIC_FIELD_OPERATORS.has(op);
+
+/**
+ * Validates a `fields` filter list. Comparison operators (`gt`, `gte`, `lt`, `lte`) need a plain decimal
+ * value so they mean the same thing in Loki label filters and in-app matching.
+ */
+export const parseFieldFilters = (raw: unknown): { fields: Array<FieldFilter> } | QueryValidationError => {
+    if (!Array.isArray(raw)) {
+        return { error: 'fields must be an array of { name, op, value } filters.' };
+    }
+    if (raw.length > MAX_FIELD_FILTERS) {
+        return { error: `Too many field filters. Maximum ${MAX_FIELD_FILTERS}.` };
+    }
+
+    const fields: Array<FieldFilter> = [];
+    for (const candidate of raw) {
+        const record = candidate && typeof candidate === 'object' && !Array.isArray(candidate) ? (candidate as Record<string, unknown>) : {};
+        const name = typeof record.name === 'string' ? record.name.trim() : '';
+        const op = typeof record.op === 'string' ? (record.op.trim().toLowerCase() as FieldFilterOperator) : 'eq';
+        const value = typeof record.value === 'string' ? record.value : typeof record.value === 'number' ? String(record.value) : '';
+        if (!FIELD_NAME_PATTERN.test(name)) {
+            return { error: 'Invalid field filter name. Use identifiers joined by dots (for example msg.userId).', details: { name } };
+        }
+        if (!FIELD_FILTER_OPERATORS.has(op)) {
+            return { error: 'Invalid field filter operator.', details: { allowed: Array.from(FIELD_FILTER_OPERATORS) } };
+        }
+        if (value.length > MAX_LABEL_VALUE_LENGTH) {
+            return { error: `Field filter value is too long. Maximum ${MAX_LABEL_VALUE_LENGTH} characters.` };
+        }
+        if (NUMERIC_FIELD_OPERATORS.has(op) && !NUMERIC_VALUE_PATTERN.test(value.trim())) {
+            return { error: `Field filter on "${name}" compares numbers; value must be a decimal number.` };
+        }
+        if (op === 'regex') {
+            const issue = findFilterRegexIssue(value);
+            if (issue) {
+                return { error: `Field filter regex for "${name}" ${issue}.` };
+            }
+        }
+        fields.push({ name, op, value: NUMERIC_FIELD_OPERATORS.has(op) ? value.trim() : value });
+    }
+
+    return { fields };
+};
+
+/**
+ * Parses the `search` grammar: whitespace-separated clauses that must all match. A word or `"quoted phrase"`
+ * must appear in the line, `/pattern/` (or `/pattern/i` for case-insensitive) must match it, and a leading `-`
+ * negates any clause. Regexes are limited to what RE2 (Loki) and JavaScript both accept.
+ */
+export const parseSearchExpression = (search: string): { terms: Array<SearchTerm> } | QueryValidationError => {
+    if (search.length > MAX_SEARCH_LENGTH) {
+        return { error: `search is too long. Maximum ${MAX_SEARCH_LENGTH} characters.` };
+    }
+
+    const terms: Array<SearchTerm> = [];
+    let index = 0;
+    while (index < search.length) {
+        if (/\s/.test(search[index])) {
+            index += 1;
+            continue;
+        }
+
+        const negated = search[index] === '-' && index + 1 < search.length && !/\s/.test(search[index + 1]);
+        const clause = readSearchClause(search, negated ? index + 1 : index);
+        if ('error' in clause) {
+            return clause;
+        }
+        index = clause.next;
+
+        if (clause.regex) {
+            if (clause.value.length > MAX_SEARCH_REGEX_LENGTH) {
+                return { error: `Search regex is too long. Maximum ${MAX_SEARCH_REGEX_LENGTH} characters.` };
+            }
+            if (!isRe2CompatibleRegex(clause.value) || !isValidRegex(clause.value)) {
+                return { error: `Search regex /${clause.value}/ is invalid. Lookarounds and backreferences are not supported.` };
+            }
+            const risk = findBacktrackingRisk(clause.value);
+            if (risk) {
+                return { error: `Search regex /${clause.value}/ ${risk}, which can backtrack catastrophically.` };
+            }
+            terms.push({ kind: negated ? 'exclude_regex' : 'regex', value: clause.value, ...(clause.ignoreCase ? { ignoreCase: true } : {}) });
+        } else {
+            terms.push({ kind: negated ? 'exclude' : 'include', value: clause.value });
+        }
+
+        if (terms.length > MAX_SEARCH_TERMS) {
+            return { error: `Too many search terms. Maximum ${MAX_SEARCH_TERMS}.` };
+        }
+    }
+
+    return { terms };
+};
+
+/**
+ * Clauses for a `search` value that has already been validated. Text that does not parse (for example from
+ * callers that skip validation) is matched as one literal phrase, which is what `search` meant before the grammar.
+ */
+export const resolveSearchTerms = (search?: string): Array<SearchTerm> => {
+    if (!search) {
+        return [];
+    }
+
+    const parsed = parseSearchExpression(search);
+    return 'error' in parsed ? [{ kind: 'include', value: search }] : parsed.terms;
+};
+
+const readSearchClause = (
+    search: string,
+    start: number,
+): { value: string; regex: boolean; ignoreCase: boolean; next: number } | QueryValidationError => {
+    if (search[start] === '"') {
+        let value = '';
+        let index = start + 1;
+        while (index < search.length && search[index] !== '"') {
+            if (search[index] === '\\' && index + 1 < search.length) {
+                index += 1;
+            }
+            value += search[index];
+            index += 1;
+        }
+        if (index >= search.length) {
+            return { error: 'Unterminated quoted phrase in search.' };
+        }
+        if (!value) {
+            return { error: 'Empty quoted phrase in search.' };
+        }
+        return { value, regex: false, ignoreCase: false, next: index + 1 };
+    }
+
+    let wordEnd = start;
+    while (wordEnd < search.length && !/\s/.test(search[wordEnd])) {
+        wordEnd += 1;
+    }
+
+    // `/pattern/` and `/pattern/i` are regexes; other words starting with a slash (`/api/v1/users`) stay literal.
+    if (search[start] === '/') {
+        let index = start + 1;
+        while (index < search.length && search[index] !== '/') {
+            index += search[index] === '\\' ? 2 : 1;
+        }
+        const ignoreCase = search[index + 1] === 'i';
+        const next = index + (ignoreCase ? 2 : 1);
+        if (index > start + 1 && index < search.length && (next >= search.length || /\s/.test(search[next]))) {
+            return { value: search.slice(start + 1, index).replace(/\\\//g, '/'), regex: true, ignoreCase, next };
+        }
+    }
+
+    return { value: search.slice(start, wordEnd), regex: false, ignoreCase: false, next: wordEnd };
+};
+
+// JavaScript accepts lookarounds and backreferences, but Loki's RE2 engine rejects them.
+const isRe2CompatibleRegex = (pattern: string): boolean => {
+    for (let index = 0; index < pattern.length; index += 1) {
+        if (pattern[index] === '\\') {
+            if (/[1-9k]/.test(pattern[index + 1] || '')) {
+                return false;
+            }
+            index += 1;
+        } else if (pattern.startsWith('(?=', index) || pattern.startsWith('(?!', index) || pattern.startsWith('(?<=', index) || pattern.startsWith('(?<!', index)) {
+            return false;
+        }
+    }
+    return true;
+};
+
+// Parses `pod=api-0`, `pod!=api-0`, or `pod=~api-.*` into a filter; shape is validated by parseLabelFilters.
+export const parseLabelFilterExpression = (expression: string): LabelFilter | undefined => {
+    const match = expression.match(LABEL_FILTER_EXPRESSION);
+    if (!match) {
+        return undefined;
+    }
+    return { name: match[1], op: LABEL_EXPRESSION_OPERATORS[match[2]], value: match[3] };
+};
+
+export const formatLabelFilterExpression = (filter: LabelFilter): string => {
+    const operator = Object.keys(LABEL_EXPRESSION_OPERATORS).find((token) => LABEL_EXPRESSION_OPERATORS[token] === filter.op) || '=';
+    return `${filter.name}${operator}${filter.value}`;
+};
+
+const findFilterRegexIssue = (pattern: string): string | undefined => {
+    if (pattern.length > MAX_FILTER_REGEX_LENGTH) {
+        return `is too long. Maximum ${MAX_FILTER_REGEX_LENGTH} characters`;
+    }
+    if (!isRe2CompatibleRegex(pattern)) {
+        return 'is invalid. Lookarounds and backreferences are not supported';
+    }
+    const risk = findBacktrackingRisk(pattern);
+    if (risk) {
+        return `${risk}, which can backtrack catastrophically`;
+    }
+    return isValidRegex(pattern) ? undefined : 'is invalid';
+};
+
+const isValidRegex = (pattern: string): boolean => {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+};
 
 export const parseAndNormalizeQuery = (args: {
     requestQuery: Record<string, unknown>;
@@ -37,6 +406,7 @@ export const parseAndNormalizeQuery = (args: {
     defaultTimeRange: string;
     maxTimeWindowHours: number;
     maxLinesPerQuery: number;
+    allowedLabelNames?: Array<string>;
     now?: Date;
 }): QueryValidationResult => {
     const payloadResult = parsePayload(args.requestQuery, args.requestContent);
@@ -48,10 +418,28 @@ export const parseAndNormalizeQuery = (args: {
         defaultTimeRange: args.defaultTimeRange,
         maxTimeWindowHours: args.maxTimeWindowHours,
         maxLinesPerQuery: args.maxLinesPerQuery,
+        allowedLabelNames: args.allowedLabelNames || [],
         now: args.now || new Date(),
     });
 };
 
+// Re-checks a normalized query against tighter per-source limits resolved after parsing.
+export const checkQueryGuardrails = (query: NormalizedQuery, limits: QueryGuardrailLimits): QueryValidationError | undefined => {
+    if (query.limit > limits.maxLinesPerQuery) {
+        return {
+            error: `Requested limit exceeds max lines per query (${limits.maxLinesPerQuery}).`,
+        };
+    }
+
+    if (query.end.getTime() - query.start.getTime() > limits.maxTimeWindowHours * 60 * 60 * 1000) {
+        return {
+            error: `Requested time window exceeds max of ${limits.maxTimeWindowHours} hours.`,
+        };
+    }
+
+    return undefined;
+};
+
 const parsePayload = (requestQuery: Record<string, unknown>, requestContent: unknown): { payload: QueryPayload } | QueryValidationError => {
     const content = readObjectContent(requestContent);
     if ('error' in content) {
@@ -76,7 +464,7 @@ const parsePayload = (requestQuery: Record<string, unknown>, requestContent: unk
 
 const normalizeQuery = (
     payload: QueryPayload,
-    opts: { defaultTimeRange: string; maxTimeWindowHours: number; maxLinesPerQuery: number; now: Date },
+    opts: { defaultTimeRange: string; maxTimeWindowHours: number; maxLinesPerQuery: number; allowedLabelNames: Array<string>; now: Date },
 ): QueryValidationResult => {
     const startProvided = payload.start !== undefined;
     const endProvided = payload.end !== undefined;
@@ -99,19 +487,13 @@ const normalizeQuery = (
         };
     }
 
-    let level: QueryLevel | undefined;
-    if (payload.level !== undefined) {
-        if (typeof payload.level !== 'string') {
-            return { error: 'level must be a string.' };
+    let levels: Array<QueryLevelFilter> | undefined;
+    if (payload.level !== undefined && payload.level !== null) {
+        const parsedLevels = parseLevelFilter(payload.level);
+        if ('error' in parsedLevels) {
+            return parsedLevels;
         }
-        const normalizedLevel = payload.level.trim().toLowerCase() as QueryLevel;
-        if (!ALLOWED_LEVELS.has(normalizedLevel)) {
-            return {
-                error: 'Invalid level filter.',
-                details: { allowed: Array.from(ALLOWED_LEVELS) },
-            };
-        }
-        level = normalizedLevel;
+        levels = parsedLevels.levels;
     }
 
     let search: string | undefined;
@@ -119,12 +501,59 @@ const normalizeQuery = (
         if (typeof payload.search !== 'string') {
             return { error: 'search must be a string.' };
         }
-        search = payload.search.trim();
-        if (search.length > 512) {
-            return { error: 'search is too long. Maximum 512 characters.' };
+        search = payload.search.trim() || undefined;
+        const parsedSearch = search ? parseSearchExpression(search) : undefined;
+        if (parsedSearch && 'error' in parsedSearch) {
+            return parsedSearch;
+        }
+    }
+
+    let source: string | undefined;
+    if (payload.source !== undefined) {
+        if (typeof payload.source !== 'string') {
+            return { error: 'source must be a string.' };
+        }
+        source = payload.source.trim().toLowerCase() || undefined;
+        if (source && !isValidSourceId(source)) {
+            return { error: 'Invalid source id. Use lowercase letters, digits, dashes, or underscores (max 64 characters).' };
         }
-        if (!search) {
-            search = undefined;
+    }
+
+    let labels: Array<LabelFilter> | undefined;
+    if (payload.labels !== undefined) {
+        const parsedLabels = parseLabelFilters(payload.labels, opts.allowedLabelNames);
+        if ('error' in parsedLabels) {
+            return parsedLabels;
+        }
+        labels = parsedLabels.labels.length > 0 ? parsedLabels.labels : undefined;
+    }
+
+    let parser: FieldParser | undefined;
+    if (payload.parser !== undefined && payload.parser !== null && payload.parser !== '') {
+        const normalizedParser = typeof payload.parser === 'string' ? (payload.parser.trim().toLowerCase() as FieldParser) : undefined;
+        if (!normalizedParser || !FIELD_PARSERS.has(normalizedParser)) {
+            return { error: 'Invalid parser.', details: { allowed: Array.from(FIELD_PARSERS) } };
+        }
+        parser = normalizedParser;
+    }
+
+    let fields: Array<FieldFilter> | undefined;
+    if (payload.fields !== undefined) {
+        const parsedFields = parseFieldFilters(payload.fields);
+        if ('error' in parsedFields) {
+            return parsedFields;
+        }
+        fields = parsedFields.fields.length > 0 ? parsedFields.fields : undefined;
+    }
+    if (fields && !parser) {
+        return { error: 'Field filters need a parser (json or logfmt).' };
+    }
+
+    let cursor: QueryCursor | undefined;
+    if (payload.cursor !== undefined && payload.cursor !== null && payload.cursor !== '') {
+        cursor = decodeQueryCursor(payload.cursor);
+        if (!cursor) {
+            return { error: 'Invalid cursor. Use meta.nextCursor from a previous response.' };
         }
     }
 
@@ -173,13 +602,18 @@ const normalizeQuery = (
             start,
             end,
             limit: limit.value,
-            level,
+            levels,
             search,
+            source,
+            labels,
+            parser,
+            fields,
+            cursor,
         },
     };
 };
 
-const parseDuration = (value: unknown): { value: number } | QueryValidationError => {
+export const parseDuration = (value: unknown): { value: number } | QueryValidationError => {
     if (typeof value !== 'string') {
         return { error: 'since/default time range must be a string duration like 15m, 1h, 24h.' };
     }
@@ -259,7 +693,10 @@ const parsePositiveInteger = (value: unknown): { value: number } | QueryValidati
     return { value: Math.floor(numeric) };
 };
 
-const readObjectContent = (content: unknown): { value: Record<string, unknown> } | QueryValidationError => {
+/**
+ * Reads a request body that may arrive as a JSON string or an already-parsed object; an empty body is `{}`.
+ */
+export const readObjectContent = (content: unknown): { value: Record<string, unknown> } | QueryValidationError => {
     if (content === undefined || content === null || content === '') {
         return { value: {} };
     }
@@ -0,0 +1,16 @@
+export type ServerSentEvent = {
+    event: string;
+    data: unknown;
+    id?: string;
+};
+
+/**
+ * Serializes events as a `text/event-stream` body.
+ *
+ * Data is JSON on a single line, so payloads never need multi-line `data:` splitting. The leading
+ * `retry:` field tells clients how long to wait before requesting the next batch.
+ */
+export const formatServerSentEvents = (events: Array<ServerSentEvent>, retryMs: number): string => {
+    const blocks = events.map(({ event, data, id }) => `${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n`);
+    return [`retry: ${Math.max(0, Math.floor(retryMs))}\n`, ...blocks].join('\n') + '\n';
+};
@@ -0,0 +1,159 @@
+import { IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+
+import { TailFilters } from './tailValidation';
+
+export type TailSession = {
+    id: string;
+    startedAt: string;
+    lastSeenAt: string;
+    delivered: number;
+    // Filters are fixed at stream start so polls cannot widen what `stream_start` audited.
+    filters: TailFilters;
+};
+
+type TailSessionRecord = {
+    updatedAt: string;
+    sessions: Array<TailSession>;
+};
+
+// Sessions that were pruned while writing, so callers can audit them as ended.
+type TailSessionChange = {
+    expired: Array<TailSession>;
+};
+
+const TAIL_ASSOC_PREFIX = 'tail-sessions:user:';
+export const TAIL_SESSION_IDLE_MS = 30 * 1000;
+
+export const openTailSession = async (
+    read: IRead,
+    persistence: IPersistence,
+    userId: string,
+    options: { maxStreams: number; filters: TailFilters },
+    now = Date.now(),
+): Promise<(TailSessionChange & { session: TailSession }) | (TailSessionChange & { error: 'stream_limit'; active: number })> => {
+    const assoc = associationForUser(userId);
+    const record = parseRecord((await read.getPersistenceReader().readByAssociation(assoc))[0]);
+    const { active, expired } = partitionSessions(record.sessions, now);
+
+    if (active.length >= Math.max(1, Math.floor(options.maxStreams))) {
+        if (expired.length > 0) {
+            await writeSessions(persistence, assoc, active, now);
+        }
+        return { error: 'stream_limit', active: active.length, expired };
+    }
+
+    const session: TailSession = {
+        id: generateStreamId(now),
+        startedAt: new Date(now).toISOString(),
+        lastSeenAt: new Date(now).toISOString(),
+        delivered: 0,
+        filters: options.filters,
+    };
+    await writeSessions(persistence, assoc, [...active, session], now);
+    return { session, expired };
+};
+
+export const readTailSession = async (read: IRead, userId: string, streamId: string, now = Date.now()): Promise<TailSession | undefined> => {
+    const record = parseRecord((await read.getPersistenceReader().readByAssociation(associationForUser(userId)))[0]);
+    return partitionSessions(record.sessions, now).active.find((session) => session.id === streamId);
+};
+
+export const recordTailDelivery = async (
+    read: IRead,
+    persistence: IPersistence,
+    userId: string,
+    streamId: string,
+    delivered: number,
+    now = Date.now(),
+): Promise<TailSessionChange & { session?: TailSession }> => {
+    const assoc = associationForUser(userId);
+    const record = parseRecord((await read.getPersistenceReader().readByAssociation(assoc))[0]);
+    const { active, expired } = partitionSessions(record.sessions, now);
+    const session = active.find((candidate) => candidate.id === streamId);
+    if (session) {
+        session.lastSeenAt = new Date(now).toISOString();
+        session.delivered += delivered;
+    }
+
+    await writeSessions(persistence, assoc, active, now);
+    return { session, expired };
+};
+
+export const closeTailSession = async (
+    read: IRead,
+    persistence: IPersistence,
+    userId: string,
+    streamId: string,
+    now = Date.now(),
+): Promise<TailSessionChange & { session?: TailSession }> => {
+    const assoc = associationForUser(userId);
+    const record = parseRecord((await read.getPersistenceReader().readByAssociation(assoc))[0]);
+    const { active, expired } = partitionSessions(record.sessions, now);
+    const session = active.find((candidate) => candidate.id === streamId);
+
+    await writeSessions(persistence, assoc, active.filter((candidate) => candidate.id !== streamId), now);
+    return { session, expired };
+};
+
+const associationForUser = (userId: string): RocketChatAssociationRecord =>
+    new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `${TAIL_ASSOC_PREFIX}${userId}`);
+
+const writeSessions = async (persistence: IPersistence, assoc: RocketChatAssociationRecord, sessions: Array<TailSession>, now: number) => {
+    await persistence.updateByAssociation(
+        assoc,
+        {
+            updatedAt: new Date(now).toISOString(),
+            sessions,
+        },
+        true,
+    );
+};
+
+const partitionSessions = (sessions: Array<TailSession>, now: number): { active: Array<TailSession>; expired: Array<TailSession> } => {
+    const active: Array<TailSession> = [];
+    const expired: Array<TailSession> = [];
+    for (const session of sessions) {
+        const lastSeenMs = Date.parse(session.lastSeenAt);
+        if (Number.isFinite(lastSeenMs) && now - lastSeenMs <= TAIL_SESSION_IDLE_MS) {
+            active.push(session);
+        } else {
+            expired.push(session);
+        }
+    }
+    return { active, expired };
+};
+
+const parseRecord = (raw: unknown): TailSessionRecord => {
+    if (!raw || typeof raw !== 'object') {
+        return { updatedAt: new Date(0).toISOString(), sessions: [] };
+    }
+
+    const candidate = raw as Partial<TailSessionRecord>;
+    const sessions = Array.isArray(candidate.sessions)
+        ? candidate.sessions.filter((session) => isSession(session)) as Array<TailSession>
+        : [];
+
+    return {
+        updatedAt: typeof candidate.updatedAt === 'string' ? candidate.updatedAt : new Date(0).toISOString(),
+        sessions,
+    };
+};
+
+const isSession = (value: unknown): value is TailSession => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+
+    const candidate = value as Partial<TailSession>;
+    return typeof candidate.id === 'string'
+        && typeof candidate.startedAt === 'string'
+        && typeof candidate.lastSeenAt === 'string'
+        && typeof candidate.delivered === 'number'
+        && Boolean(candidate.filters && typeof candidate.filters === 'object');
+};
+
+const generateStreamId = (nowMs: number): string => {
+    const randomPart = Math.random().toString(36).slice(2, 10);
+    return `tail_${nowMs.toString(36)}_${randomPart}`;
+};
@@ -0,0 +1,91 @@
+import { LabelFilter, parseAndNormalizeQuery, QueryLevelFilter, readObjectContent } from './queryValidation';
+
+export type TailFilters = {
+    levels?: Array<QueryLevelFilter>;
+    search?: string;
+    source?: string;
+    labels?: Array<LabelFilter>;
+};
+
+export type TailRequest = {
+    // Absent when opening a new stream.
+    stream?: string;
+    // Nanosecond timestamp of the newest line the client already has.
+    cursor?: string;
+    end: boolean;
+    // Present only when opening a new stream.
+    filters?: TailFilters;
+};
+
+const ALLOWED_TAIL_KEYS = new Set(['stream', 'cursor', 'end', 'level', 'search', 'source', 'labels']);
+const FILTER_KEYS = ['level', 'search', 'source', 'labels'];
+const STREAM_ID_PATTERN = /^tail_[a-z0-9]{1,16}_[a-z0-9]{1,16}$/;
+const CURSOR_PATTERN = /^\d{1,20}$/;
+
+export const parseTailRequest = (args: {
+    requestContent: unknown;
+    allowedLabelNames: Array<string>;
+}): { request: TailRequest } | { error: string; details?: unknown } => {
+    const content = readObjectContent(args.requestContent);
+    if ('error' in content) {
+        return content;
+    }
+
+    const payload = content.value;
+    const unknownKeys = Object.keys(payload).filter((key) => !ALLOWED_TAIL_KEYS.has(key));
+    if (unknownKeys.length > 0) {
+        return {
+            error: 'Unsupported tail parameters.',
+            details: { unknownKeys, allowedKeys: Array.from(ALLOWED_TAIL_KEYS) },
+        };
+    }
+
+    if (payload.end !== undefined && typeof payload.end !== 'boolean') {
+        return { error: 'end must be a boolean.' };
+    }
+    const end = payload.end === true;
+
+    let cursor: string | undefined;
+    if (payload.cursor !== undefined) {
+        if (typeof payload.cursor !== 'string' || !CURSOR_PATTERN.test(payload.cursor)) {
+            return { error: 'cursor must be a nanosecond timestamp string.' };
+        }
+        cursor = payload.cursor;
+    }
+
+    if (payload.stream !== undefined) {
+        if (typeof payload.stream !== 'string' || !STREAM_ID_PATTERN.test(payload.stream)) {
+            return { error: 'Invalid tail stream id.' };
+        }
+        if (FILTER_KEYS.some((key) => payload[key] !== undefined)) {
+            return { error: 'Filters are fixed when a tail stream starts; open a new stream to change them.' };
+        }
+        return { request: { stream: payload.stream, cursor, end } };
+    }
+
+    if (end) {
+        return { error: 'end requires a stream id.' };
+    }
+
+    // Reuse /query filter validation; the window is derived from the cursor, not the payload.
+    const normalized = parseAndNormalizeQuery({
+        requestQuery: {},
+        requestContent: {
+            since: '1m',
+            level: payload.level,
+            search: payload.search,
+            source: payload.source,
+            labels: payload.labels,
+        },
+        defaultTimeRange: '1m',
+        maxTimeWindowHours: 1,
+        maxLinesPerQuery: Number.MAX_SAFE_INTEGER,
+        allowedLabelNames: args.allowedLabelNames,
+    });
+    if ('error' in normalized) {
+        return normalized;
+    }
+
+    const { levels, search, source, labels } = normalized.query;
+    return { request: { cursor, end, filters: { levels, search, source, labels } } };
+};
@@ -1,4 +1,4 @@
-import { QueryLevel } from './queryValidation';
+import { formatLevelFilter, isValidSourceId, LabelFilter, parseLabelFilters, parseLevelFilter, QueryLevelFilter } from './queryValidation';
 
 export type SavedViewQuery = {
     timeMode: 'relative' | 'absolute';
@@ -6,8 +6,11 @@ export type SavedViewQuery = {
     start?: string;
     end?: string;
     limit: number;
-    level?: QueryLevel;
+    // One level, or several in the same shape `POST /query` accepts.
+    level?: QueryLevelFilter | Array<QueryLevelFilter>;
     search?: string;
+    source?: string;
+    labels?: Array<LabelFilter>;
 };
 
 export type SavedViewsMutation =
@@ -141,7 +144,7 @@ const parseSavedViewQuery = (raw: unknown): { query: SavedViewQuery } | { error:
     }
 
     const objectQuery = raw as Record<string, unknown>;
-    const unknownKeys = Object.keys(objectQuery).filter((key) => !['timeMode', 'since', 'start', 'end', 'limit', 'level', 'search'].includes(key));
+    const unknownKeys = Object.keys(objectQuery).filter((key) => !['timeMode', 'since', 'start', 'end', 'limit', 'level', 'search', 'source', 'labels'].includes(key));
     if (unknownKeys.length > 0) {
         return {
             error: 'query contains unsupported fields.',
@@ -163,15 +166,33 @@ const parseSavedViewQuery = (raw: unknown): { query: SavedViewQuery } | { error:
         };
     }
 
-    const levelRaw = typeof objectQuery.level === 'string' ? objectQuery.level.trim().toLowerCase() : '';
-    const level = levelRaw ? parseLevel(levelRaw) : undefined;
-    if (levelRaw && !level) {
+    const levels = objectQuery.level === undefined || objectQuery.level === null ? {} : parseLevelFilter(objectQuery.level);
+    if ('error' in levels) {
         return {
-            error: 'query.level must be one of: error, warn, info, debug.',
+            error: 'query.level must be one or more of: error, warn, info, debug, unknown.',
         };
     }
+    const level = formatLevelFilter(levels.levels) || undefined;
 
     const search = sanitizeString(objectQuery.search, 200) || undefined;
+    const source = sanitizeString(objectQuery.source, 64).toLowerCase() || undefined;
+    if (source && !isValidSourceId(source)) {
+        return {
+            error: 'query.source must be a source id (lowercase letters, digits, dashes, or underscores).',
+        };
+    }
+
+    let labels: Array<LabelFilter> | undefined;
+    if (objectQuery.labels !== undefined) {
+        const parsedLabels = parseLabelFilters(objectQuery.labels);
+        if ('error' in parsedLabels) {
+            return {
+                error: `query.labels is invalid: ${parsedLabels.error}`,
+                details: parsedLabels.details,
+            };
+        }
+        labels = parsedLabels.labels.length > 0 ? parsedLabels.labels : undefined;
+    }
     const since = sanitizeString(objectQuery.since, 32) || undefined;
     const start = sanitizeDateString(objectQuery.start);
     const end = sanitizeDateString(objectQuery.end);
@@ -190,6 +211,8 @@ const parseSavedViewQuery = (raw: unknown): { query: SavedViewQuery } | { error:
                 limit,
                 level,
                 search,
+                source,
+                labels,
             },
         };
     }
@@ -214,18 +237,12 @@ const parseSavedViewQuery = (raw: unknown): { query: SavedViewQuery } | { error:
             limit,
             level,
             search,
+            source,
+            labels,
         },
     };
 };
 
-const parseLevel = (value: string): QueryLevel | undefined => {
-    if (value === 'error' || value === 'warn' || value === 'info' || value === 'debug') {
-        return value;
-    }
-
-    return undefined;
-};
-
 const sanitizeString = (value: unknown, maxLength: number): string => {
     if (typeof value === 'string') {
         return value.trim().slice(0, maxLength);
@@ -3,6 +3,28 @@ import { ISlashCommand, SlashCommandContext } from '@rocket.chat/apps-engine/def
 import { UIKitSurfaceType } from '@rocket.chat/apps-engine/definition/uikit';
 import { IUser } from '@rocket.chat/apps-engine/definition/users';
 
+import { shiftCompareWindow } from '../api/logs/compareValidation';
+import { emptyHistogramCounts, HistogramCounts } from '../api/logs/histogramBuckets';
+import { clusterLogPatterns, diffLogPatterns, normalizeLogSignature, PatternChange, PatternDiff } from '../api/logs/logPatterns';
+import {
+    applyQueryCursor,
+    buildNextQueryCursor,
+    cursorQueryEnd,
+    decodeQueryCursor,
+    encodeQueryCursor,
+    QueryCursor,
+    sortEntriesForPaging,
+} from '../api/logs/queryCursor';
+import {
+    formatLabelFilterExpression,
+    LabelFilter,
+    parseAllowedLabelNames,
+    parseLabelFilterExpression,
+    parseLabelFilters,
+    parseLevelFilter,
+    parseSearchExpression,
+    QueryLevelFilter,
+} from '../api/logs/queryValidation';
 import { COMMANDS, SETTINGS } from '../constants';
 import { hasAnyAllowedRole, parseAllowedRoles } from '../security/querySecurity';
 import {
@@ -12,7 +34,11 @@ import {
     SlashCardActionPayload,
 } from './slashCardActions';
 import { createSlashCardSampleSnapshot } from './slashCardSampleStore';
-import { redactLogMessage } from '../security/redaction';
+import { RedactionOptions, redactLogMessage } from '../security/redaction';
+import { parseRedactionRules } from '../security/redactionRules';
+import { matchesLabelFilters } from '../sources/logEntries';
+import { parseLogsSourceMode, resolveLogSource } from '../sources/registry';
+import { LogEntry, LogsSourceMode } from '../sources/types';
 
 type PresetName = 'incident' | 'webhook-errors' | 'auth-failures';
 
@@ -32,7 +58,7 @@ type SummaryEntry = {
 };
 
 type QuickTriageSummary = {
-    sourceMode: 'loki' | 'app_logs';
+    sourceMode: LogsSourceMode;
     windowLabel: string;
     sampleLimit: number;
     sampleLineCount?: number;
@@ -40,28 +66,50 @@ type QuickTriageSummary = {
     topLevels: Array<{ level: QueryLevel | 'unknown'; count: number }>;
     topSignals: Array<{ text: string; count: number }>;
     note?: string;
+    // `/logs` arguments that fetch the next older sample page, when the sample filled its cap.
+    nextPageCommand?: string;
+    // Filters left out of `nextPageCommand` because slash arguments cannot carry whitespace.
+    nextPageOmitted?: Array<string>;
+};
+
+type CompareSummary = {
+    sourceMode: LogsSourceMode;
+    targetLabel: string;
+    baselineLabel: string;
+    sampleLimit: number;
+    targetLineCount?: number;
+    baselineLineCount?: number;
+    levels?: { target: HistogramCounts; baseline: HistogramCounts };
+    diff?: PatternDiff;
+    note?: string;
 };
 
 type ParsedCommandArgs = {
+    // `/logs compare ...` diffs the window against a baseline instead of sampling it.
+    compare: boolean;
+    baseline?: string;
     preset?: PresetName;
     since?: string;
     start?: string;
     end?: string;
-    level?: QueryLevel;
+    levels?: Array<QueryLevelFilter>;
     limit?: number;
     search?: string;
+    labels?: Array<LabelFilter>;
+    cursor?: QueryCursor;
     autorun: boolean;
     hasExplicitFilters: boolean;
     warnings: Array<string>;
 };
 
-const ALLOWED_LEVELS = new Set<QueryLevel>(['error', 'warn', 'info', 'debug']);
 const QUICK_SAMPLE_OUTPUT_MAX_LINES = 600;
 const QUICK_SAMPLE_OUTPUT_PREVIEW_LINES = 25;
 const QUICK_SAMPLE_OUTPUT_PREVIEW_CHAR_BUDGET = 1800;
 const QUICK_SAMPLE_OUTPUT_FALLBACK_LINES = 8;
 const QUICK_SAMPLE_OUTPUT_LINE_TEXT_MAX = 2400;
 const QUICK_SAMPLE_OUTPUT_INLINE_FALLBACK_TEXT_MAX = 220;
+const COMPARE_SAMPLE_LIMIT = 500;
+const COMPARE_CHANGES_PER_KIND = 3;
 const DURATION_PATTERN = /^\d+\s*[smhdw]$/i;
 const CODE_FENCE = '```';
 const PRESETS: Record<PresetName, PresetDefinition> = {
@@ -80,7 +128,7 @@ const PRESETS: Record<PresetName, PresetDefinition> = {
         since: '1h',
         level: 'warn',
         limit: 300,
-        search: 'auth failed',
+        search: '"auth failed"',
     },
 };
 
@@ -109,11 +157,10 @@ export class LogsSlashCommand implements ISlashCommand {
             maxLinesPerQueryRaw,
             enableRedactionRaw,
             redactionReplacementRaw,
+            redactionDetectorsRaw,
+            redactionRulesRaw,
             logsSourceModeRaw,
-            lokiBaseUrlRaw,
-            lokiUsernameRaw,
-            lokiTokenRaw,
-            requiredLabelSelectorRaw,
+            allowedLabelFiltersRaw,
         ] = await Promise.all([
             settingsReader.getValueById(SETTINGS.ALLOWED_ROLES),
             settingsReader.getValueById(SETTINGS.EXTERNAL_COMPONENT_URL),
@@ -121,15 +168,15 @@ export class LogsSlashCommand implements ISlashCommand {
             settingsReader.getValueById(SETTINGS.MAX_LINES_PER_QUERY),
             settingsReader.getValueById(SETTINGS.ENABLE_REDACTION),
             settingsReader.getValueById(SETTINGS.REDACTION_REPLACEMENT),
+            settingsReader.getValueById(SETTINGS.REDACTION_DETECTORS),
+            settingsReader.getValueById(SETTINGS.REDACTION_RULES),
             settingsReader.getValueById(SETTINGS.LOGS_SOURCE_MODE),
-            settingsReader.getValueById(SETTINGS.LOKI_BASE_URL),
-            settingsReader.getValueById(SETTINGS.LOKI_USERNAME),
-            settingsReader.getValueById(SETTINGS.LOKI_TOKEN),
-            settingsReader.getValueById(SETTINGS.REQUIRED_LABEL_SELECTOR),
+            settingsReader.getValueById(SETTINGS.ALLOWED_LABEL_FILTERS),
         ]);
-        const redaction = {
+        const redaction: RedactionOptions = {
             enabled: this.readBooleanSetting(enableRedactionRaw, true),
             replacement: this.readReplacementSetting(redactionReplacementRaw, '[REDACTED]'),
+            rules: parseRedactionRules(redactionRulesRaw, redactionDetectorsRaw).rules,
         };
 
         const allowedRoles = parseAllowedRoles(allowedRolesRaw);
@@ -153,24 +200,68 @@ export class LogsSlashCommand implements ISlashCommand {
             parsed.limit = maxLinesPerQuery;
         }
 
+        if (parsed.labels) {
+            // Same allow-list as POST /query; the quick sample bypasses that endpoint's validation.
+            const allowedLabelNames = parseAllowedLabelNames(allowedLabelFiltersRaw);
+            const disallowed = parsed.labels.filter((filter) => !allowedLabelNames.includes(filter.name));
+            if (disallowed.length > 0) {
+                parsed.warnings.push(`Label filters on ${disallowed.map((filter) => `\`${filter.name}\``).join(', ')} are not allowed and were ignored.`);
+                parsed.labels = parsed.labels.filter((filter) => allowedLabelNames.includes(filter.name));
+            }
+            if (parsed.labels.length === 0) {
+                delete parsed.labels;
+            }
+        }
+
         const deepLink = this.buildViewerUrl(externalComponentUrl, context, parsed, {
             defaultTimeRange,
             defaultLimit: Math.min(500, maxLinesPerQuery),
         });
+        const roomName = context.getRoom().displayName || context.getRoom().slugifiedName;
+
+        if (parsed.compare) {
+            const compareSummary = await this.buildCompareSummary({
+                http: _http,
+                read,
+                userRoles: context.getSender().roles,
+                redaction,
+                logsSourceModeRaw,
+                parsed,
+                defaultTimeRange,
+                maxLinesPerQuery,
+            });
+            const compareFilterSummary = this.formatFilterSummary(parsed, defaultTimeRange, maxLinesPerQuery);
+            if (context.getTriggerId()) {
+                try {
+                    await this.openCompareContextualBar(context, modify, deepLink, roomName, compareFilterSummary, compareSummary, parsed.warnings);
+                    return;
+                } catch {
+                    parsed.warnings.push('Could not open in-app panel from this client context; sent a private notification fallback.');
+                }
+            }
+
+            await this.notifyPrivateOnly(context, modify, appUser, [
+                'Logs Viewer compare is ready.',
+                `Open: ${deepLink}`,
+                `Room: ${roomName}`,
+                `Filters: ${compareFilterSummary}`,
+                ...this.formatCompareForPrivateText(compareSummary),
+                parsed.warnings.length > 0 ? `\nWarnings: ${parsed.warnings.join(' | ')}` : '',
+            ]);
+            return;
+        }
+
         const triageSummary = await this.buildQuickTriageSummary({
             http: _http,
+            read,
+            userRoles: context.getSender().roles,
             redaction,
             logsSourceModeRaw,
-            lokiBaseUrlRaw,
-            lokiUsernameRaw,
-            lokiTokenRaw,
-            requiredLabelSelectorRaw,
             parsed,
             defaultTimeRange,
             maxLinesPerQuery,
         });
 
-        const roomName = context.getRoom().displayName || context.getRoom().slugifiedName;
         const filterSummary = this.formatFilterSummary(parsed, defaultTimeRange, maxLinesPerQuery);
 
         const warningText = parsed.warnings.length > 0 ? `\nWarnings: ${parsed.warnings.join(' | ')}` : '';
@@ -265,6 +356,12 @@ export class LogsSlashCommand implements ISlashCommand {
                     text: blocks.newPlainTextObject('Share elsewhere'),
                     value: encodedActionPayload,
                 }),
+                blocks.newButtonElement({
+                    actionId: SLASH_CARD_ACTION.UPLOAD_BUNDLE,
+                    // Uploads a tar file with the sample, top signals, and the caller's recent audit entries.
+                    text: blocks.newPlainTextObject('Upload bundle'),
+                    value: encodedActionPayload,
+                }),
             ],
         });
         // Keep high-frequency triage operations in-chat before forcing full web viewer navigation.
@@ -296,6 +393,59 @@ export class LogsSlashCommand implements ISlashCommand {
         );
     }
 
+    private async openCompareContextualBar(
+        context: SlashCommandContext,
+        modify: IModify,
+        deepLink: string,
+        roomName: string,
+        filterSummary: string,
+        compareSummary: CompareSummary,
+        warnings: Array<string>,
+    ): Promise<void> {
+        const triggerId = context.getTriggerId();
+        if (!triggerId) {
+            throw new Error('Missing trigger id for contextual bar open.');
+        }
+
+        const blocks = modify.getCreator().getBlockBuilder();
+        blocks.addSectionBlock({
+            text: blocks.newMarkdownTextObject('*Logs Viewer (Private)*\nOnly you can see this `/logs compare` response.'),
+        });
+        blocks.addActionsBlock({
+            elements: [
+                blocks.newButtonElement({
+                    text: blocks.newPlainTextObject('Open compare view'),
+                    url: deepLink,
+                }),
+            ],
+        });
+        blocks.addContextBlock({
+            elements: [
+                blocks.newMarkdownTextObject(`Room: \`${roomName}\``),
+                blocks.newMarkdownTextObject(`Filters: ${filterSummary}`),
+            ],
+        });
+        blocks.addSectionBlock({
+            text: blocks.newMarkdownTextObject(this.formatCompareForMarkdown(compareSummary)),
+        });
+
+        if (warnings.length > 0) {
+            blocks.addSectionBlock({
+                text: blocks.newMarkdownTextObject(`*Warnings*\n${warnings.join('\n')}`),
+            });
+        }
+
+        await modify.getUiController().openSurfaceView(
+            {
+                type: UIKitSurfaceType.CONTEXTUAL_BAR,
+                title: blocks.newPlainTextObject('Logs Viewer'),
+                blocks: blocks.getBlocks(),
+            },
+            { triggerId },
+            context.getSender(),
+        );
+    }
+
     private async buildSlashCardActionPayload(
         context: SlashCommandContext,
         read: IRead,
@@ -344,6 +494,7 @@ export class LogsSlashCommand implements ISlashCommand {
                     preset: payload.preset,
                     sampleOutput,
                     sampleTotalCount: payload.sampleTotalCount || sampleOutput.length,
+                    topSignals: triageSummary.topSignals,
                 });
                 if (snapshotId) {
                     payload.snapshotId = snapshotId;
@@ -405,6 +556,7 @@ export class LogsSlashCommand implements ISlashCommand {
             `Sample preview: ${previewMeta}`,
             sampleOutputLines.length > 0 ? `Sample output:\n${CODE_FENCE}\n${sampleOutputLines.join('\n')}\n${CODE_FENCE}` : 'Sample output: n/a',
             summary.note ? `- Note: ${summary.note}` : '',
+            summary.nextPageCommand ? `Older lines: \`${summary.nextPageCommand}\`${this.formatNextPageOmitted(summary)}` : '',
         ]
             .filter(Boolean)
             .join('\n');
@@ -457,44 +609,180 @@ export class LogsSlashCommand implements ISlashCommand {
             previewNote,
             ...sampleOutput,
             summary.note ? `Quick summary note=${summary.note}` : '',
+            summary.nextPageCommand ? `Quick summary next_page=${summary.nextPageCommand}${this.formatNextPageOmitted(summary)}` : '',
+        ].filter(Boolean);
+    }
+
+    private formatCompareForMarkdown(summary: CompareSummary): string {
+        const diff = summary.diff;
+        const formatChanges = (changes: Array<PatternChange>, describe: (change: PatternChange) => string): string => (changes.length > 0
+            ? changes.slice(0, COMPARE_CHANGES_PER_KIND).map((change) => `\`${this.compactSignal(change.signature)}\` ${describe(change)}`).join(', ')
+            : 'none');
+
+        return [
+            '*Compare summary*',
+            `Source: \`${summary.sourceMode}\``,
+            `Target: ${summary.targetLabel} (${summary.targetLineCount ?? 0} lines, cap ${summary.sampleLimit})`,
+            `Baseline: ${summary.baselineLabel} (${summary.baselineLineCount ?? 0} lines)`,
+            summary.levels ? `Levels (baseline -> target): ${this.formatCompareLevels(summary.levels)}` : '',
+            diff ? `New patterns (${diff.new.length}): ${formatChanges(diff.new, (change) => `(${change.targetCount})`)}` : '',
+            diff ? `Increased (${diff.increased.length}): ${formatChanges(diff.increased, (change) => `${change.baselineCount} -> ${change.targetCount}`)}` : '',
+            diff ? `Gone (${diff.gone.length}): ${formatChanges(diff.gone, (change) => `(${change.baselineCount})`)}` : '',
+            summary.note ? `- Note: ${summary.note}` : '',
+        ]
+            .filter(Boolean)
+            .join('\n');
+    }
+
+    private formatCompareForPrivateText(summary: CompareSummary): Array<string> {
+        const diff = summary.diff;
+        const formatChanges = (changes: Array<PatternChange>): string => (changes.length > 0
+            ? changes.slice(0, COMPARE_CHANGES_PER_KIND).map((change) => `"${this.compactSignal(change.signature)}"(${change.baselineCount}->${change.targetCount})`).join(', ')
+            : 'none');
+
+        return [
+            `Compare summary source=${summary.sourceMode}`,
+            `Compare summary target=${summary.targetLabel} lines=${summary.targetLineCount ?? 0} (cap ${summary.sampleLimit})`,
+            `Compare summary baseline=${summary.baselineLabel} lines=${summary.baselineLineCount ?? 0}`,
+            summary.levels ? `Compare summary levels=${this.formatCompareLevels(summary.levels)}` : '',
+            diff ? `Compare summary new=${formatChanges(diff.new)}` : '',
+            diff ? `Compare summary increased=${formatChanges(diff.increased)}` : '',
+            diff ? `Compare summary gone=${formatChanges(diff.gone)}` : '',
+            summary.note ? `Compare summary note=${summary.note}` : '',
         ].filter(Boolean);
     }
 
-    private parseLogsSourceMode(rawValue: unknown): 'loki' | 'app_logs' {
-        if (typeof rawValue !== 'string') {
-            return 'loki';
+    private formatCompareLevels(levels: { target: HistogramCounts; baseline: HistogramCounts }): string {
+        const changed = (Object.keys(levels.target) as Array<keyof HistogramCounts>)
+            .filter((level) => levels.target[level] > 0 || levels.baseline[level] > 0);
+        return changed.length > 0
+            ? changed.map((level) => `${level} ${levels.baseline[level]}->${levels.target[level]}`).join(', ')
+            : 'n/a';
+    }
+
+    /**
+     * Samples the window and a baseline with the same filters and diffs their message signatures, like
+     * POST /compare. Both samples are capped, so counts describe the newest lines of each window.
+     */
+    private async buildCompareSummary(args: {
+        http: IHttp;
+        read: IRead;
+        userRoles: Array<string>;
+        redaction: RedactionOptions;
+        logsSourceModeRaw: unknown;
+        parsed: ParsedCommandArgs;
+        defaultTimeRange: string;
+        maxLinesPerQuery: number;
+    }): Promise<CompareSummary> {
+        const sourceMode = parseLogsSourceMode(args.logsSourceModeRaw);
+        const source = resolveLogSource(sourceMode);
+        const sampleLimit = Math.min(args.maxLinesPerQuery, args.parsed.limit || COMPARE_SAMPLE_LIMIT, COMPARE_SAMPLE_LIMIT);
+        const range = this.resolveSummaryTimeRange(args.parsed, args.defaultTimeRange);
+        const windowMs = range.end.getTime() - range.start.getTime();
+        const requestedOffsetMs = args.parsed.baseline ? this.parseRelativeDurationMs(args.parsed.baseline) : undefined;
+        let baseline = shiftCompareWindow(range, requestedOffsetMs || windowMs);
+        if (!baseline) {
+            args.parsed.warnings.push(`Baseline \`${args.parsed.baseline}\` is shorter than the window; using the preceding window instead.`);
+            baseline = shiftCompareWindow(range, windowMs)!;
+        }
+        const summary: CompareSummary = {
+            sourceMode,
+            targetLabel: range.label,
+            baselineLabel: requestedOffsetMs && requestedOffsetMs >= windowMs ? `${args.parsed.baseline} earlier` : 'preceding window',
+            sampleLimit,
+        };
+
+        if (!source.capabilities.supportsQuickSample) {
+            return { ...summary, note: `Quick compare is unavailable in ${sourceMode} mode. Use Open compare view instead.` };
         }
 
-        const normalized = rawValue.trim().toLowerCase();
-        if (normalized === 'app_logs') {
-            return 'app_logs';
+        const readinessIssues = await source.checkReadiness(args.read);
+        if (readinessIssues.length > 0) {
+            return { ...summary, note: `Quick compare skipped due to ${sourceMode} source configuration: ${readinessIssues.join(' ')}` };
+        }
+
+        try {
+            const queryWindow = (window: { start: Date; end: Date }) => source.query(
+                { http: args.http, read: args.read, appId: this.appId, userRoles: args.userRoles },
+                {
+                    start: window.start,
+                    end: window.end,
+                    limit: sampleLimit,
+                    levels: args.parsed.levels,
+                    search: args.parsed.search?.trim() || undefined,
+                    labels: args.parsed.labels,
+                    timeoutMs: 5000,
+                },
+            );
+            const [targetResult, baselineResult] = await Promise.all([queryWindow(range), queryWindow(baseline)]);
+            const describeFailure = (failure: { error: string; details?: unknown }): string => {
+                const statusCode = this.readUpstreamStatusCode(failure.details);
+                return statusCode ? `Quick compare failed (HTTP ${statusCode}).` : `Quick compare failed (${failure.error})`;
+            };
+            if ('error' in targetResult) {
+                return { ...summary, note: describeFailure(targetResult) };
+            }
+            if ('error' in baselineResult) {
+                return { ...summary, note: describeFailure(baselineResult) };
+            }
+
+            const target = this.summarizeCompareWindow(targetResult.entries, args.parsed, args.redaction);
+            const previous = this.summarizeCompareWindow(baselineResult.entries, args.parsed, args.redaction);
+            return {
+                ...summary,
+                targetLineCount: target.lineCount,
+                baselineLineCount: previous.lineCount,
+                levels: { target: target.levels, baseline: previous.levels },
+                diff: diffLogPatterns(clusterLogPatterns(previous.entries), clusterLogPatterns(target.entries)),
+                note: target.lineCount === 0 && previous.lineCount === 0 ? 'No matching lines in either window.' : undefined,
+            };
+        } catch {
+            return { ...summary, note: 'Quick compare unavailable (timeout or upstream connectivity issue).' };
         }
+    }
+
+    private summarizeCompareWindow(
+        logEntries: Array<LogEntry>,
+        parsed: ParsedCommandArgs,
+        redaction: RedactionOptions,
+    ): { lineCount: number; levels: HistogramCounts; entries: Array<{ timestamp: string; level: QueryLevel | 'unknown'; message: string }> } {
+        const levels = emptyHistogramCounts();
+        const entries: Array<{ timestamp: string; level: QueryLevel | 'unknown'; message: string }> = [];
+        for (const logEntry of logEntries) {
+            const level = this.detectLevel(logEntry.message, logEntry.labels);
+            if ((parsed.labels && !matchesLabelFilters(logEntry.labels, parsed.labels)) || (parsed.levels && !parsed.levels.includes(level))) {
+                continue;
+            }
 
-        return 'loki';
+            levels[level] += 1;
+            // Signatures come from redacted lines so the card never surfaces a secret.
+            entries.push({
+                timestamp: logEntry.timestamp,
+                level,
+                message: redactLogMessage(logEntry.message, redaction).message,
+            });
+        }
+        return { lineCount: entries.length, levels, entries };
     }
 
     private async buildQuickTriageSummary(args: {
         http: IHttp;
-        redaction: {
-            enabled: boolean;
-            replacement: string;
-        };
+        read: IRead;
+        userRoles: Array<string>;
+        redaction: RedactionOptions;
         logsSourceModeRaw: unknown;
-        lokiBaseUrlRaw: unknown;
-        lokiUsernameRaw: unknown;
-        lokiTokenRaw: unknown;
-        requiredLabelSelectorRaw: unknown;
         parsed: ParsedCommandArgs;
         defaultTimeRange: string;
         maxLinesPerQuery: number;
     }): Promise<QuickTriageSummary> {
-        const sourceMode = this.parseLogsSourceMode(args.logsSourceModeRaw);
+        const sourceMode = parseLogsSourceMode(args.logsSourceModeRaw);
+        const source = resolveLogSource(sourceMode);
         // Keep slash-card sampling small and predictable; full retrieval lives in the web viewer.
         const summaryLimit = Math.min(args.maxLinesPerQuery, Math.max(20, Math.min(args.parsed.limit || 200, 200)));
         const range = this.resolveSummaryTimeRange(args.parsed, args.defaultTimeRange);
 
-        if (sourceMode === 'app_logs') {
-            // app_logs mode currently supports backend query flow, but not slash-card pre-sampling.
+        if (!source.capabilities.supportsQuickSample) {
+            // Sources that depend on request-scoped auth cannot be pre-sampled from a slash command.
             return {
                 sourceMode,
                 windowLabel: range.label,
@@ -503,13 +791,12 @@ export class LogsSlashCommand implements ISlashCommand {
                 sampleOutput: [],
                 topLevels: [],
                 topSignals: [],
-                note: 'Quick sample is unavailable in app_logs mode. Use Open Logs Viewer for full query.',
+                note: `Quick sample is unavailable in ${sourceMode} mode. Use Open Logs Viewer for full query.`,
             };
         }
 
-        const baseUrl = typeof args.lokiBaseUrlRaw === 'string' ? args.lokiBaseUrlRaw.trim() : '';
-        const selector = typeof args.requiredLabelSelectorRaw === 'string' ? args.requiredLabelSelectorRaw.trim() : '';
-        if (!baseUrl || !this.isValidSelector(selector)) {
+        const readinessIssues = await source.checkReadiness(args.read);
+        if (readinessIssues.length > 0) {
             return {
                 sourceMode,
                 windowLabel: range.label,
@@ -517,29 +804,33 @@ export class LogsSlashCommand implements ISlashCommand {
                 sampleOutput: [],
                 topLevels: [],
                 topSignals: [],
-                note: 'Quick sample skipped due to Loki base URL or selector configuration.',
+                note: `Quick sample skipped due to ${sourceMode} source configuration: ${readinessIssues.join(' ')}`,
             };
         }
 
         try {
-            const query = this.buildSummaryQuery(selector, args.parsed.search, args.parsed.level);
+            // Later pages stop at the cursor, like POST /query paging.
+            const cursor = args.parsed.cursor;
+            const upstreamLimit = summaryLimit + (cursor?.seen || 0);
+            const upstreamEnd = cursor
+                ? new Date(Math.max(range.start.getTime() + 1, Math.min(range.end.getTime(), cursorQueryEnd(cursor).getTime())))
+                : range.end;
             // Short timeout keeps slash command responsive and avoids blocking chat workflows.
-            const response = await args.http.get(`${baseUrl}/loki/api/v1/query_range`, {
-                headers: {
-                    Accept: 'application/json',
-                    ...(this.buildLokiAuthHeader(args.lokiUsernameRaw, args.lokiTokenRaw) || {}),
-                },
-                params: {
-                    query,
-                    start: range.start.toISOString(),
-                    end: range.end.toISOString(),
-                    limit: String(summaryLimit),
+            const result = await source.query(
+                { http: args.http, read: args.read, appId: this.appId, userRoles: args.userRoles },
+                {
+                    start: range.start,
+                    end: upstreamEnd,
+                    limit: upstreamLimit,
+                    levels: args.parsed.levels,
+                    search: args.parsed.search?.trim() || undefined,
+                    labels: args.parsed.labels,
+                    timeoutMs: 5000,
                 },
-                timeout: 5000,
-            });
+            );
 
-            const payload = response.data as any;
-            if (response.statusCode >= 400 || !payload || payload.status !== 'success') {
+            if ('error' in result) {
+                const statusCode = this.readUpstreamStatusCode(result.details);
                 return {
                     sourceMode,
                     windowLabel: range.label,
@@ -547,31 +838,35 @@ export class LogsSlashCommand implements ISlashCommand {
                     sampleOutput: [],
                     topLevels: [],
                     topSignals: [],
-                    note: `Quick sample failed (HTTP ${response.statusCode}).`,
+                    note: statusCode ? `Quick sample failed (HTTP ${statusCode}).` : `Quick sample failed (${result.error})`,
                 };
             }
 
-            const entries = this.extractSummaryEntries(payload?.data?.result, args.parsed.level);
+            const labelFilters = args.parsed.labels;
+            const requestedLevels = args.parsed.levels;
+            const matchingEntries = result.entries.filter((entry) =>
+                (!labelFilters || matchesLabelFilters(entry.labels, labelFilters))
+                && (!requestedLevels || requestedLevels.includes(this.detectLevel(entry.message, entry.labels))));
+            const sorted = sortEntriesForPaging(matchingEntries);
+            const remaining = cursor ? applyQueryCursor(sorted, cursor) : sorted;
+            const page = remaining.slice(0, summaryLimit);
+            const nextCursor = remaining.length > summaryLimit || result.entries.length >= upstreamLimit
+                ? buildNextQueryCursor(page, cursor)
+                : undefined;
+            // Pages are cut in paging order, but the sample keeps the source's line order.
+            const pageEntries = new Set(page);
+            const entries = this.toSummaryEntries(matchingEntries.filter((entry) => pageEntries.has(entry)), requestedLevels);
             const redactedEntries = entries.map((entry) => {
                 const redactedLine = redactLogMessage(
                     `${entry.timestamp ? `${entry.timestamp} ` : ''}${entry.lineText}`,
-                    {
-                        enabled: args.redaction.enabled,
-                        replacement: args.redaction.replacement,
-                    },
+                    args.redaction,
                 );
 
                 return {
                     ...entry,
                     lineText: redactedLine.message,
-                    signal: redactLogMessage(entry.signal, {
-                        enabled: args.redaction.enabled,
-                        replacement: args.redaction.replacement,
-                    }).message,
-                    preview: redactLogMessage(entry.preview ?? '', {
-                        enabled: args.redaction.enabled,
-                        replacement: args.redaction.replacement,
-                    }).message,
+                    signal: redactLogMessage(entry.signal, args.redaction).message,
+                    preview: redactLogMessage(entry.preview ?? '', args.redaction).message,
                 };
             });
             const topLevels = this.computeTopLevels(redactedEntries);
@@ -591,6 +886,7 @@ export class LogsSlashCommand implements ISlashCommand {
                 topLevels,
                 topSignals,
                 note: entries.length === 0 ? 'No matching lines in sampled window.' : undefined,
+                ...(nextCursor ? this.formatNextPageCommand(args.parsed, range, summaryLimit, nextCursor) : {}),
             };
         } catch {
             return {
@@ -651,64 +947,6 @@ export class LogsSlashCommand implements ISlashCommand {
         return amount * unitMs[unit];
     }
 
-    private buildLokiAuthHeader(usernameRaw: unknown, tokenRaw: unknown): { Authorization: string } | undefined {
-        const username = typeof usernameRaw === 'string' ? usernameRaw.trim() : '';
-        const token = typeof tokenRaw === 'string' ? tokenRaw.trim() : '';
-        if (!username && !token) {
-            return undefined;
-        }
-
-        if (token && !username) {
-            return {
-                Authorization: `Bearer ${token}`,
-            };
-        }
-
-        const credentials = `${username}:${token}`;
-        return {
-            Authorization: `Basic ${Buffer.from(credentials, 'utf8').toString('base64')}`,
-        };
-    }
-
-    private isValidSelector(selector: string): boolean {
-        if (!selector) {
-            return false;
-        }
-        if (!selector.startsWith('{') || !selector.endsWith('}')) {
-            return false;
-        }
-
-        const inner = selector.slice(1, -1);
-        return !inner.includes('|') && !inner.includes('\n') && !inner.includes('\r');
-    }
-
-    private buildSummaryQuery(selector: string, search?: string, requestedLevel?: QueryLevel): string {
-        let query = selector;
-        if (search && search.trim()) {
-            query = `${selector} |= "${this.escapeLogQlString(search.trim())}"`;
-        }
-
-        if (!requestedLevel) {
-            return query;
-        }
-
-        const levelPattern = this.buildSummaryLevelPattern(requestedLevel);
-        return `${query} |~ "(?i)${levelPattern}"`;
-    }
-
-    private buildSummaryLevelPattern(level: QueryLevel): string {
-        if (level === 'error') {
-            return '\\\\b(error|err|fatal|panic|exception)\\\\b';
-        }
-        if (level === 'warn') {
-            return '\\\\b(warn|warning)\\\\b';
-        }
-        if (level === 'info') {
-            return '\\\\b(info|information)\\\\b';
-        }
-        return '\\\\b(debug|trace|verbose)\\\\b';
-    }
-
     private readBooleanSetting(value: unknown, fallback: boolean): boolean {
         if (typeof value === 'string') {
             const normalized = value.trim().toLowerCase();
@@ -735,74 +973,33 @@ export class LogsSlashCommand implements ISlashCommand {
         return fallback;
     }
 
-    private escapeLogQlString(value: string): string {
-        return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
-    }
-
-    private extractSummaryEntries(result: unknown, requestedLevel?: QueryLevel): Array<SummaryEntry> {
-        if (!Array.isArray(result)) {
-            return [];
-        }
-
+    private toSummaryEntries(logEntries: Array<LogEntry>, requestedLevels?: Array<QueryLevelFilter>): Array<SummaryEntry> {
         const entries: Array<SummaryEntry> = [];
-        for (const stream of result) {
-            const labels = stream?.stream && typeof stream.stream === 'object' ? stream.stream : {};
-            const values = Array.isArray(stream?.values) ? stream.values : [];
-            for (const tuple of values) {
-                if (!Array.isArray(tuple) || tuple.length < 2 || typeof tuple[1] !== 'string') {
-                    continue;
-                }
-
-                const message = tuple[1] as string;
-                const timestamp = this.parseLokiTimestamp(tuple[0]);
-                const level = this.detectLevel(message, labels);
-                if (requestedLevel && level !== requestedLevel) {
-                    continue;
-                }
-
-                entries.push({
-                    level,
-                    signal: this.extractSignalText(message),
-                    preview: this.extractPreviewText(message),
-                    lineText: this.extractSampleLineText(message),
-                    timestamp,
-                });
+        for (const logEntry of logEntries) {
+            const level = this.detectLevel(logEntry.message, logEntry.labels);
+            if (requestedLevels && !requestedLevels.includes(level)) {
+                continue;
             }
+
+            entries.push({
+                level,
+                signal: this.compactSignal(normalizeLogSignature(logEntry.message)),
+                preview: this.extractPreviewText(logEntry.message),
+                lineText: this.extractSampleLineText(logEntry.message),
+                timestamp: logEntry.timestamp,
+            });
         }
 
         return entries;
     }
 
-    private parseLokiTimestamp(value: unknown): string | undefined {
-        if (typeof value !== 'string' && typeof value !== 'number') {
-            return undefined;
-        }
-
-        const raw = String(value).trim();
-        if (!/^\d+$/.test(raw)) {
-            return undefined;
-        }
-
-        // Loki commonly returns nanoseconds; normalize to milliseconds for ISO rendering.
-        let millis: number;
-        if (raw.length > 13) {
-            millis = Number(raw.slice(0, 13));
-        } else if (raw.length <= 10) {
-            millis = Number(raw) * 1000;
-        } else {
-            millis = Number(raw);
-        }
-
-        if (!Number.isFinite(millis)) {
-            return undefined;
-        }
-
-        const date = new Date(millis);
-        if (Number.isNaN(date.getTime())) {
+    private readUpstreamStatusCode(details: unknown): number | undefined {
+        if (!details || typeof details !== 'object') {
             return undefined;
         }
 
-        return date.toISOString();
+        const statusCode = (details as { statusCode?: unknown }).statusCode;
+        return typeof statusCode === 'number' ? statusCode : undefined;
     }
 
     private detectLevel(message: string, labels: Record<string, unknown>): QueryLevel | 'unknown' {
@@ -890,25 +1087,6 @@ export class LogsSlashCommand implements ISlashCommand {
         return undefined;
     }
 
-    private extractSignalText(message: string): string {
-        const compact = message.replace(/\s+/g, ' ').trim();
-        if (!compact) {
-            return '[empty]';
-        }
-
-        try {
-            const parsed = JSON.parse(compact) as Record<string, unknown>;
-            const msg = parsed.msg;
-            if (typeof msg === 'string' && msg.trim()) {
-                return this.compactSignal(msg);
-            }
-        } catch {
-            // Not JSON content; use compacted raw line.
-        }
-
-        return this.compactSignal(compact);
-    }
-
     private extractPreviewText(message: string): string {
         const compact = message.replace(/\s+/g, ' ').trim();
         if (!compact) {
@@ -980,12 +1158,16 @@ export class LogsSlashCommand implements ISlashCommand {
 
     private parseArguments(args: Array<string>): ParsedCommandArgs {
         const parsed: ParsedCommandArgs = {
+            compare: false,
             autorun: false,
             hasExplicitFilters: false,
             warnings: [],
         };
-        const overrides: Partial<Pick<ParsedCommandArgs, 'since' | 'start' | 'end' | 'level' | 'limit' | 'search'>> = {};
+        const overrides: Partial<Pick<ParsedCommandArgs, 'since' | 'start' | 'end' | 'levels' | 'limit' | 'search'>> = {};
         const fallbackSearchTokens: Array<string> = [];
+        // `exclude=` and `regex=` arguments add clauses to whichever search text applies.
+        const extraSearchClauses: Array<string> = [];
+        const labelFilters: Array<LabelFilter> = [];
 
         for (const rawArg of args) {
             const token = rawArg.trim();
@@ -998,6 +1180,23 @@ export class LogsSlashCommand implements ISlashCommand {
                 parsed.autorun = true;
                 continue;
             }
+            if (normalized.toLowerCase() === 'compare') {
+                parsed.compare = true;
+                continue;
+            }
+
+            if (normalized.toLowerCase().startsWith('label.')) {
+                // `label.pod=api-0`, `label.pod!=api-0`, `label.pod=~api-.*`
+                const filter = parseLabelFilterExpression(normalized.slice('label.'.length));
+                const validated = filter ? parseLabelFilters([{ ...filter, value: this.unquote(filter.value.trim()) }]) : undefined;
+                if (validated && 'labels' in validated && validated.labels[0].value) {
+                    labelFilters.push(validated.labels[0]);
+                    parsed.hasExplicitFilters = true;
+                } else {
+                    parsed.warnings.push(`Invalid label filter \`${token}\`; expected label.<name>=value, !=value, or =~regex.`);
+                }
+                continue;
+            }
 
             const eqIndex = normalized.indexOf('=');
             if (eqIndex === -1) {
@@ -1043,12 +1242,13 @@ export class LogsSlashCommand implements ISlashCommand {
                     break;
                 }
                 case 'level': {
-                    const level = value.toLowerCase() as QueryLevel;
-                    if (ALLOWED_LEVELS.has(level)) {
-                        overrides.level = level;
+                    // `level=error,warn` selects several levels; `unknown` isolates unclassified lines.
+                    const levels = parseLevelFilter(value);
+                    if ('levels' in levels && levels.levels) {
+                        overrides.levels = levels.levels;
                         parsed.hasExplicitFilters = true;
                     } else {
-                        parsed.warnings.push(`Invalid level \`${value}\`; expected error|warn|info|debug.`);
+                        parsed.warnings.push(`Invalid level \`${value}\`; expected error|warn|info|debug|unknown, comma-separated for several.`);
                     }
                     break;
                 }
@@ -1067,6 +1267,34 @@ export class LogsSlashCommand implements ISlashCommand {
                     parsed.hasExplicitFilters = true;
                     break;
                 }
+                case 'exclude': {
+                    extraSearchClauses.push(`-${value}`);
+                    parsed.hasExplicitFilters = true;
+                    break;
+                }
+                case 'regex': {
+                    // `regex=/timeout/i` keeps its flag; a bare pattern is case-sensitive.
+                    extraSearchClauses.push(/^\/.+\/i?$/.test(value) ? value : `/${value}/`);
+                    parsed.hasExplicitFilters = true;
+                    break;
+                }
+                case 'baseline': {
+                    if (DURATION_PATTERN.test(value)) {
+                        parsed.baseline = value;
+                    } else {
+                        parsed.warnings.push(`Invalid baseline value \`${value}\`; expected number+unit (example: 24h).`);
+                    }
+                    break;
+                }
+                case 'cursor': {
+                    const cursor = decodeQueryCursor(value);
+                    if (cursor) {
+                        parsed.cursor = cursor;
+                    } else {
+                        parsed.warnings.push('Invalid cursor; showing the newest sample instead.');
+                    }
+                    break;
+                }
                 case 'preset': {
                     const presetName = value.toLowerCase() as PresetName;
                     if (presetName in PRESETS) {
@@ -1087,7 +1315,7 @@ export class LogsSlashCommand implements ISlashCommand {
         if (parsed.preset) {
             const preset = PRESETS[parsed.preset];
             parsed.since = preset.since;
-            parsed.level = preset.level;
+            parsed.levels = [preset.level];
             parsed.limit = preset.limit;
             parsed.search = preset.search;
             parsed.autorun = true;
@@ -1102,8 +1330,8 @@ export class LogsSlashCommand implements ISlashCommand {
         if (overrides.end !== undefined) {
             parsed.end = overrides.end;
         }
-        if (overrides.level !== undefined) {
-            parsed.level = overrides.level;
+        if (overrides.levels !== undefined) {
+            parsed.levels = overrides.levels;
         }
         if (overrides.limit !== undefined) {
             parsed.limit = overrides.limit;
@@ -1112,11 +1340,27 @@ export class LogsSlashCommand implements ISlashCommand {
             parsed.search = overrides.search;
         }
 
+        if (labelFilters.length > 0) {
+            parsed.labels = labelFilters.slice(0, 10);
+        }
+
         if (!parsed.search && fallbackSearchTokens.length > 0) {
             parsed.search = fallbackSearchTokens.join(' ');
             parsed.hasExplicitFilters = true;
         }
 
+        if (extraSearchClauses.length > 0) {
+            parsed.search = [parsed.search, ...extraSearchClauses].filter(Boolean).join(' ');
+        }
+
+        if (parsed.search) {
+            const expression = parseSearchExpression(parsed.search);
+            if ('error' in expression) {
+                parsed.warnings.push(`Ignoring search \`${parsed.search}\`: ${expression.error}`);
+                delete parsed.search;
+            }
+        }
+
         if ((parsed.start && !parsed.end) || (!parsed.start && parsed.end)) {
             // Absolute ranges are enforced as pairs to avoid ambiguous or partial queries.
             parsed.warnings.push('Both start and end are required for absolute time mode; falling back to relative mode.');
@@ -1129,6 +1373,15 @@ export class LogsSlashCommand implements ISlashCommand {
             delete parsed.since;
         }
 
+        if (parsed.baseline && !parsed.compare) {
+            parsed.warnings.push('baseline only applies to `/logs compare`; ignored.');
+            delete parsed.baseline;
+        }
+        if (parsed.compare && parsed.cursor) {
+            parsed.warnings.push('Cursors do not apply to `/logs compare`; ignored.');
+            delete parsed.cursor;
+        }
+
         if (parsed.search || parsed.preset) {
             parsed.autorun = true;
         }
@@ -1163,8 +1416,8 @@ export class LogsSlashCommand implements ISlashCommand {
 
         url.searchParams.set('limit', String(parsed.limit || defaults.defaultLimit));
 
-        if (parsed.level) {
-            url.searchParams.set('level', parsed.level);
+        if (parsed.levels) {
+            url.searchParams.set('level', parsed.levels.join(','));
         }
 
         if (parsed.search) {
@@ -1173,6 +1426,12 @@ export class LogsSlashCommand implements ISlashCommand {
         if (parsed.preset) {
             url.searchParams.set('preset', parsed.preset);
         }
+        for (const filter of parsed.labels || []) {
+            url.searchParams.append('label', formatLabelFilterExpression(filter));
+        }
+        if (parsed.compare) {
+            url.searchParams.set('compare', parsed.baseline || '1');
+        }
 
         if (parsed.autorun || parsed.hasExplicitFilters) {
             url.searchParams.set('autorun', '1');
@@ -1193,18 +1452,79 @@ export class LogsSlashCommand implements ISlashCommand {
             parts.push(`since=${parsed.since || defaultTimeRange}`);
         }
 
-        if (parsed.level) {
-            parts.push(`level=${parsed.level}`);
+        if (parsed.levels) {
+            parts.push(`level=${parsed.levels.join(',')}`);
         }
 
         if (parsed.search) {
             parts.push(`search=${parsed.search}`);
         }
 
+        for (const filter of parsed.labels || []) {
+            parts.push(`label.${formatLabelFilterExpression(filter)}`);
+        }
+
+        if (parsed.compare) {
+            parts.push(`baseline=${parsed.baseline || 'preceding window'}`);
+        }
+
         parts.push(`limit=${parsed.limit || Math.min(500, maxLinesPerQuery)}`);
         return parts.join(', ');
     }
 
+    /**
+     * Pins the sampled window so later pages stay inside it even when the first page used a relative range. Slash
+     * arguments are split on whitespace and unquoted once, so values that look quoted or could be read as another
+     * argument are wrapped in quotes, and filters whose whitespace would not survive the split are left out and reported.
+     */
+    private formatNextPageCommand(
+        parsed: ParsedCommandArgs,
+        range: { start: Date; end: Date },
+        limit: number,
+        cursor: QueryCursor,
+    ): Pick<QuickTriageSummary, 'nextPageCommand' | 'nextPageOmitted'> {
+        const parts = [`/${COMMANDS.LOGS}`, `start=${range.start.toISOString()}`, `end=${range.end.toISOString()}`];
+        const omitted: Array<string> = [];
+        if (parsed.levels) {
+            parts.push(`level=${parsed.levels.join(',')}`);
+        }
+        for (const filter of parsed.labels || []) {
+            if (/\s/.test(filter.value)) {
+                omitted.push(`label.${filter.name}`);
+            } else {
+                parts.push(`label.${formatLabelFilterExpression({ ...filter, value: this.quoteForArgument(filter.value) })}`);
+            }
+        }
+        parts.push(`limit=${limit}`, `cursor=${encodeQueryCursor(cursor)}`);
+        if (parsed.search) {
+            // Search text goes last as loose tokens; whitespace inside a phrase or regex only survives as single spaces.
+            const tokens = parsed.search.trim().split(/\s+/);
+            if (tokens.join(' ') === parsed.search) {
+                parts.push(...tokens.map((token) => (this.isPlainSearchToken(token) ? token : `"${token}"`)));
+            } else {
+                omitted.push('search');
+            }
+        }
+        return { nextPageCommand: parts.join(' '), ...(omitted.length > 0 ? { nextPageOmitted: omitted } : {}) };
+    }
+
+    private formatNextPageOmitted(summary: QuickTriageSummary): string {
+        return summary.nextPageOmitted ? ` (re-add ${summary.nextPageOmitted.join(', ')} by hand; their whitespace cannot be passed as slash arguments)` : '';
+    }
+
+    private quoteForArgument(value: string): string {
+        return this.unquote(value) === value ? value : `"${value}"`;
+    }
+
+    // Loose tokens that parseArguments would read as a flag, a key=value argument, or a label filter need quotes.
+    private isPlainSearchToken(token: string): boolean {
+        return this.quoteForArgument(token) === token
+            && !token.includes('=')
+            && !token.startsWith('--')
+            && !/^(run|autorun|compare)$/i.test(token)
+            && !token.toLowerCase().startsWith('label.');
+    }
+
     private isHttpUrl(value: string): boolean {
         try {
             const parsed = new URL(value);
@@ -3,6 +3,12 @@ import { IUIKitBlockIncomingInteraction, IUIKitViewSubmitIncomingInteraction } f
 import { UIKitSurfaceType } from '@rocket.chat/apps-engine/definition/uikit';
 import { IUser } from '@rocket.chat/apps-engine/definition/users';
 
+import {
+    buildInvestigationBundle,
+    formatBundleNote,
+    readAuditExcerpts,
+    resolveBundleMaxBytes,
+} from '../api/logs/investigationBundle';
 import { SETTINGS } from '../constants';
 import { appendAuditEntry, hasAnyAllowedRole, parseAllowedRoles } from '../security/querySecurity';
 import {
@@ -31,6 +37,8 @@ const SHARE_ELSEWHERE_BLOCK_ID = 'share_elsewhere_target_room';
 const SHARE_ELSEWHERE_ACTION_ID = 'share_elsewhere_target_room_input';
 const SHARE_ELSEWHERE_THREAD_BLOCK_ID = 'share_elsewhere_target_thread';
 const SHARE_ELSEWHERE_THREAD_ACTION_ID = 'share_elsewhere_target_thread_input';
+// Slash cards carry no query window, so bundles take the caller's audit entries from the last hour.
+const BUNDLE_AUDIT_LOOKBACK_MS = 60 * 60 * 1000;
 
 type ShareRenderResult = {
     displayedCount: number;
@@ -94,11 +102,12 @@ export const handleSlashCardBlockAction = async (
     const roomContext = await resolveRoomContext(read, interaction.room, resolvedPayload.roomId);
 
     const settingsReader = read.getEnvironmentReader().getSettings();
-    const [allowedRolesRaw, retentionDaysRaw, maxEntriesRaw, messageMaxAllowedRaw] = await Promise.all([
+    const [allowedRolesRaw, retentionDaysRaw, maxEntriesRaw, messageMaxAllowedRaw, bundleMaxSizeKbRaw] = await Promise.all([
         settingsReader.getValueById(SETTINGS.ALLOWED_ROLES),
         settingsReader.getValueById(SETTINGS.AUDIT_RETENTION_DAYS),
         settingsReader.getValueById(SETTINGS.AUDIT_MAX_ENTRIES),
         safeReadSettingById(settingsReader, 'Message_MaxAllowedSize'),
+        safeReadSettingById(settingsReader, SETTINGS.BUNDLE_MAX_SIZE_KB),
     ]);
     const allowedRoles = parseAllowedRoles(allowedRolesRaw);
     const auditRetentionDays = readNumber(retentionDaysRaw, 7, 1, 90);
@@ -109,6 +118,7 @@ export const handleSlashCardBlockAction = async (
         MESSAGE_SIZE_MIN,
         50000,
     );
+    const bundleMaxSizeKb = readNumber(bundleMaxSizeKbRaw, 2048, 64, 51200);
     const shareMessageMaxChars = Math.max(MESSAGE_SIZE_MIN, messageMaxAllowedSize);
     const privateCopyBudgetChars = Math.max(
         PRIVATE_COPY_CHAR_BUDGET_MIN,
@@ -117,12 +127,19 @@ export const handleSlashCardBlockAction = async (
 
     if (!hasAnyAllowedRole(actor.roles, allowedRoles)) {
         // Re-check authorization at click time so role changes are honored immediately.
-        if (interaction.actionId === SLASH_CARD_ACTION.SHARE_SAMPLE || interaction.actionId === SLASH_CARD_ACTION.SHARE_ELSEWHERE) {
+        const deniedAction = interaction.actionId === SLASH_CARD_ACTION.SHARE_SAMPLE
+            ? 'share_denied'
+            : interaction.actionId === SLASH_CARD_ACTION.SHARE_ELSEWHERE
+                ? 'share_elsewhere_denied'
+                : interaction.actionId === SLASH_CARD_ACTION.UPLOAD_BUNDLE
+                    ? 'export_bundle_denied'
+                    : undefined;
+        if (deniedAction) {
             await appendAuditEntry(
                 read,
                 persistence,
                 {
-                    action: interaction.actionId === SLASH_CARD_ACTION.SHARE_ELSEWHERE ? 'share_elsewhere_denied' : 'share_denied',
+                    action: deniedAction,
                     userId: actor.id,
                     outcome: 'denied',
                     reason: 'role_denied',
@@ -171,6 +188,23 @@ export const handleSlashCardBlockAction = async (
         return true;
     }
 
+    if (interaction.actionId === SLASH_CARD_ACTION.UPLOAD_BUNDLE) {
+        await handleUploadBundle(
+            actor,
+            roomContext,
+            interaction.threadId,
+            resolvedPayload,
+            appUser,
+            read,
+            modify,
+            persistence,
+            auditRetentionDays,
+            auditMaxEntries,
+            bundleMaxSizeKb,
+        );
+        return true;
+    }
+
     await handleShareSample(
         actor,
         roomContext,
@@ -482,6 +516,137 @@ const handleShareSample = async (
     ]);
 };
 
+const handleUploadBundle = async (
+    actor: IUser,
+    roomContext: IUIKitBlockIncomingInteraction['room'],
+    interactionThreadId: string | undefined,
+    payload: SlashCardActionPayload,
+    appUser: IUser,
+    read: IRead,
+    modify: IModify,
+    persistence: IPersistence,
+    auditRetentionDays: number,
+    auditMaxEntries: number,
+    bundleMaxSizeKb: number,
+): Promise<void> => {
+    if (!roomContext) {
+        await notifyUserOnly(actor, roomContext, appUser, modify, [
+            'Cannot upload bundle because room context is not available.',
+        ]);
+        return;
+    }
+
+    const roomId = roomContext.id || payload.roomId;
+    const threadId = payload.threadId || interactionThreadId || undefined;
+    const auditDenied = async (reason: string, details: Record<string, unknown> = {}): Promise<void> => {
+        await appendAuditEntry(
+            read,
+            persistence,
+            {
+                action: 'export_bundle_denied',
+                userId: actor.id,
+                outcome: 'denied',
+                reason,
+                scope: {
+                    source: 'slash_card',
+                    roomId,
+                    threadId: threadId || null,
+                    ...details,
+                },
+            },
+            auditRetentionDays,
+            auditMaxEntries,
+        );
+    };
+
+    const createdAt = new Date();
+    const bundle = buildInvestigationBundle({
+        manifest: {
+            generatedAt: createdAt.toISOString(),
+            requester: { id: actor.id, username: actor.username || null },
+            source: 'slash_card',
+            sourceMode: payload.sourceMode,
+            room: { id: roomId, name: payload.roomName },
+            window: payload.windowLabel,
+            filters: payload.filterSummary,
+            preset: payload.preset,
+            sampleTotalCount: payload.sampleTotalCount || payload.sampleOutput.length,
+        },
+        lines: payload.sampleOutput.map((line) => ({ level: line.level, message: line.text })),
+        signatures: (payload.topSignals || []).map((signal) => ({ signature: signal.text, count: signal.count })),
+        auditEntries: await readAuditExcerpts(read, actor.id, new Date(createdAt.getTime() - BUNDLE_AUDIT_LOOKBACK_MS)),
+        maxBytes: await resolveBundleMaxBytes(read, bundleMaxSizeKb),
+        createdAt,
+    });
+    if ('error' in bundle) {
+        await auditDenied('bundle_too_large');
+        await notifyUserOnly(actor, roomContext, appUser, modify, [bundle.error]);
+        return;
+    }
+
+    let upload: { id: string; url?: string };
+    try {
+        upload = await modify.getCreator().getUploadCreator().uploadBuffer(bundle.buffer, {
+            filename: bundle.filename,
+            room: roomContext,
+            user: appUser,
+        });
+    } catch {
+        await auditDenied('upload_failed', { filename: bundle.filename, bytes: bundle.buffer.length });
+        await notifyUserOnly(actor, roomContext, appUser, modify, [
+            'Uploading the investigation bundle to Rocket.Chat failed.',
+            'Check the workspace file upload settings and retry.',
+        ]);
+        return;
+    }
+
+    // Uploads land in the room's main timeline; a thread only gets a note pointing at the file.
+    let postedMessageId: string | undefined;
+    if (threadId) {
+        try {
+            postedMessageId = await publishShareMessage(modify, appUser, roomContext, threadId, formatBundleNote({
+                filename: bundle.filename,
+                url: upload.url,
+                window: payload.windowLabel,
+                filters: payload.filterSummary,
+                lines: bundle.lines,
+                droppedLines: bundle.droppedLines,
+                requester: actor.username || actor.id,
+            }));
+        } catch {
+            postedMessageId = undefined;
+        }
+    }
+
+    await appendAuditEntry(
+        read,
+        persistence,
+        {
+            action: 'export_bundle',
+            userId: actor.id,
+            outcome: 'allowed',
+            scope: {
+                source: 'slash_card',
+                roomId,
+                threadId: threadId || null,
+                uploadId: upload.id,
+                postedMessageId: postedMessageId || null,
+                filename: bundle.filename,
+                bytes: bundle.buffer.length,
+                lines: bundle.lines,
+                droppedLines: bundle.droppedLines,
+            },
+        },
+        auditRetentionDays,
+        auditMaxEntries,
+    );
+
+    await notifyUserOnly(actor, roomContext, appUser, modify, [
+        `Uploaded \`${bundle.filename}\` with ${bundle.lines} sampled line(s) to the room${threadId ? ' and linked it in the thread' : ''}.`
+            + (bundle.droppedLines > 0 ? ` ${bundle.droppedLines} older line(s) were left out to fit the size limit.` : ''),
+    ]);
+};
+
 const buildCopyResponseLines = (payload: SlashCardActionPayload, messageBudgetChars: number): Array<string> => {
     const sampleLines = formatSampleLines(payload, { withIndex: true, maxLines: COPY_OUTPUT_MAX_LINES });
     const fitted = fitRenderedLinesWindowToCharBudget(
@@ -1098,6 +1263,7 @@ const resolveActionPayloadForActor = async (
             preset: snapshot.preset,
             sampleOutput: snapshot.sampleOutput,
             sampleTotalCount: snapshot.sampleTotalCount,
+            topSignals: snapshot.topSignals,
         };
     } catch {
         return undefined;
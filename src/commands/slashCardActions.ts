@@ -1,9 +1,13 @@
+import { isLogsSourceMode } from '../sources/registry';
+import { LogsSourceMode } from '../sources/types';
+
 export type QueryLevel = 'error' | 'warn' | 'info' | 'debug';
 
 export const SLASH_CARD_ACTION = {
     COPY_SAMPLE: 'logs_slash_copy_sample',
     SHARE_SAMPLE: 'logs_slash_share_sample',
     SHARE_ELSEWHERE: 'logs_slash_share_elsewhere',
+    UPLOAD_BUNDLE: 'logs_slash_upload_bundle',
 } as const;
 
 type SlashCardActionId = (typeof SLASH_CARD_ACTION)[keyof typeof SLASH_CARD_ACTION];
@@ -13,18 +17,25 @@ export type SlashCardSampleLine = {
     text: string;
 };
 
+export type SlashCardSignal = {
+    text: string;
+    count: number;
+};
+
 export type SlashCardActionPayload = {
     version: 1;
     roomId: string;
     roomName: string;
     threadId?: string;
-    sourceMode: 'loki' | 'app_logs';
+    sourceMode: LogsSourceMode;
     windowLabel: string;
     filterSummary: string;
     preset: string;
     snapshotId?: string;
     sampleTotalCount?: number;
     sampleOutput: Array<SlashCardSampleLine>;
+    // Only restored from the persisted snapshot; never read from button values.
+    topSignals?: Array<SlashCardSignal>;
 };
 
 const MAX_ROOM_ID_LENGTH = 128;
@@ -41,7 +52,8 @@ const LEVELS = new Set<QueryLevel | 'unknown'>(['error', 'warn', 'info', 'debug'
 export const isSlashCardActionId = (value: string | undefined): value is SlashCardActionId =>
     value === SLASH_CARD_ACTION.COPY_SAMPLE
         || value === SLASH_CARD_ACTION.SHARE_SAMPLE
-        || value === SLASH_CARD_ACTION.SHARE_ELSEWHERE;
+        || value === SLASH_CARD_ACTION.SHARE_ELSEWHERE
+        || value === SLASH_CARD_ACTION.UPLOAD_BUNDLE;
 
 export const encodeSlashCardActionPayload = (payload: SlashCardActionPayload): string =>
     // Keep button payload compact and opaque; handler re-validates every field after decode.
@@ -84,7 +96,7 @@ const sanitizePayload = (raw: Partial<SlashCardActionPayload>): SlashCardActionP
 
     const roomId = sanitizeString(raw.roomId, MAX_ROOM_ID_LENGTH);
     const roomName = sanitizeString(raw.roomName, MAX_ROOM_NAME_LENGTH);
-    const sourceMode = raw.sourceMode === 'app_logs' ? 'app_logs' : raw.sourceMode === 'loki' ? 'loki' : undefined;
+    const sourceMode = isLogsSourceMode(raw.sourceMode) ? raw.sourceMode : undefined;
     const windowLabel = sanitizeString(raw.windowLabel, MAX_WINDOW_LABEL_LENGTH);
     const filterSummary = sanitizeString(raw.filterSummary, MAX_FILTER_SUMMARY_LENGTH);
     const preset = sanitizeString(raw.preset, MAX_PRESET_LENGTH) || 'none';
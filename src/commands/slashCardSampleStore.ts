@@ -1,7 +1,9 @@
 import { IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
 import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
 
-import { SlashCardSampleLine } from './slashCardActions';
+import { isLogsSourceMode } from '../sources/registry';
+import { LogsSourceMode } from '../sources/types';
+import { SlashCardSampleLine, SlashCardSignal } from './slashCardActions';
 
 type SlashCardSampleSnapshot = {
     id: string;
@@ -9,12 +11,14 @@ type SlashCardSampleSnapshot = {
     roomId: string;
     roomName: string;
     threadId?: string;
-    sourceMode: 'loki' | 'app_logs';
+    sourceMode: LogsSourceMode;
     windowLabel: string;
     filterSummary: string;
     preset: string;
     sampleOutput: Array<SlashCardSampleLine>;
     sampleTotalCount: number;
+    // Missing on snapshots written before bundles existed.
+    topSignals?: Array<SlashCardSignal>;
 };
 
 type SlashCardSampleStoreRecord = {
@@ -31,12 +35,13 @@ export type CreateSlashCardSampleSnapshotInput = {
     roomId: string;
     roomName: string;
     threadId?: string;
-    sourceMode: 'loki' | 'app_logs';
+    sourceMode: LogsSourceMode;
     windowLabel: string;
     filterSummary: string;
     preset: string;
     sampleOutput: Array<SlashCardSampleLine>;
     sampleTotalCount: number;
+    topSignals?: Array<SlashCardSignal>;
 };
 
 export const createSlashCardSampleSnapshot = async (
@@ -70,6 +75,7 @@ export const createSlashCardSampleSnapshot = async (
         preset: input.preset,
         sampleOutput: input.sampleOutput,
         sampleTotalCount: Math.max(0, Math.floor(input.sampleTotalCount)),
+        ...(input.topSignals ? { topSignals: input.topSignals } : {}),
     };
 
     retained.push(snapshot);
@@ -148,12 +154,13 @@ const isSnapshot = (value: unknown): value is SlashCardSampleSnapshot => {
         && typeof candidate.createdAt === 'string'
         && typeof candidate.roomId === 'string'
         && typeof candidate.roomName === 'string'
-        && (candidate.sourceMode === 'loki' || candidate.sourceMode === 'app_logs')
+        && isLogsSourceMode(candidate.sourceMode)
         && typeof candidate.windowLabel === 'string'
         && typeof candidate.filterSummary === 'string'
         && typeof candidate.preset === 'string'
         && Array.isArray(candidate.sampleOutput)
-        && typeof candidate.sampleTotalCount === 'number';
+        && typeof candidate.sampleTotalCount === 'number'
+        && (candidate.topSignals === undefined || Array.isArray(candidate.topSignals));
 };
 
 const generateSnapshotId = (nowMs: number): string => {
@@ -8,16 +8,43 @@ export const SETTINGS = {
     LOKI_USERNAME: 'loki_username',
     LOKI_TOKEN: 'loki_token',
     REQUIRED_LABEL_SELECTOR: 'required_label_selector',
+    LOKI_SOURCES: 'loki_sources',
+    LOKI_TENANT_ID: 'loki_tenant_id',
+    LOKI_TENANT_ROLE_MAP: 'loki_tenant_role_map',
+    LOKI_ROLE_SELECTOR_MAP: 'loki_role_selector_map',
+    OPENSEARCH_URL: 'opensearch_url',
+    OPENSEARCH_INDEX_PATTERN: 'opensearch_index_pattern',
+    OPENSEARCH_USERNAME: 'opensearch_username',
+    OPENSEARCH_TOKEN: 'opensearch_token',
+    OPENSEARCH_TIMESTAMP_FIELD: 'opensearch_timestamp_field',
+    OPENSEARCH_MESSAGE_FIELD: 'opensearch_message_field',
+    K8S_API_URL: 'k8s_api_url',
+    K8S_TOKEN: 'k8s_token',
+    K8S_NAMESPACE: 'k8s_namespace',
+    K8S_POD_LABEL_SELECTOR: 'k8s_pod_label_selector',
+    K8S_CONTAINER: 'k8s_container',
+    DOCKER_API_URL: 'docker_api_url',
+    DOCKER_TOKEN: 'docker_token',
+    DOCKER_CONTAINERS: 'docker_containers',
     ALLOWED_ROLES: 'allowed_roles',
     WORKSPACE_PERMISSION_CODE: 'workspace_permission_code',
     WORKSPACE_PERMISSION_MODE: 'workspace_permission_mode',
     ENABLE_REDACTION: 'enable_redaction',
     REDACTION_REPLACEMENT: 'redaction_replacement',
+    REDACTION_DETECTORS: 'redaction_detectors',
+    REDACTION_RULES: 'redaction_rules',
     DEFAULT_TIME_RANGE: 'default_time_range',
+    ALLOWED_LABEL_FILTERS: 'allowed_label_filters',
+    CORRELATION_FIELDS: 'correlation_fields',
+    CORRELATION_ID_PATTERN: 'correlation_id_pattern',
     MAX_TIME_WINDOW_HOURS: 'max_time_window_hours',
     MAX_LINES_PER_QUERY: 'max_lines_per_query',
     QUERY_TIMEOUT_MS: 'query_timeout_ms',
+    EXPORT_MAX_WINDOW_HOURS: 'export_max_window_hours',
+    EXPORT_MAX_LINES: 'export_max_lines',
+    BUNDLE_MAX_SIZE_KB: 'bundle_max_size_kb',
     RATE_LIMIT_QPM: 'rate_limit_qpm',
+    TAIL_MAX_STREAMS_PER_USER: 'tail_max_streams_per_user',
     AUDIT_RETENTION_DAYS: 'audit_retention_days',
     AUDIT_MAX_ENTRIES: 'audit_max_entries',
     EXTERNAL_COMPONENT_URL: 'external_component_url',
@@ -15,6 +15,25 @@ export type AuditEntry = {
     action:
         | 'query'
         | 'query_denied'
+        | 'labels'
+        | 'labels_denied'
+        | 'histogram'
+        | 'histogram_denied'
+        | 'patterns'
+        | 'patterns_denied'
+        | 'compare'
+        | 'compare_denied'
+        | 'correlate'
+        | 'correlate_denied'
+        | 'export'
+        | 'export_denied'
+        | 'export_bundle'
+        | 'export_bundle_denied'
+        | 'stream_start'
+        | 'stream_start_denied'
+        | 'stream_end'
+        | 'context'
+        | 'context_denied'
         | 'share'
         | 'share_denied'
         | 'share_elsewhere'
@@ -1,39 +1,228 @@
+export type RedactionRule = {
+    name: string;
+    // Global regex; every match counts as one redaction.
+    pattern: RegExp;
+    // Overrides the global replacement for this rule.
+    replacement?: string;
+    // Keeps the first capture group (a header or key name) in front of the replacement.
+    keepPrefix?: boolean;
+    // Matches it rejects (a failed checksum, too few digits) are left as is and not counted.
+    validate?: (match: string) => boolean;
+    // Lowercase label and field names whose whole value is masked; `pattern` then comes from `buildKeyValuePattern`.
+    keys?: Array<string>;
+};
+
 export type RedactionOptions = {
     enabled: boolean;
     replacement: string;
+    // Defaults to the built-in rules; `parseRedactionRules` merges the admin-configured ones into them.
+    rules?: Array<RedactionRule>;
 };
 
 export type RedactionResult = {
     message: string;
     redacted: boolean;
     redactionCount: number;
+    // Matches per rule name, only for rules that matched.
+    ruleCounts: Record<string, number>;
+};
+
+export type RedactedValues = {
+    values: Record<string, string>;
+    redactionCount: number;
+    ruleCounts: Record<string, number>;
 };
 
-const SECRET_PATTERNS: Array<RegExp> = [
-    /(authorization\s*:\s*bearer\s+)[a-z0-9._\-~+/=]+/gi,
-    /(x-api-key\s*:\s*)[a-z0-9._\-~+/=]{8,}/gi,
-    /\b(eyJ[a-zA-Z0-9_\-]{8,}\.[a-zA-Z0-9_\-]{8,}\.[a-zA-Z0-9_\-]{8,})\b/g,
-    /\b(password|passwd|secret|token|apikey|api_key)\s*[=:]\s*["']?[^"'\s,;]{4,}["']?/gi,
-    /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi,
+export const BUILT_IN_REDACTION_RULES: ReadonlyArray<RedactionRule> = [
+    { name: 'bearer_token', pattern: /(authorization\s*:\s*bearer\s+)[a-z0-9._\-~+/=]+/gi, keepPrefix: true },
+    { name: 'api_key_header', pattern: /(x-api-key\s*:\s*)[a-z0-9._\-~+/=]{8,}/gi, keepPrefix: true },
+    { name: 'jwt', pattern: /\beyJ[a-zA-Z0-9_\-]{8,}\.[a-zA-Z0-9_\-]{8,}\.[a-zA-Z0-9_\-]{8,}\b/g },
+    { name: 'secret_assignment', pattern: /\b(password|passwd|secret|token|apikey|api_key)\s*[=:]\s*["']?[^"'\s,;]{4,}["']?/gi, keepPrefix: true },
+    { name: 'email', pattern: /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi },
+];
+
+/**
+ * Detectors that are off unless named in the `redaction_detectors` setting: they match common values that are not
+ * always sensitive (addresses, phone numbers) or cost a validation pass per match.
+ */
+export const OPT_IN_REDACTION_DETECTORS: ReadonlyArray<RedactionRule> = [
+    {
+        name: 'ipv4',
+        pattern: /(?<![\w.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?![\w]|\.\d)/g,
+    },
+    {
+        name: 'ipv6',
+        pattern: /(?<![\w:.])(?:[0-9a-f]{0,4}:){2,7}(?:(?:\d{1,3}\.){3}\d{1,3}|[0-9a-f]{1,4})?(?![\w:]|\.\d)/gi,
+        validate: (match) => isIpv6Address(match),
+    },
+    {
+        name: 'credit_card',
+        pattern: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g,
+        validate: (match) => isCardNumber(match.replace(/[ -]/g, '')),
+    },
+    {
+        name: 'phone',
+        pattern: /(?<![\w+])(?:\+\d{1,3}(?:[ .-]?\(?\d{1,4}\)?){1,2}(?:[ .-]?\d{2,4}){1,3}|\(\d{3}\)[ .-]?\d{3}[ .-]\d{4}|\d{3}-\d{3}-\d{4}|\d{3}\.\d{3}\.\d{4})(?!\w|[.-]\d)/g,
+        validate: (match) => {
+            const digits = match.replace(/\D/g, '').length;
+            return digits >= 7 && digits <= 15;
+        },
+    },
+    {
+        name: 'iban',
+        pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+        validate: (match) => isIban(match.replace(/ /g, '')),
+    },
+    {
+        name: 'aws_key',
+        pattern: /\b(?:AKIA|ASIA|AIDA|AROA|ANPA)[A-Z0-9]{16}\b|(?<=aws_secret_access_key["']?\s*[=:]\s*["']?)[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi,
+    },
+    {
+        name: 'gcp_key',
+        pattern: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])|\bya29\.[0-9A-Za-z_-]{20,}|-----BEGIN (?:RSA )?PRIVATE KEY-----[^-]+-----END (?:RSA )?PRIVATE KEY-----/g,
+    },
+    {
+        name: 'github_token',
+        pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+    },
+    {
+        name: 'slack_token',
+        pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}|\bxapp-\d-[A-Za-z0-9-]{10,}|(?<=hooks\.slack\.com\/services\/)[A-Za-z0-9/]{20,}/g,
+    },
+    {
+        // `X-Auth-Token` REST headers and DDP `resume` login tokens.
+        name: 'rocketchat_token',
+        pattern: /(?<=\bx-auth-token["']?\s*[:=]\s*["']?|\bresume["']?\s*[:=]\s*["']?)[A-Za-z0-9_-]{20,}/gi,
+    },
 ];
 
+// Card numbers are 13-19 digits with a known network prefix (Visa, Mastercard, Amex, Diners, JCB, Discover) and a
+// valid Luhn check digit, which keeps epoch milliseconds and long numeric ids out.
+const isCardNumber = (digits: string): boolean => {
+    if (!/^(?:4|5[1-5]|2[2-7]|3[0478]|35|6[05])\d{11,17}$/.test(digits)) {
+        return false;
+    }
+    let sum = 0;
+    for (let index = 0; index < digits.length; index += 1) {
+        let digit = Number(digits[digits.length - 1 - index]);
+        if (index % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+};
+
+// ISO 13616: the country code and check digits move to the end, letters become 10-35, and the number mod 97 is 1.
+const isIban = (value: string): boolean => {
+    if (value.length < 15 || value.length > 34) {
+        return false;
+    }
+    let remainder = 0;
+    for (const char of `${value.slice(4)}${value.slice(0, 4)}`) {
+        const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+        for (const digit of code) {
+            remainder = (remainder * 10 + Number(digit)) % 97;
+        }
+    }
+    return remainder === 1;
+};
+
+// The candidate pattern also takes times, MAC addresses, and `::` separators; only real addresses pass.
+const isIpv6Address = (value: string): boolean => {
+    if (!/[0-9a-f]/i.test(value) || value.split('::').length > 2) {
+        return false;
+    }
+    const groups = value.includes('.') ? 7 : 8;
+    const tail = value.includes('.') ? value.slice(value.lastIndexOf(':') + 1) : '';
+    const head = tail ? value.slice(0, value.length - tail.length) : value;
+    if (tail && !/^(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/.test(tail)) {
+        return false;
+    }
+    const trimmed = tail && !head.endsWith('::') ? head.slice(0, -1) : head;
+    if (trimmed.includes('::')) {
+        const [left, right] = trimmed.split('::');
+        const count = (left ? left.split(':').length : 0) + (right ? right.split(':').length : 0);
+        return count < groups && [left, right].every((part) => !part || part.split(':').every((group) => /^[0-9a-f]{1,4}$/i.test(group)));
+    }
+    const parts = trimmed.split(':');
+    return parts.length === groups && parts.every((group) => /^[0-9a-f]{1,4}$/i.test(group));
+};
+
+/**
+ * Masks `key=value`, `key: value`, and `"key": "value"` pairs in message text for the given keys (last dotted segment),
+ * keeping the key and any quotes around the value.
+ */
+export const buildKeyValuePattern = (keys: Array<string>): RegExp => {
+    const names = [...new Set(keys.map((key) => key.slice(key.lastIndexOf('.') + 1)))]
+        .map((key) => key.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&'));
+    return new RegExp(
+        `((?<![\\w.-])["']?(?:${names.join('|')})["']?\\s*[:=]\\s*["']?)(?:(?<=")(?:\\\\.|[^"\\\\])+|(?<=')[^']+|[^\\s"',;}\\]]+)`,
+        'gi',
+    );
+};
+
+// Key rules match the full (dotted) name or its last segment, case-insensitively.
+const findKeyRule = (name: string, options: RedactionOptions): RedactionRule | undefined => {
+    const lowered = name.toLowerCase();
+    const lastSegment = lowered.slice(lowered.lastIndexOf('.') + 1);
+    return (options.rules || BUILT_IN_REDACTION_RULES).find((rule) => rule.keys && (rule.keys.includes(lowered) || rule.keys.includes(lastSegment)));
+};
+
+// Field values are checked as `<key>=<value>` so key-based patterns (password=..., token=...) still apply.
+export const redactFieldValue = (name: string, value: string, options: RedactionOptions): RedactionResult => {
+    const keyRule = options.enabled ? findKeyRule(name, options) : undefined;
+    if (keyRule) {
+        return {
+            message: keyRule.replacement ?? (options.replacement || '[REDACTED]'),
+            redacted: true,
+            redactionCount: 1,
+            ruleCounts: { [keyRule.name]: 1 },
+        };
+    }
+
+    const key = name.slice(name.lastIndexOf('.') + 1);
+    const result = redactLogMessage(`${key}=${value}`, options);
+    if (!result.redacted) {
+        return { message: value, redacted: false, redactionCount: 0, ruleCounts: {} };
+    }
+
+    const prefix = `${key}=`;
+    return {
+        ...result,
+        message: result.message.startsWith(prefix) ? result.message.slice(prefix.length) : options.replacement || '[REDACTED]',
+    };
+};
+
 export const redactLogMessage = (message: string, options: RedactionOptions): RedactionResult => {
     if (!options.enabled) {
         return {
             message,
             redacted: false,
             redactionCount: 0,
+            ruleCounts: {},
         };
     }
 
     let current = message;
     let redactionCount = 0;
-    const replacement = options.replacement || '[REDACTED]';
+    const ruleCounts: Record<string, number> = {};
+    const defaultReplacement = options.replacement || '[REDACTED]';
 
-    for (const pattern of SECRET_PATTERNS) {
-        current = current.replace(pattern, (full: string, prefix?: string) => {
+    // Key rules go first: they mask whole values, which other rules would otherwise mask (and count) piecemeal.
+    const rules = options.rules || BUILT_IN_REDACTION_RULES;
+    for (const rule of [...rules.filter((candidate) => candidate.keys), ...rules.filter((candidate) => !candidate.keys)]) {
+        const replacement = rule.replacement ?? defaultReplacement;
+        current = current.replace(rule.pattern, (full: string, prefix?: unknown) => {
+            if (rule.validate && !rule.validate(full)) {
+                return full;
+            }
             redactionCount += 1;
-            if (typeof prefix === 'string' && prefix.length > 0) {
+            ruleCounts[rule.name] = (ruleCounts[rule.name] || 0) + 1;
+            if (rule.keepPrefix && typeof prefix === 'string' && prefix.length > 0) {
                 return `${prefix}${replacement}`;
             }
             return replacement;
@@ -44,6 +233,37 @@ export const redactLogMessage = (message: string, options: RedactionOptions): Re
         message: current,
         redacted: redactionCount > 0,
         redactionCount,
+        ruleCounts,
     };
 };
 
+// Whether a label or field value a client sent back may be masked output, which never matches the raw value.
+export const isRedactedValue = (name: string, value: string, options: RedactionOptions): boolean => {
+    if (!options.enabled) {
+        return false;
+    }
+    const defaultReplacement = options.replacement || '[REDACTED]';
+    return Boolean(findKeyRule(name, options))
+        || (options.rules || BUILT_IN_REDACTION_RULES).some((rule) => value.includes(rule.replacement ?? defaultReplacement));
+};
+
+// Redacts each value of a label or extracted field map on its own, with its name as the key.
+export const redactFieldValues = (values: Record<string, string>, options: RedactionOptions): RedactedValues => {
+    const redacted: Record<string, string> = {};
+    let redactionCount = 0;
+    const ruleCounts: Record<string, number> = {};
+    for (const [name, value] of Object.entries(values)) {
+        const result = redactFieldValue(name, value, options);
+        redacted[name] = result.message;
+        redactionCount += result.redactionCount;
+        addRuleCounts(ruleCounts, result.ruleCounts);
+    }
+    return { values: redacted, redactionCount, ruleCounts };
+};
+
+// Adds one result's per-rule counts into a running total, as endpoints report them in `meta.redaction.rules`.
+export const addRuleCounts = (total: Record<string, number>, counts: Record<string, number>): void => {
+    for (const [name, count] of Object.entries(counts)) {
+        total[name] = (total[name] || 0) + count;
+    }
+};
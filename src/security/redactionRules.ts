@@ -0,0 +1,277 @@
+import { BUILT_IN_REDACTION_RULES, buildKeyValuePattern, OPT_IN_REDACTION_DETECTORS, RedactionRule } from './redaction';
+
+export type RedactionRulesConfig = {
+    // Built-in rules and enabled detectors first (minus disabled ones, with overrides applied), then custom rules in
+    // setting order.
+    rules: Array<RedactionRule>;
+    issues: Array<string>;
+};
+
+const MAX_RULES = 50;
+const MAX_PATTERN_LENGTH = 500;
+const MAX_REPLACEMENT_LENGTH = 100;
+const MAX_RULE_KEYS = 20;
+const RULE_NAME_PATTERN = /^[a-z0-9_-]{1,40}$/;
+const RULE_KEY_PATTERN = /^[a-z0-9_.:-]{1,100}$/;
+const RULE_FLAGS_PATTERN = /^[imsu]{0,4}$/;
+
+/**
+ * Parses the `redaction_rules` JSON array of `{name, pattern, flags, keys, replacement, enabled}` objects and merges
+ * it with the built-in rules and the detectors enabled in `redaction_detectors`: an entry named like one of those
+ * replaces its pattern or replacement, or turns it off with `enabled: false`. Rules with `keys` instead of a pattern
+ * mask whole label and field values by name. Invalid entries are left out and reported as issues; a built-in rule
+ * then stays as is.
+ */
+export const parseRedactionRules = (raw: unknown, detectorsRaw?: unknown): RedactionRulesConfig => {
+    const detectors = parseRedactionDetectors(detectorsRaw);
+    const baseRules = [...BUILT_IN_REDACTION_RULES, ...detectors.rules];
+    const text = typeof raw === 'string' ? raw.trim() : '';
+    if (!text) {
+        return { rules: baseRules, issues: detectors.issues };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        return { rules: baseRules, issues: [...detectors.issues, 'Redaction rules setting is not valid JSON. Expected an array of rule objects.'] };
+    }
+    if (!Array.isArray(parsed)) {
+        return { rules: baseRules, issues: [...detectors.issues, 'Redaction rules setting must be a JSON array of rule objects.'] };
+    }
+
+    // Built-in name -> override, or null when turned off.
+    const overrides = new Map<string, RedactionRule | null>();
+    const custom: Array<RedactionRule> = [];
+    const seen = new Set<string>();
+    const issues: Array<string> = [...detectors.issues];
+    for (const [index, candidate] of parsed.slice(0, MAX_RULES).entries()) {
+        const record = candidate && typeof candidate === 'object' && !Array.isArray(candidate) ? (candidate as Record<string, unknown>) : {};
+        const name = typeof record.name === 'string' ? record.name.trim().toLowerCase() : '';
+        if (!RULE_NAME_PATTERN.test(name)) {
+            issues.push(`Redaction rule #${index + 1} has an invalid name. Use up to 40 lowercase letters, digits, dashes, or underscores.`);
+            continue;
+        }
+        if (seen.has(name)) {
+            issues.push(`Redaction rule "${name}" is defined more than once; only the first definition is used.`);
+            continue;
+        }
+        seen.add(name);
+
+        const builtIn = baseRules.find((rule) => rule.name === name);
+        if (record.enabled === false) {
+            if (builtIn) {
+                overrides.set(name, null);
+            }
+            continue;
+        }
+
+        const replacement = record.replacement === undefined ? undefined : record.replacement;
+        if (replacement !== undefined && (typeof replacement !== 'string' || replacement.length > MAX_REPLACEMENT_LENGTH)) {
+            issues.push(`Redaction rule "${name}" has an invalid replacement. Use text of at most ${MAX_REPLACEMENT_LENGTH} characters.`);
+            continue;
+        }
+
+        const patternSource = typeof record.pattern === 'string' ? record.pattern : '';
+        if (record.keys !== undefined) {
+            const keys = parseRuleKeys(record.keys);
+            if (!keys || patternSource) {
+                issues.push(patternSource
+                    ? `Redaction rule "${name}" has both a pattern and keys. Use one of them.`
+                    : `Redaction rule "${name}" has invalid keys. Use up to ${MAX_RULE_KEYS} label or field names.`);
+                continue;
+            }
+
+            const rule: RedactionRule = { name, keys, pattern: buildKeyValuePattern(keys), keepPrefix: true, ...(replacement !== undefined ? { replacement } : {}) };
+            if (builtIn) {
+                overrides.set(name, rule);
+            } else {
+                custom.push(rule);
+            }
+            continue;
+        }
+        if (!patternSource) {
+            if (builtIn) {
+                // Replacement-only override of a built-in rule.
+                overrides.set(name, { ...builtIn, ...(replacement !== undefined ? { replacement } : {}) });
+            } else {
+                issues.push(`Redaction rule "${name}" needs a pattern or keys.`);
+            }
+            continue;
+        }
+
+        const compiled = compileRedactionPattern(patternSource, typeof record.flags === 'string' ? record.flags : '');
+        if ('error' in compiled) {
+            issues.push(`Redaction rule "${name}" ${compiled.error}`);
+            continue;
+        }
+
+        const rule: RedactionRule = { name, pattern: compiled.pattern, ...(replacement !== undefined ? { replacement } : {}) };
+        if (builtIn) {
+            overrides.set(name, rule);
+        } else {
+            custom.push(rule);
+        }
+    }
+    if (parsed.length > MAX_RULES) {
+        issues.push(`Only the first ${MAX_RULES} redaction rules are used.`);
+    }
+
+    const rules: Array<RedactionRule> = [];
+    for (const rule of baseRules) {
+        const override = overrides.get(rule.name);
+        if (override !== null) {
+            rules.push(override || rule);
+        }
+    }
+    return { rules: [...rules, ...custom], issues };
+};
+
+const parseRuleKeys = (raw: unknown): Array<string> | undefined => {
+    if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_RULE_KEYS) {
+        return undefined;
+    }
+    const keys = raw.map((key) => (typeof key === 'string' ? key.trim().toLowerCase() : ''));
+    return keys.every((key) => RULE_KEY_PATTERN.test(key)) ? [...new Set(keys)] : undefined;
+};
+
+/**
+ * Picks the opt-in detectors named in the comma-separated `redaction_detectors` setting, in their built-in order.
+ */
+export const parseRedactionDetectors = (raw: unknown): { rules: Array<RedactionRule>; issues: Array<string> } => {
+    const names = new Set(
+        (typeof raw === 'string' ? raw : '')
+            .split(',')
+            .map((name) => name.trim().toLowerCase())
+            .filter(Boolean),
+    );
+    const issues: Array<string> = [];
+    for (const name of names) {
+        if (!OPT_IN_REDACTION_DETECTORS.some((detector) => detector.name === name)) {
+            issues.push(`Unknown redaction detector "${name}". Available: ${OPT_IN_REDACTION_DETECTORS.map((detector) => detector.name).join(', ')}.`);
+        }
+    }
+    return { rules: OPT_IN_REDACTION_DETECTORS.filter((detector) => names.has(detector.name)), issues };
+};
+
+/**
+ * Compiles an admin-supplied pattern as a global regex after the size, flag, and backtracking checks.
+ */
+export const compileRedactionPattern = (source: string, flags: string): { pattern: RegExp } | { error: string } => {
+    if (source.length > MAX_PATTERN_LENGTH) {
+        return { error: `has a pattern longer than ${MAX_PATTERN_LENGTH} characters.` };
+    }
+    if (!RULE_FLAGS_PATTERN.test(flags) || new Set(flags).size !== flags.length) {
+        return { error: 'has invalid flags. Use any of i, m, s, and u.' };
+    }
+
+    const risk = findBacktrackingRisk(source);
+    if (risk) {
+        return { error: `pattern ${risk}, which can backtrack catastrophically.` };
+    }
+
+    let pattern: RegExp;
+    try {
+        pattern = new RegExp(source, `g${flags}`);
+    } catch {
+        return { error: 'pattern is not a valid regular expression.' };
+    }
+    if (new RegExp(source, flags).test('')) {
+        return { error: 'pattern matches empty text.' };
+    }
+    return { pattern };
+};
+
+type GroupFrame = {
+    hasUnboundedQuantifier: boolean;
+    hasAlternation: boolean;
+};
+
+/**
+ * Static check for the constructs behind catastrophic backtracking: an unbounded quantifier on a group that itself
+ * contains one (`(a+)+`) or an alternation (`(a|ab)*`), any repeat above one of a group holding an unbounded
+ * quantifier (`(.*a){3}`, `(a+){1,1000}`), and backreferences. Bounded repeats of bounded groups such as
+ * `(?:\d{1,3}\.){3}` pass.
+ */
+export const findBacktrackingRisk = (source: string): string | undefined => {
+    const stack: Array<GroupFrame> = [{ hasUnboundedQuantifier: false, hasAlternation: false }];
+    // The group a quantifier right after it applies to.
+    let closedGroup: GroupFrame | undefined;
+
+    for (let index = 0; index < source.length; index += 1) {
+        const char = source[index];
+        const current = stack[stack.length - 1];
+
+        if (char === '\\') {
+            const next = source[index + 1] || '';
+            if (/[1-9]/.test(next) || next === 'k') {
+                return 'uses a backreference';
+            }
+            index += 1;
+            closedGroup = undefined;
+            continue;
+        }
+        if (char === '[') {
+            index += 1;
+            while (index < source.length && source[index] !== ']') {
+                index += source[index] === '\\' ? 2 : 1;
+            }
+            closedGroup = undefined;
+            continue;
+        }
+        if (char === '(') {
+            stack.push({ hasUnboundedQuantifier: false, hasAlternation: false });
+            // Skip group prefixes (`?:`, `?=`, `?<name>`) so their `?` is not read as a quantifier.
+            if (source[index + 1] === '?') {
+                const namedGroup = /^\?<[A-Za-z_$][\w$]*>/.exec(source.slice(index + 1));
+                index += namedGroup ? namedGroup[0].length : source[index + 2] === '<' ? 3 : 2;
+            }
+            closedGroup = undefined;
+            continue;
+        }
+        if (char === ')') {
+            if (stack.length > 1) {
+                const frame = stack.pop() as GroupFrame;
+                const parent = stack[stack.length - 1];
+                parent.hasUnboundedQuantifier = parent.hasUnboundedQuantifier || frame.hasUnboundedQuantifier;
+                closedGroup = frame;
+            }
+            continue;
+        }
+        if (char === '|') {
+            current.hasAlternation = true;
+            closedGroup = undefined;
+            continue;
+        }
+
+        const braces = char === '{' ? /^\{(\d+)(,(\d*))?\}/.exec(source.slice(index)) : null;
+        if (char === '*' || char === '+' || char === '?' || braces) {
+            const unbounded = char === '*' || char === '+' || Boolean(braces && braces[2] && !braces[3]);
+            const maxRepeat = unbounded ? Infinity : braces ? Number(braces[3] || braces[1]) : 1;
+            if (unbounded && closedGroup?.hasUnboundedQuantifier) {
+                return 'nests unbounded quantifiers such as (a+)+';
+            }
+            if (maxRepeat > 1 && closedGroup?.hasUnboundedQuantifier) {
+                return 'repeats a group holding an unbounded quantifier such as (.*a){3}';
+            }
+            if (unbounded && closedGroup?.hasAlternation) {
+                return 'repeats an alternation without a bound such as (a|ab)*';
+            }
+            if (unbounded) {
+                current.hasUnboundedQuantifier = true;
+            }
+            if (braces) {
+                index += braces[0].length - 1;
+            }
+            // A lazy `?` belongs to the quantifier.
+            if (source[index + 1] === '?') {
+                index += 1;
+            }
+            closedGroup = undefined;
+            continue;
+        }
+
+        closedGroup = undefined;
+    }
+    return undefined;
+};
@@ -10,7 +10,7 @@ export const settings: Array<ISetting> = [
         required: true,
         public: false,
         i18nLabel: 'Logs source mode',
-        i18nDescription: 'Logs data source mode: loki (default) or app_logs (Rocket.Chat app lifecycle logs API).',
+        i18nDescription: 'Logs data source mode: loki (default), app_logs (Rocket.Chat app lifecycle logs API), opensearch (OpenSearch/Elasticsearch _search API), k8s_logs (Kubernetes pod logs API), or docker (Docker Engine API container logs).',
     },
     // Loki connection and default query behavior.
     {
@@ -49,6 +49,173 @@ export const settings: Array<ISetting> = [
         i18nLabel: 'Required label selector',
         i18nDescription: 'Base Loki selector enforced on every query (for example {job="rocketchat",env="prod"}).',
     },
+    {
+        id: SETTINGS.LOKI_TENANT_ID,
+        type: SettingType.STRING,
+        packageValue: '',
+        required: false,
+        public: false,
+        i18nLabel: 'Loki tenant ID (X-Scope-OrgID)',
+        i18nDescription: 'Tenant sent as X-Scope-OrgID on every Loki request for multi-tenant Loki. Join several tenants with | for cross-tenant queries. Leave empty for single-tenant Loki.',
+    },
+    {
+        id: SETTINGS.LOKI_TENANT_ROLE_MAP,
+        type: SettingType.STRING,
+        packageValue: '',
+        required: false,
+        public: false,
+        i18nLabel: 'Loki tenant per role',
+        i18nDescription: 'Optional comma-separated role=tenant pairs (for example admin=platform,support=support|platform). The first pair matching one of the user roles overrides the source tenant ID.',
+    },
+    {
+        id: SETTINGS.LOKI_ROLE_SELECTOR_MAP,
+        type: SettingType.STRING,
+        packageValue: '',
+        required: false,
+        public: false,
+        multiline: true,
+        i18nLabel: 'Loki label scope per role',
+        i18nDescription: 'Optional role={selector} pairs, one per line (for example support={namespace="tenant-a"}). The first line matching one of the user roles is combined with the required label selector on every query; use role=* to keep a role unrestricted.',
+    },
+    {
+        id: SETTINGS.LOKI_SOURCES,
+        type: SettingType.CODE,
+        packageValue: '',
+        required: false,
+        public: false,
+        i18nLabel: 'Named Loki sources (JSON)',
+        i18nDescription:
+            'Optional JSON array of additional Loki sources: [{"id":"prod","name":"Production","baseUrl":"https://loki.example.com","username":"","token":"","selector":"{job=\\"rocketchat\\"}","tenantId":"","maxTimeWindowHours":24,"maxLinesPerQuery":2000}]. Ids use lowercase letters, digits, dashes, or underscores. The Loki settings above stay available as the "default" source when loki_base_url is set. Per-source limits can only tighten the global guardrails.',
+    },
+    // OpenSearch / Elasticsearch connection (used when logs_source_mode=opensearch).
+    {
+        id: SETTINGS.OPENSEARCH_URL,
+        type: SettingType.STRING,
+        packageValue: '',
+        required: false,
+        public: false,
+        i18nLabel: 'OpenSearch URL',
+        i18nDescription: 'Base URL of your OpenSearch or Elasticsearch cluster (for example https://search.example.com:9200).',
+    },
+    {
+        id: SETTINGS.OPENSEARCH_INDEX_PATTERN,
+        type: SettingType.STRING,
+        packageValue: 'logs-*',
+        required: false,
+        public: false,
+        i18nLabel: 'OpenSearch index pattern',
+        i18nDescription: 'Index pattern searched on every query (for example logs-rocketchat-*). Comma-separated patterns are allowed.',
+    },
+    {
+        id: SETTINGS.OPENSEARCH_USERNAME,
+        type: SettingType.STRING,
+        packageValue: '',
+        required: false,
+        public: false,
+        i18nLabel: 'OpenSearch username',
+        i18nDescription: 'Optional username used for OpenSearch basic authentication.',
+    },
+    {
+        id: SETTINGS.OPENSEARCH_TOKEN,
+        type: SettingType.PASSWORD,
+        packageValue: '',
+        required: false,
+        public: false,
+        i18nLabel: 'OpenSearch token or password',
+        i18nDescription: 'Optional password (with username) or bearer token (without username) used by backend requests to OpenSearch.',
+    },
+    {
+        id: SETTINGS.OPENSEARCH_TIMESTAMP_FIELD,
+        type: SettingType.STRING,
+        packageValue: '@timestamp',
+        required: false,
+        public: false,
+        i18nLabel: 'OpenSearch timestamp field',
+        i18nDescription: 'Document field used for time-window filtering and sorting.',
+    },
+    {
+        id: SETTINGS.OPENSEARCH_MESSAGE_FIELD,
+        type: SettingType.STRING,
+        packageValue: 'message',
+        required: false,
+        public: false,
+        i18nLabel: 'OpenSearch message field',
+        i18nDescription: 'Document field that holds the log line text (for example message or log).',
+    },
+    // Kubernetes API connection (used when logs_source_mode=k8s_logs).
+    {
+        id: SETTINGS.K8S_API_URL,
+        type: SettingType.STRING,
+        packageValue: 'https://kubernetes.default.svc',
+        required: false,
+        public: false,
+        i18nLabel: 'Kubernetes API URL',
+        i18nDescription: 'Kubernetes API server URL reachable from the Rocket.Chat runtime (in-cluster default: https://kubernetes.default.svc).',
+    },
+    {
+        id: SETTINGS.K8S_TOKEN,
+        type: SettingType.PASSWORD,
+        packageValue: '',
+        required: false,
+        public: false,
+        i18nLabel: 'Kubernetes service account token',
+        i18nDescription: 'Bearer token for a service account allowed to list pods and read pods/log in the configured namespace.',
+    },
+    {
+        id: SETTINGS.K8S_NAMESPACE,
+        type: SettingType.STRING,
+        packageValue: 'rocketchat',
+        required: false,
+        public: false,
+        i18nLabel: 'Kubernetes namespace',
+        i18nDescription: 'Namespace whose pods are read in k8s_logs mode.',
+    },
+    {
+        id: SETTINGS.K8S_POD_LABEL_SELECTOR,
+        type: SettingType.STRING,
+        packageValue: 'app.kubernetes.io/name=rocketchat',
+        required: false,
+        public: false,
+        i18nLabel: 'Kubernetes pod label selector',
+        i18nDescription: 'Label selector enforced on every k8s_logs query (for example app.kubernetes.io/name=rocketchat).',
+    },
+    {
+        id: SETTINGS.K8S_CONTAINER,
+        type: SettingType.STRING,
+        packageValue: '',
+        required: false,
+        public: false,
+        i18nLabel: 'Kubernetes container name',
+        i18nDescription: 'Optional container name; leave empty to read every container in matched pods.',
+    },
+    // Docker Engine API connection (used when logs_source_mode=docker).
+    {
+        id: SETTINGS.DOCKER_API_URL,
+        type: SettingType.STRING,
+        packageValue: '',
+        required: false,
+        public: false,
+        i18nLabel: 'Docker API URL',
+        i18nDescription: 'Docker Engine API URL over http(s) (for example http://docker-socket-proxy:2375). Unix socket paths such as unix:///var/run/docker.sock are not supported because the Apps-Engine HTTP accessor cannot open sockets; expose the socket through a read-only TCP proxy instead.',
+    },
+    {
+        id: SETTINGS.DOCKER_TOKEN,
+        type: SettingType.PASSWORD,
+        packageValue: '',
+        required: false,
+        public: false,
+        i18nLabel: 'Docker API token',
+        i18nDescription: 'Optional bearer token sent to the Docker API proxy.',
+    },
+    {
+        id: SETTINGS.DOCKER_CONTAINERS,
+        type: SettingType.STRING,
+        packageValue: 'rocketchat',
+        required: false,
+        public: false,
+        i18nLabel: 'Docker container allow-list',
+        i18nDescription: 'Comma-separated container names whose logs may be read in docker mode (max 20).',
+    },
     {
         id: SETTINGS.ALLOWED_ROLES,
         type: SettingType.STRING,
@@ -94,6 +261,26 @@ export const settings: Array<ISetting> = [
         i18nLabel: 'Redaction replacement',
         i18nDescription: 'Replacement text used when sensitive patterns are masked.',
     },
+    {
+        id: SETTINGS.REDACTION_DETECTORS,
+        type: SettingType.STRING,
+        packageValue: '',
+        required: false,
+        public: false,
+        i18nLabel: 'Extra redaction detectors',
+        i18nDescription:
+            'Comma-separated opt-in detectors applied after the built-in rules: ipv4, ipv6, credit_card (Luhn-checked), phone, iban (checksum-checked), aws_key, gcp_key, github_token, slack_token, rocketchat_token (X-Auth-Token and resume tokens). Redaction rules can override or turn off enabled detectors by name.',
+    },
+    {
+        id: SETTINGS.REDACTION_RULES,
+        type: SettingType.CODE,
+        packageValue: '',
+        required: false,
+        public: false,
+        i18nLabel: 'Redaction rules (JSON)',
+        i18nDescription:
+            'Optional JSON array of named rules merged with the built-in ones (bearer_token, api_key_header, jwt, secret_assignment, email): [{"name":"internal_host","pattern":"\\\\b[a-z0-9-]+\\\\.corp\\\\.example\\\\.com\\\\b","flags":"i","replacement":"[HOST]","enabled":true}]. Use "keys":["user_email"] instead of a pattern to mask whole label and field values with those names, and their key=value or JSON pairs in messages. A rule named like a built-in one replaces its pattern or replacement, or turns it off with "enabled":false. Patterns are limited to 500 characters and may not nest unbounded quantifiers, repeat alternations without a bound, or use backreferences; invalid rules are skipped and listed in the viewer configuration warnings.',
+    },
     {
         id: SETTINGS.DEFAULT_TIME_RANGE,
         type: SettingType.STRING,
@@ -103,6 +290,33 @@ export const settings: Array<ISetting> = [
         i18nLabel: 'Default time range',
         i18nDescription: 'Default query time range for the logs viewer (for example 15m, 1h, 24h).',
     },
+    {
+        id: SETTINGS.ALLOWED_LABEL_FILTERS,
+        type: SettingType.STRING,
+        packageValue: 'namespace,pod,container,app,service,host',
+        required: false,
+        public: false,
+        i18nLabel: 'Filterable label names',
+        i18nDescription: 'Comma-separated label names users may filter on (equals, not equals, regex). Leave empty to disable label filters.',
+    },
+    {
+        id: SETTINGS.CORRELATION_FIELDS,
+        type: SettingType.STRING,
+        packageValue: 'traceId,requestId,trace_id,request_id',
+        required: false,
+        public: false,
+        i18nLabel: 'Correlation ID fields',
+        i18nDescription: 'Comma-separated JSON or logfmt field names holding trace/request IDs. Matching values become clickable chips that open a correlation timeline.',
+    },
+    {
+        id: SETTINGS.CORRELATION_ID_PATTERN,
+        type: SettingType.STRING,
+        packageValue: '\\b(?:trace|request)[_-]?id["\']?\\s*[=:]\\s*["\']?([A-Za-z0-9._:-]{8,128})',
+        required: false,
+        public: false,
+        i18nLabel: 'Correlation ID pattern',
+        i18nDescription: 'Case-insensitive regex that finds IDs in unstructured lines; the first capture group is the ID. Patterns with nested quantifiers such as (a+)+, repeated alternations, or backreferences are ignored. Leave empty to detect IDs from fields only.',
+    },
     {
         id: SETTINGS.MAX_TIME_WINDOW_HOURS,
         type: SettingType.NUMBER,
@@ -130,6 +344,33 @@ export const settings: Array<ISetting> = [
         i18nLabel: 'Query timeout (ms)',
         i18nDescription: 'Timeout applied to Loki HTTP requests in milliseconds.',
     },
+    {
+        id: SETTINGS.EXPORT_MAX_WINDOW_HOURS,
+        type: SettingType.NUMBER,
+        packageValue: 168,
+        required: true,
+        public: false,
+        i18nLabel: 'Export max time window (hours)',
+        i18nDescription: 'Largest window one export may cover. Exports read it in chunks no larger than the max query time window.',
+    },
+    {
+        id: SETTINGS.EXPORT_MAX_LINES,
+        type: SettingType.NUMBER,
+        packageValue: 20000,
+        required: true,
+        public: false,
+        i18nLabel: 'Export max lines',
+        i18nDescription: 'Upper bound of log lines in one export, read in batches of at most max lines per query.',
+    },
+    {
+        id: SETTINGS.BUNDLE_MAX_SIZE_KB,
+        type: SettingType.NUMBER,
+        packageValue: 2048,
+        required: true,
+        public: false,
+        i18nLabel: 'Investigation bundle max size (KB)',
+        i18nDescription: 'Largest investigation bundle uploaded to a room; the oldest lines are left out to fit. The workspace file upload limit also applies.',
+    },
     {
         id: SETTINGS.RATE_LIMIT_QPM,
         type: SettingType.NUMBER,
@@ -139,6 +380,15 @@ export const settings: Array<ISetting> = [
         i18nLabel: 'Rate limit (queries per minute)',
         i18nDescription: 'Maximum number of query requests per minute per user.',
     },
+    {
+        id: SETTINGS.TAIL_MAX_STREAMS_PER_USER,
+        type: SettingType.NUMBER,
+        packageValue: 2,
+        required: true,
+        public: false,
+        i18nLabel: 'Live tail streams per user',
+        i18nDescription: 'Maximum number of concurrent live tail streams per user. Idle streams expire after 30 seconds.',
+    },
     {
         id: SETTINGS.AUDIT_RETENTION_DAYS,
         type: SettingType.NUMBER,
@@ -0,0 +1,180 @@
+import { HttpStatusCode } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { QueryLevelFilter } from '../api/logs/queryValidation';
+import { extractAuthHeaders, resolveWorkspaceOrigin } from '../security/accessControl';
+import { buildSearchMatcher, normalizeLevel, parseEntryTimestamp, parseJsonPayload } from './logEntries';
+import { LogEntry, LogSourceAdapter } from './types';
+
+type AppLogsEntryPayload = {
+    timestamp?: string;
+    severity?: string;
+    method?: string;
+    args?: Array<unknown>;
+    caller?: string;
+};
+
+type AppLogsRecordPayload = {
+    method?: string;
+    entries?: Array<AppLogsEntryPayload>;
+};
+
+type AppLogsQueryResponse = {
+    success?: boolean;
+    logs?: Array<AppLogsRecordPayload>;
+    error?: string;
+    total?: number;
+};
+
+export const appLogsLogSource: LogSourceAdapter = {
+    mode: 'app_logs',
+    capabilities: {
+        requiresRequestAuth: true,
+        supportsQuickSample: false,
+        supportsForwardQuery: false,
+    },
+    // App logs reuse the caller's Rocket.Chat session, so there is nothing to configure up front.
+    checkReadiness: async () => [],
+    query: async (context, query) => {
+        const auth = context.request ? extractAuthHeaders(context.request.headers) : undefined;
+        if (!context.request || !auth) {
+            return {
+                error: 'Request auth headers are unavailable for app logs mode.',
+                status: HttpStatusCode.FORBIDDEN,
+                details: {
+                    sourceMode: 'app_logs',
+                    requiredHeaders: ['x-user-id', 'x-auth-token'],
+                },
+            };
+        }
+
+        const workspaceOrigin = await resolveWorkspaceOrigin(context.read, context.request.headers);
+        if (!workspaceOrigin) {
+            return {
+                error: 'Unable to resolve workspace origin for app logs mode.',
+                status: HttpStatusCode.BAD_REQUEST,
+                details: {
+                    sourceMode: 'app_logs',
+                    hint: 'Ensure Site_Url is configured or host/x-forwarded-proto headers are present.',
+                },
+            };
+        }
+
+        const levelFilter = toAppLogsLevel(query.levels);
+        const response = await context.http.get(`${workspaceOrigin}/api/apps/logs`, {
+            headers: {
+                Accept: 'application/json',
+                'X-User-Id': auth.userId,
+                'X-Auth-Token': auth.authToken,
+            },
+            params: {
+                appId: context.appId,
+                startDate: query.start.toISOString(),
+                endDate: query.end.toISOString(),
+                count: String(query.limit),
+                offset: '0',
+                ...(typeof levelFilter === 'number' ? { logLevel: String(levelFilter) } : {}),
+            },
+            timeout: query.timeoutMs,
+        });
+
+        const parsed = parseJsonPayload<AppLogsQueryResponse>(response, 'Rocket.Chat app logs');
+        if ('error' in parsed) {
+            return {
+                error: parsed.error,
+                details: parsed.details,
+                status: HttpStatusCode.BAD_GATEWAY,
+            };
+        }
+
+        if (response.statusCode >= 400) {
+            return {
+                error: 'Rocket.Chat app logs API returned an error response.',
+                status: HttpStatusCode.BAD_GATEWAY,
+                details: {
+                    statusCode: response.statusCode,
+                    payload: parsed.payload,
+                },
+            };
+        }
+
+        if (parsed.payload.success === false) {
+            return {
+                error: parsed.payload.error || 'Rocket.Chat app logs API did not return success.',
+                status: HttpStatusCode.BAD_REQUEST,
+                details: parsed.payload,
+            };
+        }
+
+        const entries = flattenRocketChatAppLogs(parsed.payload.logs || []);
+        const matchesSearch = buildSearchMatcher(query.search);
+        const filteredBySearch = query.search ? entries.filter((entry) => matchesSearch(entry.message)) : entries;
+
+        return {
+            entries: filteredBySearch,
+            query: `app_logs(appId="${context.appId}", start="${query.start.toISOString()}", end="${query.end.toISOString()}")`,
+        };
+    },
+};
+
+const flattenRocketChatAppLogs = (records: Array<AppLogsRecordPayload>): Array<LogEntry> => {
+    const entries: Array<LogEntry> = [];
+
+    for (const record of records) {
+        const method = typeof record.method === 'string' ? record.method : '';
+        const recordEntries = Array.isArray(record.entries) ? record.entries : [];
+        for (const entry of recordEntries) {
+            const timestamp = parseEntryTimestamp(entry.timestamp);
+            const level = normalizeLevel(entry.severity) || 'unknown';
+            const message = buildAppLogMessage(method || entry.method, entry.args);
+            entries.push({
+                timestamp: timestamp.iso,
+                rawTimestampNs: timestamp.rawTimestampNs,
+                level,
+                message,
+                labels: {
+                    source: 'app_logs',
+                    ...(method ? { method } : {}),
+                    ...(typeof entry.caller === 'string' && entry.caller ? { caller: entry.caller } : {}),
+                },
+            });
+        }
+    }
+
+    return entries;
+};
+
+const buildAppLogMessage = (method: unknown, args: unknown): string => {
+    const methodText = typeof method === 'string' && method.trim() ? method.trim() : '';
+    const argValues = Array.isArray(args) ? args : [];
+    const serializedArgs = argValues.map((value) => serializeLogArg(value)).join(' ');
+    const combined = [methodText, serializedArgs].filter(Boolean).join(' ');
+    return combined || '[app log entry]';
+};
+
+const serializeLogArg = (value: unknown): string => {
+    if (typeof value === 'string') {
+        return value;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+    }
+    if (value === null || value === undefined) {
+        return '';
+    }
+    try {
+        return JSON.stringify(value);
+    } catch {
+        return String(value);
+    }
+};
+
+// Rocket.Chat app logs API expects one numeric level (0=DEBUG, 1=INFO, 2=WARN/ERROR); selections spanning
+// several codes (or `unknown`) are fetched unfiltered and narrowed by the endpoint.
+const toAppLogsLevel = (levels?: Array<QueryLevelFilter>): number | undefined => {
+    if (!levels || levels.includes('unknown')) {
+        return undefined;
+    }
+
+    const codes = new Set(levels.map((level) => (level === 'debug' ? 0 : level === 'info' ? 1 : 2)));
+    return codes.size === 1 ? Array.from(codes)[0] : undefined;
+};
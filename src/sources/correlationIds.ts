@@ -0,0 +1,69 @@
+import { findBacktrackingRisk } from '../security/redactionRules';
+import { extractLogFields } from './logFields';
+import { CorrelationId } from './types';
+
+export type CorrelationConfig = {
+    fieldNames: Array<string>;
+    pattern?: RegExp;
+};
+
+// IDs are searched as quoted phrases and shown as chips, so they are limited to plain token characters.
+export const CORRELATION_ID_VALUE_PATTERN = /^[A-Za-z0-9._:-]{4,128}$/;
+
+const FIELD_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_.-]*$/;
+const MAX_FIELD_NAMES = 16;
+const MAX_PATTERN_LENGTH = 512;
+const MAX_IDS_PER_LINE = 4;
+
+/**
+ * Reads the correlation settings. Invalid field names are dropped, and a pattern that does not compile or could
+ * backtrack catastrophically is ignored so a bad setting only disables pattern detection.
+ */
+export const parseCorrelationConfig = (fieldNamesRaw: unknown, patternRaw: unknown): CorrelationConfig => {
+    const fieldNames = typeof fieldNamesRaw === 'string'
+        ? Array.from(new Set(fieldNamesRaw.split(',').map((name) => name.trim()).filter((name) => FIELD_NAME_PATTERN.test(name)))).slice(0, MAX_FIELD_NAMES)
+        : [];
+
+    let pattern: RegExp | undefined;
+    const patternSource = typeof patternRaw === 'string' ? patternRaw.trim() : '';
+    if (patternSource && patternSource.length <= MAX_PATTERN_LENGTH && !findBacktrackingRisk(patternSource)) {
+        try {
+            pattern = new RegExp(patternSource, 'gi');
+        } catch {
+            pattern = undefined;
+        }
+    }
+
+    return { fieldNames, pattern };
+};
+
+/**
+ * Finds trace/request IDs in one line: configured JSON or logfmt fields first (matched on the full dotted name or
+ * its last segment), then matches of the configured pattern. Values are deduplicated and at most four are kept.
+ */
+export const detectCorrelationIds = (message: string, config: CorrelationConfig): Array<CorrelationId> => {
+    const found: Array<CorrelationId> = [];
+    const add = (name: string, value: string) => {
+        const trimmed = value.trim();
+        if (found.length < MAX_IDS_PER_LINE && CORRELATION_ID_VALUE_PATTERN.test(trimmed) && !found.some((id) => id.value === trimmed)) {
+            found.push({ name, value: trimmed });
+        }
+    };
+
+    if (config.fieldNames.length > 0) {
+        const fields = extractLogFields(message, 'json') || extractLogFields(message, 'logfmt') || {};
+        for (const [key, value] of Object.entries(fields)) {
+            const name = config.fieldNames.find((candidate) => key === candidate || key.endsWith(`.${candidate}`));
+            if (name) {
+                add(name, value);
+            }
+        }
+    }
+
+    if (config.pattern) {
+        for (const match of message.matchAll(config.pattern)) {
+            add('id', match[1] ?? match[0]);
+        }
+    }
+    return found;
+};
@@ -0,0 +1,175 @@
+import { HttpStatusCode, IHttp, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { SETTINGS } from '../constants';
+import { compareNsDesc, parseTimestampedLogLines, readStringSetting } from './logEntries';
+import { LogEntry, LogSourceAdapter, LogSourceQuery, LogSourceQueryResult } from './types';
+
+type DockerSettings = {
+    apiUrl: string;
+    token: string;
+    containers: Array<string>;
+};
+
+type DockerStreamName = 'stdout' | 'stderr';
+
+const API_URL_MISSING = 'Docker API URL is not configured.';
+const API_URL_UNSUPPORTED =
+    'Docker API URL must be http(s). Unix sockets are not reachable from the Apps-Engine HTTP accessor; expose the socket through a read-only TCP proxy.';
+const CONTAINERS_MISSING = 'Docker container allow-list is empty or contains invalid container names.';
+const MAX_CONTAINERS = 20;
+const STREAM_NAMES: Record<number, DockerStreamName> = {
+    1: 'stdout',
+    2: 'stderr',
+};
+
+export const dockerLogSource: LogSourceAdapter = {
+    mode: 'docker',
+    capabilities: {
+        requiresRequestAuth: false,
+        supportsQuickSample: true,
+        supportsForwardQuery: false,
+    },
+    checkReadiness: async (read) => collectReadinessIssues(await readDockerSettings(read)),
+    query: async (context, query) => {
+        const settings = await readDockerSettings(context.read);
+        return queryDockerSource(context.http, settings, query);
+    },
+};
+
+const readDockerSettings = async (read: IRead): Promise<DockerSettings> => {
+    const settingsReader = read.getEnvironmentReader().getSettings();
+    const [apiUrl, token, containers] = await Promise.all([
+        settingsReader.getValueById(SETTINGS.DOCKER_API_URL),
+        settingsReader.getValueById(SETTINGS.DOCKER_TOKEN),
+        settingsReader.getValueById(SETTINGS.DOCKER_CONTAINERS),
+    ]);
+
+    return {
+        apiUrl: readStringSetting(apiUrl),
+        token: readStringSetting(token),
+        containers: readStringSetting(containers)
+            .split(',')
+            .map((name) => name.trim())
+            .filter(Boolean),
+    };
+};
+
+const collectReadinessIssues = (settings: DockerSettings): Array<string> => {
+    const issues: Array<string> = [];
+    if (!settings.apiUrl) {
+        issues.push(API_URL_MISSING);
+    } else if (!/^https?:\/\//i.test(settings.apiUrl)) {
+        issues.push(API_URL_UNSUPPORTED);
+    }
+    if (
+        settings.containers.length === 0
+        || settings.containers.length > MAX_CONTAINERS
+        || !settings.containers.every((name) => isValidContainerName(name))
+    ) {
+        issues.push(CONTAINERS_MISSING);
+    }
+    return issues;
+};
+
+const isValidContainerName = (name: string): boolean => /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/.test(name);
+
+const queryDockerSource = async (http: IHttp, settings: DockerSettings, query: LogSourceQuery): Promise<LogSourceQueryResult> => {
+    const issues = collectReadinessIssues(settings);
+    if (issues.length > 0) {
+        return {
+            error: issues[0],
+            status: HttpStatusCode.BAD_REQUEST,
+            details: {
+                sourceMode: 'docker',
+                issues,
+                settings: [SETTINGS.DOCKER_API_URL, SETTINGS.DOCKER_CONTAINERS],
+            },
+        };
+    }
+
+    const baseUrl = settings.apiUrl.replace(/\/+$/, '');
+    const results = await Promise.all(
+        settings.containers.map(async (container) => {
+            const response = await http.get(`${baseUrl}/containers/${encodeURIComponent(container)}/logs`, {
+                headers: {
+                    Accept: 'application/vnd.docker.multiplexed-stream, text/plain',
+                    ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+                },
+                params: {
+                    stdout: '1',
+                    stderr: '1',
+                    timestamps: '1',
+                    since: String(Math.floor(query.start.getTime() / 1000)),
+                    until: String(Math.ceil(query.end.getTime() / 1000)),
+                    tail: String(query.limit),
+                },
+                // latin1 keeps one char per byte so the 8-byte frame headers survive decoding.
+                encoding: 'latin1',
+                timeout: query.timeoutMs,
+            });
+
+            if (response.statusCode >= 400 || typeof response.content !== 'string') {
+                return { container, statusCode: response.statusCode };
+            }
+
+            const entries: Array<LogEntry> = [];
+            for (const [stream, content] of demultiplexDockerStream(response.content)) {
+                entries.push(...parseTimestampedLogLines(content, { container, stream }, query));
+            }
+            return { container, entries };
+        }),
+    );
+
+    const failures = results.filter((result) => !('entries' in result));
+    if (failures.length === results.length) {
+        return {
+            error: 'Docker Engine API returned an error response for every container log request.',
+            status: HttpStatusCode.BAD_GATEWAY,
+            details: {
+                sourceMode: 'docker',
+                failures,
+            },
+        };
+    }
+
+    const entries: Array<LogEntry> = [];
+    for (const result of results) {
+        if ('entries' in result && result.entries) {
+            entries.push(...result.entries);
+        }
+    }
+
+    return {
+        entries: entries.sort((a, b) => compareNsDesc(a.rawTimestampNs, b.rawTimestampNs)),
+        query: `docker(containers="${settings.containers.join(',')}", since="${query.start.toISOString()}", until="${query.end.toISOString()}")`,
+    };
+};
+
+/**
+ * Splits a Docker log response into per-stream UTF-8 text.
+ *
+ * Non-TTY containers frame output as `[stream, 0, 0, 0, size(uint32 BE)]` + payload; TTY containers
+ * return the raw stream, which is reported as stdout.
+ */
+export const demultiplexDockerStream = (raw: string): Array<[DockerStreamName, string]> => {
+    const bytes = Buffer.from(raw, 'latin1');
+    if (!isMultiplexedFrame(bytes, 0)) {
+        return [['stdout', bytes.toString('utf8')]];
+    }
+
+    const chunks: Record<DockerStreamName, Array<Buffer>> = { stdout: [], stderr: [] };
+    let offset = 0;
+    while (offset + 8 <= bytes.length && isMultiplexedFrame(bytes, offset)) {
+        const size = bytes.readUInt32BE(offset + 4);
+        const stream = STREAM_NAMES[bytes[offset]] || 'stdout';
+        chunks[stream].push(bytes.subarray(offset + 8, offset + 8 + size));
+        offset += 8 + size;
+    }
+
+    return (Object.keys(chunks) as Array<DockerStreamName>)
+        .filter((stream) => chunks[stream].length > 0)
+        .map((stream) => [stream, Buffer.concat(chunks[stream]).toString('utf8')]);
+};
+
+const isMultiplexedFrame = (bytes: Buffer, offset: number): boolean =>
+    bytes.length >= offset + 8 && bytes[offset] <= 2 && bytes[offset + 1] === 0 && bytes[offset + 2] === 0 && bytes[offset + 3] === 0;
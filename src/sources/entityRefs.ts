@@ -0,0 +1,57 @@
+import { extractLogFields } from './logFields';
+import { EntityKind, EntityRef } from './types';
+
+// Matched against label names and against JSON field names (full dotted name or last segment).
+const ENTITY_KEYS: Record<string, EntityKind> = {
+    rid: 'room',
+    roomId: 'room',
+    room_id: 'room',
+    userId: 'user',
+    user_id: 'user',
+    uid: 'user',
+    username: 'username',
+    userName: 'username',
+    user_name: 'username',
+    mid: 'message',
+    msgId: 'message',
+    messageId: 'message',
+    message_id: 'message',
+};
+
+// Rocket.Chat ids and usernames are plain tokens; anything else (including redacted values) is ignored.
+export const ENTITY_VALUE_PATTERN = /^[A-Za-z0-9._-]{2,64}$/;
+
+const MAX_REFS_PER_LINE = 8;
+
+const kindForKey = (key: string): EntityKind | undefined => {
+    const lastSegment = key.slice(key.lastIndexOf('.') + 1);
+    return Object.prototype.hasOwnProperty.call(ENTITY_KEYS, lastSegment) ? ENTITY_KEYS[lastSegment] : undefined;
+};
+
+/**
+ * Finds Rocket.Chat room, user, username, and message references in one entry: labels first, then the fields of
+ * a JSON line. Values are deduplicated per kind and at most eight are kept.
+ */
+export const detectEntityRefs = (entry: { message: string; labels: Record<string, string> }): Array<EntityRef> => {
+    const found: Array<EntityRef> = [];
+    const add = (key: string, value: string) => {
+        const kind = kindForKey(key);
+        const trimmed = value.trim();
+        if (
+            kind
+            && found.length < MAX_REFS_PER_LINE
+            && ENTITY_VALUE_PATTERN.test(trimmed)
+            && !found.some((ref) => ref.kind === kind && ref.value === trimmed)
+        ) {
+            found.push({ kind, key, value: trimmed });
+        }
+    };
+
+    for (const [key, value] of Object.entries(entry.labels)) {
+        add(key, value);
+    }
+    for (const [key, value] of Object.entries(extractLogFields(entry.message, 'json') || {})) {
+        add(key, value);
+    }
+    return found;
+};
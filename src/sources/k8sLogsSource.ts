@@ -0,0 +1,247 @@
+import { HttpStatusCode, IHttp, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { SETTINGS } from '../constants';
+import { compareNsDesc, parseJsonPayload, parseTimestampedLogLines, readStringSetting } from './logEntries';
+import { LogEntry, LogSourceAdapter, LogSourceQuery, LogSourceQueryResult } from './types';
+
+type K8sPodListResponse = {
+    kind?: string;
+    items?: Array<{
+        metadata?: {
+            name?: string;
+            namespace?: string;
+        };
+        spec?: {
+            containers?: Array<{ name?: string }>;
+        };
+        status?: {
+            phase?: string;
+        };
+    }>;
+};
+
+type K8sSettings = {
+    apiUrl: string;
+    token: string;
+    namespace: string;
+    podSelector: string;
+    container: string;
+};
+
+type K8sLogTarget = {
+    pod: string;
+    container: string;
+};
+
+const API_URL_MISSING = 'Kubernetes API URL is not configured.';
+const TOKEN_MISSING = 'Kubernetes service account token is not configured.';
+const NAMESPACE_INVALID = 'Kubernetes namespace is invalid. Use a DNS-1123 label like rocketchat.';
+const POD_SELECTOR_INVALID = 'Kubernetes pod label selector is invalid. Use a selector like app.kubernetes.io/name=rocketchat.';
+// Bounds fan-out per query; each pod/container pair is one Kubernetes API log request.
+const MAX_LOG_TARGETS = 20;
+// Read caps for windows that ended in the past, which cannot use `tailLines`: the total is split across targets and
+// each target reads at most about `limit` lines' worth, so one request holds a few megabytes of log text at most.
+const PAST_WINDOW_BUDGET_BYTES = 8 * 1024 * 1024;
+const PAST_WINDOW_BYTES_PER_LINE = 1024;
+const PAST_WINDOW_MIN_TARGET_BYTES = 64 * 1024;
+// Windows ending this close to now are live: the newest lines up to now are the newest lines of the window.
+const LIVE_WINDOW_SLACK_MS = 60 * 1000;
+
+export const k8sLogsLogSource: LogSourceAdapter = {
+    mode: 'k8s_logs',
+    capabilities: {
+        requiresRequestAuth: false,
+        supportsQuickSample: true,
+        supportsForwardQuery: false,
+    },
+    checkReadiness: async (read) => collectReadinessIssues(await readK8sSettings(read)),
+    query: async (context, query) => {
+        const settings = await readK8sSettings(context.read);
+        return queryK8sLogsSource(context.http, settings, query);
+    },
+};
+
+const readK8sSettings = async (read: IRead): Promise<K8sSettings> => {
+    const settingsReader = read.getEnvironmentReader().getSettings();
+    const [apiUrl, token, namespace, podSelector, container] = await Promise.all([
+        settingsReader.getValueById(SETTINGS.K8S_API_URL),
+        settingsReader.getValueById(SETTINGS.K8S_TOKEN),
+        settingsReader.getValueById(SETTINGS.K8S_NAMESPACE),
+        settingsReader.getValueById(SETTINGS.K8S_POD_LABEL_SELECTOR),
+        settingsReader.getValueById(SETTINGS.K8S_CONTAINER),
+    ]);
+
+    return {
+        apiUrl: readStringSetting(apiUrl),
+        token: readStringSetting(token),
+        namespace: readStringSetting(namespace),
+        podSelector: readStringSetting(podSelector),
+        container: readStringSetting(container),
+    };
+};
+
+const collectReadinessIssues = (settings: K8sSettings): Array<string> => {
+    const issues: Array<string> = [];
+    if (!settings.apiUrl) {
+        issues.push(API_URL_MISSING);
+    }
+    if (!settings.token) {
+        issues.push(TOKEN_MISSING);
+    }
+    if (!isValidDnsLabel(settings.namespace)) {
+        issues.push(NAMESPACE_INVALID);
+    }
+    if (!isValidPodSelector(settings.podSelector)) {
+        issues.push(POD_SELECTOR_INVALID);
+    }
+    return issues;
+};
+
+const isValidDnsLabel = (value: string): boolean => /^[a-z0-9]([-a-z0-9]{0,61}[a-z0-9])?$/.test(value);
+
+// Equality/set-based selector syntax only; rejects anything that could escape the query parameter.
+const isValidPodSelector = (selector: string): boolean => Boolean(selector) && /^[A-Za-z0-9._/=!,()\s-]+$/.test(selector);
+
+const queryK8sLogsSource = async (http: IHttp, settings: K8sSettings, query: LogSourceQuery): Promise<LogSourceQueryResult> => {
+    const issues = collectReadinessIssues(settings);
+    if (issues.length > 0) {
+        return {
+            error: issues[0],
+            status: HttpStatusCode.BAD_REQUEST,
+            details: {
+                sourceMode: 'k8s_logs',
+                issues,
+                settings: [SETTINGS.K8S_API_URL, SETTINGS.K8S_TOKEN, SETTINGS.K8S_NAMESPACE, SETTINGS.K8S_POD_LABEL_SELECTOR],
+            },
+        };
+    }
+
+    const baseUrl = `${settings.apiUrl.replace(/\/+$/, '')}/api/v1/namespaces/${settings.namespace}/pods`;
+    const headers = {
+        Accept: 'application/json',
+        Authorization: `Bearer ${settings.token}`,
+    };
+
+    const podsResponse = await http.get(baseUrl, {
+        headers,
+        params: {
+            labelSelector: settings.podSelector,
+        },
+        timeout: query.timeoutMs,
+    });
+    const pods = parseJsonPayload<K8sPodListResponse>(podsResponse, 'Kubernetes API');
+    if ('error' in pods) {
+        return {
+            error: pods.error,
+            details: pods.details,
+            status: HttpStatusCode.BAD_GATEWAY,
+        };
+    }
+    if (podsResponse.statusCode >= 400) {
+        return {
+            error: 'Kubernetes API returned an error response while listing pods.',
+            status: HttpStatusCode.BAD_GATEWAY,
+            details: {
+                statusCode: podsResponse.statusCode,
+                payload: pods.payload,
+            },
+        };
+    }
+
+    const targets = resolveLogTargets(pods.payload, settings.container);
+    const logQuery = `k8s_logs(namespace="${settings.namespace}", selector="${settings.podSelector}", targets=${targets.length})`;
+    if (targets.length === 0) {
+        return { entries: [], query: logQuery };
+    }
+
+    // `tailLines` counts back from now, so a past window would only get lines after its end. Those reads go forward
+    // from `sinceTime` instead, capped by `limitBytes`, and keep the newest `limit` lines of what was read.
+    const live = query.end.getTime() >= Date.now() - LIVE_WINDOW_SLACK_MS;
+    const limitBytes = live ? undefined : resolvePastWindowLimitBytes(targets.length, query.limit);
+    const results = await Promise.all(
+        targets.map(async (target) => {
+            const response = await http.get(`${baseUrl}/${encodeURIComponent(target.pod)}/log`, {
+                headers: {
+                    ...headers,
+                    Accept: 'text/plain',
+                },
+                params: {
+                    container: target.container,
+                    sinceTime: query.start.toISOString(),
+                    timestamps: 'true',
+                    ...(limitBytes === undefined ? { tailLines: String(query.limit) } : { limitBytes: String(limitBytes) }),
+                },
+                timeout: query.timeoutMs,
+            });
+
+            if (response.statusCode >= 400 || typeof response.content !== 'string') {
+                return { target, statusCode: response.statusCode };
+            }
+
+            return {
+                target,
+                // A read that filled `limitBytes` stopped before the end of the window.
+                cutShort: limitBytes !== undefined && Buffer.byteLength(response.content, 'utf8') >= limitBytes,
+                entries: parseTimestampedLogLines(
+                    response.content,
+                    { namespace: settings.namespace, pod: target.pod, container: target.container },
+                    query,
+                ).slice(-query.limit),
+            };
+        }),
+    );
+
+    const failures = results.filter((result) => !('entries' in result));
+    if (failures.length === results.length) {
+        return {
+            error: 'Kubernetes API returned an error response for every pod log request.',
+            status: HttpStatusCode.BAD_GATEWAY,
+            details: {
+                sourceMode: 'k8s_logs',
+                failures: failures.map((failure) => ({ ...failure.target, statusCode: failure.statusCode })),
+            },
+        };
+    }
+
+    const entries: Array<LogEntry> = [];
+    const cutShort: Array<string> = [];
+    for (const result of results) {
+        if ('entries' in result && result.entries) {
+            entries.push(...result.entries);
+            if (result.cutShort) {
+                cutShort.push(`${result.target.pod}/${result.target.container}`);
+            }
+        }
+    }
+
+    return {
+        entries: entries.sort((a, b) => compareNsDesc(a.rawTimestampNs, b.rawTimestampNs)),
+        // Reads that hit `limitBytes` miss the newest lines of the window; name them so the gap is visible.
+        query: cutShort.length > 0
+            ? `${logQuery.slice(0, -1)}, limitBytes=${limitBytes}, cutShort="${cutShort.join(',')}")`
+            : logQuery,
+    };
+};
+
+const resolvePastWindowLimitBytes = (targetCount: number, limit: number): number =>
+    Math.max(PAST_WINDOW_MIN_TARGET_BYTES, Math.min(Math.floor(PAST_WINDOW_BUDGET_BYTES / targetCount), limit * PAST_WINDOW_BYTES_PER_LINE));
+
+const resolveLogTargets = (payload: K8sPodListResponse, containerFilter: string): Array<K8sLogTarget> => {
+    const targets: Array<K8sLogTarget> = [];
+    for (const pod of payload.items || []) {
+        const podName = pod.metadata?.name;
+        // Pending pods have no log stream yet; requesting one only produces 400s.
+        if (!podName || pod.status?.phase === 'Pending') {
+            continue;
+        }
+
+        for (const container of pod.spec?.containers || []) {
+            if (!container.name || (containerFilter && container.name !== containerFilter)) {
+                continue;
+            }
+            targets.push({ pod: podName, container: container.name });
+        }
+    }
+
+    return targets.slice(0, MAX_LOG_TARGETS);
+};
@@ -0,0 +1,224 @@
+import { IHttpResponse } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { LabelFilter, QueryLevel, resolveSearchTerms, SearchTerm } from '../api/logs/queryValidation';
+import { LogEntry, LogSourceQuery, ResolvedLevel } from './types';
+
+export const resolveLevel = (labels: Record<string, string>, message: string): ResolvedLevel => {
+    const labelCandidates = [labels.level, labels.severity, labels.lvl, labels.loglevel];
+    for (const candidate of labelCandidates) {
+        const normalized = normalizeLevel(candidate);
+        if (normalized) {
+            return normalized;
+        }
+    }
+
+    if (/\b(error|err|fatal|panic|exception)\b/i.test(message)) {
+        return 'error';
+    }
+    if (/\b(warn|warning)\b/i.test(message)) {
+        return 'warn';
+    }
+    if (/\b(info|information)\b/i.test(message)) {
+        return 'info';
+    }
+    if (/\b(debug|trace|verbose)\b/i.test(message)) {
+        return 'debug';
+    }
+
+    return 'unknown';
+};
+
+export const normalizeLevel = (value?: string): QueryLevel | undefined => {
+    if (!value) {
+        return undefined;
+    }
+
+    const normalized = value.trim().toLowerCase();
+    if (['error', 'err', 'fatal', 'panic'].includes(normalized)) {
+        return 'error';
+    }
+    if (['warn', 'warning'].includes(normalized)) {
+        return 'warn';
+    }
+    if (['info', 'information'].includes(normalized)) {
+        return 'info';
+    }
+    if (['debug', 'trace', 'verbose'].includes(normalized)) {
+        return 'debug';
+    }
+    return undefined;
+};
+
+export const compareNsDesc = (a: string, b: string): number => {
+    const aParsed = safeBigInt(a);
+    const bParsed = safeBigInt(b);
+    if (aParsed !== undefined && bParsed !== undefined) {
+        if (aParsed === bParsed) {
+            return 0;
+        }
+        return aParsed > bParsed ? -1 : 1;
+    }
+
+    return b.localeCompare(a);
+};
+
+export const safeBigInt = (value: string): bigint | undefined => {
+    try {
+        return BigInt(value);
+    } catch {
+        return undefined;
+    }
+};
+
+export const nsToIso = (rawNs: string): string => {
+    const parsed = safeBigInt(rawNs);
+    if (parsed === undefined) {
+        return new Date(0).toISOString();
+    }
+
+    const ms = Number(parsed / 1000000n);
+    return new Date(ms).toISOString();
+};
+
+// Sources that report millisecond timestamps (ISO strings or epoch ms) normalize here for sorting.
+export const parseEntryTimestamp = (rawValue: unknown): { iso: string; rawTimestampNs: string } => {
+    const parsed = typeof rawValue === 'number' ? rawValue : typeof rawValue === 'string' ? Date.parse(rawValue) : NaN;
+    if (!Number.isFinite(parsed)) {
+        return {
+            iso: new Date(0).toISOString(),
+            rawTimestampNs: '0',
+        };
+    }
+
+    return {
+        iso: new Date(parsed).toISOString(),
+        rawTimestampNs: (BigInt(Math.floor(parsed)) * 1000000n).toString(),
+    };
+};
+
+export const toEpochNs = (date: Date): string => (BigInt(date.getTime()) * 1000000n).toString();
+
+export const toBase64 = (value: string): string => {
+    if (typeof Buffer !== 'undefined') {
+        return Buffer.from(value).toString('base64');
+    }
+
+    if (typeof btoa !== 'undefined') {
+        return btoa(value);
+    }
+
+    throw new Error('No base64 encoder available for Basic auth header.');
+};
+
+// Mirrors Loki matcher semantics: a missing label equals "", and regex matchers are fully anchored.
+export const matchesLabelFilters = (labels: Record<string, string>, filters: Array<LabelFilter>): boolean =>
+    filters.every((filter) => {
+        const value = labels[filter.name] ?? '';
+        if (filter.op === 'eq') {
+            return value === filter.value;
+        }
+        if (filter.op === 'neq') {
+            return value !== filter.value;
+        }
+        return new RegExp(`^(?:${filter.value})$`).test(value);
+    });
+
+export const readStringSetting = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+export const parseJsonPayload = <T>(
+    response: IHttpResponse,
+    sourceLabel: string,
+): { payload: T } | { error: string; details?: unknown } => {
+    if (response.data && typeof response.data === 'object') {
+        return { payload: response.data as T };
+    }
+
+    if (typeof response.content === 'string' && response.content.trim()) {
+        try {
+            return { payload: JSON.parse(response.content) as T };
+        } catch (error) {
+            return {
+                error: `Failed to parse ${sourceLabel} response payload as JSON.`,
+                details: String(error),
+            };
+        }
+    }
+
+    return {
+        error: `${sourceLabel} response did not contain a valid JSON payload.`,
+        details: {
+            statusCode: response.statusCode,
+        },
+    };
+};
+
+/**
+ * In-app equivalent of the LogQL line filters built from `search`. Words and phrases match case-insensitively,
+ * as `search` always has for sources without a query language; regexes honour their own `i` flag.
+ */
+export const buildSearchMatcher = (search?: string | Array<SearchTerm>): ((message: string) => boolean) => {
+    const terms = Array.isArray(search) ? search : resolveSearchTerms(search);
+    const checks = terms.map((term): ((message: string) => boolean) => {
+        if (term.kind === 'regex' || term.kind === 'exclude_regex') {
+            const pattern = new RegExp(term.value, term.ignoreCase ? 'i' : '');
+            return term.kind === 'regex' ? (message) => pattern.test(message) : (message) => !pattern.test(message);
+        }
+        const value = term.value.toLowerCase();
+        return term.kind === 'include' ? (message) => message.toLowerCase().includes(value) : (message) => !message.toLowerCase().includes(value);
+    });
+    return (message) => checks.every((check) => check(message));
+};
+
+// Container runtimes (Kubernetes, Docker) prefix each line with an RFC3339Nano timestamp and a single space.
+export const parseTimestampedLogLines = (
+    content: string,
+    labels: Record<string, string>,
+    query: Pick<LogSourceQuery, 'end' | 'search'>,
+): Array<LogEntry> => {
+    const endNs = BigInt(query.end.getTime()) * 1000000n;
+    const matchesSearch = buildSearchMatcher(query.search);
+
+    const entries: Array<LogEntry> = [];
+    for (const line of content.split('\n')) {
+        if (!line.trim()) {
+            continue;
+        }
+
+        const separator = line.indexOf(' ');
+        const rawTimestampNs = separator > 0 ? parseRfc3339Nano(line.slice(0, separator)) : undefined;
+        if (!rawTimestampNs || BigInt(rawTimestampNs) > endNs) {
+            continue;
+        }
+
+        const message = line.slice(separator + 1).replace(/\r$/, '');
+        if (!matchesSearch(message)) {
+            continue;
+        }
+
+        entries.push({
+            timestamp: nsToIso(rawTimestampNs),
+            rawTimestampNs,
+            level: resolveLevel(labels, message),
+            message,
+            labels,
+        });
+    }
+
+    return entries;
+};
+
+// Keeps nanosecond precision so lines written within the same millisecond still sort correctly.
+export const parseRfc3339Nano = (value: string): string | undefined => {
+    const match = value.match(/^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.(\d{1,9}))?(Z|[+-]\d{2}:\d{2})$/);
+    if (!match) {
+        return undefined;
+    }
+
+    const seconds = Date.parse(`${match[1]}${match[3]}`);
+    if (!Number.isFinite(seconds)) {
+        return undefined;
+    }
+
+    const fraction = (match[2] || '').padEnd(9, '0');
+    return (BigInt(seconds) * 1000000n + BigInt(fraction)).toString();
+};
@@ -0,0 +1,143 @@
+import { FieldFilter, FieldParser, isNumericFieldOperator } from '../api/logs/queryValidation';
+
+const MAX_EXTRACTED_FIELDS = 64;
+const MAX_FIELD_VALUE_LENGTH = 1024;
+const MAX_JSON_DEPTH = 8;
+const LOGFMT_KEY_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_.-]*$/;
+
+/**
+ * Extracts fields from one line. JSON objects flatten to dotted keys (`msg.userId`) with scalar leaves;
+ * arrays stay JSON-encoded. Logfmt keeps `key=value` pairs only. Returns `undefined` when the line is not a
+ * JSON object or has no logfmt pairs, which Loki reports as a parser error.
+ */
+export const extractLogFields = (message: string, parser: FieldParser): Record<string, string> | undefined => {
+    const fields = parser === 'json' ? extractJsonFields(message) : extractLogfmtFields(message);
+    if (!fields || Object.keys(fields).length === 0) {
+        return fields;
+    }
+
+    for (const name of Object.keys(fields)) {
+        if (fields[name].length > MAX_FIELD_VALUE_LENGTH) {
+            fields[name] = `${fields[name].slice(0, MAX_FIELD_VALUE_LENGTH)}…`;
+        }
+    }
+    return fields;
+};
+
+// Mirrors Loki label filter semantics: a missing field equals "", regexes are fully anchored, and numeric
+// comparisons never match values that are not numbers.
+export const matchesFieldFilters = (fields: Record<string, string> | undefined, filters: Array<FieldFilter>): boolean =>
+    filters.every((filter) => {
+        if (!fields) {
+            return false;
+        }
+
+        const value = fields[filter.name] ?? '';
+        if (isNumericFieldOperator(filter.op)) {
+            const actual = value.trim() ? Number(value) : NaN;
+            const expected = Number(filter.value);
+            if (!Number.isFinite(actual)) {
+                return false;
+            }
+            if (filter.op === 'gt') {
+                return actual > expected;
+            }
+            if (filter.op === 'gte') {
+                return actual >= expected;
+            }
+            if (filter.op === 'lt') {
+                return actual < expected;
+            }
+            return actual <= expected;
+        }
+        if (filter.op === 'eq') {
+            return value === filter.value;
+        }
+        if (filter.op === 'neq') {
+            return value !== filter.value;
+        }
+        return new RegExp(`^(?:${filter.value})$`).test(value);
+    });
+
+const extractJsonFields = (message: string): Record<string, string> | undefined => {
+    const trimmed = message.trim();
+    if (!trimmed.startsWith('{')) {
+        return undefined;
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(trimmed);
+    } catch {
+        return undefined;
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return undefined;
+    }
+
+    const fields: Record<string, string> = {};
+    const visit = (value: Record<string, unknown>, prefix: string, depth: number) => {
+        for (const [key, child] of Object.entries(value)) {
+            if (Object.keys(fields).length >= MAX_EXTRACTED_FIELDS) {
+                return;
+            }
+
+            const name = prefix ? `${prefix}.${key}` : key;
+            if (child && typeof child === 'object' && !Array.isArray(child) && depth < MAX_JSON_DEPTH) {
+                visit(child as Record<string, unknown>, name, depth + 1);
+            } else if (child === null || child === undefined) {
+                fields[name] = '';
+            } else if (typeof child === 'object') {
+                fields[name] = JSON.stringify(child);
+            } else {
+                fields[name] = String(child);
+            }
+        }
+    };
+    visit(parsed as Record<string, unknown>, '', 1);
+    return fields;
+};
+
+const extractLogfmtFields = (message: string): Record<string, string> | undefined => {
+    const fields: Record<string, string> = {};
+    let index = 0;
+    while (index < message.length && Object.keys(fields).length < MAX_EXTRACTED_FIELDS) {
+        while (index < message.length && message[index] === ' ') {
+            index += 1;
+        }
+
+        let keyEnd = index;
+        while (keyEnd < message.length && message[keyEnd] !== '=' && message[keyEnd] !== ' ') {
+            keyEnd += 1;
+        }
+        const key = message.slice(index, keyEnd);
+        index = keyEnd;
+
+        let value = '';
+        const hasValue = message[index] === '=';
+        if (hasValue) {
+            index += 1;
+            if (message[index] === '"') {
+                index += 1;
+                while (index < message.length && message[index] !== '"') {
+                    if (message[index] === '\\' && index + 1 < message.length) {
+                        index += 1;
+                    }
+                    value += message[index];
+                    index += 1;
+                }
+                index += 1;
+            } else {
+                const valueEnd = message.indexOf(' ', index);
+                value = message.slice(index, valueEnd === -1 ? message.length : valueEnd);
+                index = valueEnd === -1 ? message.length : valueEnd;
+            }
+        }
+
+        // Bare words are skipped so free-text lines do not turn into fields.
+        if (hasValue && LOGFMT_KEY_PATTERN.test(key)) {
+            fields[key] = value;
+        }
+    }
+    return Object.keys(fields).length > 0 ? fields : undefined;
+};
@@ -0,0 +1,801 @@
+import { HttpStatusCode, IHttp, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { SETTINGS } from '../constants';
+import {
+    FieldFilter,
+    FieldParser,
+    isNumericFieldOperator,
+    isValidSourceId,
+    LabelFilter,
+    QueryLevel,
+    QueryLevelFilter,
+    resolveSearchTerms,
+    SearchTerm,
+} from '../api/logs/queryValidation';
+import { normalizeLevel, nsToIso, parseJsonPayload, readStringSetting, resolveLevel, toBase64, toEpochNs } from './logEntries';
+import {
+    LogEntry,
+    LogSourceAdapter,
+    LogSourceContext,
+    LogSourceDescriptor,
+    LogSourceError,
+    LogSourceLabelScope,
+    LogSourceQuery,
+    LogSourceQueryResult,
+    ResolvedLevel,
+} from './types';
+
+type LokiStreamResult = {
+    stream?: Record<string, string>;
+    values?: Array<[string, string]>;
+};
+
+type LokiQueryResponse = {
+    status?: string;
+    error?: string;
+    errorType?: string;
+    data?: {
+        resultType?: string;
+        result?: Array<LokiStreamResult>;
+    };
+};
+
+type LokiMatrixResult = {
+    metric?: Record<string, string>;
+    values?: Array<[number | string, string]>;
+};
+
+type LokiMatrixResponse = {
+    status?: string;
+    data?: {
+        resultType?: string;
+        result?: Array<LokiMatrixResult>;
+    };
+};
+
+type LokiLabelsResponse = {
+    status?: string;
+    data?: Array<string>;
+};
+
+export type LokiLabelsQuery = {
+    start: Date;
+    end: Date;
+    // Label whose values are listed; omit to list label names.
+    name?: string;
+    source?: string;
+    timeoutMs: number;
+};
+
+export type LokiLabelsResult =
+    | { values: Array<string>; source: string; tenant?: string; labelScope: LogSourceLabelScope }
+    | LogSourceError;
+
+export type LokiHistogramQuery = {
+    start: Date;
+    end: Date;
+    stepSeconds: number;
+    levels?: Array<QueryLevelFilter>;
+    search?: string;
+    labels?: Array<LabelFilter>;
+    parser?: FieldParser;
+    fields?: Array<FieldFilter>;
+    source?: string;
+    timeoutMs: number;
+};
+
+// One series per normalized level; each point counts lines in the `stepSeconds` window ending at `timestampMs`.
+export type LokiHistogramSeries = {
+    level: ResolvedLevel;
+    points: Array<{ timestampMs: number; count: number }>;
+};
+
+export type LokiHistogramResult =
+    | { series: Array<LokiHistogramSeries>; query: string; source: string; tenant?: string; labelScope: LogSourceLabelScope }
+    | LogSourceError;
+
+type LokiSourceDefinition = LogSourceDescriptor & {
+    baseUrl: string;
+    username: string;
+    token: string;
+    selector: string;
+    tenantId: string;
+};
+
+type LokiTenantRoleMapping = {
+    role: string;
+    tenant: string;
+};
+
+type LokiRoleSelectorMapping = {
+    role: string;
+    // Empty means the role is explicitly unrestricted beyond the source selector.
+    selector: string;
+};
+
+type LokiSourcesConfig = {
+    sources: Array<LokiSourceDefinition>;
+    tenantRoleMap: Array<LokiTenantRoleMapping>;
+    roleSelectorMap: Array<LokiRoleSelectorMapping>;
+    issues: Array<string>;
+};
+
+// Per-user restrictions layered on top of a source's own configuration.
+type LokiAccessScope = {
+    tenant?: string;
+    labelScope: LogSourceLabelScope;
+};
+
+const BASE_URL_MISSING = 'Loki base URL is not configured.';
+const SELECTOR_INVALID = 'Required label selector is invalid. Expected format like {job="rocketchat"} with no pipelines.';
+const TENANT_INVALID = "Loki tenant ID is invalid. Use letters, digits, and !-_.*'() characters; join several tenants with |.";
+const DEFAULT_SOURCE_ID = 'default';
+// Loki tenant IDs are at most 150 bytes from a restricted charset; `|` joins tenants for cross-tenant queries.
+const TENANT_ID_PATTERN = /^[A-Za-z0-9!_.*'()-]{1,150}(\|[A-Za-z0-9!_.*'()-]{1,150})*$/;
+const MAX_NAMED_SOURCES = 20;
+
+export const lokiLogSource: LogSourceAdapter = {
+    mode: 'loki',
+    capabilities: {
+        requiresRequestAuth: false,
+        supportsQuickSample: true,
+        supportsForwardQuery: true,
+    },
+    checkReadiness: async (read) => {
+        const config = await readLokiSources(read);
+        const issues = [...config.issues];
+        for (const source of config.sources) {
+            // The implicit default source keeps the original single-Loki messages.
+            const prefix = source.id === DEFAULT_SOURCE_ID ? '' : `Loki source "${source.id}": `;
+            if (!source.baseUrl) {
+                issues.push(`${prefix}${BASE_URL_MISSING}`);
+            }
+            if (!isValidSelector(source.selector)) {
+                issues.push(`${prefix}Required label selector is invalid. Use a plain selector like {job="rocketchat"} with no pipelines.`);
+            }
+            if (source.tenantId && !isValidTenantId(source.tenantId)) {
+                issues.push(`${prefix}${TENANT_INVALID}`);
+            }
+        }
+        return issues;
+    },
+    query: async (context, query) => {
+        const config = await readLokiSources(context.read);
+        const source = findLokiSource(config, query.source);
+        if ('error' in source) {
+            return source;
+        }
+
+        return queryLokiSource(context.http, source, resolveAccessScope(config, source, context.userRoles), query);
+    },
+    listSources: async (read) => {
+        const config = await readLokiSources(read);
+        return config.sources.map(({ id, name, maxTimeWindowHours, maxLinesPerQuery }) => ({ id, name, maxTimeWindowHours, maxLinesPerQuery }));
+    },
+};
+
+/**
+ * Returns the tenant and label scope a user's Loki requests are restricted to.
+ *
+ * Role maps are evaluated in admin-defined order and the first entry matching one of the user's roles wins.
+ * Without a tenant match the source's own tenant (or `loki_tenant_id` for the default source) applies; without
+ * a selector match the user sees everything the source selector allows.
+ */
+export const resolveLokiAccessScope = async (
+    read: IRead,
+    userRoles: Array<string>,
+    sourceId?: string,
+): Promise<{ tenantId?: string; labelScope?: LogSourceLabelScope }> => {
+    const config = await readLokiSources(read);
+    const source = sourceId ? config.sources.find((candidate) => candidate.id === sourceId) : config.sources[0];
+    if (!source || !isValidSelector(source.selector)) {
+        return {};
+    }
+
+    const access = resolveAccessScope(config, source, userRoles);
+    return { tenantId: access.tenant, labelScope: access.labelScope };
+};
+
+/**
+ * Returns the label scope a user's Loki requests are restricted to on every configured source, keyed by source id.
+ * Role maps are shared, but each source combines them with its own base selector.
+ */
+export const resolveLokiLabelScopes = async (read: IRead, userRoles: Array<string>): Promise<Record<string, LogSourceLabelScope>> => {
+    const config = await readLokiSources(read);
+    const scopes: Record<string, LogSourceLabelScope> = {};
+    for (const source of config.sources) {
+        if (isValidSelector(source.selector)) {
+            scopes[source.id] = resolveAccessScope(config, source, userRoles).labelScope;
+        }
+    }
+    return scopes;
+};
+
+/**
+ * Lists label names, or the values of one label, for streams visible to the user.
+ *
+ * The effective role-scoped selector is passed as Loki's `query` parameter, so discovery never
+ * reveals labels from streams the user could not query.
+ */
+export const listLokiLabels = async (context: LogSourceContext, query: LokiLabelsQuery): Promise<LokiLabelsResult> => {
+    const config = await readLokiSources(context.read);
+    const source = findLokiSource(config, query.source);
+    if ('error' in source) {
+        return source;
+    }
+
+    const { tenant, labelScope } = resolveAccessScope(config, source, context.userRoles);
+    const configError = checkLokiSourceConfig(source, tenant);
+    if (configError) {
+        return configError;
+    }
+
+    const lokiResponse = await requestLoki<LokiLabelsResponse>(context.http, source, tenant, {
+        path: query.name ? `label/${encodeURIComponent(query.name)}/values` : 'labels',
+        params: {
+            query: labelScope.selector,
+            start: toEpochNs(query.start),
+            end: toEpochNs(query.end),
+        },
+        timeoutMs: query.timeoutMs,
+    });
+    if ('error' in lokiResponse) {
+        return {
+            error: lokiResponse.error,
+            details: lokiResponse.details,
+            status: HttpStatusCode.BAD_GATEWAY,
+            tenant,
+            labelScope,
+        };
+    }
+
+    const values = Array.isArray(lokiResponse.payload.data)
+        ? lokiResponse.payload.data.filter((value): value is string => typeof value === 'string')
+        : [];
+    return { values, source: source.id, tenant, labelScope };
+};
+
+/**
+ * Counts matching lines per level over fixed steps with a server-built
+ * `sum by (level) (count_over_time(<logql> [step]))` metric query.
+ *
+ * Streams without a `level` label are reported as `unknown`.
+ */
+export const queryLokiHistogram = async (context: LogSourceContext, query: LokiHistogramQuery): Promise<LokiHistogramResult> => {
+    const config = await readLokiSources(context.read);
+    const source = findLokiSource(config, query.source);
+    if ('error' in source) {
+        return source;
+    }
+
+    const { tenant, labelScope } = resolveAccessScope(config, source, context.userRoles);
+    const configError = checkLokiSourceConfig(source, tenant);
+    if (configError) {
+        return configError;
+    }
+
+    const metricQuery = buildLevelHistogramLogQl(buildLogQl(labelScope.selector, query.search, query.levels, query.labels, query.parser, query.fields), query.stepSeconds);
+    const lokiResponse = await requestLoki<LokiMatrixResponse>(context.http, source, tenant, {
+        path: 'query_range',
+        params: {
+            query: metricQuery,
+            start: toEpochNs(query.start),
+            end: toEpochNs(query.end),
+            step: `${query.stepSeconds}s`,
+        },
+        timeoutMs: query.timeoutMs,
+    });
+    if ('error' in lokiResponse) {
+        return {
+            error: lokiResponse.error,
+            details: lokiResponse.details,
+            status: HttpStatusCode.BAD_GATEWAY,
+            tenant,
+            labelScope,
+        };
+    }
+
+    return {
+        series: flattenMatrix(lokiResponse.payload.data?.result || []),
+        query: metricQuery,
+        source: source.id,
+        tenant,
+        labelScope,
+    };
+};
+
+export const buildLevelHistogramLogQl = (logQl: string, stepSeconds: number): string =>
+    `sum by (level) (count_over_time(${logQl} [${stepSeconds}s]))`;
+
+export const isValidSelector = (selector: string): boolean => {
+    if (!selector) {
+        return false;
+    }
+    if (!selector.startsWith('{') || !selector.endsWith('}')) {
+        return false;
+    }
+    if (selector.includes('|') || selector.includes('\n') || selector.includes('\r')) {
+        return false;
+    }
+    return true;
+};
+
+export const buildLogQl = (
+    selector: string,
+    search?: string,
+    levels: Array<QueryLevelFilter> = [],
+    labels: Array<LabelFilter> = [],
+    parser?: FieldParser,
+    fields: Array<FieldFilter> = [],
+): string => {
+    const scopedSelector = labels.length > 0 ? appendLabelMatchers(selector, labels) : selector;
+    const withSearch = `${scopedSelector}${resolveSearchTerms(search).map(buildSearchLineFilter).join('')}`;
+    const withLevel = levels.length > 0 ? `${withSearch}${buildLevelLineFilter(levels)}` : withSearch;
+    return parser && fields.length > 0 ? `${withLevel}${buildFieldFilterStages(parser, fields)}` : withLevel;
+};
+
+const SEARCH_LINE_FILTERS: Record<SearchTerm['kind'], string> = {
+    include: '|=',
+    exclude: '!=',
+    regex: '|~',
+    exclude_regex: '!~',
+};
+
+const buildSearchLineFilter = (term: SearchTerm): string => {
+    const value = term.ignoreCase ? `(?i)${term.value}` : term.value;
+    return ` ${SEARCH_LINE_FILTERS[term.kind]} "${escapeLogQlString(value).replace(/\n/g, ' ')}"`;
+};
+
+const FIELD_LABEL_PREFIX = 'viewer_field_';
+
+const FIELD_FILTER_OPERATORS: Record<FieldFilter['op'], string> = {
+    eq: '=',
+    neq: '!=',
+    regex: '=~',
+    gt: '>',
+    gte: '>=',
+    lt: '<',
+    lte: '<=',
+};
+
+// Only the filtered fields are extracted, under prefixed aliases, so Loki does not split results into one
+// stream per distinct JSON payload; the aliases are stripped from returned labels. Lines that fail to parse
+// or compare are dropped through `__error__`.
+const buildFieldFilterStages = (parser: FieldParser, fields: Array<FieldFilter>): string => {
+    const names = Array.from(new Set(fields.map((filter) => filter.name)));
+    const extraction = names.map((name, index) => `${FIELD_LABEL_PREFIX}${index}="${name}"`).join(', ');
+    const filters = fields.map((filter) => {
+        const alias = `${FIELD_LABEL_PREFIX}${names.indexOf(filter.name)}`;
+        const value = isNumericFieldOperator(filter.op) ? filter.value : `"${escapeLogQlString(filter.value).replace(/\n/g, '\\n')}"`;
+        return ` | ${alias}${FIELD_FILTER_OPERATORS[filter.op]}${value}`;
+    });
+    return ` | ${parser} ${extraction}${filters.join('')} | __error__=""`;
+};
+
+const LABEL_MATCHER_OPERATORS: Record<LabelFilter['op'], string> = {
+    eq: '=',
+    neq: '!=',
+    regex: '=~',
+};
+
+const escapeLogQlString = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+// Filters become extra stream matchers, so they can only narrow what the server-built selector already allows.
+const appendLabelMatchers = (selector: string, labels: Array<LabelFilter>): string => {
+    const matchers = labels.map((filter) => `${filter.name}${LABEL_MATCHER_OPERATORS[filter.op]}"${escapeLogQlString(filter.value).replace(/\n/g, '\\n')}"`);
+    return combineSelectors(selector, `{${matchers.join(',')}}`);
+};
+
+// Same keywords as the message fallback in resolveLevel.
+const LEVEL_KEYWORDS: Record<QueryLevel, Array<string>> = {
+    error: ['error', 'err', 'fatal', 'panic', 'exception'],
+    warn: ['warn', 'warning'],
+    info: ['info', 'information'],
+    debug: ['debug', 'trace', 'verbose'],
+};
+
+// A line classified `unknown` contains none of the keywords, so `unknown` alone becomes a negative filter. Mixed
+// with other levels no single line filter fits, and the endpoint's level check does all the narrowing.
+const buildLevelLineFilter = (levels: Array<QueryLevelFilter>): string => {
+    const known = levels.filter((level): level is QueryLevel => level !== 'unknown');
+    if (known.length === levels.length) {
+        return ` |~ "(?i)${buildKeywordRegex(known)}"`;
+    }
+    if (known.length === 0) {
+        return ` !~ "(?i)${buildKeywordRegex(Object.keys(LEVEL_KEYWORDS) as Array<QueryLevel>)}"`;
+    }
+    return '';
+};
+
+const buildKeywordRegex = (levels: Array<QueryLevel>): string =>
+    `\\\\b(${levels.flatMap((level) => LEVEL_KEYWORDS[level]).join('|')})\\\\b`;
+
+const findLokiSource = (config: LokiSourcesConfig, sourceId?: string): LokiSourceDefinition | LogSourceError => {
+    const source = sourceId ? config.sources.find((candidate) => candidate.id === sourceId) : config.sources[0];
+    if (source) {
+        return source;
+    }
+
+    return {
+        error: 'Unknown Loki source.',
+        status: HttpStatusCode.BAD_REQUEST,
+        details: {
+            sourceMode: 'loki',
+            source: sourceId,
+            available: config.sources.map((candidate) => candidate.id),
+        },
+    };
+};
+
+/**
+ * Resolves the Loki sources available to queries.
+ *
+ * The legacy single-Loki settings form the implicit `default` source; `loki_sources` adds named
+ * sources as a JSON array of `{ id, name, baseUrl, username, token, selector, tenantId, maxTimeWindowHours, maxLinesPerQuery }`.
+ */
+const readLokiSources = async (read: IRead): Promise<LokiSourcesConfig> => {
+    const settingsReader = read.getEnvironmentReader().getSettings();
+    const [baseUrl, username, token, selector, tenantId, tenantRoleMapRaw, roleSelectorMapRaw, namedSourcesRaw] = await Promise.all([
+        settingsReader.getValueById(SETTINGS.LOKI_BASE_URL),
+        settingsReader.getValueById(SETTINGS.LOKI_USERNAME),
+        settingsReader.getValueById(SETTINGS.LOKI_TOKEN),
+        settingsReader.getValueById(SETTINGS.REQUIRED_LABEL_SELECTOR),
+        settingsReader.getValueById(SETTINGS.LOKI_TENANT_ID),
+        settingsReader.getValueById(SETTINGS.LOKI_TENANT_ROLE_MAP),
+        settingsReader.getValueById(SETTINGS.LOKI_ROLE_SELECTOR_MAP),
+        settingsReader.getValueById(SETTINGS.LOKI_SOURCES),
+    ]);
+
+    const tenantRoleMap = parseTenantRoleMap(tenantRoleMapRaw);
+    const roleSelectorMap = parseRoleSelectorMap(roleSelectorMapRaw);
+    const named = parseNamedLokiSources(namedSourcesRaw);
+    const issues = [...tenantRoleMap.issues, ...roleSelectorMap.issues, ...named.issues];
+    const roleMaps = { tenantRoleMap: tenantRoleMap.mappings, roleSelectorMap: roleSelectorMap.mappings };
+    const defaultSource: LokiSourceDefinition = {
+        id: DEFAULT_SOURCE_ID,
+        name: 'Default',
+        baseUrl: readStringSetting(baseUrl),
+        username: readStringSetting(username),
+        token: readStringSetting(token),
+        selector: readStringSetting(selector),
+        tenantId: readStringSetting(tenantId),
+    };
+
+    // Without named sources the legacy settings are the only source, configured or not.
+    if (named.sources.length === 0) {
+        return { sources: [defaultSource], ...roleMaps, issues };
+    }
+
+    const sources = defaultSource.baseUrl && !named.sources.some((source) => source.id === DEFAULT_SOURCE_ID)
+        ? [defaultSource, ...named.sources]
+        : named.sources;
+    return { sources, ...roleMaps, issues };
+};
+
+const isValidTenantId = (tenant: string): boolean => TENANT_ID_PATTERN.test(tenant) && tenant !== '.' && tenant !== '..';
+
+// Parses `role=tenant` pairs separated by commas or newlines, keeping the admin-defined order as precedence.
+const parseTenantRoleMap = (raw: unknown): { mappings: Array<LokiTenantRoleMapping>; issues: Array<string> } => {
+    const mappings: Array<LokiTenantRoleMapping> = [];
+    const issues: Array<string> = [];
+    for (const pair of readStringSetting(raw).split(/[,\n]/)) {
+        const trimmed = pair.trim();
+        if (!trimmed) {
+            continue;
+        }
+
+        const separator = trimmed.indexOf('=');
+        const role = separator > 0 ? trimmed.slice(0, separator).trim() : '';
+        const tenant = separator > 0 ? trimmed.slice(separator + 1).trim() : '';
+        if (!role || !isValidTenantId(tenant)) {
+            issues.push(`Loki tenant role mapping "${trimmed.slice(0, 80)}" is invalid. Use role=tenant pairs separated by commas.`);
+            continue;
+        }
+        mappings.push({ role, tenant });
+    }
+
+    return { mappings, issues };
+};
+
+// Parses one `role={selector}` pair per line; `role=*` marks a role as unrestricted so it can precede narrower roles.
+const parseRoleSelectorMap = (raw: unknown): { mappings: Array<LokiRoleSelectorMapping>; issues: Array<string> } => {
+    const mappings: Array<LokiRoleSelectorMapping> = [];
+    const issues: Array<string> = [];
+    for (const line of readStringSetting(raw).split('\n')) {
+        const trimmed = line.trim();
+        if (!trimmed) {
+            continue;
+        }
+
+        const separator = trimmed.indexOf('=');
+        const role = separator > 0 ? trimmed.slice(0, separator).trim() : '';
+        const selector = separator > 0 ? trimmed.slice(separator + 1).trim() : '';
+        if (!role || (selector !== '*' && (!isValidSelector(selector) || !selectorMatchers(selector)))) {
+            issues.push(`Loki role selector mapping "${trimmed.slice(0, 80)}" is invalid. Use one role={label="value"} pair per line.`);
+            continue;
+        }
+        mappings.push({ role, selector: selector === '*' ? '' : selector });
+    }
+
+    return { mappings, issues };
+};
+
+const resolveAccessScope = (config: LokiSourcesConfig, source: LokiSourceDefinition, userRoles: Array<string> = []): LokiAccessScope => {
+    const tenantMapping = config.tenantRoleMap.find((mapping) => userRoles.includes(mapping.role));
+    const selectorMapping = config.roleSelectorMap.find((mapping) => userRoles.includes(mapping.role));
+    return {
+        tenant: tenantMapping?.tenant || source.tenantId || undefined,
+        labelScope: {
+            role: selectorMapping?.role || null,
+            selector: selectorMapping?.selector ? combineSelectors(source.selector, selectorMapping.selector) : source.selector,
+        },
+    };
+};
+
+const selectorMatchers = (selector: string): string => selector.slice(1, -1).trim().replace(/,\s*$/, '');
+
+// Matchers are ANDed in LogQL, so merging keeps the base selector as an upper bound on what a role can see.
+const combineSelectors = (base: string, scope: string): string => {
+    const matchers = [selectorMatchers(base), selectorMatchers(scope)].filter(Boolean);
+    return `{${matchers.join(',')}}`;
+};
+
+const parseNamedLokiSources = (raw: unknown): Pick<LokiSourcesConfig, 'sources' | 'issues'> => {
+    const text = readStringSetting(raw);
+    if (!text) {
+        return { sources: [], issues: [] };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        return { sources: [], issues: ['Loki sources setting is not valid JSON. Expected an array of source objects.'] };
+    }
+    if (!Array.isArray(parsed)) {
+        return { sources: [], issues: ['Loki sources setting must be a JSON array of source objects.'] };
+    }
+
+    const sources: Array<LokiSourceDefinition> = [];
+    const issues: Array<string> = [];
+    for (const [index, candidate] of parsed.slice(0, MAX_NAMED_SOURCES).entries()) {
+        const record = candidate && typeof candidate === 'object' && !Array.isArray(candidate) ? (candidate as Record<string, unknown>) : {};
+        const id = readStringSetting(record.id).toLowerCase();
+        if (!isValidSourceId(id)) {
+            issues.push(`Loki source #${index + 1} has an invalid id. Use lowercase letters, digits, dashes, or underscores.`);
+            continue;
+        }
+        if (sources.some((source) => source.id === id)) {
+            issues.push(`Loki source "${id}" is defined more than once; only the first definition is used.`);
+            continue;
+        }
+
+        sources.push({
+            id,
+            name: readStringSetting(record.name).slice(0, 80) || id,
+            baseUrl: readStringSetting(record.baseUrl),
+            username: readStringSetting(record.username),
+            token: readStringSetting(record.token),
+            selector: readStringSetting(record.selector),
+            tenantId: readStringSetting(record.tenantId),
+            maxTimeWindowHours: readOptionalLimit(record.maxTimeWindowHours, 1, 168),
+            maxLinesPerQuery: readOptionalLimit(record.maxLinesPerQuery, 100, 5000),
+        });
+    }
+    if (parsed.length > MAX_NAMED_SOURCES) {
+        issues.push(`Only the first ${MAX_NAMED_SOURCES} Loki sources are used.`);
+    }
+
+    return { sources, issues };
+};
+
+const readOptionalLimit = (value: unknown, min: number, max: number): number | undefined => {
+    const parsed = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+    if (!Number.isFinite(parsed)) {
+        return undefined;
+    }
+    return Math.min(max, Math.max(min, Math.floor(parsed)));
+};
+
+const queryLokiSource = async (
+    http: IHttp,
+    settings: LokiSourceDefinition,
+    access: LokiAccessScope,
+    query: LogSourceQuery,
+): Promise<LogSourceQueryResult> => {
+    const { tenant, labelScope } = access;
+    const configError = checkLokiSourceConfig(settings, tenant);
+    if (configError) {
+        return configError;
+    }
+
+    const logQlQuery = buildLogQl(labelScope.selector, query.search, query.levels, query.labels, query.parser, query.fields);
+    const lokiResponse = await requestLoki<LokiQueryResponse>(http, settings, tenant, {
+        path: 'query_range',
+        params: {
+            query: logQlQuery,
+            start: toEpochNs(query.start),
+            end: toEpochNs(query.end),
+            limit: String(query.limit),
+            direction: query.direction || 'backward',
+        },
+        timeoutMs: query.timeoutMs,
+    });
+    if ('error' in lokiResponse) {
+        return {
+            error: lokiResponse.error,
+            details: lokiResponse.details,
+            status: HttpStatusCode.BAD_GATEWAY,
+            tenant,
+            labelScope,
+        };
+    }
+
+    return {
+        entries: flattenResults(lokiResponse.payload.data?.result || []),
+        query: logQlQuery,
+        source: settings.id,
+        tenant,
+        labelScope,
+    };
+};
+
+const checkLokiSourceConfig = (settings: LokiSourceDefinition, tenant?: string): LogSourceError | undefined => {
+    if (!settings.baseUrl) {
+        return {
+            error: BASE_URL_MISSING,
+            status: HttpStatusCode.BAD_REQUEST,
+            details: {
+                sourceMode: 'loki',
+                source: settings.id,
+                setting: settings.id === DEFAULT_SOURCE_ID ? SETTINGS.LOKI_BASE_URL : SETTINGS.LOKI_SOURCES,
+                hint: 'Set loki_base_url to your Loki endpoint origin (for example https://observability.example.com).',
+            },
+        };
+    }
+
+    if (!isValidSelector(settings.selector)) {
+        return {
+            error: SELECTOR_INVALID,
+            status: HttpStatusCode.BAD_REQUEST,
+            details: {
+                sourceMode: 'loki',
+                source: settings.id,
+                setting: settings.id === DEFAULT_SOURCE_ID ? SETTINGS.REQUIRED_LABEL_SELECTOR : SETTINGS.LOKI_SOURCES,
+                hint: 'Use a plain selector like {job="rocketchat"} and do not include LogQL pipelines.',
+            },
+        };
+    }
+
+    if (tenant && !isValidTenantId(tenant)) {
+        return {
+            error: TENANT_INVALID,
+            status: HttpStatusCode.BAD_REQUEST,
+            details: {
+                sourceMode: 'loki',
+                source: settings.id,
+                setting: settings.id === DEFAULT_SOURCE_ID ? SETTINGS.LOKI_TENANT_ID : SETTINGS.LOKI_SOURCES,
+            },
+        };
+    }
+
+    return undefined;
+};
+
+// Issues a GET against `/loki/api/v1/<path>` with the source credentials and tenant header.
+const requestLoki = async <T extends { status?: string }>(
+    http: IHttp,
+    settings: LokiSourceDefinition,
+    tenant: string | undefined,
+    args: {
+        path: string;
+        params: Record<string, string>;
+        timeoutMs: number;
+    },
+): Promise<{ payload: T } | { error: string; details?: unknown }> => {
+    const headers: Record<string, string> = {
+        Accept: 'application/json',
+    };
+
+    if (settings.username && settings.token) {
+        headers.Authorization = `Basic ${toBase64(`${settings.username}:${settings.token}`)}`;
+    } else if (settings.token) {
+        headers.Authorization = `Bearer ${settings.token}`;
+    }
+    if (tenant) {
+        headers['X-Scope-OrgID'] = tenant;
+    }
+
+    const url = `${settings.baseUrl.replace(/\/+$/, '')}/loki/api/v1/${args.path}`;
+    const response = await http.get(url, {
+        headers,
+        params: args.params,
+        timeout: args.timeoutMs,
+    });
+
+    const parsed = parseJsonPayload<T>(response, 'Loki');
+    if ('error' in parsed) {
+        return parsed;
+    }
+
+    if (response.statusCode >= 400) {
+        return {
+            error: 'Loki returned an error response.',
+            details: {
+                statusCode: response.statusCode,
+                payload: parsed.payload,
+            },
+        };
+    }
+
+    if (parsed.payload.status !== 'success') {
+        return {
+            error: 'Loki query did not return success status.',
+            details: parsed.payload,
+        };
+    }
+
+    return parsed;
+};
+
+const omitFieldLabels = (labels: Record<string, string>): Record<string, string> => {
+    if (!Object.keys(labels).some((name) => name.startsWith(FIELD_LABEL_PREFIX) || name === '__error__')) {
+        return labels;
+    }
+    return Object.fromEntries(Object.entries(labels).filter(([name]) => !name.startsWith(FIELD_LABEL_PREFIX) && name !== '__error__'));
+};
+
+const flattenResults = (results: Array<LokiStreamResult>): Array<LogEntry> => {
+    const entries: Array<LogEntry> = [];
+    for (const result of results) {
+        const labels = omitFieldLabels(result.stream || {});
+        const values = result.values || [];
+
+        for (const value of values) {
+            if (!Array.isArray(value) || value.length < 2) {
+                continue;
+            }
+
+            const rawTimestampNs = String(value[0]);
+            const message = String(value[1]);
+            entries.push({
+                timestamp: nsToIso(rawTimestampNs),
+                rawTimestampNs,
+                level: resolveLevel(labels, message),
+                message,
+                labels,
+            });
+        }
+    }
+
+    return entries;
+};
+
+// Series whose levels normalize to the same value (for example `ERROR` and `err`) are merged.
+const flattenMatrix = (results: Array<LokiMatrixResult>): Array<LokiHistogramSeries> => {
+    const byLevel = new Map<ResolvedLevel, Map<number, number>>();
+    for (const result of results) {
+        const level = normalizeLevel(result.metric?.level) || 'unknown';
+        const points = byLevel.get(level) || new Map<number, number>();
+        for (const value of result.values || []) {
+            if (!Array.isArray(value) || value.length < 2) {
+                continue;
+            }
+
+            const timestampMs = Math.round(Number(value[0]) * 1000);
+            const count = Number(value[1]);
+            if (!Number.isFinite(timestampMs) || !Number.isFinite(count)) {
+                continue;
+            }
+            points.set(timestampMs, (points.get(timestampMs) || 0) + count);
+        }
+        byLevel.set(level, points);
+    }
+
+    return Array.from(byLevel.entries()).map(([level, points]) => ({
+        level,
+        points: Array.from(points.entries())
+            .sort((a, b) => a[0] - b[0])
+            .map(([timestampMs, count]) => ({ timestampMs, count })),
+    }));
+};
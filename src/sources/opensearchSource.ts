@@ -0,0 +1,281 @@
+import { HttpStatusCode, IHttp, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { SETTINGS } from '../constants';
+import { QueryLevel, resolveSearchTerms } from '../api/logs/queryValidation';
+import { buildSearchMatcher, parseEntryTimestamp, parseJsonPayload, readStringSetting, resolveLevel, toBase64 } from './logEntries';
+import { LogEntry, LogSourceAdapter, LogSourceQuery, LogSourceQueryResult } from './types';
+
+type OpenSearchHit = {
+    _index?: string;
+    _id?: string;
+    _source?: Record<string, unknown>;
+};
+
+type OpenSearchResponse = {
+    timed_out?: boolean;
+    error?: unknown;
+    hits?: {
+        hits?: Array<OpenSearchHit>;
+    };
+};
+
+type OpenSearchSettings = {
+    url: string;
+    indexPattern: string;
+    username: string;
+    token: string;
+    timestampField: string;
+    messageField: string;
+};
+
+const URL_MISSING = 'OpenSearch URL is not configured.';
+const INDEX_PATTERN_INVALID = 'OpenSearch index pattern is invalid. Use a pattern like logs-rocketchat-* with no spaces or slashes.';
+const FIELD_NAME_INVALID = 'OpenSearch timestamp and message field names must be plain field paths like @timestamp or log.message.';
+// Level aliases mirror the Loki level regex so every source narrows the same way before post-filtering.
+const LEVEL_TERMS: Record<QueryLevel, Array<string>> = {
+    error: ['error', 'err', 'fatal', 'panic', 'exception'],
+    warn: ['warn', 'warning'],
+    info: ['info', 'information'],
+    debug: ['debug', 'trace', 'verbose'],
+};
+const LEVEL_FIELDS = ['level', 'log.level', 'severity'];
+const MAX_LABELS_PER_ENTRY = 24;
+
+export const opensearchLogSource: LogSourceAdapter = {
+    mode: 'opensearch',
+    capabilities: {
+        requiresRequestAuth: false,
+        supportsQuickSample: true,
+        supportsForwardQuery: true,
+    },
+    checkReadiness: async (read) => {
+        const settings = await readOpenSearchSettings(read);
+        const issues: Array<string> = [];
+        if (!settings.url) {
+            issues.push(URL_MISSING);
+        }
+        if (!isValidIndexPattern(settings.indexPattern)) {
+            issues.push(INDEX_PATTERN_INVALID);
+        }
+        if (!isValidFieldName(settings.timestampField) || !isValidFieldName(settings.messageField)) {
+            issues.push(FIELD_NAME_INVALID);
+        }
+        return issues;
+    },
+    query: async (context, query) => {
+        const settings = await readOpenSearchSettings(context.read);
+        return queryOpenSearchSource(context.http, settings, query);
+    },
+};
+
+const readOpenSearchSettings = async (read: IRead): Promise<OpenSearchSettings> => {
+    const settingsReader = read.getEnvironmentReader().getSettings();
+    const [url, indexPattern, username, token, timestampField, messageField] = await Promise.all([
+        settingsReader.getValueById(SETTINGS.OPENSEARCH_URL),
+        settingsReader.getValueById(SETTINGS.OPENSEARCH_INDEX_PATTERN),
+        settingsReader.getValueById(SETTINGS.OPENSEARCH_USERNAME),
+        settingsReader.getValueById(SETTINGS.OPENSEARCH_TOKEN),
+        settingsReader.getValueById(SETTINGS.OPENSEARCH_TIMESTAMP_FIELD),
+        settingsReader.getValueById(SETTINGS.OPENSEARCH_MESSAGE_FIELD),
+    ]);
+
+    return {
+        url: readStringSetting(url),
+        indexPattern: readStringSetting(indexPattern),
+        username: readStringSetting(username),
+        token: readStringSetting(token),
+        timestampField: readStringSetting(timestampField) || '@timestamp',
+        messageField: readStringSetting(messageField) || 'message',
+    };
+};
+
+const isValidIndexPattern = (indexPattern: string): boolean => /^[a-z0-9*][a-z0-9*_.,+-]*$/i.test(indexPattern);
+
+const isValidFieldName = (field: string): boolean => /^[@a-z_][a-z0-9@_.-]*$/i.test(field);
+
+export const buildOpenSearchQuery = (
+    settings: Pick<OpenSearchSettings, 'timestampField' | 'messageField'>,
+    query: Pick<LogSourceQuery, 'start' | 'end' | 'limit' | 'levels' | 'search' | 'direction'>,
+): Record<string, unknown> => {
+    const filter: Array<Record<string, unknown>> = [
+        {
+            range: {
+                [settings.timestampField]: {
+                    gte: query.start.toISOString(),
+                    lte: query.end.toISOString(),
+                    format: 'strict_date_optional_time',
+                },
+            },
+        },
+    ];
+
+    // Words and phrases become phrase queries; regex clauses are applied to the returned hits instead, because
+    // OpenSearch `regexp` queries match single analyzed terms rather than the whole message.
+    const mustNot: Array<Record<string, unknown>> = [];
+    for (const term of resolveSearchTerms(query.search)) {
+        if (term.kind === 'include') {
+            filter.push({ match_phrase: { [settings.messageField]: term.value } });
+        } else if (term.kind === 'exclude') {
+            mustNot.push({ match_phrase: { [settings.messageField]: term.value } });
+        }
+    }
+
+    // `unknown` has no terms to match, so selections that include it are narrowed by the endpoint alone.
+    if (query.levels && !query.levels.includes('unknown')) {
+        const terms = (query.levels as Array<QueryLevel>).flatMap((level) => LEVEL_TERMS[level]);
+        // Keyword-mapped level fields match case-sensitively, so `ERROR` and `Warning` need their own terms.
+        const fieldTerms = terms.flatMap((term) => [term, term.toUpperCase(), `${term[0].toUpperCase()}${term.slice(1)}`]);
+        filter.push({
+            bool: {
+                should: [
+                    ...LEVEL_FIELDS.map((field) => ({ terms: { [field]: fieldTerms } })),
+                    { match: { [settings.messageField]: terms.join(' ') } },
+                ],
+                minimum_should_match: 1,
+            },
+        });
+    }
+
+    return {
+        size: query.limit,
+        sort: [{ [settings.timestampField]: { order: query.direction === 'forward' ? 'asc' : 'desc' } }],
+        query: {
+            bool: mustNot.length > 0 ? { filter, must_not: mustNot } : { filter },
+        },
+    };
+};
+
+const queryOpenSearchSource = async (
+    http: IHttp,
+    settings: OpenSearchSettings,
+    query: LogSourceQuery,
+): Promise<LogSourceQueryResult> => {
+    if (!settings.url) {
+        return {
+            error: URL_MISSING,
+            status: HttpStatusCode.BAD_REQUEST,
+            details: {
+                sourceMode: 'opensearch',
+                setting: SETTINGS.OPENSEARCH_URL,
+                hint: 'Set opensearch_url to your OpenSearch/Elasticsearch origin (for example https://search.example.com:9200).',
+            },
+        };
+    }
+
+    if (!isValidIndexPattern(settings.indexPattern)) {
+        return {
+            error: INDEX_PATTERN_INVALID,
+            status: HttpStatusCode.BAD_REQUEST,
+            details: {
+                sourceMode: 'opensearch',
+                setting: SETTINGS.OPENSEARCH_INDEX_PATTERN,
+            },
+        };
+    }
+
+    if (!isValidFieldName(settings.timestampField) || !isValidFieldName(settings.messageField)) {
+        return {
+            error: FIELD_NAME_INVALID,
+            status: HttpStatusCode.BAD_REQUEST,
+            details: {
+                sourceMode: 'opensearch',
+                settings: [SETTINGS.OPENSEARCH_TIMESTAMP_FIELD, SETTINGS.OPENSEARCH_MESSAGE_FIELD],
+            },
+        };
+    }
+
+    const headers: Record<string, string> = {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+    };
+    if (settings.username && settings.token) {
+        headers.Authorization = `Basic ${toBase64(`${settings.username}:${settings.token}`)}`;
+    } else if (settings.token) {
+        headers.Authorization = `Bearer ${settings.token}`;
+    }
+
+    const body = buildOpenSearchQuery(settings, query);
+    const url = `${settings.url.replace(/\/+$/, '')}/${encodeURIComponent(settings.indexPattern)}/_search`;
+    const response = await http.post(url, {
+        headers,
+        data: body,
+        timeout: query.timeoutMs,
+    });
+
+    const parsed = parseJsonPayload<OpenSearchResponse>(response, 'OpenSearch');
+    if ('error' in parsed) {
+        return {
+            error: parsed.error,
+            details: parsed.details,
+            status: HttpStatusCode.BAD_GATEWAY,
+        };
+    }
+
+    if (response.statusCode >= 400 || parsed.payload.error) {
+        return {
+            error: 'OpenSearch returned an error response.',
+            status: HttpStatusCode.BAD_GATEWAY,
+            details: {
+                statusCode: response.statusCode,
+                payload: parsed.payload,
+            },
+        };
+    }
+
+    const regexTerms = resolveSearchTerms(query.search).filter((term) => term.kind === 'regex' || term.kind === 'exclude_regex');
+    const matchesRegexTerms = buildSearchMatcher(regexTerms);
+    return {
+        entries: flattenHits(parsed.payload.hits?.hits || [], settings).filter((entry) => matchesRegexTerms(entry.message)),
+        query: `opensearch(index="${settings.indexPattern}") ${JSON.stringify(body.query)}`,
+    };
+};
+
+const flattenHits = (hits: Array<OpenSearchHit>, settings: OpenSearchSettings): Array<LogEntry> => {
+    const entries: Array<LogEntry> = [];
+    for (const hit of hits) {
+        const source = hit._source && typeof hit._source === 'object' ? hit._source : {};
+        const fields = flattenFields(source);
+        const timestamp = parseEntryTimestamp(fields[settings.timestampField]);
+        const rawMessage = fields[settings.messageField];
+        const message = typeof rawMessage === 'string' ? rawMessage : JSON.stringify(source);
+
+        const labels: Record<string, string> = {};
+        if (hit._index) {
+            labels.index = hit._index;
+        }
+        for (const [key, value] of Object.entries(fields)) {
+            if (Object.keys(labels).length >= MAX_LABELS_PER_ENTRY) {
+                break;
+            }
+            if (key === settings.timestampField || key === settings.messageField || labels[key] !== undefined) {
+                continue;
+            }
+            labels[key] = String(value);
+        }
+
+        const levelLabel = LEVEL_FIELDS.map((field) => fields[field]).find((value) => typeof value === 'string') as string | undefined;
+        entries.push({
+            timestamp: timestamp.iso,
+            rawTimestampNs: timestamp.rawTimestampNs,
+            level: resolveLevel(levelLabel ? { ...labels, level: levelLabel } : labels, message),
+            message,
+            labels,
+        });
+    }
+
+    return entries;
+};
+
+// Flattens nested documents into dot-path scalars so ECS-style fields (log.level, host.name) become label chips.
+const flattenFields = (value: Record<string, unknown>, prefix = '', output: Record<string, string | number | boolean> = {}): Record<string, string | number | boolean> => {
+    for (const [key, nested] of Object.entries(value)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (typeof nested === 'string' || typeof nested === 'number' || typeof nested === 'boolean') {
+            output[path] = nested;
+        } else if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+            flattenFields(nested as Record<string, unknown>, path, output);
+        }
+    }
+
+    return output;
+};
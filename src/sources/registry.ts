@@ -0,0 +1,31 @@
+import { appLogsLogSource } from './appLogsSource';
+import { dockerLogSource } from './dockerSource';
+import { k8sLogsLogSource } from './k8sLogsSource';
+import { lokiLogSource } from './lokiSource';
+import { opensearchLogSource } from './opensearchSource';
+import { LogSourceAdapter, LogsSourceMode } from './types';
+
+// New backends register here; the `logs_source_mode` setting selects one by key.
+const LOG_SOURCES: Record<LogsSourceMode, LogSourceAdapter> = {
+    loki: lokiLogSource,
+    app_logs: appLogsLogSource,
+    opensearch: opensearchLogSource,
+    k8s_logs: k8sLogsLogSource,
+    docker: dockerLogSource,
+};
+
+export const DEFAULT_LOGS_SOURCE_MODE: LogsSourceMode = 'loki';
+
+export const isLogsSourceMode = (value: unknown): value is LogsSourceMode =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOG_SOURCES, value);
+
+export const parseLogsSourceMode = (rawValue: unknown): LogsSourceMode => {
+    if (typeof rawValue !== 'string') {
+        return DEFAULT_LOGS_SOURCE_MODE;
+    }
+
+    const normalized = rawValue.trim().toLowerCase();
+    return isLogsSourceMode(normalized) ? normalized : DEFAULT_LOGS_SOURCE_MODE;
+};
+
+export const resolveLogSource = (mode: LogsSourceMode): LogSourceAdapter => LOG_SOURCES[mode];
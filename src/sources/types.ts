@@ -0,0 +1,112 @@
+import { HttpStatusCode, IHttp, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { IApiRequest } from '@rocket.chat/apps-engine/definition/api';
+
+import { FieldFilter, FieldParser, LabelFilter, QueryLevel, QueryLevelFilter } from '../api/logs/queryValidation';
+
+export type LogsSourceMode = 'loki' | 'app_logs' | 'opensearch' | 'k8s_logs' | 'docker';
+
+export type ResolvedLevel = QueryLevel | 'unknown';
+
+export type LogEntry = {
+    timestamp: string;
+    rawTimestampNs: string;
+    level: ResolvedLevel;
+    message: string;
+    labels: Record<string, string>;
+    // Set by the query endpoint when a parser was requested.
+    fields?: Record<string, string>;
+    // Trace/request IDs found in the redacted line; set by the query endpoints.
+    correlationIds?: Array<CorrelationId>;
+    // Rocket.Chat rooms, users, and messages referenced by labels or JSON fields; set by the query endpoint.
+    entityRefs?: Array<EntityRef>;
+};
+
+export type CorrelationId = {
+    // Field name the ID came from, or `id` for a match of the configured pattern.
+    name: string;
+    value: string;
+};
+
+export type EntityKind = 'room' | 'user' | 'username' | 'message';
+
+export type EntityRef = {
+    kind: EntityKind;
+    // Label or field name the value came from.
+    key: string;
+    value: string;
+};
+
+export type LogSourceCapabilities = {
+    // Source needs the caller's Rocket.Chat auth headers, so it cannot run outside API requests.
+    requiresRequestAuth: boolean;
+    // Source can produce the slash-command quick triage sample.
+    supportsQuickSample: boolean;
+    // Source honours `direction: 'forward'`; tail-based APIs always return the newest lines in the window.
+    supportsForwardQuery: boolean;
+};
+
+export type LogSourceContext = {
+    http: IHttp;
+    read: IRead;
+    appId: string;
+    // Present for app API calls; slash-command sampling runs without request headers.
+    request?: IApiRequest;
+    // Roles of the acting user; sources may use them to scope upstream access (for example Loki tenants).
+    userRoles?: Array<string>;
+};
+
+// A named backend instance within one source mode (for example prod vs staging Loki).
+export type LogSourceDescriptor = {
+    id: string;
+    name: string;
+    maxTimeWindowHours?: number;
+    maxLinesPerQuery?: number;
+};
+
+export type LogSourceQuery = {
+    start: Date;
+    end: Date;
+    limit: number;
+    // Any of these levels; adapters narrow upstream where they can and the endpoint re-applies the set.
+    levels?: Array<QueryLevelFilter>;
+    search?: string;
+    // Named source id; adapters fall back to their first source when omitted.
+    source?: string;
+    // Allow-listed label filters; adapters push them upstream where possible and the endpoint re-applies them.
+    labels?: Array<LabelFilter>;
+    // Field filters with the parser that extracts them; pushed upstream where possible and re-applied by the endpoint.
+    parser?: FieldParser;
+    fields?: Array<FieldFilter>;
+    // Which end of the window a full batch keeps: `backward` (default) keeps the newest lines, `forward` the oldest.
+    direction?: 'backward' | 'forward';
+    timeoutMs: number;
+};
+
+// Effective stream selector after role-based scoping; `role` is the mapping that applied, if any.
+export type LogSourceLabelScope = {
+    role: string | null;
+    selector: string;
+};
+
+export type LogSourceError = {
+    error: string;
+    details?: unknown;
+    status?: HttpStatusCode;
+    // Upstream tenant the request was scoped to, when the source is multi-tenant.
+    tenant?: string;
+    labelScope?: LogSourceLabelScope;
+};
+
+export type LogSourceQueryResult =
+    | { entries: Array<LogEntry>; query: string; source?: string; tenant?: string; labelScope?: LogSourceLabelScope }
+    | LogSourceError;
+
+export type LogSourceAdapter = {
+    mode: LogsSourceMode;
+    capabilities: LogSourceCapabilities;
+    // Returns human-readable configuration issues; an empty list means the source is ready.
+    checkReadiness: (read: IRead) => Promise<Array<string>>;
+    query: (context: LogSourceContext, query: LogSourceQuery) => Promise<LogSourceQueryResult>;
+    // Present only for modes that support several named backends; the first entry is the default.
+    listSources?: (read: IRead) => Promise<Array<LogSourceDescriptor>>;
+};
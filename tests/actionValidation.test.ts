@@ -88,6 +88,24 @@ describe('parseAndNormalizeLogActionRequest', () => {
             expect(result.request.targetThreadId).toBe('THREAD123');
         }
     });
+
+    it('requires a query object for export_bundle and rejects it for other actions', () => {
+        const entry = {
+            timestamp: '2026-02-24T12:00:00.000Z',
+            level: 'error',
+            message: 'Webhook timeout',
+            labels: {},
+        };
+
+        const bundle = parseAndNormalizeLogActionRequest({ action: 'export_bundle', targetRoomId: 'GENERAL', entry, query: { since: '1h' } });
+        expect('request' in bundle && bundle.request.query).toEqual({ since: '1h' });
+        expect(parseAndNormalizeLogActionRequest({ action: 'export_bundle', targetRoomId: 'GENERAL', entry })).toEqual({
+            error: 'query is required for export_bundle action and must be an object.',
+        });
+        expect(parseAndNormalizeLogActionRequest({ action: 'share', targetRoomId: 'GENERAL', entry, query: {} })).toEqual({
+            error: 'query is only supported for export_bundle action.',
+        });
+    });
 });
 
 describe('composeActionMessage', () => {
@@ -119,6 +137,26 @@ describe('composeActionMessage', () => {
         expect(output).toContain('`service=webhook`');
     });
 
+    it('appends Rocket.Chat deep links when the entry references entities', () => {
+        const parsed = parseAndNormalizeLogActionRequest({
+            action: 'share',
+            targetRoomId: 'GENERAL',
+            entry: {
+                timestamp: '2026-02-24T12:00:00.000Z',
+                level: 'error',
+                message: '{"msg":"send failed","rid":"GENERAL"}',
+            },
+        });
+
+        if (!('request' in parsed)) {
+            throw new Error('Expected parsed payload');
+        }
+
+        const output = composeActionMessage(parsed.request, '[#general](https://chat.example.com/channel/general)');
+        expect(output).toContain('*In Rocket.Chat* [#general](https://chat.example.com/channel/general)');
+        expect(composeActionMessage(parsed.request)).not.toContain('In Rocket.Chat');
+    });
+
     it('renders incident draft template with next actions', () => {
         const parsed = parseAndNormalizeLogActionRequest({
             action: 'incident_draft',
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'bun:test';
+
+import { collectFieldColumns, parseFieldFilterInput, sortEntriesByField } from '../web/src/lib/fields';
+
+const entry = (fields?: Record<string, string>) => ({ timestamp: '2026-01-01T00:00:00.000Z', level: 'info' as const, message: '', labels: {}, fields });
+
+describe('field filter input', () => {
+    it('parses operators, dotted names, and quoted values', () => {
+        const parsed = parseFieldFilterInput('msg.userId=abc status>=500 route!=/health msg="user \\"x\\" joined" path=~/api/.*');
+
+        expect(parsed).toEqual({
+            filters: [
+                { name: 'msg.userId', op: 'eq', value: 'abc' },
+                { name: 'status', op: 'gte', value: '500' },
+                { name: 'route', op: 'neq', value: '/health' },
+                { name: 'msg', op: 'eq', value: 'user "x" joined' },
+                { name: 'path', op: 'regex', value: '/api/.*' },
+            ],
+        });
+        expect(parseFieldFilterInput('status')).toMatchObject({ error: expect.stringContaining('"status"') });
+    });
+
+    it('puts filtered fields first and sorts numerically with missing values last', () => {
+        const entries = [entry({ status: '200', route: '/a' }), entry(), entry({ status: '1000' }), entry({ status: '503', route: '/b' })];
+
+        expect(collectFieldColumns(entries, [{ name: 'route', op: 'eq', value: '/a' }])).toEqual(['route', 'status']);
+        expect(sortEntriesByField(entries, { name: 'status', direction: 'asc' }).map((item) => item.fields?.status)).toEqual(['200', '503', '1000', undefined]);
+        expect(sortEntriesByField(entries, { name: 'status', direction: 'desc' }).map((item) => item.fields?.status)).toEqual(['1000', '503', '200', undefined]);
+    });
+});
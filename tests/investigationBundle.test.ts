@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+    buildInvestigationBundle,
+    buildTarArchive,
+    formatBundleNote,
+    readAuditExcerpts,
+    resolveBundleMaxBytes,
+} from '../src/api/logs/investigationBundle';
+
+// Reads back the regular files of a ustar archive.
+const readTar = (buffer: Buffer): Array<{ name: string; content: string }> => {
+    const files: Array<{ name: string; content: string }> = [];
+    let offset = 0;
+    while (offset + 512 <= buffer.length && buffer[offset] !== 0) {
+        const header = buffer.subarray(offset, offset + 512);
+        const name = header.toString('utf8', 0, 100).replace(/\0.*$/s, '');
+        const size = parseInt(header.toString('ascii', 124, 135), 8);
+        const storedChecksum = parseInt(header.toString('ascii', 148, 154), 8);
+        const checksum = [...header].reduce((total, byte, index) => total + (index >= 148 && index < 156 ? 32 : byte), 0);
+        expect(storedChecksum).toBe(checksum);
+        expect(header.toString('ascii', 257, 262)).toBe('ustar');
+
+        files.push({ name, content: buffer.toString('utf8', offset + 512, offset + 512 + size) });
+        offset += 512 + Math.ceil(size / 512) * 512;
+    }
+    return files;
+};
+
+const CREATED_AT = new Date('2026-02-24T12:00:00.000Z');
+
+const buildLines = (count: number) => Array.from({ length: count }, (_, index) => ({
+    timestamp: new Date(CREATED_AT.getTime() - (count - index) * 1000).toISOString(),
+    level: 'error',
+    message: `line-${index} ${'x'.repeat(80)}`,
+}));
+
+describe('buildTarArchive', () => {
+    it('writes block-aligned ustar entries followed by two zero blocks', () => {
+        const archive = buildTarArchive([
+            { name: 'bundle/a.txt', content: 'hello\n' },
+            { name: 'bundle/b.json', content: '{}' },
+        ], CREATED_AT);
+
+        expect(archive.length % 512).toBe(0);
+        expect(archive.length).toBe(512 * 4 + 1024);
+        expect(archive.subarray(archive.length - 1024).every((byte) => byte === 0)).toBe(true);
+        expect(readTar(archive)).toEqual([
+            { name: 'bundle/a.txt', content: 'hello\n' },
+            { name: 'bundle/b.json', content: '{}' },
+        ]);
+    });
+});
+
+describe('buildInvestigationBundle', () => {
+    it('packs the manifest, lines, signatures, and audit excerpts', () => {
+        const bundle = buildInvestigationBundle({
+            manifest: { sourceMode: 'loki' },
+            lines: buildLines(3),
+            signatures: [{ signature: 'line-<n>', count: 3 }],
+            auditEntries: [{ timestamp: CREATED_AT.toISOString(), userId: 'u-admin', action: 'query', outcome: 'allowed', scope: {} }],
+            maxBytes: 64 * 1024,
+            createdAt: CREATED_AT,
+        });
+        if ('error' in bundle) {
+            throw new Error(bundle.error);
+        }
+
+        expect(bundle.filename).toBe('logs-bundle-20260224T120000Z.tar');
+        const files = readTar(bundle.buffer);
+        expect(files.map((file) => file.name)).toEqual(bundle.files);
+        expect(files.map((file) => file.name.split('/')[1])).toEqual(['manifest.json', 'lines.jsonl', 'signatures.json', 'audit.jsonl']);
+
+        const manifest = JSON.parse(files[0].content);
+        expect(manifest).toMatchObject({ sourceMode: 'loki', bundle: { lines: 3, droppedLines: 0, signatures: 1, auditEntries: 1 } });
+        expect(files[1].content.trim().split('\n').map((line) => JSON.parse(line).message.split(' ')[0])).toEqual(['line-0', 'line-1', 'line-2']);
+        expect(JSON.parse(files[2].content)).toEqual([{ signature: 'line-<n>', count: 3 }]);
+        expect(JSON.parse(files[3].content.trim()).action).toBe('query');
+    });
+
+    it('drops the oldest lines to stay within the size cap', () => {
+        const maxBytes = 16 * 1024;
+        const bundle = buildInvestigationBundle({
+            manifest: {},
+            lines: buildLines(500),
+            signatures: [],
+            auditEntries: [],
+            maxBytes,
+            createdAt: CREATED_AT,
+        });
+        if ('error' in bundle) {
+            throw new Error(bundle.error);
+        }
+
+        expect(bundle.buffer.length).toBeLessThanOrEqual(maxBytes);
+        expect(bundle.droppedLines).toBeGreaterThan(0);
+        expect(bundle.lines + bundle.droppedLines).toBe(500);
+
+        const kept = readTar(bundle.buffer)[1].content.trim().split('\n').map((line) => JSON.parse(line).message.split(' ')[0]);
+        expect(kept[kept.length - 1]).toBe('line-499');
+        expect(kept[0]).toBe(`line-${bundle.droppedLines}`);
+    });
+
+    it('fails when the fixed files alone exceed the cap', () => {
+        expect(buildInvestigationBundle({
+            manifest: {},
+            lines: [],
+            signatures: [],
+            auditEntries: [],
+            maxBytes: 2048,
+            createdAt: CREATED_AT,
+        })).toMatchObject({ error: 'Bundle size limit is too small for the manifest, signatures, and audit excerpts.' });
+    });
+});
+
+describe('bundle helpers', () => {
+    it('caps the configured size at the workspace upload limit', async () => {
+        const readWithUploadMax = (value: unknown): any => ({
+            getEnvironmentReader: () => ({
+                getServerSettings: () => ({ getValueById: async () => value }),
+            }),
+        });
+
+        expect(await resolveBundleMaxBytes(readWithUploadMax(100000), 2048)).toBe(100000);
+        expect(await resolveBundleMaxBytes(readWithUploadMax(0), 2048)).toBe(2048 * 1024);
+        expect(await resolveBundleMaxBytes(readWithUploadMax(-1), 64)).toBe(64 * 1024);
+    });
+
+    it('reads only the requester\'s audit entries since the window start, newest first', async () => {
+        const entries = [
+            { timestamp: '2026-02-24T10:00:00.000Z', userId: 'u-admin', action: 'query', outcome: 'allowed', scope: {} },
+            { timestamp: '2026-02-24T11:30:00.000Z', userId: 'u-other', action: 'query', outcome: 'allowed', scope: {} },
+            { timestamp: '2026-02-24T11:40:00.000Z', userId: 'u-admin', action: 'export', outcome: 'allowed', scope: {} },
+            { timestamp: '2026-02-24T11:50:00.000Z', userId: 'u-admin', action: 'share', outcome: 'allowed', scope: {} },
+        ];
+        const read: any = {
+            getPersistenceReader: () => ({
+                readByAssociation: async () => [{ entries }],
+            }),
+        };
+
+        const excerpts = await readAuditExcerpts(read, 'u-admin', new Date('2026-02-24T11:00:00.000Z'));
+        expect(excerpts.map((entry) => entry.action)).toEqual(['share', 'export']);
+    });
+
+    it('formats the thread note with a file link and dropped line count', () => {
+        const note = formatBundleNote({
+            filename: 'logs-bundle-20260224T120000Z.tar',
+            url: 'https://chat.example.com/file-upload/abc/logs-bundle-20260224T120000Z.tar',
+            window: '2026-02-24T11:00:00.000Z -> 2026-02-24T12:00:00.000Z',
+            lines: 40,
+            droppedLines: 2,
+            requester: 'alice',
+        });
+
+        expect(note).toContain('- File: [logs-bundle-20260224T120000Z.tar](https://chat.example.com/file-upload/abc/logs-bundle-20260224T120000Z.tar)');
+        expect(note).toContain('- Lines: 40 (2 older lines left out to fit the size limit)');
+        expect(note).not.toContain('Filters');
+    });
+});
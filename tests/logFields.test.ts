@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'bun:test';
+
+import { extractLogFields, matchesFieldFilters } from '../src/sources/logFields';
+
+describe('log field extraction', () => {
+    it('flattens JSON objects to dotted keys and keeps arrays encoded', () => {
+        expect(extractLogFields('{"msg":{"userId":"abc","roles":["admin"]},"status":503,"ok":false,"trace":null}', 'json')).toEqual({
+            'msg.userId': 'abc',
+            'msg.roles': '["admin"]',
+            status: '503',
+            ok: 'false',
+            trace: '',
+        });
+        expect(extractLogFields('plain text line', 'json')).toBeUndefined();
+    });
+
+    it('parses logfmt pairs with quoted values and skips bare words', () => {
+        expect(extractLogFields('level=info msg="user \\"x\\" joined" status=200 done', 'logfmt')).toEqual({
+            level: 'info',
+            msg: 'user "x" joined',
+            status: '200',
+        });
+        expect(extractLogFields('no pairs here', 'logfmt')).toBeUndefined();
+    });
+
+    it('matches filters with Loki semantics for missing, numeric, and regex values', () => {
+        const fields = { status: '503', 'msg.userId': 'abc' };
+
+        expect(matchesFieldFilters(fields, [{ name: 'status', op: 'gte', value: '500' }, { name: 'msg.userId', op: 'regex', value: 'a.c' }])).toBe(true);
+        expect(matchesFieldFilters(fields, [{ name: 'missing', op: 'eq', value: '' }])).toBe(true);
+        expect(matchesFieldFilters(fields, [{ name: 'msg.userId', op: 'gt', value: '1' }])).toBe(false);
+        expect(matchesFieldFilters(undefined, [{ name: 'status', op: 'neq', value: '200' }])).toBe(false);
+    });
+});
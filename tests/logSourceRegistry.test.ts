@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'bun:test';
+
+import { isLogsSourceMode, parseLogsSourceMode, resolveLogSource } from '../src/sources/registry';
+
+describe('log source registry', () => {
+    it('parses known source modes case-insensitively', () => {
+        expect(parseLogsSourceMode('loki')).toBe('loki');
+        expect(parseLogsSourceMode(' APP_LOGS ')).toBe('app_logs');
+    });
+
+    it('falls back to loki for unknown or missing source modes', () => {
+        expect(parseLogsSourceMode('unknown')).toBe('loki');
+        expect(parseLogsSourceMode(undefined)).toBe('loki');
+        expect(parseLogsSourceMode(42)).toBe('loki');
+    });
+
+    it('guards source mode values against the registry keys', () => {
+        expect(isLogsSourceMode('app_logs')).toBe(true);
+        expect(isLogsSourceMode('toString')).toBe(false);
+        expect(isLogsSourceMode(null)).toBe(false);
+    });
+
+    it('resolves adapters with mode-specific capabilities', () => {
+        const loki = resolveLogSource('loki');
+        const appLogs = resolveLogSource('app_logs');
+
+        expect(loki.mode).toBe('loki');
+        expect(loki.capabilities).toEqual({ requiresRequestAuth: false, supportsQuickSample: true, supportsForwardQuery: true });
+        expect(appLogs.mode).toBe('app_logs');
+        expect(appLogs.capabilities).toEqual({ requiresRequestAuth: true, supportsQuickSample: false, supportsForwardQuery: false });
+    });
+
+    it('reports loki readiness issues from settings', async () => {
+        const read: any = {
+            getEnvironmentReader: () => ({
+                getSettings: () => ({
+                    getValueById: async (id: string) => ({ loki_base_url: '', required_label_selector: '{job="rocketchat"} |= "x"' } as Record<string, unknown>)[id],
+                }),
+            }),
+        };
+
+        const issues = await resolveLogSource('loki').checkReadiness(read);
+        expect(issues).toEqual([
+            'Loki base URL is not configured.',
+            'Required label selector is invalid. Use a plain selector like {job="rocketchat"} with no pipelines.',
+        ]);
+    });
+});
@@ -279,3 +279,193 @@ describe('LogsActionsEndpoint negative paths', () => {
         });
     });
 });
+
+describe('LogsActionsEndpoint share', () => {
+    it('redacts the client-sent message and label values before posting', async () => {
+        const { read, persistence, store } = buildRead({
+            settings: {
+                [SETTINGS.REDACTION_RULES]: JSON.stringify([{ name: 'user_email', keys: ['user_email'] }]),
+            },
+            rooms: { 'room-1': { id: 'room-1' } },
+            userRoomIds: ['room-1'],
+        });
+        const texts: Array<string> = [];
+        const builder: any = {
+            setRoom: () => builder,
+            setSender: () => builder,
+            setGroupable: () => builder,
+            setParseUrls: () => builder,
+            setText: (text: string) => {
+                texts.push(text);
+                return builder;
+            },
+        };
+        const modify = {
+            getCreator: () => ({
+                startMessage: () => builder,
+                finish: async () => 'msg-1',
+            }),
+        } as any;
+
+        const response = await endpoint.post(
+            buildRequest({
+                content: validActionPayload({
+                    entry: {
+                        timestamp: '2026-02-25T10:00:00.000Z',
+                        level: 'error',
+                        message: 'Webhook timeout for ops@example.com',
+                        labels: { job: 'rocketchat', user_email: 'Bob Smith' },
+                    },
+                }),
+            }),
+            {} as any,
+            read as any,
+            modify,
+            {} as any,
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        expect(texts[0]).toContain('Webhook timeout for [REDACTED]');
+        expect(texts[0]).toContain('rocketchat');
+        expect(texts[0]).not.toContain('ops@example.com');
+        expect(texts[0]).not.toContain('Bob Smith');
+
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; scope?: Record<string, unknown> }> };
+        expect(audit.entries.find((entry) => entry.action === 'share')?.scope).toMatchObject({ totalRedactions: 2 });
+    });
+});
+
+describe('LogsActionsEndpoint export_bundle', () => {
+    const WINDOW = { start: '2026-02-24T11:00:00.000Z', end: '2026-02-24T12:00:00.000Z' };
+
+    const buildLokiHttp = () => ({
+        get: async () => ({
+            statusCode: 200,
+            data: {
+                status: 'success',
+                data: {
+                    resultType: 'streams',
+                    result: [{
+                        stream: { job: 'rocketchat' },
+                        values: [
+                            [String(Date.parse('2026-02-24T11:30:00.000Z') * 1000000), 'error webhook timeout for bob@example.com'],
+                            [String(Date.parse('2026-02-24T11:20:00.000Z') * 1000000), 'error webhook timeout for carol@example.com'],
+                        ],
+                    }],
+                },
+            },
+        }),
+    }) as any;
+
+    const buildModify = (uploadBuffer: (buffer: Buffer, descriptor: any) => Promise<unknown>) => {
+        const messages: Array<{ threadId?: string; text?: string }> = [];
+        const modify = {
+            getCreator: () => ({
+                getUploadCreator: () => ({ uploadBuffer }),
+                startMessage: () => {
+                    const message: { threadId?: string; text?: string } = {};
+                    const builder: any = {
+                        setRoom: () => builder,
+                        setSender: () => builder,
+                        setGroupable: () => builder,
+                        setParseUrls: () => builder,
+                        setThreadId: (threadId: string) => {
+                            message.threadId = threadId;
+                            return builder;
+                        },
+                        setText: (text: string) => {
+                            message.text = text;
+                            return builder;
+                        },
+                    };
+                    messages.push(message);
+                    return builder;
+                },
+                finish: async () => 'note-1',
+            }),
+        } as any;
+        return { modify, messages };
+    };
+
+    const buildBundleRead = () => buildRead({
+        settings: {
+            [SETTINGS.LOKI_BASE_URL]: 'http://loki.example.com',
+            [SETTINGS.REQUIRED_LABEL_SELECTOR]: '{job="rocketchat"}',
+            [SETTINGS.ENABLE_REDACTION]: true,
+        },
+        rooms: {
+            'room-1': { id: 'room-1', slugifiedName: 'general', type: 'c' },
+        },
+        userRoomIds: ['room-1'],
+        threadExists: true,
+    });
+
+    it('uploads a redacted tar bundle to the room, links it in the thread, and audits export_bundle', async () => {
+        const { read, persistence, store } = buildBundleRead();
+        const uploads: Array<{ buffer: Buffer; descriptor: any }> = [];
+        const { modify, messages } = buildModify(async (buffer, descriptor) => {
+            uploads.push({ buffer, descriptor });
+            return { id: 'upload-1', name: descriptor.filename, size: buffer.length, url: '/file-upload/upload-1/bundle.tar' };
+        });
+
+        const response = await endpoint.post(
+            buildRequest({ content: validActionPayload({ action: 'export_bundle', targetThreadId: 'thread-1', query: WINDOW }) }),
+            {} as any,
+            read,
+            modify,
+            buildLokiHttp(),
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        expect(response.content).toMatchObject({
+            ok: true,
+            action: 'export_bundle',
+            postedMessageId: 'note-1',
+            target: { roomId: 'room-1', threadId: 'thread-1' },
+            upload: { id: 'upload-1', url: '/file-upload/upload-1/bundle.tar' },
+            bundle: { lines: 2, droppedLines: 0, truncated: false },
+        });
+
+        expect(uploads).toHaveLength(1);
+        expect(uploads[0].descriptor).toMatchObject({ filename: expect.stringMatching(/^logs-bundle-.*\.tar$/), room: { id: 'room-1' } });
+        const archive = uploads[0].buffer.toString('utf8');
+        expect(archive).toContain('lines.jsonl');
+        expect(archive).toContain('[REDACTED]');
+        expect(archive).not.toContain('bob@example.com');
+        expect(messages[0]).toMatchObject({ threadId: 'thread-1', text: expect.stringContaining('*Investigation Bundle (Logs Viewer)*') });
+
+        const auditRecord = store.get('audit:logs-query') as { entries?: Array<Record<string, unknown>> } | undefined;
+        const bundleEntry = (auditRecord?.entries || []).find((entry) => entry.action === 'export_bundle');
+        expect(bundleEntry).toMatchObject({
+            outcome: 'allowed',
+            scope: { targetRoomId: 'room-1', targetThreadId: 'thread-1', uploadId: 'upload-1', lines: 2, redactedLines: 2 },
+        });
+    });
+
+    it('returns 502 and audits the denial when the upload fails', async () => {
+        const { read, persistence, store } = buildBundleRead();
+        const { modify } = buildModify(async () => {
+            throw new Error('File upload is disabled');
+        });
+
+        const response = await endpoint.post(
+            buildRequest({ content: validActionPayload({ action: 'export_bundle', query: WINDOW }) }),
+            {} as any,
+            read,
+            modify,
+            buildLokiHttp(),
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.BAD_GATEWAY);
+        expect(response.content).toEqual({ ok: false, error: 'Uploading the investigation bundle to Rocket.Chat failed.' });
+
+        const auditRecord = store.get('audit:logs-query') as { entries?: Array<Record<string, unknown>> } | undefined;
+        expect((auditRecord?.entries || []).find((entry) => entry.action === 'export_bundle_denied')).toMatchObject({
+            outcome: 'denied',
+            reason: 'upload_failed',
+        });
+    });
+});
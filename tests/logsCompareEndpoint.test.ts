@@ -0,0 +1,270 @@
+import { describe, expect, it } from 'bun:test';
+import { HttpStatusCode } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { SETTINGS } from '../src/constants';
+import { parseCompareRequest } from '../src/api/logs/compareValidation';
+import { diffLogPatterns, LogPattern } from '../src/api/logs/logPatterns';
+import { LogsCompareEndpoint } from '../src/api/logs/LogsCompareEndpoint';
+
+const getAssocKey = (association: any): string => {
+    if (association && typeof association.getID === 'function') {
+        return String(association.getID());
+    }
+    if (association && typeof association.id === 'string') {
+        return association.id;
+    }
+    return String(association);
+};
+
+const createPersistenceHarness = (seed: Record<string, unknown> = {}) => {
+    const store = new Map<string, unknown>(Object.entries(seed));
+    const read = {
+        getPersistenceReader: () => ({
+            readByAssociation: async (association: unknown) => {
+                const key = getAssocKey(association);
+                if (!store.has(key)) {
+                    return [];
+                }
+                return [store.get(key)];
+            },
+        }),
+    };
+    const persistence = {
+        updateByAssociation: async (association: unknown, value: unknown) => {
+            const key = getAssocKey(association);
+            store.set(key, value);
+        },
+    };
+    return { read, persistence, store };
+};
+
+const buildRead = (input?: { settings?: Record<string, unknown>; seed?: Record<string, unknown>; siteUrl?: string }) => {
+    const persistenceHarness = createPersistenceHarness(input?.seed);
+    const settings = {
+        [SETTINGS.LOKI_BASE_URL]: 'http://loki.example.com',
+        [SETTINGS.REQUIRED_LABEL_SELECTOR]: '{job="rocketchat"}',
+        [SETTINGS.ALLOWED_ROLES]: 'admin',
+        [SETTINGS.WORKSPACE_PERMISSION_CODE]: 'view-logs',
+        [SETTINGS.WORKSPACE_PERMISSION_MODE]: 'off',
+        [SETTINGS.DEFAULT_TIME_RANGE]: '15m',
+        [SETTINGS.MAX_TIME_WINDOW_HOURS]: 24,
+        [SETTINGS.MAX_LINES_PER_QUERY]: 2000,
+        [SETTINGS.QUERY_TIMEOUT_MS]: 30000,
+        [SETTINGS.RATE_LIMIT_QPM]: 60,
+        [SETTINGS.AUDIT_RETENTION_DAYS]: 90,
+        [SETTINGS.AUDIT_MAX_ENTRIES]: 5000,
+        [SETTINGS.ENABLE_REDACTION]: true,
+        [SETTINGS.REDACTION_REPLACEMENT]: '[REDACTED]',
+        [SETTINGS.ALLOWED_LABEL_FILTERS]: 'namespace,pod',
+        ...(input?.settings || {}),
+    };
+
+    const read = {
+        ...persistenceHarness.read,
+        getEnvironmentReader: () => ({
+            getServerSettings: () => ({
+                getValueById: async () => {
+                    if (!input?.siteUrl) {
+                        throw new Error('Site_Url unavailable');
+                    }
+                    return input.siteUrl;
+                },
+            }),
+            getSettings: () => ({
+                getValueById: async (id: string) => settings[id],
+            }),
+        }),
+    };
+
+    return { read, persistence: persistenceHarness.persistence, store: persistenceHarness.store };
+};
+
+const buildRequest = (input?: {
+    roles?: Array<string>;
+    headers?: Record<string, string>;
+    content?: unknown;
+    query?: Record<string, unknown>;
+}): any => ({
+    user: {
+        id: 'u-admin',
+        roles: input?.roles || ['admin'],
+    },
+    headers: input?.headers || {},
+    query: input?.query || {},
+    content: input?.content,
+});
+
+const endpoint = new LogsCompareEndpoint({
+    getID: () => 'test-app-id',
+} as any);
+
+const DOCKER_SETTINGS = {
+    [SETTINGS.LOGS_SOURCE_MODE]: 'docker',
+    [SETTINGS.DOCKER_API_URL]: 'http://docker-proxy:2375',
+    [SETTINGS.DOCKER_CONTAINERS]: 'rocketchat',
+};
+
+const NOW = new Date('2026-02-24T12:00:00.000Z');
+
+const parse = (requestContent: unknown) => parseCompareRequest({
+    requestContent,
+    defaultTimeRange: '15m',
+    maxTimeWindowHours: 24,
+    maxLinesPerQuery: 2000,
+    allowedLabelNames: ['namespace', 'pod'],
+    now: NOW,
+});
+
+const pattern = (signature: string, count: number): LogPattern => ({
+    signature,
+    count,
+    level: 'error',
+    firstSeen: NOW.toISOString(),
+    lastSeen: NOW.toISOString(),
+    sample: signature,
+});
+
+describe('parseCompareRequest', () => {
+    it('defaults the baseline to the window right before the target', () => {
+        const result = parse({ since: '1h', level: 'error' });
+
+        expect('request' in result && result.request.baseline).toEqual({
+            start: new Date('2026-02-24T10:00:00.000Z'),
+            end: new Date('2026-02-24T11:00:00.000Z'),
+        });
+        expect('request' in result && result.request.query.levels).toEqual(['error']);
+    });
+
+    it('shifts the target window back by a baseline duration', () => {
+        const result = parse({ since: '1h', baseline: '24h' });
+
+        expect('request' in result && result.request.baseline).toEqual({
+            start: new Date('2026-02-23T11:00:00.000Z'),
+            end: new Date('2026-02-23T12:00:00.000Z'),
+        });
+        expect('request' in result && result.request.baselineOffsetMs).toBe(24 * 60 * 60 * 1000);
+    });
+
+    it('accepts an explicit baseline window that ends before the target', () => {
+        const result = parse({
+            since: '1h',
+            baseline: { start: '2026-02-24T08:00:00.000Z', end: '2026-02-24T10:00:00.000Z' },
+        });
+
+        expect('request' in result && result.request.baseline.end).toEqual(new Date('2026-02-24T10:00:00.000Z'));
+    });
+
+    it('rejects overlapping or malformed baselines and cursors', () => {
+        expect(parse({ since: '1h', baseline: '30m' })).toMatchObject({ error: expect.stringContaining('do not overlap') });
+        expect(parse({ since: '1h', baseline: 'yesterday' })).toMatchObject({ error: expect.stringContaining('Invalid baseline offset') });
+        expect(parse({ since: '1h', baseline: { start: '2026-02-24T10:30:00.000Z', end: '2026-02-24T11:30:00.000Z' } }))
+            .toMatchObject({ error: 'baseline window must end before the target window starts.' });
+        expect(parse({ since: '1h', baseline: { start: '2026-02-24T10:30:00.000Z' } })).toHaveProperty('error');
+        expect(parse({ since: '1h', cursor: 'eyJ0IjoiMTc3MTkzNDQwMDAwMDAwMDAwMCIsInMiOiI5ZjJjMWE0ZSIsImsiOjEsIm4iOjF9' }))
+            .toMatchObject({ error: expect.stringContaining('Cursors are not supported for compare') });
+    });
+});
+
+describe('diffLogPatterns', () => {
+    it('reports new, gone, and increased patterns', () => {
+        const diff = diffLogPatterns(
+            [pattern('db timeout', 2), pattern('cache miss', 5), pattern('user joined', 10)],
+            [pattern('db timeout', 9), pattern('webhook failed', 4), pattern('user joined', 12)],
+        );
+
+        expect(diff.new.map((change) => [change.signature, change.targetCount, change.ratio])).toEqual([['webhook failed', 4, null]]);
+        expect(diff.gone.map((change) => [change.signature, change.baselineCount])).toEqual([['cache miss', 5]]);
+        expect(diff.increased.map((change) => [change.signature, change.baselineCount, change.targetCount, change.ratio])).toEqual([
+            ['db timeout', 2, 9, 4.5],
+        ]);
+    });
+
+    it('scales baseline counts to the target window length and ignores small growth', () => {
+        // A baseline twice as long as the target: 10 lines there is a rate of 5 per target window.
+        expect(diffLogPatterns([pattern('db timeout', 10)], [pattern('db timeout', 9)], 0.5).increased).toEqual([]);
+        expect(diffLogPatterns([pattern('db timeout', 10)], [pattern('db timeout', 12)], 0.5).increased[0]?.ratio).toBe(2.4);
+        expect(diffLogPatterns([pattern('db timeout', 1)], [pattern('db timeout', 3)]).increased).toEqual([]);
+    });
+});
+
+describe('LogsCompareEndpoint', () => {
+    it('queries both windows, diffs redacted patterns, and counts levels', async () => {
+        const { read, persistence, store } = buildRead({ settings: DOCKER_SETTINGS });
+        const now = Date.now();
+        const at = (offsetMs: number) => new Date(now - offsetMs).toISOString();
+        const targetLines = [
+            `${at(40000)} ERROR login failed for alice@example.com after 3 attempts`,
+            `${at(30000)} ERROR db timeout after 3000ms`,
+            `${at(20000)} ERROR db timeout after 3100ms`,
+            `${at(10000)} INFO user joined room general`,
+        ];
+        const baselineLines = [
+            `${at(24 * 3600000 + 30000)} INFO user joined room general`,
+            `${at(24 * 3600000 + 20000)} WARN cache miss for key 42`,
+        ];
+        const http = {
+            get: async (_url: string, options: { params: Record<string, string> }) => ({
+                statusCode: 200,
+                content: (Number(options.params.until) * 1000 < now - 3600000 ? baselineLines : targetLines).join('\n'),
+            }),
+        };
+
+        const response = await endpoint.post(
+            buildRequest({ content: { since: '15m', baseline: '24h', limit: 100 } }),
+            {} as any,
+            read,
+            {} as any,
+            http as any,
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        const content = response.content as any;
+        expect(content.levels).toEqual({
+            target: { error: 3, warn: 0, info: 1, debug: 0, unknown: 0 },
+            baseline: { error: 0, warn: 1, info: 1, debug: 0, unknown: 0 },
+        });
+        expect(content.patterns.new.map((change: { signature: string; targetCount: number }) => [change.signature, change.targetCount])).toEqual([
+            ['ERROR db timeout after <num>ms', 2],
+            ['ERROR login failed for [REDACTED] after <num> attempts', 1],
+        ]);
+        expect(content.patterns.gone.map((change: { signature: string }) => change.signature)).toEqual(['WARN cache miss for key <num>']);
+        expect(content.patterns.increased).toEqual([]);
+        expect(content.meta.target).toMatchObject({ sampledLines: 4, truncated: false, patterns: 3 });
+        expect(content.meta.baseline).toMatchObject({ sampledLines: 2, offsetSeconds: 86400, patterns: 2 });
+        expect(content.meta.redaction.redactedLines).toBe(1);
+
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; scope?: Record<string, unknown> }> };
+        expect(audit.entries.find((entry) => entry.action === 'compare')?.scope).toMatchObject({
+            targetLines: 4,
+            baselineLines: 2,
+            newPatterns: 2,
+            gonePatterns: 1,
+            sourceMode: 'docker',
+        });
+    });
+
+    it('rejects an overlapping baseline and audits it', async () => {
+        const { read, persistence, store } = buildRead({ settings: DOCKER_SETTINGS });
+        const response = await endpoint.post(
+            buildRequest({ content: { since: '1h', baseline: '15m' } }),
+            {} as any,
+            read,
+            {} as any,
+            {} as any,
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.BAD_REQUEST);
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; reason?: string }> };
+        expect(audit.entries[0]).toMatchObject({ action: 'compare_denied', reason: 'invalid_query' });
+    });
+
+    it('returns 403 when caller role is not allowed', async () => {
+        const { read, persistence } = buildRead();
+        const response = await endpoint.post(buildRequest({ roles: ['user'], content: {} }), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.FORBIDDEN);
+        expect((response.content as any).error).toBe('Insufficient authorization for logs compare.');
+    });
+});
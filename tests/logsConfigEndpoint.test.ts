@@ -101,6 +101,79 @@ describe('LogsConfigEndpoint', () => {
         expect(issues.some((item: string) => item.includes('Required label selector is invalid'))).toBe(true);
     });
 
+    it('reports the role-mapped Loki tenant and flags invalid tenant settings', async () => {
+        const mapped = await endpoint.get(
+            buildRequest(),
+            {} as any,
+            buildRead({
+                [SETTINGS.LOKI_TENANT_ID]: 'rocketchat',
+                [SETTINGS.LOKI_TENANT_ROLE_MAP]: 'auditor=audit, admin=platform|rocketchat',
+            }),
+            {} as any,
+            {} as any,
+            {} as any,
+        );
+        const invalid = await endpoint.get(
+            buildRequest(),
+            {} as any,
+            buildRead({
+                [SETTINGS.LOKI_TENANT_ID]: 'tenant with spaces',
+                [SETTINGS.LOKI_TENANT_ROLE_MAP]: 'admin',
+            }),
+            {} as any,
+            {} as any,
+            {} as any,
+        );
+
+        expect((mapped.content as any).config.readiness).toEqual({
+            ready: true,
+            issues: [],
+            lokiTenantId: 'platform|rocketchat',
+        });
+        expect((invalid.content as any).config.readiness.ready).toBe(false);
+        expect((invalid.content as any).config.readiness.issues).toEqual([
+            'Loki tenant role mapping "admin" is invalid. Use role=tenant pairs separated by commas.',
+            "Loki tenant ID is invalid. Use letters, digits, and !-_.*'() characters; join several tenants with |.",
+        ]);
+    });
+
+    it('returns the effective label scope for the caller roles', async () => {
+        const response = await endpoint.get(
+            buildRequest(),
+            {} as any,
+            buildRead({
+                [SETTINGS.LOKI_ROLE_SELECTOR_MAP]: 'admin={namespace="ops", app="rocketchat"}\nadmin={namespace="ignored"}',
+            }),
+            {} as any,
+            {} as any,
+            {} as any,
+        );
+
+        expect((response.content as any).config.labelScope).toEqual({
+            role: 'admin',
+            selector: '{job="rocketchat",namespace="ops", app="rocketchat"}',
+        });
+    });
+
+    it('returns the effective label scope for each named Loki source', async () => {
+        const response = await endpoint.get(
+            buildRequest(),
+            {} as any,
+            buildRead({
+                [SETTINGS.LOKI_ROLE_SELECTOR_MAP]: 'admin={namespace="ops"}',
+                [SETTINGS.LOKI_SOURCES]: JSON.stringify([{ id: 'staging', name: 'Staging', baseUrl: 'http://loki-staging.example.com', selector: '{job="rc-staging"}' }]),
+            }),
+            {} as any,
+            {} as any,
+            {} as any,
+        );
+
+        expect((response.content as any).config.sources).toEqual([
+            { id: 'default', name: 'Default', labelScope: { role: 'admin', selector: '{job="rocketchat",namespace="ops"}' } },
+            { id: 'staging', name: 'Staging', labelScope: { role: 'admin', selector: '{job="rc-staging",namespace="ops"}' } },
+        ]);
+    });
+
     it('reports the fixed workspace permission code even when legacy setting is customized', async () => {
         const response = await endpoint.get(
             buildRequest(),
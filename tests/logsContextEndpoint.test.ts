@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'bun:test';
+import { HttpStatusCode } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { SETTINGS } from '../src/constants';
+import { buildContextWindow } from '../src/api/logs/contextWindow';
+import { LogsContextEndpoint } from '../src/api/logs/LogsContextEndpoint';
+import { LogEntry } from '../src/sources/types';
+
+const getAssocKey = (association: any): string => {
+    if (association && typeof association.getID === 'function') {
+        return String(association.getID());
+    }
+    if (association && typeof association.id === 'string') {
+        return association.id;
+    }
+    return String(association);
+};
+
+const createPersistenceHarness = (seed: Record<string, unknown> = {}) => {
+    const store = new Map<string, unknown>(Object.entries(seed));
+    const read = {
+        getPersistenceReader: () => ({
+            readByAssociation: async (association: unknown) => {
+                const key = getAssocKey(association);
+                if (!store.has(key)) {
+                    return [];
+                }
+                return [store.get(key)];
+            },
+        }),
+    };
+    const persistence = {
+        updateByAssociation: async (association: unknown, value: unknown) => {
+            const key = getAssocKey(association);
+            store.set(key, value);
+        },
+    };
+    return { read, persistence, store };
+};
+
+const buildRead = (input?: { settings?: Record<string, unknown>; seed?: Record<string, unknown>; siteUrl?: string }) => {
+    const persistenceHarness = createPersistenceHarness(input?.seed);
+    const settings = {
+        [SETTINGS.LOKI_BASE_URL]: 'http://loki.example.com',
+        [SETTINGS.REQUIRED_LABEL_SELECTOR]: '{job="rocketchat"}',
+        [SETTINGS.ALLOWED_ROLES]: 'admin',
+        [SETTINGS.WORKSPACE_PERMISSION_CODE]: 'view-logs',
+        [SETTINGS.WORKSPACE_PERMISSION_MODE]: 'off',
+        [SETTINGS.DEFAULT_TIME_RANGE]: '15m',
+        [SETTINGS.MAX_TIME_WINDOW_HOURS]: 24,
+        [SETTINGS.MAX_LINES_PER_QUERY]: 2000,
+        [SETTINGS.QUERY_TIMEOUT_MS]: 30000,
+        [SETTINGS.RATE_LIMIT_QPM]: 60,
+        [SETTINGS.AUDIT_RETENTION_DAYS]: 90,
+        [SETTINGS.AUDIT_MAX_ENTRIES]: 5000,
+        [SETTINGS.ENABLE_REDACTION]: true,
+        [SETTINGS.REDACTION_REPLACEMENT]: '[REDACTED]',
+        [SETTINGS.ALLOWED_LABEL_FILTERS]: 'namespace,pod',
+        ...(input?.settings || {}),
+    };
+
+    const read = {
+        ...persistenceHarness.read,
+        getEnvironmentReader: () => ({
+            getServerSettings: () => ({
+                getValueById: async () => {
+                    if (!input?.siteUrl) {
+                        throw new Error('Site_Url unavailable');
+                    }
+                    return input.siteUrl;
+                },
+            }),
+            getSettings: () => ({
+                getValueById: async (id: string) => settings[id],
+            }),
+        }),
+    };
+
+    return { read, persistence: persistenceHarness.persistence, store: persistenceHarness.store };
+};
+
+const buildRequest = (input?: {
+    roles?: Array<string>;
+    headers?: Record<string, string>;
+    content?: unknown;
+    query?: Record<string, unknown>;
+}): any => ({
+    user: {
+        id: 'u-admin',
+        roles: input?.roles || ['admin'],
+    },
+    headers: input?.headers || {},
+    query: input?.query || {},
+    content: input?.content,
+});
+
+const endpoint = new LogsContextEndpoint({
+    getID: () => 'test-app-id',
+} as any);
+
+const BASE_MS = Date.parse('2026-02-24T12:00:00.000Z');
+const STREAM = { job: 'rocketchat', pod: 'api-0' };
+
+const entry = (rawTimestampNs: string, message: string): LogEntry => ({
+    timestamp: new Date(Number(BigInt(rawTimestampNs) / 1000000n)).toISOString(),
+    rawTimestampNs,
+    level: 'info',
+    message,
+    labels: STREAM,
+});
+
+// Mock Loki that honours start/end (end exclusive), limit, and direction over ten lines one second apart.
+const buildLokiHttp = (requests: Array<Record<string, string>>) => {
+    const lines = Array.from({ length: 10 }, (_, index) => ({
+        ns: BigInt(BASE_MS + index * 1000) * 1000000n,
+        message: index === 4 ? 'login password=hunter2' : `line ${index}`,
+    }));
+    return {
+        get: async (_url: string, options: { params: Record<string, string> }) => {
+            requests.push(options.params);
+            const start = BigInt(options.params.start);
+            const end = BigInt(options.params.end);
+            const inWindow = lines.filter((line) => line.ns >= start && line.ns < end);
+            const limit = Number(options.params.limit);
+            const batch = options.params.direction === 'forward' ? inWindow.slice(0, limit) : inWindow.slice(-limit).reverse();
+            return {
+                statusCode: 200,
+                data: {
+                    status: 'success',
+                    data: { result: [{ stream: STREAM, values: batch.map((line) => [line.ns.toString(), line.message]) }] },
+                },
+            };
+        },
+    };
+};
+
+describe('context window', () => {
+    it('splits lines around a nanosecond anchor and ignores overlap between the two batches', () => {
+        const anchorNs = '1000000500';
+        const window = buildContextWindow({
+            anchor: { timestampNs: anchorNs, precision: 'ns' },
+            backward: [entry('1000000900', 'same-ms-after'), entry(anchorNs, 'anchor'), entry('999000000', 'older'), entry('998000000', 'oldest')],
+            forward: [entry('1000000900', 'duplicate-from-coarse-bounds'), entry('1001000000', 'newer')],
+            before: 1,
+            after: 5,
+        });
+
+        expect(window.before.map((item) => item.message)).toEqual(['older']);
+        expect(window.anchor.map((item) => item.message)).toEqual(['anchor']);
+        expect(window.after.map((item) => item.message)).toEqual(['same-ms-after', 'newer']);
+        expect(window.moreBefore).toBe(true);
+        expect(window.moreAfter).toBe(false);
+    });
+});
+
+describe('LogsContextEndpoint', () => {
+    it('returns redacted lines before and after the anchor from the same stream', async () => {
+        const { read, persistence, store } = buildRead();
+        const requests: Array<Record<string, string>> = [];
+
+        const response = await endpoint.post(
+            buildRequest({
+                content: { timestamp: new Date(BASE_MS + 5000).toISOString(), labels: STREAM, before: 2, after: 2 },
+            }),
+            {} as any,
+            read as any,
+            {} as any,
+            buildLokiHttp(requests) as any,
+            persistence as any,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        const content = response.content as any;
+        expect(content.entries.map((item: any) => [item.position, item.message])).toEqual([
+            ['before', 'line 3'],
+            ['before', 'login password[REDACTED]'],
+            ['anchor', 'line 5'],
+            ['after', 'line 6'],
+            ['after', 'line 7'],
+        ]);
+        expect(content.meta.anchor).toEqual({ timestamp: new Date(BASE_MS + 5000).toISOString(), precision: 'ms', found: true });
+        expect(content.meta.before).toEqual({ requested: 2, returned: 2, truncated: true, contiguous: true });
+        expect(content.meta.after).toEqual({ requested: 2, returned: 2, truncated: true, contiguous: true });
+        expect(requests.map((params) => params.direction).sort()).toEqual(['backward', 'forward']);
+        expect(requests[0].query).toContain('pod="api-0"');
+
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; scope?: Record<string, unknown> }> };
+        expect(audit.entries[0]).toMatchObject({ action: 'context', scope: { before: 2, anchorLines: 1, after: 2, redactedLines: 1 } });
+    });
+
+    it('matches stream labels the client only saw masked against redacted labels instead of upstream', async () => {
+        const { read, persistence } = buildRead({
+            settings: { [SETTINGS.REDACTION_RULES]: JSON.stringify([{ name: 'pod_name', keys: ['pod'] }]) },
+        });
+        const requests: Array<Record<string, string>> = [];
+
+        const response = await endpoint.post(
+            buildRequest({
+                content: { timestamp: new Date(BASE_MS + 5000).toISOString(), labels: { job: 'rocketchat', pod: '[REDACTED]' }, before: 1, after: 1 },
+            }),
+            {} as any,
+            read as any,
+            {} as any,
+            buildLokiHttp(requests) as any,
+            persistence as any,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        const content = response.content as any;
+        expect(content.entries.map((item: any) => item.position)).toEqual(['before', 'anchor', 'after']);
+        expect(content.entries[1].labels).toEqual({ job: 'rocketchat', pod: '[REDACTED]' });
+        expect(requests[0].query).not.toContain('pod=');
+        expect(content.meta.redaction).toMatchObject({ redactedLines: 3 });
+    });
+
+    it('rejects malformed anchors and audits the denial', async () => {
+        const { read, persistence, store } = buildRead();
+
+        const response = await endpoint.post(
+            buildRequest({ content: { timestamp: 'yesterday', labels: STREAM } }),
+            {} as any,
+            read as any,
+            {} as any,
+            { get: async () => ({ statusCode: 500 }) } as any,
+            persistence as any,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.BAD_REQUEST);
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; reason?: string }> };
+        expect(audit.entries[0]).toMatchObject({ action: 'context_denied', reason: 'invalid_query' });
+    });
+});
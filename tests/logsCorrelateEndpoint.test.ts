@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'bun:test';
+import { HttpStatusCode } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { SETTINGS } from '../src/constants';
+import { parseCorrelationRequest } from '../src/api/logs/correlationValidation';
+import { LogsCorrelateEndpoint } from '../src/api/logs/LogsCorrelateEndpoint';
+import { detectCorrelationIds, parseCorrelationConfig } from '../src/sources/correlationIds';
+
+const getAssocKey = (association: any): string => {
+    if (association && typeof association.getID === 'function') {
+        return String(association.getID());
+    }
+    if (association && typeof association.id === 'string') {
+        return association.id;
+    }
+    return String(association);
+};
+
+const createPersistenceHarness = (seed: Record<string, unknown> = {}) => {
+    const store = new Map<string, unknown>(Object.entries(seed));
+    const read = {
+        getPersistenceReader: () => ({
+            readByAssociation: async (association: unknown) => {
+                const key = getAssocKey(association);
+                if (!store.has(key)) {
+                    return [];
+                }
+                return [store.get(key)];
+            },
+        }),
+    };
+    const persistence = {
+        updateByAssociation: async (association: unknown, value: unknown) => {
+            const key = getAssocKey(association);
+            store.set(key, value);
+        },
+    };
+    return { read, persistence, store };
+};
+
+const buildRead = (input?: { settings?: Record<string, unknown>; seed?: Record<string, unknown>; siteUrl?: string }) => {
+    const persistenceHarness = createPersistenceHarness(input?.seed);
+    const settings = {
+        [SETTINGS.LOKI_BASE_URL]: 'http://loki.example.com',
+        [SETTINGS.REQUIRED_LABEL_SELECTOR]: '{job="rocketchat"}',
+        [SETTINGS.ALLOWED_ROLES]: 'admin',
+        [SETTINGS.WORKSPACE_PERMISSION_CODE]: 'view-logs',
+        [SETTINGS.WORKSPACE_PERMISSION_MODE]: 'off',
+        [SETTINGS.DEFAULT_TIME_RANGE]: '15m',
+        [SETTINGS.MAX_TIME_WINDOW_HOURS]: 24,
+        [SETTINGS.MAX_LINES_PER_QUERY]: 2000,
+        [SETTINGS.QUERY_TIMEOUT_MS]: 30000,
+        [SETTINGS.RATE_LIMIT_QPM]: 60,
+        [SETTINGS.AUDIT_RETENTION_DAYS]: 90,
+        [SETTINGS.AUDIT_MAX_ENTRIES]: 5000,
+        [SETTINGS.ENABLE_REDACTION]: true,
+        [SETTINGS.REDACTION_REPLACEMENT]: '[REDACTED]',
+        [SETTINGS.ALLOWED_LABEL_FILTERS]: 'namespace,pod',
+        [SETTINGS.CORRELATION_FIELDS]: 'traceId,requestId',
+        [SETTINGS.CORRELATION_ID_PATTERN]: '\\b(?:trace|request)[_-]?id["\']?\\s*[=:]\\s*["\']?([A-Za-z0-9._:-]{8,128})',
+        ...(input?.settings || {}),
+    };
+
+    const read = {
+        ...persistenceHarness.read,
+        getEnvironmentReader: () => ({
+            getServerSettings: () => ({
+                getValueById: async () => {
+                    if (!input?.siteUrl) {
+                        throw new Error('Site_Url unavailable');
+                    }
+                    return input.siteUrl;
+                },
+            }),
+            getSettings: () => ({
+                getValueById: async (id: string) => settings[id],
+            }),
+        }),
+    };
+
+    return { read, persistence: persistenceHarness.persistence, store: persistenceHarness.store };
+};
+
+const buildRequest = (input?: {
+    roles?: Array<string>;
+    headers?: Record<string, string>;
+    content?: unknown;
+    query?: Record<string, unknown>;
+}): any => ({
+    user: {
+        id: 'u-admin',
+        roles: input?.roles || ['admin'],
+    },
+    headers: input?.headers || {},
+    query: input?.query || {},
+    content: input?.content,
+});
+
+const endpoint = new LogsCorrelateEndpoint({
+    getID: () => 'test-app-id',
+} as any);
+
+const DOCKER_SETTINGS = {
+    [SETTINGS.LOGS_SOURCE_MODE]: 'docker',
+    [SETTINGS.DOCKER_API_URL]: 'http://docker-proxy:2375',
+    [SETTINGS.DOCKER_CONTAINERS]: 'rocketchat,worker',
+};
+
+const DEFAULT_CONFIG = parseCorrelationConfig('traceId,requestId', '\\b(?:trace|request)[_-]?id["\']?\\s*[=:]\\s*["\']?([A-Za-z0-9._:-]{8,128})');
+
+describe('detectCorrelationIds', () => {
+    it('reads configured JSON and logfmt fields, including nested ones', () => {
+        expect(detectCorrelationIds('{"msg":"done","traceId":"4bf92f3577b34da6","ctx":{"requestId":"req-0001"}}', DEFAULT_CONFIG)).toEqual([
+            { name: 'traceId', value: '4bf92f3577b34da6' },
+            { name: 'requestId', value: 'req-0001' },
+        ]);
+        expect(detectCorrelationIds('level=info requestId=req-0002 msg="sent"', DEFAULT_CONFIG)).toEqual([{ name: 'requestId', value: 'req-0002' }]);
+    });
+
+    it('falls back to the configured pattern and skips redacted or malformed values', () => {
+        expect(detectCorrelationIds('webhook failed (trace_id: 0af7651916cd43dd) retrying', DEFAULT_CONFIG)).toEqual([{ name: 'id', value: '0af7651916cd43dd' }]);
+        expect(detectCorrelationIds('{"traceId":"[REDACTED]"}', DEFAULT_CONFIG)).toEqual([]);
+        expect(detectCorrelationIds('{"traceId":"a b"}', DEFAULT_CONFIG)).toEqual([]);
+    });
+
+    it('ignores invalid settings', () => {
+        expect(parseCorrelationConfig('traceId, bad name,,traceId', '([unclosed')).toEqual({ fieldNames: ['traceId'], pattern: undefined });
+        expect(detectCorrelationIds('traceId=abcdef123456', parseCorrelationConfig('', ''))).toEqual([]);
+        expect(parseCorrelationConfig('traceId', 'trace=((?:[a-f0-9]+)+)!')).toEqual({ fieldNames: ['traceId'], pattern: undefined });
+        expect(parseCorrelationConfig('', 'req=(\\w+)\\1')).toEqual({ fieldNames: [], pattern: undefined });
+    });
+});
+
+describe('parseCorrelationRequest', () => {
+    const parse = (requestContent: unknown) => parseCorrelationRequest({
+        requestContent,
+        defaultTimeRange: '15m',
+        maxTimeWindowHours: 24,
+        maxLinesPerQuery: 2000,
+        now: new Date('2026-02-24T12:00:00.000Z'),
+    });
+
+    it('accepts an id with the query window keys', () => {
+        const result = parse({ id: ' 4bf92f3577b34da6 ', since: '1h', limit: 300 });
+
+        expect('request' in result && result.request.id).toBe('4bf92f3577b34da6');
+        expect('request' in result && result.request.query.start).toEqual(new Date('2026-02-24T11:00:00.000Z'));
+        expect('request' in result && result.request.query.limit).toBe(300);
+    });
+
+    it('rejects malformed ids and filters that would narrow the streams', () => {
+        expect(parse({ id: 'a"b' })).toMatchObject({ error: expect.stringContaining('id must be') });
+        expect(parse({ id: '/regex/' })).toMatchObject({ error: expect.stringContaining('id must be') });
+        expect(parse({})).toMatchObject({ error: expect.stringContaining('id must be') });
+        expect(parse({ id: '4bf92f3577b34da6', labels: [{ name: 'pod', op: 'eq', value: 'api-0' }] }))
+            .toMatchObject({ error: 'Unsupported correlation parameters.', details: { unknownKeys: ['labels'] } });
+    });
+});
+
+describe('LogsCorrelateEndpoint', () => {
+    it('returns every line carrying the id across streams, oldest first', async () => {
+        const { read, persistence, store } = buildRead({ settings: DOCKER_SETTINGS });
+        const at = (offsetMs: number) => new Date(Date.now() - offsetMs).toISOString();
+        const searches: Array<string> = [];
+        const http = {
+            get: async (url: string) => {
+                searches.push(url);
+                return {
+                    statusCode: 200,
+                    content: url.includes('/worker/')
+                        ? [
+                            `${at(20000)} INFO job started traceId=4bf92f3577b34da6 for bob@example.com`,
+                            `${at(15000)} INFO unrelated traceId=ffffffffffffffff`,
+                        ].join('\n')
+                        : [
+                            `${at(30000)} {"level":"info","msg":"request received","traceId":"4bf92f3577b34da6"}`,
+                            `${at(10000)} {"level":"error","msg":"request failed","traceId":"4bf92f3577b34da6","requestId":"req-0042"}`,
+                        ].join('\n'),
+                };
+            },
+        };
+
+        const response = await endpoint.post(
+            buildRequest({ content: { id: '4bf92f3577b34da6', since: '15m' } }),
+            {} as any,
+            read,
+            {} as any,
+            http as any,
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        const content = response.content as any;
+        expect(content.entries.map((entry: { labels: Record<string, string> }) => entry.labels.container)).toEqual(['rocketchat', 'worker', 'rocketchat']);
+        expect(content.entries[1].message).toContain('[REDACTED]');
+        expect(content.entries[2].correlationIds).toEqual([
+            { name: 'traceId', value: '4bf92f3577b34da6' },
+            { name: 'requestId', value: 'req-0042' },
+        ]);
+        expect(content.meta).toMatchObject({ id: '4bf92f3577b34da6', returned: 3, streams: 2, truncated: false, truncatedAt: null });
+        expect(searches).toHaveLength(2);
+
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; scope?: Record<string, unknown> }> };
+        expect(audit.entries.find((entry) => entry.action === 'correlate')?.scope).toMatchObject({ returned: 3, streams: 2, sourceMode: 'docker' });
+    });
+
+    it('rejects an invalid id and audits it', async () => {
+        const { read, persistence, store } = buildRead({ settings: DOCKER_SETTINGS });
+        const response = await endpoint.post(buildRequest({ content: { id: 'x' } }), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.BAD_REQUEST);
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; reason?: string }> };
+        expect(audit.entries[0]).toMatchObject({ action: 'correlate_denied', reason: 'invalid_query' });
+    });
+
+    it('returns 403 when caller role is not allowed', async () => {
+        const { read, persistence } = buildRead();
+        const response = await endpoint.post(buildRequest({ roles: ['user'], content: {} }), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.FORBIDDEN);
+        expect((response.content as any).error).toBe('Insufficient authorization for logs correlation.');
+    });
+});
@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'bun:test';
+import { HttpStatusCode } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { SETTINGS } from '../src/constants';
+import { parseEntitiesRequest } from '../src/api/logs/entitiesValidation';
+import { formatEntityLinksForMarkdown, resolveEntityLinks, toEntitiesRequest } from '../src/api/logs/entityLinks';
+import { LogsEntitiesEndpoint } from '../src/api/logs/LogsEntitiesEndpoint';
+import { detectEntityRefs } from '../src/sources/entityRefs';
+import { buildEntityLinkMap, collectEntityLookup } from '../web/src/lib/entities';
+
+const rooms: Record<string, unknown> = {
+    GENERAL: { id: 'GENERAL', slugifiedName: 'general', type: 'c' },
+    'ops-room': { id: 'ops-room', slugifiedName: 'ops', displayName: 'Ops', type: 'p' },
+    'secret-room': { id: 'secret-room', slugifiedName: 'secret', type: 'p' },
+};
+
+const users: Record<string, { id: string; username: string; name: string }> = {
+    'user-alice': { id: 'user-alice', username: 'alice', name: 'Alice' },
+};
+
+const messages: Record<string, unknown> = {
+    'msg-visible': { id: 'msg-visible', room: rooms['ops-room'] },
+    'msg-hidden': { id: 'msg-hidden', room: rooms['secret-room'] },
+};
+
+const buildRead = (input?: { settings?: Record<string, unknown>; siteUrl?: string }) => {
+    const store = new Map<string, unknown>();
+    const settings = {
+        [SETTINGS.ALLOWED_ROLES]: 'admin',
+        [SETTINGS.WORKSPACE_PERMISSION_CODE]: 'view-logs',
+        [SETTINGS.WORKSPACE_PERMISSION_MODE]: 'off',
+        [SETTINGS.RATE_LIMIT_QPM]: 60,
+        ...(input?.settings || {}),
+    };
+
+    const read = {
+        getPersistenceReader: () => ({
+            readByAssociation: async (association: any) => (store.has(association.getID()) ? [store.get(association.getID())] : []),
+        }),
+        getEnvironmentReader: () => ({
+            getSettings: () => ({
+                getValueById: async (id: string) => settings[id],
+            }),
+            getServerSettings: () => ({
+                getValueById: async (id: string) => (id === 'Site_Url' ? input?.siteUrl : undefined),
+            }),
+        }),
+        getRoomReader: () => ({
+            getById: async (roomId: string) => rooms[roomId],
+        }),
+        getUserReader: () => ({
+            getUserRoomIds: async () => ['GENERAL', 'ops-room'],
+            getById: async (userId: string) => users[userId],
+            getByUsername: async (username: string) => Object.values(users).find((user) => user.username === username),
+        }),
+        getMessageReader: () => ({
+            getById: async (messageId: string) => messages[messageId],
+        }),
+    };
+    const persistence = {
+        updateByAssociation: async (association: any, value: unknown) => {
+            store.set(association.getID(), value);
+        },
+    };
+    return { read: read as any, persistence: persistence as any };
+};
+
+const buildRequest = (content: unknown, roles: Array<string> = ['admin']): any => ({
+    user: { id: 'u-admin', roles },
+    headers: {},
+    content,
+    query: {},
+});
+
+const endpoint = new LogsEntitiesEndpoint({ getID: () => 'app-id' } as any);
+
+describe('detectEntityRefs', () => {
+    it('reads room, user, and message references from labels and JSON fields', () => {
+        const refs = detectEntityRefs({
+            message: '{"msg":"send failed","rid":"GENERAL","u":{"username":"alice","_id":"user-alice"},"context":{"messageId":"msg-visible"}}',
+            labels: { job: 'rocketchat', userId: 'user-alice' },
+        });
+
+        expect(refs).toEqual([
+            { kind: 'user', key: 'userId', value: 'user-alice' },
+            { kind: 'room', key: 'rid', value: 'GENERAL' },
+            { kind: 'username', key: 'u.username', value: 'alice' },
+            { kind: 'message', key: 'context.messageId', value: 'msg-visible' },
+        ]);
+    });
+
+    it('ignores plain-text lines and values that are not ids', () => {
+        expect(detectEntityRefs({ message: 'rid=GENERAL failed', labels: {} })).toEqual([]);
+        expect(detectEntityRefs({ message: '{"roomId":"[REDACTED]","userId":"a b"}', labels: {} })).toEqual([]);
+    });
+});
+
+describe('parseEntitiesRequest', () => {
+    it('deduplicates values and rejects unknown keys, bad ids, and empty lookups', () => {
+        expect(parseEntitiesRequest({ rooms: ['GENERAL', 'GENERAL'], usernames: ['alice'] })).toEqual({
+            request: { rooms: ['GENERAL'], users: [], usernames: ['alice'], messages: [] },
+        });
+        expect(parseEntitiesRequest({ channels: ['GENERAL'] })).toMatchObject({ error: 'Unsupported entity parameters.' });
+        expect(parseEntitiesRequest({ rooms: ['has space'] })).toMatchObject({ details: { key: 'rooms' } });
+        expect(parseEntitiesRequest({ rooms: 'GENERAL' })).toEqual({ error: 'rooms must be an array of ids.' });
+        expect(parseEntitiesRequest({})).toEqual({ error: 'At least one room, user, username, or message id is required.' });
+    });
+});
+
+describe('LogsEntitiesEndpoint', () => {
+    it('resolves visible entities to deep links and reports the rest as unresolved', async () => {
+        const { read, persistence } = buildRead({ siteUrl: 'https://chat.example.com/' });
+        const response = await endpoint.post(
+            buildRequest({
+                rooms: ['GENERAL', 'secret-room', 'missing-room'],
+                users: ['user-alice'],
+                usernames: ['alice', 'nobody'],
+                messages: ['msg-visible', 'msg-hidden'],
+            }),
+            {} as any,
+            read,
+            {} as any,
+            {} as any,
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        expect(response.content.entities).toEqual({
+            rooms: [{ id: 'GENERAL', name: 'general', displayName: null, type: 'c', path: '/channel/general', url: 'https://chat.example.com/channel/general' }],
+            users: [{ id: 'user-alice', username: 'alice', name: 'Alice', path: '/direct/alice', url: 'https://chat.example.com/direct/alice' }],
+            messages: [{
+                id: 'msg-visible',
+                roomId: 'ops-room',
+                roomName: 'ops',
+                path: '/group/ops?msg=msg-visible',
+                url: 'https://chat.example.com/group/ops?msg=msg-visible',
+            }],
+        });
+        // Rooms the caller is not in look the same as rooms that do not exist.
+        expect(response.content.meta.unresolved).toEqual([
+            { kind: 'room', value: 'secret-room' },
+            { kind: 'room', value: 'missing-room' },
+            { kind: 'username', value: 'nobody' },
+            { kind: 'message', value: 'msg-hidden' },
+        ]);
+        expect(response.content.meta.requested).toBe(8);
+    });
+
+    it('returns paths without urls when the workspace origin is unknown', async () => {
+        const { read } = buildRead();
+        const resolved = await resolveEntityLinks(read, 'u-admin', toEntitiesRequest([{ kind: 'room', key: 'rid', value: 'GENERAL' }]), undefined);
+
+        expect(resolved.rooms[0]).toMatchObject({ path: '/channel/general', url: null });
+        expect(formatEntityLinksForMarkdown(resolved)).toBe('');
+    });
+
+    it('leaves a room unresolved when its lookup rejects instead of failing the whole request', async () => {
+        const { read } = buildRead();
+        // `ops-room` is still in the caller's room list but its record is gone.
+        read.getRoomReader = () => ({
+            getById: async (roomId: string) => {
+                if (roomId === 'ops-room') {
+                    throw new Error('room not found');
+                }
+                return rooms[roomId];
+            },
+        });
+        const resolved = await resolveEntityLinks(read, 'u-admin', toEntitiesRequest([
+            { kind: 'room', key: 'rid', value: 'ops-room' },
+            { kind: 'room', key: 'rid', value: 'GENERAL' },
+        ]), undefined);
+
+        expect(resolved.rooms.map((room) => room.id)).toEqual(['GENERAL']);
+        expect(resolved.unresolved).toEqual([{ kind: 'room', value: 'ops-room' }]);
+    });
+
+    it('returns 400 for an invalid payload and 403 without an allowed role', async () => {
+        const { read, persistence } = buildRead();
+        const invalid = await endpoint.post(buildRequest({ rooms: [''] }), {} as any, read, {} as any, {} as any, persistence);
+        expect(invalid.status).toBe(HttpStatusCode.BAD_REQUEST);
+
+        const forbidden = await endpoint.post(buildRequest({ rooms: ['GENERAL'] }, ['user']), {} as any, read, {} as any, {} as any, persistence);
+        expect(forbidden.status).toBe(HttpStatusCode.FORBIDDEN);
+        expect(forbidden.content).toMatchObject({ ok: false, error: 'Insufficient authorization for logs entity lookup.' });
+    });
+});
+
+describe('web entity link helpers', () => {
+    it('batches row references and maps resolved users by id and username', () => {
+        const lookup = collectEntityLookup([
+            { entityRefs: [{ kind: 'room', key: 'rid', value: 'ops-room' }, { kind: 'username', key: 'username', value: 'alice' }] },
+            { entityRefs: [{ kind: 'room', key: 'rid', value: 'GENERAL' }, { kind: 'room', key: 'roomId', value: 'ops-room' }] },
+            {},
+        ]);
+        expect(lookup).toEqual({ rooms: ['GENERAL', 'ops-room'], users: [], usernames: ['alice'], messages: [] });
+        expect(collectEntityLookup([{}])).toBeNull();
+
+        const links = buildEntityLinkMap({
+            ok: true,
+            entities: {
+                rooms: [{ id: 'GENERAL', name: 'general', displayName: null, type: 'c', path: '/channel/general', url: null }],
+                users: [{ id: 'user-alice', username: 'alice', name: 'Alice', path: '/direct/alice', url: 'https://chat.example.com/direct/alice' }],
+                messages: [],
+            },
+            meta: { requested: 2, unresolved: [], workspaceOrigin: null },
+        });
+        expect(links.get('username:alice')).toEqual({ label: '@alice', url: 'https://chat.example.com/direct/alice' });
+        expect(links.get('user:user-alice')?.label).toBe('@alice');
+        expect(links.has('room:GENERAL')).toBe(false);
+    });
+});
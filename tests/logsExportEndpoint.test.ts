@@ -0,0 +1,304 @@
+import { describe, expect, it } from 'bun:test';
+import { HttpStatusCode } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { SETTINGS } from '../src/constants';
+import { redactExportLines } from '../src/api/logs/exportCollector';
+import { ExportManifest, formatExport } from '../src/api/logs/exportFormat';
+import { parseExportRequest, planExportChunks } from '../src/api/logs/exportValidation';
+import { LogsExportEndpoint } from '../src/api/logs/LogsExportEndpoint';
+import { parseRedactionRules } from '../src/security/redactionRules';
+
+const getAssocKey = (association: any): string => {
+    if (association && typeof association.getID === 'function') {
+        return String(association.getID());
+    }
+    if (association && typeof association.id === 'string') {
+        return association.id;
+    }
+    return String(association);
+};
+
+const buildRead = (input?: { settings?: Record<string, unknown> }) => {
+    const store = new Map<string, unknown>();
+    const settings = {
+        [SETTINGS.LOKI_BASE_URL]: 'http://loki.example.com',
+        [SETTINGS.REQUIRED_LABEL_SELECTOR]: '{job="rocketchat"}',
+        [SETTINGS.ALLOWED_ROLES]: 'admin',
+        [SETTINGS.WORKSPACE_PERMISSION_CODE]: 'view-logs',
+        [SETTINGS.WORKSPACE_PERMISSION_MODE]: 'off',
+        [SETTINGS.DEFAULT_TIME_RANGE]: '15m',
+        [SETTINGS.MAX_TIME_WINDOW_HOURS]: 1,
+        [SETTINGS.MAX_LINES_PER_QUERY]: 100,
+        [SETTINGS.QUERY_TIMEOUT_MS]: 30000,
+        [SETTINGS.EXPORT_MAX_WINDOW_HOURS]: 168,
+        [SETTINGS.EXPORT_MAX_LINES]: 20000,
+        [SETTINGS.RATE_LIMIT_QPM]: 60,
+        [SETTINGS.AUDIT_RETENTION_DAYS]: 90,
+        [SETTINGS.AUDIT_MAX_ENTRIES]: 5000,
+        [SETTINGS.ENABLE_REDACTION]: true,
+        [SETTINGS.REDACTION_REPLACEMENT]: '[REDACTED]',
+        [SETTINGS.ALLOWED_LABEL_FILTERS]: 'namespace,pod',
+        ...(input?.settings || {}),
+    };
+
+    const read = {
+        getPersistenceReader: () => ({
+            readByAssociation: async (association: unknown) => {
+                const key = getAssocKey(association);
+                return store.has(key) ? [store.get(key)] : [];
+            },
+        }),
+        getEnvironmentReader: () => ({
+            getSettings: () => ({
+                getValueById: async (id: string) => settings[id],
+            }),
+        }),
+    };
+    const persistence = {
+        updateByAssociation: async (association: unknown, value: unknown) => {
+            store.set(getAssocKey(association), value);
+        },
+    };
+    return { read: read as any, persistence: persistence as any, store };
+};
+
+const buildRequest = (content: unknown, roles: Array<string> = ['admin']): any => ({
+    user: { id: 'u-admin', username: 'alice', roles },
+    headers: {},
+    query: {},
+    content,
+});
+
+const endpoint = new LogsExportEndpoint({ getID: () => 'test-app-id' } as any);
+
+const WINDOW_START = Date.parse('2026-02-24T09:00:00.000Z');
+const WINDOW_END = Date.parse('2026-02-24T12:00:00.000Z');
+
+// One line every 20 seconds over three hours, plus one on the boundary between the two older chunks.
+const buildLines = () => {
+    const lines = Array.from({ length: 540 }, (_, index) => ({
+        ns: BigInt(WINDOW_START + index * 20000 + 10000) * 1000000n,
+        line: index === 7 ? `line-${index} contact bob@example.com` : `line-${index}`,
+    }));
+    lines.push({ ns: BigInt(WINDOW_START + 3600000) * 1000000n, line: 'boundary' });
+    return lines.sort((a, b) => (a.ns === b.ns ? 0 : a.ns < b.ns ? -1 : 1));
+};
+
+const buildLokiHttp = (lines: Array<{ ns: bigint; line: string }>) => {
+    const requests: Array<Record<string, string>> = [];
+    const http = {
+        get: async (_url: string, options: { params: Record<string, string> }) => {
+            requests.push(options.params);
+            const selected = lines
+                .filter((entry) => entry.ns >= BigInt(options.params.start) && entry.ns < BigInt(options.params.end))
+                .sort((a, b) => (a.ns === b.ns ? 0 : a.ns > b.ns ? -1 : 1))
+                .slice(0, Number(options.params.limit));
+            return {
+                statusCode: 200,
+                data: {
+                    status: 'success',
+                    data: {
+                        resultType: 'streams',
+                        result: selected.length > 0
+                            ? [{ stream: { job: 'rocketchat', pod: 'rocketchat-0' }, values: selected.map((entry) => [entry.ns.toString(), entry.line]) }]
+                            : [],
+                    },
+                },
+            };
+        },
+    };
+    return { http: http as any, requests };
+};
+
+const MANIFEST: ExportManifest = {
+    generatedAt: '2026-02-24T12:00:00.000Z',
+    requester: { id: 'u-admin', username: 'alice' },
+    format: 'csv',
+    sourceMode: 'loki',
+    sourceId: null,
+    query: '{job="rocketchat"}',
+    selector: '{job="rocketchat"}',
+    tenantId: null,
+    window: { start: '2026-02-24T11:00:00.000Z', end: '2026-02-24T12:00:00.000Z' },
+    filters: { level: null, search: null, labels: [], parser: null, fields: [] },
+    lines: 2,
+    truncated: false,
+    chunks: 1,
+    requests: 1,
+    redaction: { enabled: true, redactedLines: 0, totalRedactions: 0 },
+};
+
+const LINES = [
+    { timestamp: '2026-02-24T11:00:01.000Z', level: 'info', message: 'said "hi", left', labels: { pod: 'a' } },
+    { timestamp: '2026-02-24T11:00:02.000Z', level: 'error', message: '=HYPERLINK("x")', labels: { pod: 'b' } },
+];
+
+describe('parseExportRequest', () => {
+    const parse = (requestContent: unknown) => parseExportRequest({
+        requestContent,
+        defaultTimeRange: '15m',
+        maxExportWindowHours: 72,
+        maxExportLines: 5000,
+        allowedLabelNames: ['pod'],
+        now: new Date('2026-02-24T12:00:00.000Z'),
+    });
+
+    it('defaults to jsonl and the export line limit, and allows windows past the interactive limit', () => {
+        const result = parse({ since: '48h' });
+
+        expect('request' in result && result.request.format).toBe('jsonl');
+        expect('request' in result && result.request.query.limit).toBe(5000);
+        expect('request' in result && result.request.query.start).toEqual(new Date('2026-02-22T12:00:00.000Z'));
+    });
+
+    it('rejects unknown formats, cursors, and windows past the export limit', () => {
+        expect(parse({ format: 'xlsx' })).toMatchObject({ error: 'format must be one of: jsonl, csv, text.' });
+        expect(parse({ since: '15m', cursor: 'abc' })).toMatchObject({ error: expect.stringContaining('Cursor') });
+        expect(parse({ since: '96h' })).toMatchObject({ error: expect.any(String) });
+        expect(parse({ since: '15m', limit: 6000 })).toMatchObject({ error: expect.any(String) });
+    });
+});
+
+describe('planExportChunks', () => {
+    it('splits a window into newest-first chunks of at most the given hours', () => {
+        const chunks = planExportChunks(new Date('2026-02-24T09:30:00.000Z'), new Date('2026-02-24T12:00:00.000Z'), 1);
+
+        expect(chunks.map((chunk) => [chunk.start.toISOString(), chunk.end.toISOString()])).toEqual([
+            ['2026-02-24T11:00:00.000Z', '2026-02-24T12:00:00.000Z'],
+            ['2026-02-24T10:00:00.000Z', '2026-02-24T11:00:00.000Z'],
+            ['2026-02-24T09:30:00.000Z', '2026-02-24T10:00:00.000Z'],
+        ]);
+    });
+});
+
+describe('formatExport', () => {
+    it('writes CSV with a manifest header, quoted cells, and formula-guarded values', () => {
+        const { body, contentType, extension } = formatExport('csv', MANIFEST, LINES);
+        const rows = body.split('\r\n');
+
+        expect(contentType).toBe('text/csv; charset=utf-8');
+        expect(extension).toBe('csv');
+        expect(rows[0]).toBe('# Logs Viewer export: 2026-02-24T12:00:00.000Z');
+        expect(rows).toContain('# requester: alice (u-admin)');
+        expect(rows).toContain('timestamp,level,labels,message');
+        expect(rows).toContain('2026-02-24T11:00:01.000Z,info,"{""pod"":""a""}","said ""hi"", left"');
+        expect(rows).toContain('2026-02-24T11:00:02.000Z,error,"{""pod"":""b""}","\'=HYPERLINK(""x"")"');
+    });
+
+    it('writes JSONL with the manifest first and plain text with a comment header', () => {
+        const jsonl = formatExport('jsonl', { ...MANIFEST, format: 'jsonl' }, LINES).body.trim().split('\n');
+        expect(JSON.parse(jsonl[0]).manifest.requester).toEqual({ id: 'u-admin', username: 'alice' });
+        expect(JSON.parse(jsonl[2])).toEqual(LINES[1]);
+
+        const text = formatExport('text', { ...MANIFEST, format: 'text' }, LINES);
+        expect(text.extension).toBe('txt');
+        expect(text.body).toContain('\n\n2026-02-24T11:00:01.000Z INFO {pod=a} said "hi", left\n');
+    });
+});
+
+describe('redactExportLines', () => {
+    it('redacts label values and fields alongside messages, oldest first', () => {
+        const redaction = { enabled: true, replacement: '[REDACTED]', rules: parseRedactionRules(JSON.stringify([{ name: 'user_email', keys: ['user_email'] }])).rules };
+        const entries = [
+            { timestamp: '2026-02-24T11:00:02.000Z', level: 'info', message: 'plain', labels: { pod: 'a' } },
+            {
+                timestamp: '2026-02-24T11:00:01.000Z',
+                level: 'error',
+                message: '{"user_email":"bob","status":500}',
+                labels: { pod: 'a', user_email: 'bob' },
+                fields: { user_email: 'bob', token: 'abcdef123' },
+            },
+        ];
+
+        const result = redactExportLines(entries, 'json', redaction);
+
+        expect(result.lines[0]).toEqual({
+            timestamp: '2026-02-24T11:00:01.000Z',
+            level: 'error',
+            message: '{"user_email":"[REDACTED]","status":500}',
+            labels: { pod: 'a', user_email: '[REDACTED]' },
+            fields: { user_email: '[REDACTED]', token: '[REDACTED]' },
+        });
+        expect(result).toMatchObject({ redactedLines: 1, totalRedactions: 4 });
+    });
+});
+
+describe('LogsExportEndpoint', () => {
+    it('pages through every chunk of a long window once, oldest first, and audits the export', async () => {
+        const { read, persistence, store } = buildRead();
+        const lines = buildLines();
+        const { http, requests } = buildLokiHttp(lines);
+
+        const response = await endpoint.post(
+            buildRequest({ start: new Date(WINDOW_START).toISOString(), end: new Date(WINDOW_END).toISOString() }),
+            {} as any,
+            read,
+            {} as any,
+            http,
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        expect(response.headers?.['content-type']).toBe('application/x-ndjson; charset=utf-8');
+        expect(response.headers?.['content-disposition']).toMatch(/^attachment; filename="logs-export-\d{8}T\d{6}Z\.jsonl"$/);
+
+        const [manifestLine, ...entryLines] = String(response.content).trim().split('\n');
+        const manifest = JSON.parse(manifestLine).manifest;
+        expect(manifest).toMatchObject({
+            requester: { id: 'u-admin', username: 'alice' },
+            selector: '{job="rocketchat"}',
+            lines: 541,
+            truncated: false,
+            chunks: 3,
+            redaction: { enabled: true, redactedLines: 1, totalRedactions: 1 },
+        });
+        expect(entryLines.map((line) => JSON.parse(line).message.replace(' contact [REDACTED]', ''))).toEqual(
+            lines.map((entry) => entry.line.replace(' contact bob@example.com', '')),
+        );
+        // Each one-hour chunk holds more lines than one batch, so every chunk pages once.
+        expect(requests.length).toBe(manifest.requests);
+        expect(requests.every((params) => Number(params.limit) <= 200)).toBe(true);
+
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; scope?: Record<string, unknown> }> };
+        expect(audit.entries[0]).toMatchObject({ action: 'export', scope: { format: 'jsonl', returned: 541, chunks: 3, truncated: false } });
+    });
+
+    it('keeps the newest lines when the export limit is reached', async () => {
+        const { read, persistence } = buildRead();
+        const lines = buildLines();
+        const { http } = buildLokiHttp(lines);
+
+        const response = await endpoint.post(
+            buildRequest({ format: 'text', start: new Date(WINDOW_START).toISOString(), end: new Date(WINDOW_END).toISOString(), limit: 250 }),
+            {} as any,
+            read,
+            {} as any,
+            http,
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        const body = String(response.content);
+        expect(body).toContain('# lines: 250 (truncated at the export limit)');
+        const rows = body.split('\n\n')[1].trim().split('\n');
+        expect(rows).toHaveLength(250);
+        expect(rows[rows.length - 1]).toContain('line-539');
+        expect(rows[0]).toContain(`line-${540 - 250}`);
+    });
+
+    it('rejects invalid payloads and unauthorized callers with audited denials', async () => {
+        const { read, persistence, store } = buildRead();
+        const invalid = await endpoint.post(buildRequest({ format: 'xml' }), {} as any, read, {} as any, {} as any, persistence);
+        expect(invalid.status).toBe(HttpStatusCode.BAD_REQUEST);
+
+        const forbidden = await endpoint.post(buildRequest({}, ['user']), {} as any, read, {} as any, {} as any, persistence);
+        expect(forbidden.status).toBe(HttpStatusCode.FORBIDDEN);
+        expect(forbidden.content).toMatchObject({ ok: false, error: 'Insufficient authorization for logs export.' });
+
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; reason?: string }> };
+        expect(audit.entries.map((entry) => [entry.action, entry.reason])).toEqual([
+            ['export_denied', 'invalid_query'],
+            ['export_denied', 'forbidden_role'],
+        ]);
+    });
+});
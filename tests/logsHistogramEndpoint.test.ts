@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'bun:test';
+import { HttpStatusCode } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { SETTINGS } from '../src/constants';
+import { buildHistogramBuckets, chooseHistogramStepSeconds } from '../src/api/logs/histogramBuckets';
+import { LogsHistogramEndpoint } from '../src/api/logs/LogsHistogramEndpoint';
+
+const getAssocKey = (association: any): string => {
+    if (association && typeof association.getID === 'function') {
+        return String(association.getID());
+    }
+    if (association && typeof association.id === 'string') {
+        return association.id;
+    }
+    return String(association);
+};
+
+const createPersistenceHarness = (seed: Record<string, unknown> = {}) => {
+    const store = new Map<string, unknown>(Object.entries(seed));
+    const read = {
+        getPersistenceReader: () => ({
+            readByAssociation: async (association: unknown) => {
+                const key = getAssocKey(association);
+                if (!store.has(key)) {
+                    return [];
+                }
+                return [store.get(key)];
+            },
+        }),
+    };
+    const persistence = {
+        updateByAssociation: async (association: unknown, value: unknown) => {
+            const key = getAssocKey(association);
+            store.set(key, value);
+        },
+    };
+    return { read, persistence, store };
+};
+
+const buildRead = (input?: { settings?: Record<string, unknown>; seed?: Record<string, unknown>; siteUrl?: string }) => {
+    const persistenceHarness = createPersistenceHarness(input?.seed);
+    const settings = {
+        [SETTINGS.LOKI_BASE_URL]: 'http://loki.example.com',
+        [SETTINGS.REQUIRED_LABEL_SELECTOR]: '{job="rocketchat"}',
+        [SETTINGS.ALLOWED_ROLES]: 'admin',
+        [SETTINGS.WORKSPACE_PERMISSION_CODE]: 'view-logs',
+        [SETTINGS.WORKSPACE_PERMISSION_MODE]: 'off',
+        [SETTINGS.DEFAULT_TIME_RANGE]: '15m',
+        [SETTINGS.MAX_TIME_WINDOW_HOURS]: 24,
+        [SETTINGS.MAX_LINES_PER_QUERY]: 2000,
+        [SETTINGS.QUERY_TIMEOUT_MS]: 30000,
+        [SETTINGS.RATE_LIMIT_QPM]: 60,
+        [SETTINGS.AUDIT_RETENTION_DAYS]: 90,
+        [SETTINGS.AUDIT_MAX_ENTRIES]: 5000,
+        [SETTINGS.ENABLE_REDACTION]: true,
+        [SETTINGS.REDACTION_REPLACEMENT]: '[REDACTED]',
+        [SETTINGS.ALLOWED_LABEL_FILTERS]: 'namespace,pod',
+        ...(input?.settings || {}),
+    };
+
+    const read = {
+        ...persistenceHarness.read,
+        getEnvironmentReader: () => ({
+            getServerSettings: () => ({
+                getValueById: async () => {
+                    if (!input?.siteUrl) {
+                        throw new Error('Site_Url unavailable');
+                    }
+                    return input.siteUrl;
+                },
+            }),
+            getSettings: () => ({
+                getValueById: async (id: string) => settings[id],
+            }),
+        }),
+    };
+
+    return { read, persistence: persistenceHarness.persistence, store: persistenceHarness.store };
+};
+
+const buildRequest = (input?: {
+    roles?: Array<string>;
+    headers?: Record<string, string>;
+    content?: unknown;
+    query?: Record<string, unknown>;
+}): any => ({
+    user: {
+        id: 'u-admin',
+        roles: input?.roles || ['admin'],
+    },
+    headers: input?.headers || {},
+    query: input?.query || {},
+    content: input?.content,
+});
+
+const endpoint = new LogsHistogramEndpoint({
+    getID: () => 'test-app-id',
+} as any);
+
+describe('histogram buckets', () => {
+    it('picks a round step that keeps the window near sixty buckets', () => {
+        const end = new Date('2026-02-24T12:00:00.000Z');
+        expect(chooseHistogramStepSeconds(new Date(end.getTime() - 15 * 60 * 1000), end)).toBe(15);
+        expect(chooseHistogramStepSeconds(new Date(end.getTime() - 60 * 60 * 1000), end)).toBe(60);
+        expect(chooseHistogramStepSeconds(new Date(end.getTime() - 24 * 60 * 60 * 1000), end)).toBe(1800);
+    });
+
+    it('places points in the bucket that ends at their timestamp and zero-fills gaps', () => {
+        const start = new Date('2026-02-24T12:00:00.000Z');
+        const end = new Date('2026-02-24T12:03:00.000Z');
+        const buckets = buildHistogramBuckets(
+            [{ level: 'error', points: [{ timestampMs: Date.parse('2026-02-24T12:01:00.000Z'), count: 4 }] }],
+            start,
+            end,
+            60,
+        );
+
+        expect(buckets).toHaveLength(3);
+        expect(buckets[0]).toMatchObject({ start: '2026-02-24T12:00:00.000Z', end: '2026-02-24T12:01:00.000Z', total: 4 });
+        expect(buckets[0].counts.error).toBe(4);
+        expect(buckets[1].total).toBe(0);
+        expect(buckets[2].total).toBe(0);
+    });
+});
+
+describe('LogsHistogramEndpoint', () => {
+    it('runs a scoped level metric query and returns bucketed counts per level', async () => {
+        const { read, persistence, store } = buildRead({
+            settings: {
+                [SETTINGS.ALLOWED_LABEL_FILTERS]: 'pod',
+                [SETTINGS.LOKI_ROLE_SELECTOR_MAP]: 'admin={namespace="chat"}',
+            },
+        });
+        const start = '2026-02-24T12:00:00.000Z';
+        const end = '2026-02-24T13:00:00.000Z';
+        const startSeconds = Date.parse(start) / 1000;
+        let requestedUrl = '';
+        let requestedParams: Record<string, string> = {};
+        const http = {
+            get: async (url: string, options: { params?: Record<string, string> }) => {
+                requestedUrl = url;
+                requestedParams = options?.params || {};
+                return {
+                    statusCode: 200,
+                    data: {
+                        status: 'success',
+                        data: {
+                            resultType: 'matrix',
+                            result: [
+                                { metric: { level: 'ERROR' }, values: [[startSeconds + 60, '3']] },
+                                { metric: { level: 'err' }, values: [[startSeconds + 60, '2']] },
+                                { metric: {}, values: [[startSeconds + 120, '7']] },
+                            ],
+                        },
+                    },
+                };
+            },
+        };
+
+        const response = await endpoint.post(
+            buildRequest({
+                content: { start, end, search: 'timeout', labels: [{ name: 'pod', op: 'eq', value: 'api-0' }] },
+            }),
+            {} as any,
+            read,
+            {} as any,
+            http as any,
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        expect(requestedUrl).toBe('http://loki.example.com/loki/api/v1/query_range');
+        expect(requestedParams.step).toBe('60s');
+        expect(requestedParams.query).toBe(
+            'sum by (level) (count_over_time({job="rocketchat",namespace="chat",pod="api-0"} |= "timeout" [60s]))',
+        );
+
+        const content = response.content as any;
+        expect(content.meta).toMatchObject({ stepSeconds: 60, total: 12, totals: { error: 5, unknown: 7 } });
+        expect(content.buckets).toHaveLength(60);
+        expect(content.buckets[0]).toMatchObject({ start, total: 5, counts: { error: 5 } });
+        expect(content.buckets[1]).toMatchObject({ total: 7, counts: { unknown: 7 } });
+
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; scope?: Record<string, unknown> }> };
+        expect(audit.entries.find((entry) => entry.action === 'histogram')?.scope).toMatchObject({
+            stepSeconds: 60,
+            total: 12,
+            labelScope: { role: 'admin', selector: '{job="rocketchat",namespace="chat"}' },
+        });
+    });
+
+    it('rejects windows larger than the max time window before calling Loki', async () => {
+        const { read, persistence, store } = buildRead();
+
+        const response = await endpoint.post(buildRequest({ content: { since: '48h' } }), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.BAD_REQUEST);
+        expect(response.content).toMatchObject({ error: 'Requested time window exceeds max of 24 hours.' });
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; reason?: string }> };
+        expect(audit.entries[0]).toMatchObject({ action: 'histogram_denied', reason: 'invalid_query' });
+    });
+
+    it('returns 403 when caller role is not allowed', async () => {
+        const { read, persistence } = buildRead();
+
+        const response = await endpoint.post(buildRequest({ roles: ['user'], content: { since: '15m' } }), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.FORBIDDEN);
+    });
+
+    it('returns 400 outside loki mode', async () => {
+        const { read, persistence } = buildRead({
+            settings: {
+                [SETTINGS.LOGS_SOURCE_MODE]: 'opensearch',
+            },
+        });
+
+        const response = await endpoint.post(buildRequest({ content: { since: '15m' } }), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.BAD_REQUEST);
+        expect(response.content).toMatchObject({ error: 'Log volume histograms are not supported in opensearch mode.' });
+    });
+});
@@ -0,0 +1,242 @@
+import { describe, expect, it } from 'bun:test';
+import { HttpStatusCode } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { SETTINGS } from '../src/constants';
+import { LogsLabelsEndpoint } from '../src/api/logs/LogsLabelsEndpoint';
+
+const getAssocKey = (association: any): string => {
+    if (association && typeof association.getID === 'function') {
+        return String(association.getID());
+    }
+    if (association && typeof association.id === 'string') {
+        return association.id;
+    }
+    return String(association);
+};
+
+const createPersistenceHarness = (seed: Record<string, unknown> = {}) => {
+    const store = new Map<string, unknown>(Object.entries(seed));
+    const read = {
+        getPersistenceReader: () => ({
+            readByAssociation: async (association: unknown) => {
+                const key = getAssocKey(association);
+                if (!store.has(key)) {
+                    return [];
+                }
+                return [store.get(key)];
+            },
+        }),
+    };
+    const persistence = {
+        updateByAssociation: async (association: unknown, value: unknown) => {
+            const key = getAssocKey(association);
+            store.set(key, value);
+        },
+    };
+    return { read, persistence, store };
+};
+
+const buildRead = (input?: { settings?: Record<string, unknown>; seed?: Record<string, unknown>; siteUrl?: string }) => {
+    const persistenceHarness = createPersistenceHarness(input?.seed);
+    const settings = {
+        [SETTINGS.LOKI_BASE_URL]: 'http://loki.example.com',
+        [SETTINGS.REQUIRED_LABEL_SELECTOR]: '{job="rocketchat"}',
+        [SETTINGS.ALLOWED_ROLES]: 'admin',
+        [SETTINGS.WORKSPACE_PERMISSION_CODE]: 'view-logs',
+        [SETTINGS.WORKSPACE_PERMISSION_MODE]: 'off',
+        [SETTINGS.DEFAULT_TIME_RANGE]: '15m',
+        [SETTINGS.MAX_TIME_WINDOW_HOURS]: 24,
+        [SETTINGS.MAX_LINES_PER_QUERY]: 2000,
+        [SETTINGS.QUERY_TIMEOUT_MS]: 30000,
+        [SETTINGS.RATE_LIMIT_QPM]: 60,
+        [SETTINGS.AUDIT_RETENTION_DAYS]: 90,
+        [SETTINGS.AUDIT_MAX_ENTRIES]: 5000,
+        [SETTINGS.ENABLE_REDACTION]: true,
+        [SETTINGS.REDACTION_REPLACEMENT]: '[REDACTED]',
+        [SETTINGS.ALLOWED_LABEL_FILTERS]: 'namespace,pod',
+        ...(input?.settings || {}),
+    };
+
+    const read = {
+        ...persistenceHarness.read,
+        getEnvironmentReader: () => ({
+            getServerSettings: () => ({
+                getValueById: async () => {
+                    if (!input?.siteUrl) {
+                        throw new Error('Site_Url unavailable');
+                    }
+                    return input.siteUrl;
+                },
+            }),
+            getSettings: () => ({
+                getValueById: async (id: string) => settings[id],
+            }),
+        }),
+    };
+
+    return { read, persistence: persistenceHarness.persistence, store: persistenceHarness.store };
+};
+
+const buildRequest = (input?: {
+    roles?: Array<string>;
+    headers?: Record<string, string>;
+    content?: unknown;
+    query?: Record<string, unknown>;
+}): any => ({
+    user: {
+        id: 'u-admin',
+        roles: input?.roles || ['admin'],
+    },
+    headers: input?.headers || {},
+    query: input?.query || {},
+    content: input?.content,
+});
+
+const endpoint = new LogsLabelsEndpoint({
+    getID: () => 'test-app-id',
+} as any);
+
+const buildLokiHttp = (data: Array<string>) => {
+    const calls: Array<{ url: string; params: Record<string, string>; headers: Record<string, string> }> = [];
+    const http = {
+        get: async (url: string, options: { params?: Record<string, string>; headers?: Record<string, string> }) => {
+            calls.push({ url, params: options?.params || {}, headers: options?.headers || {} });
+            return {
+                statusCode: 200,
+                data: { status: 'success', data },
+            };
+        },
+    };
+    return { http, calls };
+};
+
+describe('LogsLabelsEndpoint', () => {
+    it('lists allow-listed label names within the role-scoped selector and tenant', async () => {
+        const { read, persistence, store } = buildRead({
+            settings: {
+                [SETTINGS.LOKI_TENANT_ID]: 'rocketchat',
+                [SETTINGS.LOKI_ROLE_SELECTOR_MAP]: 'admin={namespace="chat"}',
+            },
+        });
+        const { http, calls } = buildLokiHttp(['pod', 'job', 'namespace', 'filename']);
+
+        const response = await endpoint.get(buildRequest({ query: { since: '1h' } }), {} as any, read, {} as any, http as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        expect(response.content).toMatchObject({
+            ok: true,
+            source: 'loki',
+            meta: { sourceId: 'default', name: null, returned: 2, truncated: false, cached: false },
+            values: ['namespace', 'pod'],
+        });
+        expect(calls).toHaveLength(1);
+        expect(calls[0].url).toBe('http://loki.example.com/loki/api/v1/labels');
+        expect(calls[0].params.query).toBe('{job="rocketchat",namespace="chat"}');
+        expect(calls[0].headers['X-Scope-OrgID']).toBe('rocketchat');
+
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; scope?: Record<string, unknown> }> };
+        expect(audit.entries.find((entry) => entry.action === 'labels')?.scope).toMatchObject({
+            tenantId: 'rocketchat',
+            labelScope: { role: 'admin', selector: '{job="rocketchat",namespace="chat"}' },
+        });
+    });
+
+    it('serves repeated label value lookups from the persistence cache', async () => {
+        const { read, persistence } = buildRead();
+        const { http, calls } = buildLokiHttp(['api-1', 'api-0']);
+        const request = buildRequest({ query: { since: '15m', name: 'pod' } });
+
+        const first = await endpoint.get(request, {} as any, read, {} as any, http as any, persistence);
+        const second = await endpoint.get(request, {} as any, read, {} as any, http as any, persistence);
+
+        expect(first.content).toMatchObject({ values: ['api-0', 'api-1'], meta: { name: 'pod', cached: false } });
+        expect(second.content).toMatchObject({ values: ['api-0', 'api-1'], meta: { name: 'pod', cached: true } });
+        expect(calls).toHaveLength(1);
+        expect(calls[0].url).toBe('http://loki.example.com/loki/api/v1/label/pod/values');
+        expect(calls[0].params.query).toBe('{job="rocketchat"}');
+    });
+
+    it('does not serve cached label names after the allow-list changes', async () => {
+        const { http, calls } = buildLokiHttp(['pod', 'namespace', 'container']);
+        const before = buildRead();
+        const request = buildRequest({ query: { since: '15m' } });
+
+        const first = await endpoint.get(request, {} as any, before.read, {} as any, http as any, before.persistence);
+        const after = buildRead({
+            settings: { [SETTINGS.ALLOWED_LABEL_FILTERS]: 'namespace,pod,container' },
+            seed: Object.fromEntries(before.store),
+        });
+        const second = await endpoint.get(request, {} as any, after.read, {} as any, http as any, after.persistence);
+
+        expect(first.content).toMatchObject({ values: ['namespace', 'pod'], meta: { cached: false } });
+        expect(second.content).toMatchObject({ values: ['container', 'namespace', 'pod'], meta: { cached: false } });
+        expect(calls).toHaveLength(2);
+    });
+
+    it('rejects value lookups for labels outside the filter allow-list', async () => {
+        const { read, persistence, store } = buildRead();
+        const { http, calls } = buildLokiHttp([]);
+
+        const response = await endpoint.get(buildRequest({ query: { name: 'secret_label' } }), {} as any, read, {} as any, http as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.BAD_REQUEST);
+        expect(response.content).toMatchObject({ ok: false, error: 'Label "secret_label" is not allowed for filtering.' });
+        expect(calls).toHaveLength(0);
+
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; reason?: string }> };
+        expect(audit.entries[0]).toMatchObject({ action: 'labels_denied', reason: 'invalid_query' });
+    });
+
+    it('rejects windows larger than the max time window', async () => {
+        const { read, persistence } = buildRead();
+
+        const response = await endpoint.get(buildRequest({ query: { since: '48h' } }), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.BAD_REQUEST);
+        expect(response.content).toMatchObject({ error: 'Requested time window exceeds max of 24 hours.' });
+    });
+
+    it('returns 403 and audits when the caller role is not allowed', async () => {
+        const { read, persistence, store } = buildRead();
+
+        const response = await endpoint.get(buildRequest({ roles: ['user'] }), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.FORBIDDEN);
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; reason?: string }> };
+        expect(audit.entries[0]).toMatchObject({ action: 'labels_denied', reason: 'forbidden_role' });
+    });
+
+    it('shares the query rate limit bucket', async () => {
+        const now = Date.now();
+        const { read, persistence } = buildRead({
+            settings: {
+                [SETTINGS.RATE_LIMIT_QPM]: 1,
+            },
+            seed: {
+                'rate-limit:user:u-admin': {
+                    windowStartMs: now,
+                    count: 1,
+                    updatedAt: new Date(now).toISOString(),
+                },
+            },
+        });
+
+        const response = await endpoint.get(buildRequest(), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.TOO_MANY_REQUESTS);
+        expect(response.content).toMatchObject({ ok: false, error: 'Rate limit exceeded for logs labels.' });
+    });
+
+    it('returns 400 outside loki mode', async () => {
+        const { read, persistence } = buildRead({
+            settings: {
+                [SETTINGS.LOGS_SOURCE_MODE]: 'app_logs',
+            },
+        });
+
+        const response = await endpoint.get(buildRequest(), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.BAD_REQUEST);
+        expect(response.content).toMatchObject({ error: 'Label discovery is not supported in app_logs mode.' });
+    });
+});
@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'bun:test';
+import { HttpStatusCode } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { SETTINGS } from '../src/constants';
+import { clusterLogPatterns, normalizeLogSignature } from '../src/api/logs/logPatterns';
+import { LogsPatternsEndpoint } from '../src/api/logs/LogsPatternsEndpoint';
+import { normalizeLogSignature as normalizeWebLogSignature } from '../web/src/lib/patterns';
+
+const getAssocKey = (association: any): string => {
+    if (association && typeof association.getID === 'function') {
+        return String(association.getID());
+    }
+    if (association && typeof association.id === 'string') {
+        return association.id;
+    }
+    return String(association);
+};
+
+const createPersistenceHarness = (seed: Record<string, unknown> = {}) => {
+    const store = new Map<string, unknown>(Object.entries(seed));
+    const read = {
+        getPersistenceReader: () => ({
+            readByAssociation: async (association: unknown) => {
+                const key = getAssocKey(association);
+                if (!store.has(key)) {
+                    return [];
+                }
+                return [store.get(key)];
+            },
+        }),
+    };
+    const persistence = {
+        updateByAssociation: async (association: unknown, value: unknown) => {
+            const key = getAssocKey(association);
+            store.set(key, value);
+        },
+    };
+    return { read, persistence, store };
+};
+
+const buildRead = (input?: { settings?: Record<string, unknown>; seed?: Record<string, unknown>; siteUrl?: string }) => {
+    const persistenceHarness = createPersistenceHarness(input?.seed);
+    const settings = {
+        [SETTINGS.LOKI_BASE_URL]: 'http://loki.example.com',
+        [SETTINGS.REQUIRED_LABEL_SELECTOR]: '{job="rocketchat"}',
+        [SETTINGS.ALLOWED_ROLES]: 'admin',
+        [SETTINGS.WORKSPACE_PERMISSION_CODE]: 'view-logs',
+        [SETTINGS.WORKSPACE_PERMISSION_MODE]: 'off',
+        [SETTINGS.DEFAULT_TIME_RANGE]: '15m',
+        [SETTINGS.MAX_TIME_WINDOW_HOURS]: 24,
+        [SETTINGS.MAX_LINES_PER_QUERY]: 2000,
+        [SETTINGS.QUERY_TIMEOUT_MS]: 30000,
+        [SETTINGS.RATE_LIMIT_QPM]: 60,
+        [SETTINGS.AUDIT_RETENTION_DAYS]: 90,
+        [SETTINGS.AUDIT_MAX_ENTRIES]: 5000,
+        [SETTINGS.ENABLE_REDACTION]: true,
+        [SETTINGS.REDACTION_REPLACEMENT]: '[REDACTED]',
+        [SETTINGS.ALLOWED_LABEL_FILTERS]: 'namespace,pod',
+        ...(input?.settings || {}),
+    };
+
+    const read = {
+        ...persistenceHarness.read,
+        getEnvironmentReader: () => ({
+            getServerSettings: () => ({
+                getValueById: async () => {
+                    if (!input?.siteUrl) {
+                        throw new Error('Site_Url unavailable');
+                    }
+                    return input.siteUrl;
+                },
+            }),
+            getSettings: () => ({
+                getValueById: async (id: string) => settings[id],
+            }),
+        }),
+    };
+
+    return { read, persistence: persistenceHarness.persistence, store: persistenceHarness.store };
+};
+
+const buildRequest = (input?: {
+    roles?: Array<string>;
+    headers?: Record<string, string>;
+    content?: unknown;
+    query?: Record<string, unknown>;
+}): any => ({
+    user: {
+        id: 'u-admin',
+        roles: input?.roles || ['admin'],
+    },
+    headers: input?.headers || {},
+    query: input?.query || {},
+    content: input?.content,
+});
+
+const endpoint = new LogsPatternsEndpoint({
+    getID: () => 'test-app-id',
+} as any);
+
+const DOCKER_SETTINGS = {
+    [SETTINGS.LOGS_SOURCE_MODE]: 'docker',
+    [SETTINGS.DOCKER_API_URL]: 'http://docker-proxy:2375',
+    [SETTINGS.DOCKER_CONTAINERS]: 'rocketchat',
+};
+
+describe('normalizeLogSignature', () => {
+    it('replaces timestamps, ids, addresses, hex values, and numbers with placeholders', () => {
+        expect(normalizeLogSignature('2026-02-24T12:00:01.123Z Request 9f2c1a4e-0b6d-4a53-9e2f-1c2d3e4f5a6b from 10.0.0.12:5432 took 504ms'))
+            .toBe('<ts> Request <uuid> from <ip> took <num>ms');
+        expect(normalizeLogSignature('user Ab3dE9fGh2JkLmN4p joined room 65f1c0ffee0123456789abcd at 12:00:01'))
+            .toBe('user <id> joined room <hex> at <ts>');
+        expect(normalizeLogSignature('pointer 0x7ffde4a1 retry   2 of v2 api')).toBe('pointer <hex> retry <num> of v2 api');
+    });
+
+    it('uses the JSON msg field when present', () => {
+        expect(normalizeLogSignature('{"level":50,"msg":"Webhook   timeout after 3000 ms","hook":"h-1"}')).toBe('Webhook timeout after <num> ms');
+        expect(normalizeLogSignature('   ')).toBe('[empty]');
+    });
+
+    it('matches the web normalizer used to filter result rows', () => {
+        const samples = [
+            '2026-02-24T12:00:01.123Z Request 9f2c1a4e-0b6d-4a53-9e2f-1c2d3e4f5a6b from 10.0.0.12:5432 took 504ms',
+            'user Ab3dE9fGh2JkLmN4p joined room 65f1c0ffee0123456789abcd at 12:00:01',
+            '{"msg":"Webhook timeout after 3000 ms"}',
+            `${'x'.repeat(250)} 42`,
+        ];
+        for (const sample of samples) {
+            expect(normalizeWebLogSignature(sample)).toBe(normalizeLogSignature(sample));
+        }
+    });
+});
+
+describe('clusterLogPatterns', () => {
+    it('groups by signature with counts, first/last seen, newest sample, and dominant level', () => {
+        const patterns = clusterLogPatterns([
+            { timestamp: '2026-02-24T12:00:03.000Z', level: 'error', message: 'Webhook 41 failed with 502' },
+            { timestamp: '2026-02-24T12:00:01.000Z', level: 'error', message: 'Webhook 7 failed with 500' },
+            { timestamp: '2026-02-24T12:00:02.000Z', level: 'warn', message: 'Webhook 9 failed with 503' },
+            { timestamp: '2026-02-24T12:00:04.000Z', level: 'info', message: 'User joined' },
+        ]);
+
+        expect(patterns).toEqual([
+            {
+                signature: 'Webhook <num> failed with <num>',
+                count: 3,
+                level: 'error',
+                firstSeen: '2026-02-24T12:00:01.000Z',
+                lastSeen: '2026-02-24T12:00:03.000Z',
+                sample: 'Webhook 41 failed with 502',
+            },
+            {
+                signature: 'User joined',
+                count: 1,
+                level: 'info',
+                firstSeen: '2026-02-24T12:00:04.000Z',
+                lastSeen: '2026-02-24T12:00:04.000Z',
+                sample: 'User joined',
+            },
+        ]);
+    });
+});
+
+describe('LogsPatternsEndpoint', () => {
+    it('clusters redacted lines from the query window and audits the request', async () => {
+        const { read, persistence, store } = buildRead({ settings: DOCKER_SETTINGS });
+        const at = (offsetMs: number) => new Date(Date.now() - offsetMs).toISOString();
+        const http = {
+            get: async () => ({
+                statusCode: 200,
+                content: [
+                    `${at(40000)} ERROR login failed for alice@example.com after 3 attempts`,
+                    `${at(30000)} ERROR login failed for bob@example.com after 5 attempts`,
+                    `${at(20000)} INFO user joined room general`,
+                    `${at(10000)} WARN slow query 1200ms`,
+                ].join('\n'),
+            }),
+        };
+
+        const response = await endpoint.post(
+            buildRequest({ content: { since: '15m', limit: 100, level: ['error', 'info'] } }),
+            {} as any,
+            read,
+            {} as any,
+            http as any,
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        const content = response.content as any;
+        expect(content.patterns.map((pattern: { signature: string; count: number }) => [pattern.signature, pattern.count])).toEqual([
+            ['ERROR login failed for [REDACTED] after <num> attempts', 2],
+            ['INFO user joined room general', 1],
+        ]);
+        expect(content.patterns[0].sample).toBe('ERROR login failed for [REDACTED] after 5 attempts');
+        expect(content.meta).toMatchObject({ sampledLines: 3, totalPatterns: 2, returnedPatterns: 2, truncated: false, requestedLevel: ['error', 'info'] });
+        expect(content.meta.redaction.redactedLines).toBe(2);
+
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; scope?: Record<string, unknown> }> };
+        expect(audit.entries.find((entry) => entry.action === 'patterns')?.scope).toMatchObject({ sampledLines: 3, patterns: 2, sourceMode: 'docker' });
+    });
+
+    it('rejects cursors because patterns always cover the newest lines', async () => {
+        const { read, persistence, store } = buildRead({ settings: DOCKER_SETTINGS });
+        const response = await endpoint.post(
+            buildRequest({ content: { since: '15m', cursor: 'eyJ0IjoiMTc3MTkzNDQwMDAwMDAwMDAwMCIsInMiOiI5ZjJjMWE0ZSIsImsiOjEsIm4iOjF9' } }),
+            {} as any,
+            read,
+            {} as any,
+            {} as any,
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.BAD_REQUEST);
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; reason?: string }> };
+        expect(audit.entries[0]).toMatchObject({ action: 'patterns_denied', reason: 'invalid_query' });
+    });
+
+    it('returns 403 when caller role is not allowed', async () => {
+        const { read, persistence } = buildRead();
+        const response = await endpoint.post(buildRequest({ roles: ['user'], content: {} }), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.FORBIDDEN);
+        expect((response.content as any).error).toBe('Insufficient authorization for logs patterns.');
+    });
+});
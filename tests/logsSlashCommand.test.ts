@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'bun:test';
 
+import { encodeQueryCursor } from '../src/api/logs/queryCursor';
 import { LogsSlashCommand } from '../src/commands/LogsSlashCommand';
 
 describe('LogsSlashCommand argument parsing', () => {
@@ -10,12 +11,21 @@ describe('LogsSlashCommand argument parsing', () => {
 
         expect(parsed.preset).toBe('incident');
         expect(parsed.since).toBe('30m');
-        expect(parsed.level).toBe('warn');
+        expect(parsed.levels).toEqual(['warn']);
         expect(parsed.search).toBe('gateway');
         expect(parsed.limit).toBe(900);
         expect(parsed.autorun).toBe(true);
     });
 
+    it('accepts comma-separated levels including unknown and warns on invalid ones', () => {
+        const parsed = command.parseArguments(['level=warn,error,unknown']);
+        const invalid = command.parseArguments(['level=error,trace']);
+
+        expect(parsed.levels).toEqual(['error', 'warn', 'unknown']);
+        expect(invalid.levels).toBeUndefined();
+        expect(invalid.warnings.join(' ')).toContain('Invalid level');
+    });
+
     it('rejects partial absolute time window', () => {
         const parsed = command.parseArguments(['start=2026-02-24T10:00:00Z']);
 
@@ -38,6 +48,108 @@ describe('LogsSlashCommand argument parsing', () => {
         expect(parsed.autorun).toBe(true);
     });
 
+    it('adds exclude and regex clauses to the search text and drops invalid search grammar', () => {
+        const parsed = command.parseArguments(['timeout', '-healthcheck', 'exclude=probe', 'regex=/5\\d\\d/i']);
+        const invalid = command.parseArguments(['regex=(?=lookahead)']);
+
+        expect(parsed.search).toBe('timeout -healthcheck -probe /5\\d\\d/i');
+        expect(parsed.warnings).toEqual([]);
+        expect(invalid.search).toBeUndefined();
+        expect(invalid.warnings.join(' ')).toContain('Lookarounds and backreferences are not supported');
+    });
+
+    it('parses label.<name> filters and rejects malformed ones', () => {
+        const parsed = command.parseArguments(['label.pod=api-0', 'label.namespace!=kube-system', 'label.container=~"web|worker"', 'label.pod']);
+
+        expect(parsed.labels).toEqual([
+            { name: 'pod', op: 'eq', value: 'api-0' },
+            { name: 'namespace', op: 'neq', value: 'kube-system' },
+            { name: 'container', op: 'regex', value: 'web|worker' },
+        ]);
+        expect(parsed.search).toBeUndefined();
+        expect(parsed.warnings.join(' ')).toContain('Invalid label filter `label.pod`');
+    });
+
+    it('parses a page cursor and warns on a malformed one', () => {
+        const cursor = encodeQueryCursor({ ts: '1771934400000000000', stream: '0a1b2c3d', skip: 1, seen: 1 });
+
+        expect(command.parseArguments([`cursor=${cursor}`]).cursor).toEqual({ ts: '1771934400000000000', stream: '0a1b2c3d', skip: 1, seen: 1 });
+
+        const invalid = command.parseArguments(['cursor=garbage']);
+        expect(invalid.cursor).toBeUndefined();
+        expect(invalid.warnings.join(' ')).toContain('Invalid cursor');
+    });
+
+    it('quotes next-page arguments so labels and search text round-trip, and reports what it leaves out', () => {
+        const cursor = { ts: '1771934400000000000', stream: '0a1b2c3d', skip: 1, seen: 1 };
+        const range = { start: new Date('2026-02-24T10:00:00Z'), end: new Date('2026-02-24T11:00:00Z') };
+        const parsed = command.parseArguments([
+            'label.pod="\'api-0\'"',
+            'label.container=~web|worker',
+            'search=run',
+        ]);
+        parsed.search = 'status=500 "auth failed" --verbose run label.pod=x -/5\\d\\d/';
+
+        const next = command.formatNextPageCommand(parsed, range, 50, cursor);
+        const reparsed = command.parseArguments(next.nextPageCommand.split(' ').slice(1));
+
+        expect(next.nextPageOmitted).toBeUndefined();
+        expect(reparsed.labels).toEqual(parsed.labels);
+        expect(reparsed.labels[0].value).toBe("'api-0'");
+        expect(reparsed.search).toBe(parsed.search);
+        expect(reparsed.cursor).toEqual(cursor);
+        expect(reparsed.warnings).toEqual([]);
+
+        const spaced = command.formatNextPageCommand(
+            { ...parsed, labels: [{ name: 'app', op: 'eq', value: 'Rocket Chat' }], search: '"auth  failed"' },
+            range,
+            50,
+            cursor,
+        );
+        expect(spaced.nextPageOmitted).toEqual(['label.app', 'search']);
+        expect(spaced.nextPageCommand).not.toContain('label.app');
+        expect(spaced.nextPageCommand).not.toContain('auth');
+    });
+
+    it('parses the compare subcommand with a baseline offset', () => {
+        const parsed = command.parseArguments(['compare', 'since=1h', 'baseline=24h', 'level=error']);
+        const invalid = command.parseArguments(['compare', 'baseline=yesterday']);
+        const withoutCompare = command.parseArguments(['baseline=24h']);
+
+        expect(parsed.compare).toBe(true);
+        expect(parsed.baseline).toBe('24h');
+        expect(parsed.since).toBe('1h');
+        expect(parsed.search).toBeUndefined();
+        expect(invalid.baseline).toBeUndefined();
+        expect(invalid.warnings.join(' ')).toContain('Invalid baseline value');
+        expect(withoutCompare.baseline).toBeUndefined();
+        expect(withoutCompare.warnings.join(' ')).toContain('baseline only applies to `/logs compare`');
+    });
+
+    it('formats compare level counts and pattern changes for the card', () => {
+        const text = command.formatCompareForMarkdown({
+            sourceMode: 'loki',
+            targetLabel: 'last 1h',
+            baselineLabel: '24h earlier',
+            sampleLimit: 500,
+            targetLineCount: 12,
+            baselineLineCount: 4,
+            levels: {
+                target: { error: 10, warn: 2, info: 0, debug: 0, unknown: 0 },
+                baseline: { error: 1, warn: 3, info: 0, debug: 0, unknown: 0 },
+            },
+            diff: {
+                new: [{ signature: 'db timeout after <num>ms', level: 'error', sample: '', baselineCount: 0, targetCount: 9, ratio: null }],
+                gone: [],
+                increased: [],
+            },
+        });
+
+        expect(text).toContain('Levels (baseline -> target): error 1->10, warn 3->2');
+        expect(text).toContain('New patterns (1): `db timeout after <num>ms` (9)');
+        expect(text).toContain('Gone (0): none');
+    });
+
     it('maps numeric log levels from JSON lines to semantic levels', () => {
         expect(command.detectLevel('{"level":20,"msg":"debug line"}', {})).toBe('debug');
         expect(command.detectLevel('{"level":35,"msg":"request log"}', {})).toBe('info');
@@ -0,0 +1,279 @@
+import { describe, expect, it } from 'bun:test';
+import { HttpStatusCode } from '@rocket.chat/apps-engine/definition/accessors';
+
+import { SETTINGS } from '../src/constants';
+import { LogsTailEndpoint } from '../src/api/logs/LogsTailEndpoint';
+
+const getAssocKey = (association: any): string => {
+    if (association && typeof association.getID === 'function') {
+        return String(association.getID());
+    }
+    if (association && typeof association.id === 'string') {
+        return association.id;
+    }
+    return String(association);
+};
+
+const createPersistenceHarness = (seed: Record<string, unknown> = {}) => {
+    const store = new Map<string, unknown>(Object.entries(seed));
+    const read = {
+        getPersistenceReader: () => ({
+            readByAssociation: async (association: unknown) => {
+                const key = getAssocKey(association);
+                if (!store.has(key)) {
+                    return [];
+                }
+                return [store.get(key)];
+            },
+        }),
+    };
+    const persistence = {
+        updateByAssociation: async (association: unknown, value: unknown) => {
+            const key = getAssocKey(association);
+            store.set(key, value);
+        },
+    };
+    return { read, persistence, store };
+};
+
+const buildRead = (input?: { settings?: Record<string, unknown>; seed?: Record<string, unknown>; siteUrl?: string }) => {
+    const persistenceHarness = createPersistenceHarness(input?.seed);
+    const settings = {
+        [SETTINGS.LOKI_BASE_URL]: 'http://loki.example.com',
+        [SETTINGS.REQUIRED_LABEL_SELECTOR]: '{job="rocketchat"}',
+        [SETTINGS.ALLOWED_ROLES]: 'admin',
+        [SETTINGS.WORKSPACE_PERMISSION_CODE]: 'view-logs',
+        [SETTINGS.WORKSPACE_PERMISSION_MODE]: 'off',
+        [SETTINGS.DEFAULT_TIME_RANGE]: '15m',
+        [SETTINGS.MAX_TIME_WINDOW_HOURS]: 24,
+        [SETTINGS.MAX_LINES_PER_QUERY]: 2000,
+        [SETTINGS.QUERY_TIMEOUT_MS]: 30000,
+        [SETTINGS.RATE_LIMIT_QPM]: 60,
+        [SETTINGS.AUDIT_RETENTION_DAYS]: 90,
+        [SETTINGS.AUDIT_MAX_ENTRIES]: 5000,
+        [SETTINGS.ENABLE_REDACTION]: true,
+        [SETTINGS.REDACTION_REPLACEMENT]: '[REDACTED]',
+        [SETTINGS.ALLOWED_LABEL_FILTERS]: 'namespace,pod',
+        ...(input?.settings || {}),
+    };
+
+    const read = {
+        ...persistenceHarness.read,
+        getEnvironmentReader: () => ({
+            getServerSettings: () => ({
+                getValueById: async () => {
+                    if (!input?.siteUrl) {
+                        throw new Error('Site_Url unavailable');
+                    }
+                    return input.siteUrl;
+                },
+            }),
+            getSettings: () => ({
+                getValueById: async (id: string) => settings[id],
+            }),
+        }),
+    };
+
+    return { read, persistence: persistenceHarness.persistence, store: persistenceHarness.store };
+};
+
+const buildRequest = (input?: {
+    roles?: Array<string>;
+    headers?: Record<string, string>;
+    content?: unknown;
+    query?: Record<string, unknown>;
+}): any => ({
+    user: {
+        id: 'u-admin',
+        roles: input?.roles || ['admin'],
+    },
+    headers: input?.headers || {},
+    query: input?.query || {},
+    content: input?.content,
+});
+
+const endpoint = new LogsTailEndpoint({
+    getID: () => 'test-app-id',
+} as any);
+
+const SESSIONS_KEY = 'tail-sessions:user:u-admin';
+
+const toNs = (ms: number): string => (BigInt(ms) * 1000000n).toString();
+
+const seedSession = (id: string, lastSeenMsAgo: number, filters: Record<string, unknown> = {}) => ({
+    id,
+    startedAt: new Date(Date.now() - 60000).toISOString(),
+    lastSeenAt: new Date(Date.now() - lastSeenMsAgo).toISOString(),
+    delivered: 3,
+    filters,
+});
+
+const lokiStreams = (values: Array<[string, string]>, captured?: { params?: Record<string, string> }) => ({
+    get: async (_url: string, options: { params?: Record<string, string> }) => {
+        if (captured) {
+            captured.params = options?.params || {};
+        }
+        return {
+            statusCode: 200,
+            data: {
+                status: 'success',
+                data: {
+                    resultType: 'streams',
+                    result: [{ stream: { job: 'rocketchat', level: 'info' }, values }],
+                },
+            },
+        };
+    },
+});
+
+const readEvents = (content: unknown): Array<{ event: string; id?: string; data: any }> =>
+    String(content)
+        .split('\n\n')
+        .filter((block) => block.includes('event: '))
+        .map((block) => {
+            const fields = Object.fromEntries(block.split('\n').map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]));
+            return { event: fields.event, id: fields.id, data: JSON.parse(fields.data) };
+        });
+
+describe('LogsTailEndpoint', () => {
+    it('opens a stream and returns redacted lines oldest first as server-sent events', async () => {
+        const { read, persistence, store } = buildRead();
+        const now = Date.now();
+        const captured: { params?: Record<string, string> } = {};
+        const http = lokiStreams([
+            [toNs(now - 1000), 'login ok token=abcd1234'],
+            [toNs(now - 5000), 'first line'],
+        ], captured);
+
+        const response = await endpoint.post(buildRequest({ content: { search: 'login' } }), {} as any, read, {} as any, http as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        expect(response.headers).toMatchObject({ 'content-type': 'text/event-stream; charset=utf-8', 'cache-control': 'no-cache' });
+        expect(String(response.content).startsWith('retry: 2000\n\n')).toBe(true);
+        expect(captured.params?.query).toBe('{job="rocketchat"} |= "login"');
+
+        const events = readEvents(response.content);
+        expect(events.map((event) => event.event)).toEqual(['stream', 'log', 'log']);
+        expect(events[0].data).toMatchObject({ cursor: toNs(now - 1000), returned: 2, truncated: false, pollIntervalMs: 2000 });
+        expect(events[1]).toMatchObject({ id: toNs(now - 5000), data: { message: 'first line' } });
+        expect(events[2].data.message).toBe('login ok token[REDACTED]');
+        expect(events[2].data.rawTimestampNs).toBeUndefined();
+
+        const sessions = (store.get(SESSIONS_KEY) as { sessions: Array<{ id: string; delivered: number; filters: unknown }> }).sessions;
+        expect(sessions).toHaveLength(1);
+        expect(sessions[0]).toMatchObject({ id: events[0].data.stream, delivered: 2, filters: { search: 'login' } });
+
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; scope?: Record<string, unknown> }> };
+        expect(audit.entries[0]).toMatchObject({ action: 'stream_start', scope: { streamId: sessions[0].id, searchProvided: true, maxStreams: 2 } });
+    });
+
+    it('only delivers lines newer than the cursor on later polls', async () => {
+        const now = Date.now();
+        const { read, persistence, store } = buildRead({
+            seed: { [SESSIONS_KEY]: { updatedAt: new Date().toISOString(), sessions: [seedSession('tail_abc_def', 5000)] } },
+        });
+        const cursor = toNs(now - 3000);
+        const captured: { params?: Record<string, string> } = {};
+        const http = lokiStreams([
+            [toNs(now - 1000), 'new line'],
+            [cursor, 'already delivered'],
+            [toNs(now - 4000), 'older line'],
+        ], captured);
+
+        const response = await endpoint.post(
+            buildRequest({ content: { stream: 'tail_abc_def', cursor } }),
+            {} as any,
+            read,
+            {} as any,
+            http as any,
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        expect(captured.params?.start).toBe(toNs(now - 3000));
+        const events = readEvents(response.content);
+        expect(events.map((event) => event.data.message ?? event.event)).toEqual(['stream', 'new line']);
+        expect(events[0].data).toMatchObject({ stream: 'tail_abc_def', cursor: toNs(now - 1000), returned: 1 });
+        expect((store.get(SESSIONS_KEY) as { sessions: Array<{ delivered: number }> }).sessions[0].delivered).toBe(4);
+    });
+
+    it('rejects new streams over the per-user limit and audits expired ones as ended', async () => {
+        const { read, persistence, store } = buildRead({
+            settings: { [SETTINGS.TAIL_MAX_STREAMS_PER_USER]: 1 },
+            seed: {
+                [SESSIONS_KEY]: {
+                    updatedAt: new Date().toISOString(),
+                    sessions: [seedSession('tail_abc_one', 1000), seedSession('tail_abc_old', 120000)],
+                },
+            },
+        });
+
+        const response = await endpoint.post(buildRequest({ content: {} }), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.TOO_MANY_REQUESTS);
+        expect(response.content).toMatchObject({ details: { active: 1, maxStreams: 1 } });
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; reason?: string; scope?: Record<string, unknown> }> };
+        expect(audit.entries.map((entry) => [entry.action, entry.reason])).toEqual([
+            ['stream_end', 'expired'],
+            ['stream_start_denied', 'stream_limit'],
+        ]);
+        expect((store.get(SESSIONS_KEY) as { sessions: Array<{ id: string }> }).sessions.map((session) => session.id)).toEqual(['tail_abc_one']);
+    });
+
+    it('closes a stream on end and audits stream_end', async () => {
+        const { read, persistence, store } = buildRead({
+            seed: { [SESSIONS_KEY]: { updatedAt: new Date().toISOString(), sessions: [seedSession('tail_abc_def', 5000)] } },
+        });
+
+        const response = await endpoint.post(
+            buildRequest({ content: { stream: 'tail_abc_def', end: true } }),
+            {} as any,
+            read,
+            {} as any,
+            {} as any,
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.OK);
+        expect(readEvents(response.content)).toEqual([{ event: 'end', id: undefined, data: { stream: 'tail_abc_def', reason: 'closed' } }]);
+        expect((store.get(SESSIONS_KEY) as { sessions: Array<unknown> }).sessions).toHaveLength(0);
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string; reason?: string; scope?: Record<string, unknown> }> };
+        expect(audit.entries[0]).toMatchObject({ action: 'stream_end', reason: 'closed', scope: { streamId: 'tail_abc_def', delivered: 3 } });
+    });
+
+    it('returns 410 for expired or unknown streams', async () => {
+        const { read, persistence } = buildRead({
+            seed: { [SESSIONS_KEY]: { updatedAt: new Date().toISOString(), sessions: [seedSession('tail_abc_def', 120000)] } },
+        });
+
+        const response = await endpoint.post(buildRequest({ content: { stream: 'tail_abc_def' } }), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.GONE);
+    });
+
+    it('rejects filter changes on an open stream', async () => {
+        const { read, persistence } = buildRead();
+
+        const response = await endpoint.post(
+            buildRequest({ content: { stream: 'tail_abc_def', level: 'error' } }),
+            {} as any,
+            read,
+            {} as any,
+            {} as any,
+            persistence,
+        );
+
+        expect(response.status).toBe(HttpStatusCode.BAD_REQUEST);
+        expect(response.content).toMatchObject({ error: 'Filters are fixed when a tail stream starts; open a new stream to change them.' });
+    });
+
+    it('returns 403 when caller role is not allowed', async () => {
+        const { read, persistence, store } = buildRead();
+
+        const response = await endpoint.post(buildRequest({ roles: ['user'], content: {} }), {} as any, read, {} as any, {} as any, persistence);
+
+        expect(response.status).toBe(HttpStatusCode.FORBIDDEN);
+        const audit = store.get('audit:logs-query') as { entries: Array<{ action: string }> };
+        expect(audit.entries[0].action).toBe('stream_start_denied');
+    });
+});
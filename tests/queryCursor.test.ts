@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+    applyQueryCursor,
+    buildNextQueryCursor,
+    decodeQueryCursor,
+    encodeQueryCursor,
+    hashStreamLabels,
+    sortEntriesForPaging,
+} from '../src/api/logs/queryCursor';
+import { LogEntry } from '../src/sources/types';
+
+const entry = (rawTimestampNs: string, pod: string, message: string): LogEntry => ({
+    timestamp: new Date(Number(BigInt(rawTimestampNs) / 1000000n)).toISOString(),
+    rawTimestampNs,
+    level: 'info',
+    message,
+    labels: { pod },
+});
+
+describe('query cursor', () => {
+    it('round-trips through its opaque encoding and rejects tampered values', () => {
+        const cursor = { ts: '1771934400000000000', stream: hashStreamLabels({ pod: 'a' }), skip: 1, seen: 2 };
+        const encoded = encodeQueryCursor(cursor);
+
+        expect(decodeQueryCursor(encoded)).toEqual(cursor);
+        expect(decodeQueryCursor('not-a-cursor')).toBeUndefined();
+        expect(decodeQueryCursor(Buffer.from(JSON.stringify({ t: 'x', s: cursor.stream, k: 0, n: 0 })).toString('base64url'))).toBeUndefined();
+        expect(decodeQueryCursor(Buffer.from(JSON.stringify({ t: cursor.ts, s: cursor.stream, k: 3, n: 1 })).toString('base64url'))).toBeUndefined();
+    });
+
+    it('resumes inside a run of lines that share a timestamp', () => {
+        const sorted = sortEntriesForPaging([
+            entry('1000000001', 'a', 'a-late'),
+            entry('1000000000', 'a', 'a-1'),
+            entry('1000000000', 'a', 'a-2'),
+            entry('999000000', 'a', 'older'),
+        ]);
+        const cursor = buildNextQueryCursor(sorted.slice(0, 2));
+
+        expect(sorted.map((item) => item.message)).toEqual(['a-late', 'a-1', 'a-2', 'older']);
+        expect(cursor).toMatchObject({ ts: '1000000000', skip: 1, seen: 2 });
+        expect(applyQueryCursor(sorted, cursor!).map((item) => item.message)).toEqual(['a-2', 'older']);
+    });
+
+    it('orders streams at the same timestamp consistently across pages', () => {
+        const entries = [entry('1000000000', 'a', 'from-a'), entry('1000000000', 'b', 'from-b'), entry('999000000', 'a', 'older')];
+        const sorted = sortEntriesForPaging(entries);
+
+        expect(sortEntriesForPaging([...entries].reverse()).map((item) => item.message)).toEqual(sorted.map((item) => item.message));
+        expect(applyQueryCursor(sorted, buildNextQueryCursor(sorted.slice(0, 1))!)).toEqual(sorted.slice(1));
+    });
+
+    it('carries counts forward when a page ends on the previous cursor timestamp', () => {
+        const previous = { ts: '1000000000', stream: hashStreamLabels({ pod: 'a' }), skip: 1, seen: 2 };
+
+        expect(buildNextQueryCursor([entry('1000000000', 'a', 'a-2')], previous)).toMatchObject({ skip: 2, seen: 3 });
+        expect(buildNextQueryCursor([], previous)).toBeUndefined();
+    });
+});
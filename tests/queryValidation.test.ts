@@ -1,6 +1,8 @@
 import { describe, expect, it } from 'bun:test';
 
-import { parseAndNormalizeQuery } from '../src/api/logs/queryValidation';
+import { parseAndNormalizeQuery, parseSearchExpression } from '../src/api/logs/queryValidation';
+import { buildSearchMatcher } from '../src/sources/logEntries';
+import { buildLogQl } from '../src/sources/lokiSource';
 
 describe('parseAndNormalizeQuery', () => {
     it('normalizes valid relative query', () => {
@@ -21,7 +23,7 @@ describe('parseAndNormalizeQuery', () => {
 
         expect('query' in result).toBe(true);
         if ('query' in result) {
-            expect(result.query.level).toBe('error');
+            expect(result.query.levels).toEqual(['error']);
             expect(result.query.search).toBe('timeout');
             expect(result.query.limit).toBe(250);
             expect(result.query.end.toISOString()).toBe(now.toISOString());
@@ -100,4 +102,253 @@ describe('parseAndNormalizeQuery', () => {
             expect(result.error).toContain('Requested limit exceeds max lines per query');
         }
     });
+
+    it('accepts allow-listed label filters and rejects other names or bad regexes', () => {
+        const base = {
+            requestQuery: {},
+            defaultTimeRange: '15m',
+            maxTimeWindowHours: 24,
+            maxLinesPerQuery: 2000,
+            allowedLabelNames: ['pod', 'namespace'],
+        };
+        const valid = parseAndNormalizeQuery({
+            ...base,
+            requestContent: { labels: [{ name: 'pod', op: 'regex', value: 'api-.*' }, { name: 'namespace', op: 'neq', value: 'kube-system' }] },
+        });
+        const disallowed = parseAndNormalizeQuery({
+            ...base,
+            requestContent: { labels: [{ name: 'job', op: 'eq', value: 'rocketchat' }] },
+        });
+        const badRegex = parseAndNormalizeQuery({
+            ...base,
+            requestContent: { labels: [{ name: 'pod', op: 'regex', value: 'api-(' }] },
+        });
+
+        expect('query' in valid && valid.query.labels).toEqual([
+            { name: 'pod', op: 'regex', value: 'api-.*' },
+            { name: 'namespace', op: 'neq', value: 'kube-system' },
+        ]);
+        expect(disallowed).toMatchObject({ error: 'Label filter on "job" is not allowed.' });
+        expect(badRegex).toEqual({ error: 'Label filter regex for "pod" is invalid.' });
+    });
+
+    it('rejects label filter regexes that can backtrack catastrophically, RE2 cannot run, or are too long', () => {
+        const base = {
+            requestQuery: {},
+            defaultTimeRange: '15m',
+            maxTimeWindowHours: 24,
+            maxLinesPerQuery: 2000,
+            allowedLabelNames: ['pod'],
+        };
+        const nested = parseAndNormalizeQuery({
+            ...base,
+            requestContent: { labels: [{ name: 'pod', op: 'regex', value: '([a-z0-9-]+)+X' }] },
+        });
+        const tooLong = parseAndNormalizeQuery({
+            ...base,
+            requestContent: { labels: [{ name: 'pod', op: 'regex', value: 'a'.repeat(129) }] },
+        });
+        const bounded = parseAndNormalizeQuery({
+            ...base,
+            requestContent: { labels: [{ name: 'pod', op: 'regex', value: '(api|web)-[a-z0-9]{1,8}' }] },
+        });
+        const repeated = parseAndNormalizeQuery({
+            ...base,
+            requestContent: { labels: [{ name: 'pod', op: 'regex', value: '(.*a){12}$' }] },
+        });
+        const lookahead = parseAndNormalizeQuery({
+            ...base,
+            requestContent: { labels: [{ name: 'pod', op: 'regex', value: 'api-(?!canary).*' }] },
+        });
+
+        expect(nested).toEqual({ error: 'Label filter regex for "pod" nests unbounded quantifiers such as (a+)+, which can backtrack catastrophically.' });
+        expect(tooLong).toEqual({ error: 'Label filter regex for "pod" is too long. Maximum 128 characters.' });
+        expect(repeated).toEqual({
+            error: 'Label filter regex for "pod" repeats a group holding an unbounded quantifier such as (.*a){3}, which can backtrack catastrophically.',
+        });
+        expect(lookahead).toEqual({ error: 'Label filter regex for "pod" is invalid. Lookarounds and backreferences are not supported.' });
+        expect('query' in bounded).toBe(true);
+    });
+
+    it('validates field filters and requires a parser for them', () => {
+        const base = {
+            requestQuery: {},
+            defaultTimeRange: '15m',
+            maxTimeWindowHours: 24,
+            maxLinesPerQuery: 2000,
+        };
+        const valid = parseAndNormalizeQuery({
+            ...base,
+            requestContent: { parser: 'JSON', fields: [{ name: 'msg.userId', op: 'eq', value: 'abc' }, { name: 'status', op: 'gte', value: 500 }] },
+        });
+        const nonNumeric = parseAndNormalizeQuery({
+            ...base,
+            requestContent: { parser: 'json', fields: [{ name: 'status', op: 'gt', value: '5xx' }] },
+        });
+        const badName = parseAndNormalizeQuery({
+            ...base,
+            requestContent: { parser: 'json', fields: [{ name: 'msg..userId', op: 'eq', value: 'abc' }] },
+        });
+        const withoutParser = parseAndNormalizeQuery({
+            ...base,
+            requestContent: { fields: [{ name: 'status', op: 'eq', value: '500' }] },
+        });
+
+        expect('query' in valid && valid.query.parser).toBe('json');
+        expect('query' in valid && valid.query.fields).toEqual([
+            { name: 'msg.userId', op: 'eq', value: 'abc' },
+            { name: 'status', op: 'gte', value: '500' },
+        ]);
+        expect(nonNumeric).toEqual({ error: 'Field filter on "status" compares numbers; value must be a decimal number.' });
+        expect(badName).toMatchObject({ error: expect.stringContaining('Invalid field filter name') });
+        expect(withoutParser).toEqual({ error: 'Field filters need a parser (json or logfmt).' });
+    });
+
+    it('rejects field filter regexes that can backtrack catastrophically', () => {
+        const result = parseAndNormalizeQuery({
+            requestQuery: {},
+            requestContent: { parser: 'json', fields: [{ name: 'user', op: 'regex', value: '([a-z]+)+!' }] },
+            defaultTimeRange: '15m',
+            maxTimeWindowHours: 24,
+            maxLinesPerQuery: 2000,
+        });
+
+        expect(result).toEqual({ error: 'Field filter regex for "user" nests unbounded quantifiers such as (a+)+, which can backtrack catastrophically.' });
+    });
+
+    it('rejects field filter regexes with bounded repeats of unbounded groups or syntax RE2 cannot run', () => {
+        const parse = (value: string) => parseAndNormalizeQuery({
+            requestQuery: {},
+            requestContent: { parser: 'logfmt', fields: [{ name: 'user', op: 'regex', value }] },
+            defaultTimeRange: '15m',
+            maxTimeWindowHours: 24,
+            maxLinesPerQuery: 2000,
+        });
+
+        expect(parse('(a+){1,1000}')).toEqual({
+            error: 'Field filter regex for "user" repeats a group holding an unbounded quantifier such as (.*a){3}, which can backtrack catastrophically.',
+        });
+        expect(parse('(?<=id-)\\d+')).toEqual({ error: 'Field filter regex for "user" is invalid. Lookarounds and backreferences are not supported.' });
+        expect('query' in parse('[a-z]{1,16}@example\\.com')).toBe(true);
+    });
+
+    it('accepts a level set including unknown as an array or comma-separated string', () => {
+        const base = {
+            requestQuery: {},
+            defaultTimeRange: '15m',
+            maxTimeWindowHours: 24,
+            maxLinesPerQuery: 2000,
+        };
+        const fromArray = parseAndNormalizeQuery({ ...base, requestContent: { level: ['warn', 'error', 'warn'] } });
+        const fromString = parseAndNormalizeQuery({ ...base, requestContent: { level: 'unknown, debug' } });
+        const invalid = parseAndNormalizeQuery({ ...base, requestContent: { level: ['error', 'trace'] } });
+        const wrongType = parseAndNormalizeQuery({ ...base, requestContent: { level: 3 } });
+
+        expect('query' in fromArray && fromArray.query.levels).toEqual(['error', 'warn']);
+        expect('query' in fromString && fromString.query.levels).toEqual(['debug', 'unknown']);
+        expect(invalid).toMatchObject({ error: 'Invalid level filter.' });
+        expect(wrongType).toMatchObject({ error: 'level must be a level name or an array of level names.' });
+    });
+});
+
+describe('parseSearchExpression', () => {
+    it('parses words, phrases, negation, and regex clauses', () => {
+        expect(parseSearchExpression('timeout -healthcheck "auth failed" -"GET /ping" /5\\d\\d/i -/^debug:/ /api/v1/users')).toEqual({
+            terms: [
+                { kind: 'include', value: 'timeout' },
+                { kind: 'exclude', value: 'healthcheck' },
+                { kind: 'include', value: 'auth failed' },
+                { kind: 'exclude', value: 'GET /ping' },
+                { kind: 'regex', value: '5\\d\\d', ignoreCase: true },
+                { kind: 'exclude_regex', value: '^debug:' },
+                { kind: 'include', value: '/api/v1/users' },
+            ],
+        });
+    });
+
+    it('rejects regexes RE2 cannot run, unterminated phrases, and too many clauses', () => {
+        expect(parseSearchExpression('/(?<=user )\\w+/')).toMatchObject({ error: expect.stringContaining('Lookarounds and backreferences') });
+        expect(parseSearchExpression('/(a)\\1/')).toMatchObject({ error: expect.stringContaining('Lookarounds and backreferences') });
+        expect(parseSearchExpression('/[a-/')).toMatchObject({ error: expect.stringContaining('is invalid') });
+        expect(parseSearchExpression('"auth failed')).toEqual({ error: 'Unterminated quoted phrase in search.' });
+        expect(parseSearchExpression('a b c d e f g h i j k')).toEqual({ error: 'Too many search terms. Maximum 10.' });
+    });
+
+    it('rejects include and exclude regexes that can backtrack catastrophically', () => {
+        expect(parseSearchExpression('/(\\w+)+X/')).toEqual({
+            error: 'Search regex /(\\w+)+X/ nests unbounded quantifiers such as (a+)+, which can backtrack catastrophically.',
+        });
+        expect(parseSearchExpression('-/(a|ab)*c/')).toEqual({
+            error: 'Search regex /(a|ab)*c/ repeats an alternation without a bound such as (a|ab)*, which can backtrack catastrophically.',
+        });
+        expect(parseSearchExpression('/(\\w{1,8})+X/')).toEqual({ terms: [{ kind: 'regex', value: '(\\w{1,8})+X' }] });
+        for (const pattern of ['(.*a){12}$', '(.*a){6}$', '(a+){1,1000}']) {
+            expect(parseSearchExpression(`/${pattern}/`)).toEqual({
+                error: `Search regex /${pattern}/ repeats a group holding an unbounded quantifier such as (.*a){3}, which can backtrack catastrophically.`,
+            });
+            expect(parseSearchExpression(`-/${pattern}/i`)).toMatchObject({ error: expect.stringContaining('can backtrack catastrophically') });
+        }
+    });
+
+    it('rejects invalid search grammar in query payloads', () => {
+        const result = parseAndNormalizeQuery({
+            requestQuery: {},
+            requestContent: { search: 'timeout /(?!ok)/' },
+            defaultTimeRange: '15m',
+            maxTimeWindowHours: 24,
+            maxLinesPerQuery: 2000,
+        });
+
+        expect(result).toMatchObject({ error: expect.stringContaining('Search regex /(?!ok)/ is invalid') });
+    });
+
+    it('matches in-app with case-insensitive words and regex flags', () => {
+        const matches = buildSearchMatcher('Timeout -healthcheck /status=5\\d\\d/');
+
+        expect(matches('upstream TIMEOUT status=503')).toBe(true);
+        expect(matches('upstream timeout status=200')).toBe(false);
+        expect(matches('HealthCheck timeout status=504')).toBe(false);
+        expect(buildSearchMatcher('/TIMEOUT/i')('timeout')).toBe(true);
+        expect(buildSearchMatcher('/TIMEOUT/')('timeout')).toBe(false);
+    });
+});
+
+describe('buildLogQl', () => {
+    it('appends escaped label matchers to the server-built selector', () => {
+        const logQl = buildLogQl('{job="rocketchat"}', 'timeout', undefined, [
+            { name: 'pod', op: 'eq', value: 'api-"0"' },
+            { name: 'namespace', op: 'regex', value: 'prod|stage\\d' },
+        ]);
+
+        expect(logQl).toBe('{job="rocketchat",pod="api-\\"0\\"",namespace=~"prod|stage\\\\d"} |= "timeout"');
+    });
+
+    it('compiles search clauses into ordered line filters', () => {
+        const logQl = buildLogQl('{job="rocketchat"}', 'timeout -healthcheck "auth \\"x\\"" /5\\d\\d/i -/^debug/');
+
+        expect(logQl).toBe('{job="rocketchat"} |= "timeout" != "healthcheck" |= "auth \\"x\\"" |~ "(?i)5\\\\d\\\\d" !~ "^debug"');
+    });
+
+    it('extracts only filtered fields under aliases and drops lines that fail to parse', () => {
+        const logQl = buildLogQl('{job="rocketchat"}', undefined, ['error'], [], 'json', [
+            { name: 'msg.userId', op: 'eq', value: 'a"b' },
+            { name: 'status', op: 'gte', value: '500' },
+            { name: 'status', op: 'lt', value: '600' },
+        ]);
+
+        expect(logQl).toBe(
+            '{job="rocketchat"} |~ "(?i)\\\\b(error|err|fatal|panic|exception)\\\\b" | json viewer_field_0="msg.userId", viewer_field_1="status"'
+            + ' | viewer_field_0="a\\"b" | viewer_field_1>=500 | viewer_field_1<600 | __error__=""',
+        );
+    });
+
+    it('combines level keywords into one line filter and excludes them all for unknown', () => {
+        expect(buildLogQl('{job="rocketchat"}', undefined, ['error', 'warn'])).toBe(
+            '{job="rocketchat"} |~ "(?i)\\\\b(error|err|fatal|panic|exception|warn|warning)\\\\b"',
+        );
+        expect(buildLogQl('{job="rocketchat"}', undefined, ['unknown'])).toBe(
+            '{job="rocketchat"} !~ "(?i)\\\\b(error|err|fatal|panic|exception|warn|warning|info|information|debug|trace|verbose)\\\\b"',
+        );
+        expect(buildLogQl('{job="rocketchat"}', undefined, ['error', 'unknown'])).toBe('{job="rocketchat"}');
+    });
 });
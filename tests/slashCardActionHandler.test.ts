@@ -1117,4 +1117,126 @@ describe('slashCardActionHandler', () => {
         expect(notifications.length).toBe(1);
         expect((notifications[0] as any).text).toContain('Sample details are no longer available');
     });
+
+    it('uploads a bundle of the snapshot sample and signals and links it in the card thread', async () => {
+        const notifications: Array<any> = [];
+        const finishes: Array<any> = [];
+        const uploads: Array<{ buffer: Buffer; descriptor: any }> = [];
+        const auditWrites: Array<any> = [];
+        const freshSnapshotIso = new Date().toISOString();
+        const modify: any = {
+            getCreator: () => ({
+                startMessage: () => createMessageBuilder(),
+                finish: async (builder: any) => {
+                    finishes.push(builder.getMessage());
+                    return 'note-1';
+                },
+                getUploadCreator: () => ({
+                    uploadBuffer: async (buffer: Buffer, descriptor: any) => {
+                        uploads.push({ buffer, descriptor });
+                        return { id: 'upload-1', name: descriptor.filename, size: buffer.length, url: '/file-upload/upload-1/bundle.tar' };
+                    },
+                }),
+            }),
+            getNotifier: () => ({
+                notifyUser: async (_user: unknown, message: unknown) => notifications.push(message),
+            }),
+        };
+
+        const slashSnapshotStoreRecord = {
+            updatedAt: freshSnapshotIso,
+            entries: [
+                {
+                    id: 'snap_abc',
+                    createdAt: freshSnapshotIso,
+                    roomId: 'room-1',
+                    roomName: 'Support_Stuff',
+                    threadId: 'thread-1',
+                    sourceMode: 'loki',
+                    windowLabel: 'last 15m',
+                    filterSummary: 'since=15m, limit=200',
+                    preset: 'none',
+                    sampleOutput: [
+                        { level: 'error', text: '2026-02-26T00:00:00.000Z Primary failure line' },
+                    ],
+                    sampleTotalCount: 10,
+                    topSignals: [{ text: 'Primary failure line', count: 7 }],
+                },
+            ],
+        };
+
+        const handled = await handleSlashCardBlockAction(
+            'app-id',
+            {
+                appId: 'app-id',
+                actionId: SLASH_CARD_ACTION.UPLOAD_BUNDLE,
+                value: encodeSlashCardActionPayload({ ...payload, snapshotId: 'snap_abc', sampleOutput: [] }),
+                room,
+                user: { id: 'u1', roles: ['admin'] },
+                triggerId: 't1',
+                blockId: 'b1',
+                container: { id: 'c1', type: 'contextual_bar' } as any,
+            } as any,
+            createRead('admin', ['admin'], { actorId: 'u1', slashSnapshotStoreRecord }),
+            modify,
+            {
+                updateByAssociation: async (...args: Array<unknown>) => auditWrites.push(args),
+            } as any,
+        );
+
+        expect(handled).toBe(true);
+        expect(uploads.length).toBe(1);
+        expect(uploads[0].descriptor).toMatchObject({ filename: expect.stringMatching(/^logs-bundle-.*\.tar$/), room, user: appUser });
+        const archive = uploads[0].buffer.toString('utf8');
+        expect(archive).toContain('"message":"2026-02-26T00:00:00.000Z Primary failure line"');
+        expect(archive).toContain('"signature": "Primary failure line"');
+        expect(finishes.length).toBe(1);
+        expect(finishes[0].threadId).toBe('thread-1');
+        expect(finishes[0].text).toContain('*Investigation Bundle (Logs Viewer)*');
+        expect(auditWrites.length).toBe(1);
+        expect(JSON.stringify(auditWrites[0])).toContain('"action":"export_bundle"');
+        expect(notifications.length).toBe(1);
+        expect((notifications[0] as any).text).toContain('with 1 sampled line(s) to the room and linked it in the thread');
+    });
+
+    it('denies unauthorized bundle upload and writes denied audit entry', async () => {
+        const auditWrites: Array<any> = [];
+        const uploads: Array<unknown> = [];
+        const modify: any = {
+            getCreator: () => ({
+                startMessage: () => createMessageBuilder(),
+                finish: async () => undefined,
+                getUploadCreator: () => ({
+                    uploadBuffer: async (buffer: Buffer) => uploads.push(buffer),
+                }),
+            }),
+            getNotifier: () => ({
+                notifyUser: async () => undefined,
+            }),
+        };
+
+        const handled = await handleSlashCardBlockAction(
+            'app-id',
+            {
+                appId: 'app-id',
+                actionId: SLASH_CARD_ACTION.UPLOAD_BUNDLE,
+                value: encodeSlashCardActionPayload(payload),
+                room,
+                user: { id: 'u1', roles: ['user'] },
+                triggerId: 't1',
+                blockId: 'b1',
+                container: { id: 'c1', type: 'contextual_bar' } as any,
+            } as any,
+            createRead('admin', ['user']),
+            modify,
+            {
+                updateByAssociation: async (...args: Array<unknown>) => auditWrites.push(args),
+            } as any,
+        );
+
+        expect(handled).toBe(true);
+        expect(uploads.length).toBe(0);
+        expect(auditWrites.length).toBe(1);
+        expect(JSON.stringify(auditWrites[0])).toContain('"action":"export_bundle_denied"');
+    });
 });
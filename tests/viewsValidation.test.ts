@@ -33,6 +33,15 @@ describe('parseSavedViewsMutation', () => {
         }
     });
 
+    it('stores a level set and rejects unknown level names', () => {
+        const query = { timeMode: 'relative', since: '1h', limit: 100 };
+        const parsed = parseSavedViewsMutation({ action: 'create', name: 'Noise', query: { ...query, level: ['unknown', 'warn'] } });
+        const invalid = parseSavedViewsMutation({ action: 'create', name: 'Broken', query: { ...query, level: 'trace' } });
+
+        expect('mutation' in parsed && parsed.mutation.action === 'create' && parsed.mutation.query.level).toEqual(['warn', 'unknown']);
+        expect(invalid).toEqual({ error: 'query.level must be one or more of: error, warn, info, debug, unknown.' });
+    });
+
     it('rejects update mutation with no changes', () => {
         const parsed = parseSavedViewsMutation({
             action: 'update',
@@ -74,4 +83,22 @@ describe('parseSavedViewsMutation', () => {
             error: 'query.start must be before query.end.',
         });
     });
+
+    it('keeps a valid source id and rejects malformed ones', () => {
+        const parsed = parseSavedViewsMutation({
+            action: 'create',
+            name: 'Staging errors',
+            query: { timeMode: 'relative', since: '1h', limit: 100, source: 'Staging' },
+        });
+        const invalid = parseSavedViewsMutation({
+            action: 'create',
+            name: 'Broken source',
+            query: { timeMode: 'relative', since: '1h', limit: 100, source: 'staging eu' },
+        });
+
+        expect('mutation' in parsed && parsed.mutation.action === 'create' ? parsed.mutation.query.source : null).toBe('staging');
+        expect(invalid).toEqual({
+            error: 'query.source must be a source id (lowercase letters, digits, dashes, or underscores).',
+        });
+    });
 });
@@ -1,13 +1,19 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { useMutation, useQuery } from '@tanstack/react-query';
+import { useMutation, useQueries, useQuery } from '@tanstack/react-query';
 import { useVirtualizer } from '@tanstack/react-virtual';
-import { ChevronDown, Copy, Database, FileText, Filter, History, MessageSquarePlus, Search, Share2 } from 'lucide-react';
+import { Archive, ChevronDown, Copy, Database, Download, FileText, Filter, History, MessageSquarePlus, Plus, Search, Share2, X } from 'lucide-react';
 
 import { AppShell } from '@/components/layout/AppShell';
 import { ThemeToggle } from '@/components/layout/ThemeToggle';
 import { EmptyState } from '@/components/EmptyState';
 import { ErrorState } from '@/components/ErrorState';
+import { LiveTailPanel } from '@/components/LiveTailPanel';
+import { LogComparePanel } from '@/components/LogComparePanel';
+import { LogContextPanel } from '@/components/LogContextPanel';
+import { LogCorrelationPanel } from '@/components/LogCorrelationPanel';
+import { LogPatternsPanel } from '@/components/LogPatternsPanel';
 import { LoadingState } from '@/components/LoadingState';
+import { LogVolumeHistogram } from '@/components/LogVolumeHistogram';
 import { SkeletonRows } from '@/components/SkeletonRows';
 import { Alert } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
@@ -28,14 +34,30 @@ import {
   MIN_POLLING_INTERVAL_SECONDS,
   parsePollingIntervalSeconds,
 } from '@/lib/polling';
+import { buildEntityLinkMap, collectEntityLookup, entityRefKey } from '@/lib/entities';
+import { collectFieldColumns, parseFieldFilterInput, sortEntriesByField, type FieldSort } from '@/lib/fields';
+import { normalizeLogSignature } from '@/lib/patterns';
+import { useLiveTail } from '@/lib/useLiveTail';
 import { SIDEBAR_INLINE_BREAKPOINT, useMediaQuery } from '@/lib/useMediaQuery';
 import {
   AuditOutcome,
+  ExportFormat,
+  FieldFilter,
+  FieldParser,
+  HistogramBucket,
+  LabelFilter,
+  LabelFilterOperator,
+  LogPattern,
   LogsActionType,
-  QueryLevel,
+  LogsEntry,
+  QueryResultLevel,
   SavedViewQuery,
+  compareWindows,
+  correlateLogs,
+  exportLogs,
   getAudit,
   getConfig,
+  getLabels,
   getSavedViews,
   getThreads,
   getTargets,
@@ -43,7 +65,10 @@ import {
   isPrivateApiError,
   mutateSavedView,
   postLogAction,
+  queryHistogram,
   queryLogs,
+  queryPatterns,
+  resolveEntities,
 } from '@/lib/api';
 
 type PrefillContext = {
@@ -60,18 +85,30 @@ type PrefillState = {
   since?: string;
   start?: string;
   end?: string;
-  level?: QueryLevel;
+  levels?: Array<QueryResultLevel>;
   limit?: number;
   search?: string;
+  labels?: Array<LabelFilter>;
+  // `compare=24h` (or `compare=1` for the preceding window) opens the Compare tab.
+  compare?: string;
   autorun: boolean;
   context: PrefillContext;
 };
 
-const levelOptions: Array<{ label: string; value: QueryLevel }> = [
+const MAX_LABEL_FILTERS = 10;
+
+const labelOperatorOptions: Array<{ label: string; value: LabelFilterOperator; token: string }> = [
+  { label: 'equals', value: 'eq', token: '=' },
+  { label: 'not equals', value: 'neq', token: '!=' },
+  { label: 'matches regex', value: 'regex', token: '=~' },
+];
+
+const levelOptions: Array<{ label: string; value: QueryResultLevel }> = [
   { label: 'Error', value: 'error' },
   { label: 'Warn', value: 'warn' },
   { label: 'Info', value: 'info' },
   { label: 'Debug', value: 'debug' },
+  { label: 'Unknown', value: 'unknown' },
 ];
 
 const outcomeOptions: Array<{ label: string; value: AuditOutcome }> = [
@@ -124,17 +161,38 @@ const readUiPreferences = (source?: string): UiPreferences => {
   }
 };
 
-const parseQueryLevel = (value: string | null): QueryLevel | undefined => {
+// Accepts one level or a comma-separated list (`error,warn`); unrecognized names are dropped.
+const parseQueryLevels = (value: string | null): Array<QueryResultLevel> | undefined => {
   if (!value) {
     return undefined;
   }
 
-  const normalized = value.trim().toLowerCase();
-  if (normalized === 'error' || normalized === 'warn' || normalized === 'info' || normalized === 'debug') {
-    return normalized;
+  const requested = value.split(',').map((part) => part.trim().toLowerCase());
+  const levels = levelOptions.map((opt) => opt.value).filter((level) => requested.includes(level));
+  return levels.length > 0 ? levels : undefined;
+};
+
+const toLevelList = (value: QueryResultLevel | Array<QueryResultLevel> | null | undefined): Array<QueryResultLevel> => {
+  if (!value) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+};
+
+// Deep links carry label filters as repeated `label=pod=~api-.*` params (same syntax as `/logs label.<name>...`).
+const parseLabelFilterParam = (value: string): LabelFilter | undefined => {
+  const match = value.match(/^([a-zA-Z_][a-zA-Z0-9_]*)(!=|=~|=)(.+)$/);
+  if (!match) {
+    return undefined;
   }
 
-  return undefined;
+  const option = labelOperatorOptions.find((opt) => opt.token === match[2]);
+  return option ? { name: match[1], op: option.value, value: match[3] } : undefined;
+};
+
+const formatLabelFilter = (filter: LabelFilter): string => {
+  const token = labelOperatorOptions.find((opt) => opt.value === filter.op)?.token ?? '=';
+  return `${filter.name}${token}${filter.value}`;
 };
 
 const readPrefillFromLocation = (): PrefillState => {
@@ -161,9 +219,15 @@ const readPrefillFromLocation = (): PrefillState => {
     since: params.get('since') || '15m',
     start,
     end,
-    level: parseQueryLevel(params.get('level')),
+    levels: parseQueryLevels(params.get('level')),
     search: params.get('search') || undefined,
+    labels: params
+      .getAll('label')
+      .map(parseLabelFilterParam)
+      .filter((filter): filter is LabelFilter => Boolean(filter))
+      .slice(0, MAX_LABEL_FILTERS),
     limit: Number.isFinite(limitParsed) && (limitParsed || 0) > 0 ? Math.floor(limitParsed as number) : undefined,
+    compare: params.get('compare') || undefined,
     autorun: params.get('autorun') === '1' || params.get('run') === '1',
     context: {
       source: params.get('source') || undefined,
@@ -229,9 +293,12 @@ const summarizeSavedView = (query: SavedViewQuery): string => {
   const timePart = query.timeMode === 'relative'
     ? `since=${query.since || 'n/a'}`
     : `start=${query.start || 'n/a'} end=${query.end || 'n/a'}`;
-  const levelPart = query.level ? `level=${query.level}` : 'level=any';
+  const levelList = toLevelList(query.level);
+  const levelPart = levelList.length > 0 ? `level=${levelList.join(',')}` : 'level=any';
   const searchPart = query.search ? `search="${query.search}"` : 'search=none';
-  return `${timePart} | limit=${query.limit} | ${levelPart} | ${searchPart}`;
+  const sourcePart = query.source ? ` | source=${query.source}` : '';
+  const labelsPart = query.labels && query.labels.length > 0 ? ` | labels=${query.labels.map(formatLabelFilter).join(',')}` : '';
+  return `${timePart} | limit=${query.limit} | ${levelPart} | ${searchPart}${sourcePart}${labelsPart}`;
 };
 
 const formatErrorDetails = (details: unknown): string | null => {
@@ -322,8 +389,19 @@ export function App() {
   const [startAt, setStartAt] = useState(toDatetimeLocalInput(prefill.start));
   const [endAt, setEndAt] = useState(toDatetimeLocalInput(prefill.end));
   const [limit, setLimit] = useState(String(prefill.limit || 500));
-  const [level, setLevel] = useState<QueryLevel | ''>(prefill.level || '');
+  const [levels, setLevels] = useState<Array<QueryResultLevel>>(prefill.levels || []);
   const [searchTerm, setSearchTerm] = useState(prefill.search || '');
+  // Named backend source id (for example a Loki instance); empty means the server default.
+  const [logSourceId, setLogSourceId] = useState('');
+  const [labelFilters, setLabelFilters] = useState<Array<LabelFilter>>(prefill.labels || []);
+  const [fieldParser, setFieldParser] = useState<FieldParser | ''>('');
+  const [fieldFilterText, setFieldFilterText] = useState('');
+  const [fieldSort, setFieldSort] = useState<FieldSort | null>(null);
+  const [resultsTab, setResultsTab] = useState<'results' | 'patterns' | 'compare' | 'trace'>(prefill.compare ? 'compare' : 'results');
+  const [compareBaseline, setCompareBaseline] = useState(prefill.compare && prefill.compare !== '1' ? prefill.compare : '');
+  const [correlationId, setCorrelationId] = useState<string | null>(null);
+  // Signature picked in the Patterns tab; narrows the results table until cleared.
+  const [patternFilter, setPatternFilter] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
   const [pollIntervalSec, setPollIntervalSec] = useState(String(DEFAULT_POLLING_INTERVAL_SECONDS));
   const [isPolling, setIsPolling] = useState(false);
@@ -332,6 +410,7 @@ export function App() {
   const [messageViewMode, setMessageViewMode] = useState<'raw' | 'pretty'>(initialUiPreferences.messageViewMode);
   const [wrapLogLines, setWrapLogLines] = useState(initialUiPreferences.wrapLogLines);
   const [expandedRows, setExpandedRows] = useState<Record<number, boolean>>({});
+  const [contextRows, setContextRows] = useState<Record<number, boolean>>({});
   const [copiedRowIndex, setCopiedRowIndex] = useState<number | null>(null);
   const [copyRowError, setCopyRowError] = useState<string | null>(null);
 
@@ -380,10 +459,229 @@ export function App() {
     retry: 1,
   });
 
+  const logSourceOptions = configQuery.data?.config.sources || [];
+  // Each named source combines the role selector map with its own base selector.
+  const activeLabelScope = (logSourceId ? logSourceOptions.find((option) => option.id === logSourceId)?.labelScope : undefined)
+    ?? configQuery.data?.config.labelScope;
+  const allowedLabelFilters = configQuery.data?.config.allowedLabelFilters || [];
+
+  // Loki can suggest values for each label in use, scoped server-side to what the user may query.
+  const labelDiscoveryEnabled = configQuery.data?.config.sourceMode === 'loki';
+  const labelDiscoveryWindow = useMemo(() => {
+    if (timeMode === 'absolute') {
+      const start = new Date(startAt);
+      const end = new Date(endAt);
+      if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start >= end) {
+        return undefined;
+      }
+      return { start: start.toISOString(), end: end.toISOString() };
+    }
+    return since.trim() ? { since: since.trim() } : undefined;
+  }, [endAt, since, startAt, timeMode]);
+  const labelValueNames = useMemo(
+    () => Array.from(new Set(labelFilters.map((filter) => filter.name).filter((name) => allowedLabelFilters.includes(name)))),
+    [allowedLabelFilters, labelFilters],
+  );
+  const labelValueQueries = useQueries({
+    queries: labelValueNames.map((name) => ({
+      queryKey: ['logs-label-values', name, logSourceId, labelDiscoveryWindow],
+      queryFn: () => getLabels({ name, source: logSourceId || undefined, ...labelDiscoveryWindow }),
+      enabled: labelDiscoveryEnabled && Boolean(labelDiscoveryWindow),
+      staleTime: 60_000,
+      retry: 0,
+    })),
+  });
+  const labelValueSuggestions = useMemo(() => {
+    const suggestions: Record<string, Array<string>> = {};
+    labelValueNames.forEach((name, index) => {
+      suggestions[name] = labelValueQueries[index]?.data?.values || [];
+    });
+    return suggestions;
+  }, [labelValueNames, labelValueQueries]);
+
+  const addLabelFilter = useCallback(() => {
+    setLabelFilters((current) => (
+      current.length >= MAX_LABEL_FILTERS ? current : [...current, { name: allowedLabelFilters[0] || '', op: 'eq', value: '' }]
+    ));
+  }, [allowedLabelFilters]);
+
+  const updateLabelFilter = useCallback((index: number, patch: Partial<LabelFilter>) => {
+    setLabelFilters((current) => current.map((filter, filterIndex) => (filterIndex === index ? { ...filter, ...patch } : filter)));
+  }, []);
+
+  const removeLabelFilter = useCallback((index: number) => {
+    setLabelFilters((current) => current.filter((_, filterIndex) => filterIndex !== index));
+  }, []);
+
   const logsMutation = useMutation({
     mutationFn: queryLogs,
   });
 
+  // Volume histograms come from a Loki metric query, so other source modes skip them.
+  const histogramEnabled = configQuery.data?.config.sourceMode === 'loki';
+  const histogramMutation = useMutation({
+    mutationFn: queryHistogram,
+  });
+
+  const patternsMutation = useMutation({
+    mutationFn: queryPatterns,
+  });
+
+  const compareMutation = useMutation({
+    mutationFn: compareWindows,
+  });
+
+  const correlateMutation = useMutation({
+    mutationFn: correlateLogs,
+  });
+
+  const olderPageMutation = useMutation({
+    mutationFn: queryLogs,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: exportLogs,
+    onSuccess: ({ blob, filename }) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+  });
+  const [olderPages, setOlderPages] = useState<{ entries: Array<LogsEntry>; nextCursor: string | null } | null>(null);
+  const lastQueryFiltersRef = useRef<Parameters<typeof queryHistogram>[0] | null>(null);
+  const queryGenerationRef = useRef(0);
+
+  const fieldQuery = useMemo((): { parser?: FieldParser; fields?: Array<FieldFilter> } | { error: string } => {
+    if (!fieldParser) {
+      return fieldFilterText.trim() ? { error: 'Choose a field parser (JSON or logfmt) to filter on fields.' } : {};
+    }
+
+    const parsed = parseFieldFilterInput(fieldFilterText);
+    return 'error' in parsed ? parsed : { parser: fieldParser, fields: parsed.filters };
+  }, [fieldFilterText, fieldParser]);
+
+  const submitQuery = useCallback((filters: Parameters<typeof queryHistogram>[0], parsedLimit: number) => {
+    queryGenerationRef.current += 1;
+    lastQueryFiltersRef.current = filters;
+    setOlderPages(null);
+    olderPageMutation.reset();
+    logsMutation.mutate({ ...filters, limit: parsedLimit });
+    if (histogramEnabled) {
+      histogramMutation.mutate(filters);
+    } else {
+      histogramMutation.reset();
+    }
+    // Patterns cost a query of their own, so they only refresh while their tab is open.
+    if (resultsTab === 'patterns') {
+      patternsMutation.mutate({ ...filters, limit: parsedLimit });
+    } else {
+      patternsMutation.reset();
+    }
+    if (resultsTab === 'compare') {
+      compareMutation.mutate({ ...filters, limit: parsedLimit, baseline: compareBaseline.trim() || undefined });
+    } else {
+      compareMutation.reset();
+    }
+    // A timeline belongs to the window it was opened from, so a new query closes it.
+    setCorrelationId(null);
+    correlateMutation.reset();
+    if (resultsTab === 'trace') {
+      setResultsTab('results');
+    }
+  }, [compareBaseline, compareMutation, correlateMutation, histogramEnabled, histogramMutation, logsMutation, olderPageMutation, patternsMutation, resultsTab]);
+
+  const openPatternsTab = useCallback(() => {
+    setResultsTab('patterns');
+    const filters = lastQueryFiltersRef.current;
+    if (filters && logsMutation.data && patternsMutation.isIdle) {
+      patternsMutation.mutate({ ...filters, limit: logsMutation.data.meta.requestedLimit });
+    }
+  }, [logsMutation.data, patternsMutation]);
+
+  const runCompare = useCallback(() => {
+    const filters = lastQueryFiltersRef.current;
+    if (filters && logsMutation.data) {
+      compareMutation.mutate({ ...filters, limit: logsMutation.data.meta.requestedLimit, baseline: compareBaseline.trim() || undefined });
+    }
+  }, [compareBaseline, compareMutation, logsMutation.data]);
+
+  const openCompareTab = useCallback(() => {
+    setResultsTab('compare');
+    if (compareMutation.isIdle) {
+      runCompare();
+    }
+  }, [compareMutation.isIdle, runCompare]);
+
+  const openCorrelation = useCallback((id: string) => {
+    const filters = lastQueryFiltersRef.current;
+    if (!filters || !logsMutation.data) {
+      return;
+    }
+
+    // Same window and source as the current results; label, level, and text filters do not apply to a timeline.
+    setCorrelationId(id);
+    setResultsTab('trace');
+    correlateMutation.mutate({
+      id,
+      since: filters.since,
+      start: filters.start,
+      end: filters.end,
+      source: filters.source,
+      limit: logsMutation.data.meta.requestedLimit,
+    });
+  }, [correlateMutation, logsMutation.data]);
+
+  const closeCorrelation = useCallback(() => {
+    setCorrelationId(null);
+    correlateMutation.reset();
+    setResultsTab('results');
+  }, [correlateMutation]);
+
+  const selectPattern = useCallback((pattern: LogPattern) => {
+    setPatternFilter(pattern.signature);
+    setResultsTab('results');
+  }, []);
+
+  const nextCursor = olderPages ? olderPages.nextCursor : logsMutation.data?.meta.nextCursor ?? null;
+  // Exports re-run the shown query over its resolved window; the server pages through it past the interactive limit.
+  const exportResults = useCallback((format: ExportFormat) => {
+    const firstPage = logsMutation.data;
+    const filters = lastQueryFiltersRef.current;
+    if (!firstPage || !filters) {
+      return;
+    }
+
+    exportMutation.mutate({ ...filters, since: undefined, start: firstPage.meta.start, end: firstPage.meta.end, format });
+  }, [exportMutation, logsMutation.data]);
+
+  const loadOlderPage = useCallback(() => {
+    const firstPage = logsMutation.data;
+    const filters = lastQueryFiltersRef.current;
+    if (!firstPage || !filters || !nextCursor) {
+      return;
+    }
+
+    // Later pages reuse the first page's resolved window so a relative range does not drift between pages.
+    const generation = queryGenerationRef.current;
+    olderPageMutation.mutate(
+      { ...filters, since: undefined, start: firstPage.meta.start, end: firstPage.meta.end, limit: firstPage.meta.requestedLimit, cursor: nextCursor },
+      {
+        onSuccess: (page) => {
+          if (generation !== queryGenerationRef.current) {
+            return;
+          }
+          setOlderPages((current) => ({
+            entries: [...(current?.entries ?? []), ...page.entries],
+            nextCursor: page.meta.nextCursor ?? null,
+          }));
+        },
+      },
+    );
+  }, [logsMutation.data, nextCursor, olderPageMutation]);
+
   const auditQuery = useQuery({
     queryKey: ['logs-audit', auditUserId, auditOutcome, auditLimit, auditNonce],
     queryFn: () =>
@@ -444,6 +742,11 @@ export function App() {
       return false;
     }
 
+    if ('error' in fieldQuery) {
+      setFormError(fieldQuery.error);
+      return false;
+    }
+
     if (timeMode === 'absolute') {
       if (!startAt || !endAt) {
         setFormError('Start and end are required when using absolute time range.');
@@ -462,13 +765,15 @@ export function App() {
         return false;
       }
 
-      logsMutation.mutate({
+      submitQuery({
         start: toIsoFromDatetimeLocal(startAt),
         end: toIsoFromDatetimeLocal(endAt),
-        limit: parsedLimit,
-        level: level || undefined,
+        levels,
         search: searchTerm || undefined,
-      });
+        source: logSourceId || undefined,
+        labels: labelFilters,
+        ...fieldQuery,
+      }, parsedLimit);
       return true;
     }
 
@@ -477,21 +782,63 @@ export function App() {
       return false;
     }
 
-    logsMutation.mutate({
+    submitQuery({
       since: since.trim(),
-      limit: parsedLimit,
-      level: level || undefined,
+      levels,
       search: searchTerm || undefined,
-    });
+      source: logSourceId || undefined,
+      labels: labelFilters,
+      ...fieldQuery,
+    }, parsedLimit);
 
     return true;
-  }, [configQuery.data?.config.maxLinesPerQuery, endAt, level, limit, logsMutation, searchTerm, since, startAt, timeMode]);
+  }, [configQuery.data?.config.maxLinesPerQuery, endAt, fieldQuery, labelFilters, levels, limit, logSourceId, searchTerm, since, startAt, submitQuery, timeMode]);
 
   const stopPolling = useCallback(() => {
     setIsPolling(false);
     setPollingError(null);
   }, []);
 
+  const liveTail = useLiveTail();
+  const { start: startTail, stop: stopTail } = liveTail;
+  const startLiveTail = useCallback(() => {
+    // Tail and interval polling both refresh results, so only one runs at a time.
+    stopPolling();
+    startTail({
+      levels,
+      search: searchTerm || undefined,
+      source: logSourceId || undefined,
+      labels: labelFilters,
+    });
+  }, [labelFilters, levels, logSourceId, searchTerm, startTail, stopPolling]);
+
+  const zoomToHistogramBucket = useCallback((bucket: HistogramBucket) => {
+    // Absolute inputs hold whole minutes, so the bucket is widened to minutes to keep the form and the query in sync.
+    const startMs = Math.floor(Date.parse(bucket.start) / 60_000) * 60_000;
+    const endMs = Math.min(Date.now(), Math.max(startMs + 60_000, Math.ceil(Date.parse(bucket.end) / 60_000) * 60_000));
+    const start = new Date(startMs).toISOString();
+    const end = new Date(endMs).toISOString();
+    if ('error' in fieldQuery) {
+      setFormError(fieldQuery.error);
+      return;
+    }
+
+    stopPolling();
+    setFormError(null);
+    setTimeMode('absolute');
+    setStartAt(toDatetimeLocalInput(start));
+    setEndAt(toDatetimeLocalInput(end));
+    submitQuery({
+      start,
+      end,
+      levels,
+      search: searchTerm || undefined,
+      source: logSourceId || undefined,
+      labels: labelFilters,
+      ...fieldQuery,
+    }, Math.max(1, Number(limit) || 500));
+  }, [fieldQuery, labelFilters, levels, limit, logSourceId, searchTerm, stopPolling, submitQuery]);
+
   const startPolling = useCallback(() => {
     setPollingError(null);
 
@@ -511,10 +858,11 @@ export function App() {
       return;
     }
 
+    stopTail();
     setPollIntervalSec(String(intervalSeconds));
     setPollingTickCount(1);
     setIsPolling(true);
-  }, [executeQuery, pollIntervalSec, timeMode]);
+  }, [executeQuery, pollIntervalSec, stopTail, timeMode]);
 
   useEffect(() => {
     if (!prefill.autorun || autoRunTriggeredRef.current || !configQuery.isSuccess) {
@@ -569,7 +917,37 @@ export function App() {
     };
   }, [executeQuery, isPolling, pollIntervalSec, timeMode]);
 
-  const entries = useMemo(() => logsMutation.data?.entries ?? [], [logsMutation.data?.entries]);
+  const resultEntries = useMemo(
+    () => [...(logsMutation.data?.entries ?? []), ...(olderPages?.entries ?? [])],
+    [logsMutation.data?.entries, olderPages?.entries],
+  );
+  const fieldColumns = useMemo(
+    () => collectFieldColumns(resultEntries, logsMutation.data?.meta.fields),
+    [logsMutation.data?.meta.fields, resultEntries],
+  );
+  const patternEntries = useMemo(
+    () => (patternFilter ? resultEntries.filter((entry) => normalizeLogSignature(entry.message) === patternFilter) : resultEntries),
+    [patternFilter, resultEntries],
+  );
+  const entries = useMemo(() => sortEntriesByField(patternEntries, fieldSort), [fieldSort, patternEntries]);
+  // Entity references of every loaded row resolve in one batched lookup; the links follow the user's own room access.
+  const entityLookup = useMemo(() => collectEntityLookup(resultEntries), [resultEntries]);
+  const entitiesQuery = useQuery({
+    queryKey: ['logs-entities', entityLookup],
+    queryFn: () => resolveEntities(entityLookup!),
+    enabled: entityLookup !== null,
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+  const entityLinks = useMemo(() => buildEntityLinkMap(entitiesQuery.data), [entitiesQuery.data]);
+  const toggleFieldSort = useCallback((name: string) => {
+    setFieldSort((current) => {
+      if (current?.name !== name) {
+        return { name, direction: 'asc' };
+      }
+      return current.direction === 'asc' ? { name, direction: 'desc' } : null;
+    });
+  }, []);
   const copyResetTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const parentRef = useRef<HTMLDivElement>(null);
   const virtualizer = useVirtualizer({
@@ -586,6 +964,13 @@ export function App() {
     }));
   }, []);
 
+  const toggleRowContext = useCallback((rowIndex: number) => {
+    setContextRows((current) => ({
+      ...current,
+      [rowIndex]: !current[rowIndex],
+    }));
+  }, []);
+
   const copyRowMessage = useCallback(async (rowIndex: number) => {
     const entry = entries[rowIndex];
     if (!entry) {
@@ -654,15 +1039,25 @@ export function App() {
   const isThreadsListLoading = isRoomTargetReady && threadsQuery.isPending && !threadsError;
   const expandedRowCount = Object.values(expandedRows).filter(Boolean).length;
 
+  // Older pages append rows, so row state only resets when a new query replaces the first page. A field sort or
+  // pattern filter reorders rows instead, so then any change to the shown list resets it too.
+  const rowOrderKey = fieldSort || patternFilter ? entries : logsMutation.data?.entries;
   useEffect(() => {
     setExpandedRows({});
+    setContextRows({});
     if (copyResetTimerRef.current) {
       clearTimeout(copyResetTimerRef.current);
       copyResetTimerRef.current = null;
     }
     setCopiedRowIndex(null);
     setCopyRowError(null);
-  }, [entries]);
+  }, [rowOrderKey]);
+
+  useEffect(() => {
+    if (fieldSort && !fieldColumns.includes(fieldSort.name)) {
+      setFieldSort(null);
+    }
+  }, [fieldColumns, fieldSort]);
 
   useEffect(() => () => {
     if (copyResetTimerRef.current) {
@@ -675,7 +1070,7 @@ export function App() {
     // Virtual rows can change height when expanding rows or switching render mode.
     // Force a re-measure so rows do not overlap after UI-state changes.
     virtualizer.measure();
-  }, [expandedRows, messageViewMode, virtualizer, wrapLogLines]);
+  }, [contextRows, expandedRows, messageViewMode, virtualizer, wrapLogLines]);
 
   useEffect(() => {
     if (!selectedSavedViewId) {
@@ -708,7 +1103,10 @@ export function App() {
   const buildSavedViewQueryFromForm = useCallback((): SavedViewQuery | null => {
     const parsedLimit = Math.max(1, Number(limit) || 500);
     const normalizedSearch = searchTerm.trim() || undefined;
-    const normalizedLevel = level || undefined;
+    const normalizedLevel = levels.length === 0 ? undefined : levels.length === 1 ? levels[0] : levels;
+    const normalizedSource = logSourceId || undefined;
+    const completeLabelFilters = labelFilters.filter((filter) => filter.name && filter.value);
+    const normalizedLabels = completeLabelFilters.length > 0 ? completeLabelFilters : undefined;
 
     if (timeMode === 'relative') {
       const normalizedSince = since.trim();
@@ -724,6 +1122,8 @@ export function App() {
         limit: parsedLimit,
         level: normalizedLevel,
         search: normalizedSearch,
+        source: normalizedSource,
+        labels: normalizedLabels,
       };
     }
 
@@ -748,8 +1148,10 @@ export function App() {
       limit: parsedLimit,
       level: normalizedLevel,
       search: normalizedSearch,
+      source: normalizedSource,
+      labels: normalizedLabels,
     };
-  }, [endAt, level, limit, searchTerm, since, startAt, timeMode]);
+  }, [endAt, labelFilters, levels, limit, logSourceId, searchTerm, since, startAt, timeMode]);
 
   const applySavedView = useCallback((viewId: string) => {
     const target = availableSavedViews.find((view) => view.id === viewId);
@@ -760,8 +1162,10 @@ export function App() {
     setSelectedSavedViewId(target.id);
     setSavedViewName(target.name);
     setLimit(String(target.query.limit));
-    setLevel(target.query.level || '');
+    setLevels(toLevelList(target.query.level));
     setSearchTerm(target.query.search || '');
+    setLogSourceId(target.query.source || '');
+    setLabelFilters(target.query.labels || []);
 
     if (target.query.timeMode === 'relative') {
       setTimeMode('relative');
@@ -952,6 +1356,15 @@ export function App() {
         return;
       }
 
+      // Bundles re-run the shown query over its resolved window, like exports.
+      const firstPage = logsMutation.data;
+      const filters = lastQueryFiltersRef.current;
+      if (action === 'export_bundle' && (!firstPage || !filters)) {
+        setActionError('Run a query before uploading an investigation bundle.');
+        setActionSuccess(null);
+        return;
+      }
+
       setActionError(null);
       setActionSuccess(null);
       setActiveActionKey(`${action}:${rowIndex}`);
@@ -962,6 +1375,9 @@ export function App() {
           targetRoomId: normalizedActionRoomId,
           targetThreadId: normalizedActionThreadId || undefined,
           entry,
+          query: action === 'export_bundle' && firstPage && filters
+            ? { ...filters, since: undefined, start: firstPage.meta.start, end: firstPage.meta.end }
+            : undefined,
           context: {
             source: prefill.context.source,
             roomId: prefill.context.roomId,
@@ -969,13 +1385,22 @@ export function App() {
             threadId: prefill.context.threadId,
             preset: prefill.preset,
             search: logsMutation.data?.meta.search || undefined,
-            requestedLevel: logsMutation.data?.meta.requestedLevel || undefined,
+            requestedLevel: toLevelList(logsMutation.data?.meta.requestedLevel).join(',') || undefined,
           },
         },
         {
           onSuccess: (response) => {
             const threadSuffix = response.target.threadId ? ` (thread ${response.target.threadId})` : '';
-            setActionSuccess(`Posted ${response.action} to room ${response.target.roomId}${threadSuffix}. Message ID: ${response.postedMessageId}.`);
+            if (response.upload && response.bundle) {
+              const droppedSuffix = response.bundle.droppedLines > 0
+                ? ` ${response.bundle.droppedLines} older line(s) were left out to fit the size limit.`
+                : '';
+              setActionSuccess(
+                `Uploaded ${response.upload.filename} (${response.bundle.lines} line(s)) to room ${response.target.roomId}${threadSuffix}.${droppedSuffix}`,
+              );
+            } else {
+              setActionSuccess(`Posted ${response.action} to room ${response.target.roomId}${threadSuffix}. Message ID: ${response.postedMessageId}.`);
+            }
             setAuditNonce((value) => value + 1);
           },
           onError: (error) => {
@@ -993,6 +1418,7 @@ export function App() {
       entries,
       isRoomTargetReady,
       isThreadTargetReady,
+      logsMutation.data,
       logsMutation.data?.meta.requestedLevel,
       logsMutation.data?.meta.search,
       normalizedActionRoomId,
@@ -1061,6 +1487,20 @@ export function App() {
             <span>Default range: {configQuery.data?.config.defaultTimeRange ?? '—'}</span>
             <span aria-hidden>|</span>
             <span>Max lines: {configQuery.data?.config.maxLinesPerQuery ?? '—'}</span>
+            {activeLabelScope ? (
+              <>
+                <span aria-hidden>|</span>
+                <span className="font-mono" title={activeLabelScope.role ? `Scoped by role ${activeLabelScope.role}` : 'Base selector'}>
+                  Scope: {activeLabelScope.selector}
+                </span>
+              </>
+            ) : null}
+            {configQuery.data?.config.readiness?.lokiTenantId ? (
+              <>
+                <span aria-hidden>|</span>
+                <span>Loki tenant: {configQuery.data.config.readiness.lokiTenantId}</span>
+              </>
+            ) : null}
           </div>
 
           <div className="flex flex-wrap items-center gap-2">
@@ -1143,23 +1583,128 @@ export function App() {
               </div>
               <p className="text-[11px] font-semibold uppercase tracking-[0.08em] text-muted-foreground">Filters</p>
               <div className="grid gap-3 sm:grid-cols-2">
-                <div className="space-y-1.5">
-                  <Label htmlFor="level">Level</Label>
-                  <Select id="level" value={level} onChange={(e) => setLevel(e.target.value as QueryLevel | '')}>
-                    <option value="">Any</option>
-                    {levelOptions.map((opt) => (
-                      <option key={opt.value} value={opt.value}>{opt.label}</option>
-                    ))}
-                  </Select>
+                <div className="space-y-1.5 sm:col-span-2">
+                  <Label id="level-label">Level</Label>
+                  <div className="flex flex-wrap gap-1.5" role="group" aria-labelledby="level-label">
+                    {levelOptions.map((opt) => {
+                      const selected = levels.includes(opt.value);
+                      return (
+                        <Button
+                          key={opt.value}
+                          type="button"
+                          size="sm"
+                          variant={selected ? 'secondary' : 'outline'}
+                          aria-pressed={selected}
+                          onClick={() => setLevels((current) => levelOptions
+                            .map((option) => option.value)
+                            .filter((value) => (value === opt.value ? !selected : current.includes(value))))}
+                        >
+                          {opt.label}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                  <p className="text-[11px] text-muted-foreground">
+                    {levels.length === 0 ? 'Any level. Select one or more to narrow results.' : `Showing ${levels.join(' or ')} lines.`}
+                  </p>
                 </div>
 
+                {logSourceOptions.length > 1 ? (
+                  <div className="space-y-1.5">
+                    <Label htmlFor="log-source">Source</Label>
+                    <Select id="log-source" value={logSourceId} onChange={(e) => setLogSourceId(e.target.value)}>
+                      <option value="">Default ({logSourceOptions[0].name})</option>
+                      {logSourceOptions.map((opt) => (
+                        <option key={opt.id} value={opt.id}>{opt.name}</option>
+                      ))}
+                    </Select>
+                  </div>
+                ) : null}
+
+                {allowedLabelFilters.length > 0 ? (
+                  <div className="space-y-1.5 sm:col-span-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Labels</Label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={labelFilters.length >= MAX_LABEL_FILTERS}
+                        onClick={addLabelFilter}
+                      >
+                        <Plus className="h-3.5 w-3.5" />
+                        Add label filter
+                      </Button>
+                    </div>
+                    {labelFilters.map((filter, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Select
+                          aria-label="Label name"
+                          value={filter.name}
+                          onChange={(e) => updateLabelFilter(index, { name: e.target.value })}
+                        >
+                          {(allowedLabelFilters.includes(filter.name) ? allowedLabelFilters : [filter.name, ...allowedLabelFilters]).map((name) => (
+                            <option key={name} value={name}>{name}</option>
+                          ))}
+                        </Select>
+                        <Select
+                          aria-label="Label operator"
+                          value={filter.op}
+                          onChange={(e) => updateLabelFilter(index, { op: e.target.value as LabelFilterOperator })}
+                        >
+                          {labelOperatorOptions.map((opt) => (
+                            <option key={opt.value} value={opt.value}>{opt.label}</option>
+                          ))}
+                        </Select>
+                        <Input
+                          aria-label="Label value"
+                          value={filter.value}
+                          onChange={(e) => updateLabelFilter(index, { value: e.target.value })}
+                          placeholder={filter.op === 'regex' ? 'api-.*' : 'value'}
+                          list={`label-values-${index}`}
+                        />
+                        <datalist id={`label-values-${index}`}>
+                          {(labelValueSuggestions[filter.name] || []).map((value) => (
+                            <option key={value} value={value} />
+                          ))}
+                        </datalist>
+                        <Button variant="ghost" size="sm" aria-label="Remove label filter" onClick={() => removeLabelFilter(index)}>
+                          <X className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+
                 <div className="space-y-1.5 sm:col-span-2">
                   <Label htmlFor="search">Search</Label>
                   <Input
                     id="search"
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
-                    placeholder="Optional text filter"
+                    placeholder='timeout -healthcheck "auth failed" /5\d\d/i'
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    All terms must match. Quote phrases, prefix <code>-</code> to exclude, and use <code>/regex/</code> or <code>/regex/i</code>.
+                  </p>
+                </div>
+
+                <div className="space-y-1.5">
+                  <Label htmlFor="field-parser">Field parser</Label>
+                  <Select id="field-parser" value={fieldParser} onChange={(e) => setFieldParser(e.target.value as FieldParser | '')}>
+                    <option value="">None</option>
+                    <option value="json">JSON</option>
+                    <option value="logfmt">logfmt</option>
+                  </Select>
+                </div>
+
+                <div className="space-y-1.5">
+                  <Label htmlFor="field-filters">Field filters</Label>
+                  <Input
+                    id="field-filters"
+                    value={fieldFilterText}
+                    onChange={(e) => setFieldFilterText(e.target.value)}
+                    placeholder="msg.userId=abc status>=500"
+                    disabled={!fieldParser && !fieldFilterText}
                   />
                 </div>
               </div>
@@ -1189,6 +1734,9 @@ export function App() {
                 <Button variant="outline" disabled={!isPolling} onClick={stopPolling}>
                   Stop live polling
                 </Button>
+                <Button variant="secondary" disabled={liveTail.status !== 'idle' || !configQuery.isSuccess} onClick={startLiveTail}>
+                  Start live tail
+                </Button>
                 <Badge variant="outline">{configQuery.data?.config.sourceMode ?? 'loki'}</Badge>
                 {isPolling ? <Badge variant="secondary">Ticks: {pollingTickCount}</Badge> : null}
               </div>
@@ -1206,6 +1754,7 @@ export function App() {
 
               {formError ? <Alert variant="destructive">{formError}</Alert> : null}
               {pollingError ? <Alert variant="destructive">{pollingError}</Alert> : null}
+              {liveTail.error ? <Alert variant="destructive">Live tail stopped: {liveTail.error}</Alert> : null}
 
               {queryError ? (
                 <ErrorState
@@ -1221,6 +1770,17 @@ export function App() {
                   <p><span className="text-muted-foreground">Truncated:</span> <span className="font-semibold text-foreground">{String(logsMutation.data.meta.truncated)}</span></p>
                   <p><span className="text-muted-foreground">Redacted lines:</span> <span className="font-semibold text-foreground">{logsMutation.data.meta.redaction?.redactedLines ?? 0}</span></p>
                   <p><span className="text-muted-foreground">Total redactions:</span> <span className="font-semibold text-foreground">{logsMutation.data.meta.redaction?.totalRedactions ?? 0}</span></p>
+                  {logsMutation.data.meta.redaction?.rules?.length ? (
+                    <p className="sm:col-span-2">
+                      <span className="text-muted-foreground">Redactions by rule:</span>{' '}
+                      <span className="font-semibold text-foreground">
+                        {logsMutation.data.meta.redaction.rules.map((rule) => `${rule.name} ${rule.count}`).join(', ')}
+                      </span>
+                    </p>
+                  ) : null}
+                  {logsMutation.data.meta.sourceId ? (
+                    <p><span className="text-muted-foreground">Source:</span> <span className="font-semibold text-foreground">{logsMutation.data.meta.sourceId}</span></p>
+                  ) : null}
                 </div>
               ) : null}
             </CardContent>
@@ -1583,11 +2143,94 @@ export function App() {
           </div>
         ) : null}
         <div className="flex min-h-0 flex-1 flex-col p-4 md:p-6">
-        {entries.length === 0 ? (
+        {liveTail.status !== 'idle' ? (
+          <LiveTailPanel
+            className="mb-3 h-72 shrink-0"
+            status={liveTail.status}
+            entries={liveTail.entries}
+            skippedLines={liveTail.skippedLines}
+            onPause={liveTail.pause}
+            onResume={liveTail.resume}
+            onStop={liveTail.stop}
+          />
+        ) : null}
+        {histogramMutation.data && histogramMutation.data.buckets.length > 0 ? (
+          <div className="mb-3 shrink-0">
+            <div className="mb-1.5 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span className="font-medium text-foreground">Log volume</span>
+              <span>{histogramMutation.data.meta.total} lines</span>
+              <span>step {histogramMutation.data.meta.stepSeconds}s</span>
+            </div>
+            <LogVolumeHistogram
+              buckets={histogramMutation.data.buckets}
+              onZoom={logsMutation.isPending ? undefined : zoomToHistogramBucket}
+            />
+          </div>
+        ) : null}
+        {histogramMutation.error ? (
+          <Alert variant="destructive" className="mb-3 shrink-0 py-2">
+            Volume histogram unavailable: {isPrivateApiError(histogramMutation.error) ? histogramMutation.error.message : 'request failed.'}
+          </Alert>
+        ) : null}
+        {logsMutation.data ? (
+          <div className="mb-3 flex shrink-0 flex-wrap items-center gap-2" role="tablist" aria-label="Result views">
+            <Button size="sm" role="tab" aria-selected={resultsTab === 'results'} variant={resultsTab === 'results' ? 'secondary' : 'ghost'} onClick={() => setResultsTab('results')}>
+              Results
+            </Button>
+            <Button size="sm" role="tab" aria-selected={resultsTab === 'patterns'} variant={resultsTab === 'patterns' ? 'secondary' : 'ghost'} onClick={openPatternsTab}>
+              Patterns
+            </Button>
+            <Button size="sm" role="tab" aria-selected={resultsTab === 'compare'} variant={resultsTab === 'compare' ? 'secondary' : 'ghost'} onClick={openCompareTab}>
+              Compare
+            </Button>
+            {correlationId ? (
+              <Button size="sm" role="tab" aria-selected={resultsTab === 'trace'} variant={resultsTab === 'trace' ? 'secondary' : 'ghost'} onClick={() => setResultsTab('trace')}>
+                Trace
+              </Button>
+            ) : null}
+            {patternFilter ? (
+              <Badge variant="outline" className="min-w-0 max-w-full gap-1">
+                <span className="font-mono-log truncate" title={patternFilter}>pattern: {patternFilter}</span>
+                <button type="button" aria-label="Clear pattern filter" onClick={() => setPatternFilter(null)}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ) : null}
+          </div>
+        ) : null}
+        {resultsTab === 'patterns' && logsMutation.data ? (
+          <LogPatternsPanel
+            data={patternsMutation.data}
+            isPending={patternsMutation.isPending}
+            errorMessage={patternsMutation.error ? (isPrivateApiError(patternsMutation.error) ? patternsMutation.error.message : 'request failed.') : null}
+            selectedSignature={patternFilter}
+            onSelectPattern={selectPattern}
+          />
+        ) : resultsTab === 'compare' && logsMutation.data ? (
+          <LogComparePanel
+            data={compareMutation.data}
+            isPending={compareMutation.isPending}
+            errorMessage={compareMutation.error ? (isPrivateApiError(compareMutation.error) ? compareMutation.error.message : 'request failed.') : null}
+            baseline={compareBaseline}
+            onBaselineChange={setCompareBaseline}
+            onCompare={runCompare}
+          />
+        ) : resultsTab === 'trace' && correlationId && logsMutation.data ? (
+          <LogCorrelationPanel
+            correlationId={correlationId}
+            data={correlateMutation.data}
+            isPending={correlateMutation.isPending}
+            errorMessage={correlateMutation.error ? (isPrivateApiError(correlateMutation.error) ? correlateMutation.error.message : 'request failed.') : null}
+            wrapLines={wrapLogLines}
+            onClose={closeCorrelation}
+          />
+        ) : entries.length === 0 ? (
           <EmptyState
             icon={<Search className="h-10 w-10" />}
             title="No results"
-            description="Set time range, level, and filters in the sidebar, then run a query."
+            description={patternFilter
+              ? 'No loaded rows match the selected pattern. Clear the pattern filter to see all rows.'
+              : 'Set time range, level, and filters in the sidebar, then run a query.'}
           />
         ) : (
           <>
@@ -1615,18 +2258,71 @@ export function App() {
                     Collapse all
                   </Button>
                   <span className="text-xs text-muted-foreground">rows {entries.length}</span>
+                  {nextCursor ? (
+                    <Button size="sm" variant="outline" disabled={olderPageMutation.isPending} onClick={loadOlderPage}>
+                      {olderPageMutation.isPending ? 'Loading…' : 'Load older'}
+                    </Button>
+                  ) : null}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button size="sm" variant="outline" disabled={exportMutation.isPending} aria-label="Export results">
+                        <Download className="mr-1 h-3.5 w-3.5" aria-hidden />
+                        {exportMutation.isPending ? 'Exporting…' : 'Export'}
+                        <ChevronDown className="ml-1 h-3.5 w-3.5 opacity-70" aria-hidden />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                      <DropdownMenuItem onSelect={() => exportResults('jsonl')}>JSON Lines (.jsonl)</DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => exportResults('csv')}>CSV (.csv)</DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => exportResults('text')}>Plain text (.txt)</DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                   <span className="text-xs text-muted-foreground">expanded {expandedRowCount}</span>
                   {isDesktop && !desktopSidebarOpen ? <Badge variant="outline">filters hidden</Badge> : null}
                   {copyRowError ? (
                     <Alert variant="destructive" className="w-full py-2">{copyRowError}</Alert>
                   ) : null}
+                  {exportMutation.error ? (
+                    <Alert variant="destructive" className="w-full py-2">
+                      Export failed: {isPrivateApiError(exportMutation.error) ? exportMutation.error.message : 'request failed.'}
+                    </Alert>
+                  ) : null}
+                  {olderPageMutation.error ? (
+                    <Alert variant="destructive" className="w-full py-2">
+                      Could not load older lines: {isPrivateApiError(olderPageMutation.error) ? olderPageMutation.error.message : 'request failed.'}
+                    </Alert>
+                  ) : null}
                 </div>
 
+                {fieldColumns.length > 0 ? (
+                  <div
+                    className="mb-1 grid gap-x-3 px-4 text-xs"
+                    style={{ gridTemplateColumns: `repeat(${fieldColumns.length}, minmax(0, 1fr))` }}
+                  >
+                    {fieldColumns.map((name) => {
+                      const direction = fieldSort?.name === name ? fieldSort.direction : null;
+                      return (
+                        <button
+                          key={name}
+                          type="button"
+                          className={`truncate text-left font-medium hover:text-foreground ${direction ? 'text-foreground' : 'text-muted-foreground'}`}
+                          title={`Sort by ${name}`}
+                          aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none'}
+                          onClick={() => toggleFieldSort(name)}
+                        >
+                          {name}{direction === 'asc' ? ' ▲' : direction === 'desc' ? ' ▼' : ''}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ) : null}
+
                 <div ref={parentRef} className="log-scrollbar min-h-[360px] flex-1 overflow-auto rounded-lg border border-border/80 bg-card/60 shadow-inner">
                   <div style={{ height: `${virtualizer.getTotalSize()}px`, position: 'relative', width: '100%' }}>
                     {virtualizer.getVirtualItems().map((item) => {
                       const entry = entries[item.index];
                       const isExpanded = Boolean(expandedRows[item.index]);
+                      const showsContext = Boolean(contextRows[item.index]);
                       const formatted = formatMessageForDisplay(entry.message, messageViewMode);
                       const messageSummary = summarizeRenderedMessage(formatted.text, isExpanded);
                       const visibleLabels = Object.entries(entry.labels).slice(
@@ -1673,6 +2369,53 @@ export function App() {
                             {messageSummary.rendered}
                           </pre>
 
+                          {fieldColumns.length > 0 ? (
+                            <div
+                              className="font-mono-log mt-2 grid gap-x-3 text-xs"
+                              style={{ gridTemplateColumns: `repeat(${fieldColumns.length}, minmax(0, 1fr))` }}
+                            >
+                              {fieldColumns.map((name) => {
+                                const value = entry.fields?.[name];
+                                return (
+                                  <span key={name} className={`truncate ${value === undefined ? 'text-muted-foreground' : ''}`} title={value === undefined ? `${name}: not set` : `${name}=${value}`}>
+                                    {value === undefined ? '—' : value || '""'}
+                                  </span>
+                                );
+                              })}
+                            </div>
+                          ) : null}
+
+                          {entry.correlationIds?.length || entry.entityRefs?.some((ref) => entityLinks.has(entityRefKey(ref))) ? (
+                            <div className="mt-2 flex flex-wrap gap-1">
+                              {entry.entityRefs?.map((ref) => {
+                                const link = entityLinks.get(entityRefKey(ref));
+                                return link ? (
+                                  <a
+                                    key={`${ref.kind}-${ref.value}`}
+                                    href={link.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="max-w-[280px] truncate rounded-md border border-emerald-500/40 bg-emerald-500/10 px-2 py-0.5 text-[11px] text-emerald-700 hover:bg-emerald-500/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring dark:text-emerald-300"
+                                    title={`Open in Rocket.Chat (${ref.key}=${ref.value})`}
+                                  >
+                                    {link.label}
+                                  </a>
+                                ) : null;
+                              })}
+                              {entry.correlationIds?.map((correlation) => (
+                                <button
+                                  key={correlation.value}
+                                  type="button"
+                                  className="font-mono-log max-w-[320px] truncate rounded-md border border-sky-500/40 bg-sky-500/10 px-2 py-0.5 text-[11px] text-sky-700 hover:bg-sky-500/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring dark:text-sky-300"
+                                  title="Show every line with this ID"
+                                  onClick={() => openCorrelation(correlation.value)}
+                                >
+                                  {correlation.name}: {correlation.value}
+                                </button>
+                              ))}
+                            </div>
+                          ) : null}
+
                           <div className="mt-2 flex flex-wrap gap-1">
                             {visibleLabels.map(([key, value]) => (
                               <Badge
@@ -1691,6 +2434,9 @@ export function App() {
                             <Button size="sm" variant="outline" onClick={() => toggleRowExpanded(item.index)}>
                               {isExpanded ? 'Collapse details' : 'Expand details'}
                             </Button>
+                            <Button size="sm" variant={showsContext ? 'secondary' : 'outline'} onClick={() => toggleRowContext(item.index)}>
+                              {showsContext ? 'Hide context' : 'Show context'}
+                            </Button>
                             <DropdownMenu>
                               <DropdownMenuTrigger asChild>
                                 <Button size="sm" variant="outline" aria-label="Row actions">
@@ -1726,9 +2472,25 @@ export function App() {
                                   <MessageSquarePlus className="mr-2 h-4 w-4" aria-hidden />
                                   {activeActionKey === `thread_note:${item.index}` ? 'Posting...' : 'Add thread note'}
                                 </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  disabled={rowActionMutation.isPending || !isRoomTargetReady}
+                                  onSelect={() => runRowAction('export_bundle', item.index)}
+                                >
+                                  <Archive className="mr-2 h-4 w-4" aria-hidden />
+                                  {activeActionKey === `export_bundle:${item.index}` ? 'Uploading...' : 'Upload investigation bundle'}
+                                </DropdownMenuItem>
                               </DropdownMenuContent>
                             </DropdownMenu>
                           </div>
+
+                          {showsContext ? (
+                            <LogContextPanel
+                              className="mt-3"
+                              entry={entry}
+                              source={logsMutation.data?.meta.sourceId ?? undefined}
+                              wrapLines={wrapLogLines}
+                            />
+                          ) : null}
                         </article>
                       );
                     })}
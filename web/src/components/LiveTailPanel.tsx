@@ -0,0 +1,94 @@
+import * as React from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { TailEntry } from '@/lib/api';
+import type { LiveTailStatus } from '@/lib/useLiveTail';
+import { cn } from '@/lib/utils';
+
+export interface LiveTailPanelProps extends React.HTMLAttributes<HTMLDivElement> {
+  status: LiveTailStatus;
+  entries: Array<TailEntry>;
+  skippedLines: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+}
+
+const levelTextClass: Record<string, string> = {
+  error: 'text-red-600 dark:text-red-400',
+  warn: 'text-amber-600 dark:text-amber-400',
+  info: 'text-sky-600 dark:text-sky-400',
+  debug: 'text-slate-500',
+};
+
+const formatTailTime = (value: string): string => {
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime())
+    ? value
+    : parsed.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+};
+
+/**
+ * Oldest-first live tail lines. While the scroll lock is on, new lines keep the view pinned to the bottom;
+ * scrolling up releases the lock so earlier lines can be read without being yanked away.
+ */
+export function LiveTailPanel({ status, entries, skippedLines, onPause, onResume, onStop, className, ...props }: LiveTailPanelProps) {
+  const [autoScroll, setAutoScroll] = React.useState(true);
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    if (autoScroll && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [autoScroll, entries]);
+
+  const handleScroll = () => {
+    const element = scrollRef.current;
+    if (!element) {
+      return;
+    }
+
+    const atBottom = element.scrollHeight - element.scrollTop - element.clientHeight < 24;
+    if (atBottom !== autoScroll) {
+      setAutoScroll(atBottom);
+    }
+  };
+
+  return (
+    <div className={cn('flex min-h-0 flex-col rounded-lg border border-border/80', className)} {...props}>
+      <div className="flex flex-wrap items-center gap-2 border-b border-border/80 bg-muted/20 px-3 py-2">
+        <span className="text-sm font-medium">Live tail</span>
+        <Badge variant={status === 'live' ? 'secondary' : 'outline'}>{status === 'live' ? 'Streaming' : 'Paused'}</Badge>
+        <span className="text-xs text-muted-foreground">{entries.length} lines</span>
+        {skippedLines ? (
+          <span className="text-xs text-amber-600 dark:text-amber-400">Some lines were skipped during a burst.</span>
+        ) : null}
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => setAutoScroll((value) => !value)}>
+            {autoScroll ? 'Unlock scroll' : 'Lock to newest'}
+          </Button>
+          {status === 'live' ? (
+            <Button size="sm" variant="outline" onClick={onPause}>Pause</Button>
+          ) : (
+            <Button size="sm" variant="secondary" onClick={onResume}>Resume</Button>
+          )}
+          <Button size="sm" variant="outline" onClick={onStop}>Stop</Button>
+        </div>
+      </div>
+      <div ref={scrollRef} onScroll={handleScroll} className="min-h-0 flex-1 overflow-auto p-2 font-mono text-xs">
+        {entries.length === 0 ? (
+          <p className="px-1 py-2 text-muted-foreground">Waiting for new lines…</p>
+        ) : (
+          entries.map((entry, index) => (
+            <div key={`${entry.cursor}-${index}`} className="flex gap-2 whitespace-pre-wrap break-words px-1 py-0.5 hover:bg-muted/40">
+              <span className="shrink-0 text-muted-foreground">{formatTailTime(entry.timestamp)}</span>
+              <span className={cn('w-12 shrink-0 uppercase', levelTextClass[entry.level] || 'text-violet-500')}>{entry.level}</span>
+              <span className="min-w-0">{entry.message}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import * as React from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { CompareResponse, CompareWindowMeta, LevelCounts, PatternChange, QueryResultLevel } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+export interface LogComparePanelProps extends React.HTMLAttributes<HTMLDivElement> {
+  data?: CompareResponse;
+  isPending: boolean;
+  errorMessage?: string | null;
+  baseline: string;
+  onBaselineChange: (value: string) => void;
+  onCompare: () => void;
+}
+
+const levelOrder: Array<QueryResultLevel> = ['error', 'warn', 'info', 'debug', 'unknown'];
+
+const levelTextClass: Record<string, string> = {
+  error: 'text-red-600 dark:text-red-400',
+  warn: 'text-amber-600 dark:text-amber-400',
+  info: 'text-sky-600 dark:text-sky-400',
+  debug: 'text-slate-500',
+};
+
+const formatWindow = (window: CompareWindowMeta): string => {
+  const format = (value: string) => new Date(value).toLocaleString([], { hour12: false });
+  return `${format(window.start)} – ${format(window.end)}`;
+};
+
+function WindowColumn({ title, window, counts }: { title: string; window: CompareWindowMeta; counts: LevelCounts }) {
+  return (
+    <div className="min-w-0 flex-1 rounded-md border border-border/80 bg-muted/20 px-3 py-2">
+      <p className="text-xs font-medium text-foreground">{title}</p>
+      <p className="text-[11px] text-muted-foreground">
+        {formatWindow(window)} · {window.sampledLines} lines{window.truncated ? ' (newest only)' : ''}
+      </p>
+      <dl className="mt-2 grid grid-cols-5 gap-1 text-xs">
+        {levelOrder.map((level) => (
+          <div key={level}>
+            <dt className={cn('uppercase', levelTextClass[level] || 'text-violet-500')}>{level}</dt>
+            <dd className="font-semibold tabular-nums">{counts[level]}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+function ChangeList({ title, changes, describe }: { title: string; changes: Array<PatternChange>; describe: (change: PatternChange) => string }) {
+  return (
+    <section className="border-t border-border/80">
+      <h3 className="px-3 pt-2 text-xs font-medium text-foreground">
+        {title} <span className="text-muted-foreground">({changes.length})</span>
+      </h3>
+      {changes.length === 0 ? <p className="px-3 py-2 text-xs text-muted-foreground">None.</p> : null}
+      <ul className="divide-y divide-border/60">
+        {changes.map((change) => (
+          <li key={change.signature} className="px-3 py-2" title={`Sample: ${change.sample}`}>
+            <div className="flex items-center gap-2 text-xs">
+              <span className="w-24 shrink-0 text-right font-semibold tabular-nums">{describe(change)}</span>
+              <span className={cn('w-14 shrink-0 uppercase', levelTextClass[change.level] || 'text-violet-500')}>{change.level}</span>
+              <span className="font-mono-log min-w-0 break-words text-[12.5px]">{change.signature}</span>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+/**
+ * Baseline and target windows side by side: per-level counts, then the message signatures that are new,
+ * grew, or disappeared since the baseline.
+ */
+export function LogComparePanel({ data, isPending, errorMessage, baseline, onBaselineChange, onCompare, className, ...props }: LogComparePanelProps) {
+  return (
+    <div className={cn('log-scrollbar min-h-[360px] flex-1 overflow-auto rounded-lg border border-border/80 bg-card/60', className)} {...props}>
+      <form
+        className="flex flex-wrap items-center gap-2 border-b border-border/80 px-3 py-2 text-xs text-muted-foreground"
+        onSubmit={(event) => {
+          event.preventDefault();
+          onCompare();
+        }}
+      >
+        <Label htmlFor="compare-baseline" className="text-xs">Baseline offset</Label>
+        <Input
+          id="compare-baseline"
+          value={baseline}
+          onChange={(event) => onBaselineChange(event.target.value)}
+          placeholder="preceding window"
+          className="h-8 w-36"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={isPending}>
+          Compare
+        </Button>
+        <span>Leave empty to compare with the window right before the current one, or use an offset such as 24h.</span>
+      </form>
+      {isPending ? <p className="px-3 py-4 text-sm text-muted-foreground">Comparing windows…</p> : null}
+      {errorMessage ? <p className="px-3 py-4 text-sm text-red-600 dark:text-red-400">Could not compare: {errorMessage}</p> : null}
+      {data ? (
+        <>
+          <div className="flex flex-wrap gap-3 px-3 py-3">
+            <WindowColumn title="Baseline" window={data.meta.baseline} counts={data.levels.baseline} />
+            <WindowColumn title="Target" window={data.meta.target} counts={data.levels.target} />
+          </div>
+          <ChangeList title="New" changes={data.patterns.new} describe={(change) => `+${change.targetCount}`} />
+          <ChangeList title="Increased" changes={data.patterns.increased} describe={(change) => `${change.baselineCount} → ${change.targetCount}`} />
+          <ChangeList title="Gone" changes={data.patterns.gone} describe={(change) => `−${change.baselineCount}`} />
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import * as React from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+import { getLogContext, isPrivateApiError, type LogsEntry } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+export interface LogContextPanelProps extends React.HTMLAttributes<HTMLDivElement> {
+  entry: LogsEntry;
+  source?: string;
+  wrapLines: boolean;
+}
+
+const CONTEXT_LINES = 50;
+
+const levelTextClass: Record<string, string> = {
+  error: 'text-red-600 dark:text-red-400',
+  warn: 'text-amber-600 dark:text-amber-400',
+  info: 'text-sky-600 dark:text-sky-400',
+  debug: 'text-slate-500',
+};
+
+const formatContextTime = (value: string): string => {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return value;
+  }
+  const time = parsed.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
+  return `${time}.${String(parsed.getMilliseconds()).padStart(3, '0')}`;
+};
+
+/**
+ * Lines around one result row from the same stream, oldest first, with the selected line highlighted
+ * and scrolled to the middle of the panel once loaded.
+ */
+export function LogContextPanel({ entry, source, wrapLines, className, ...props }: LogContextPanelProps) {
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const anchorRef = React.useRef<HTMLDivElement>(null);
+  const contextQuery = useQuery({
+    queryKey: ['logs-context', entry.timestamp, entry.labels, source],
+    queryFn: () => getLogContext({ timestamp: entry.timestamp, labels: entry.labels, source, before: CONTEXT_LINES, after: CONTEXT_LINES }),
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  React.useEffect(() => {
+    const container = scrollRef.current;
+    const anchor = anchorRef.current;
+    if (container && anchor) {
+      container.scrollTop = anchor.offsetTop - container.clientHeight / 2 + anchor.clientHeight / 2;
+    }
+  }, [contextQuery.data]);
+
+  const meta = contextQuery.data?.meta;
+  const notes: Array<string> = [];
+  if (meta && !meta.anchor.found) {
+    notes.push('The selected line was not found again; showing lines around its timestamp.');
+  }
+  if (meta && (!meta.before.contiguous || !meta.after.contiguous)) {
+    notes.push('This source returns the newest lines of a window, so some lines next to the selected one may be missing.');
+  }
+
+  const anchorIndex = contextQuery.data?.entries.findIndex((line) => line.position === 'anchor') ?? -1;
+  return (
+    <div className={cn('rounded-lg border border-border/80 bg-muted/10', className)} {...props}>
+      <div className="flex flex-wrap items-center gap-2 border-b border-border/80 px-3 py-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">Context</span>
+        {meta ? (
+          <span>
+            {meta.before.returned} before{meta.before.truncated ? '+' : ''} · {meta.after.returned} after{meta.after.truncated ? '+' : ''} · same stream
+          </span>
+        ) : null}
+        {meta?.redaction?.redactedLines ? <span>{meta.redaction.redactedLines} redacted</span> : null}
+      </div>
+      {notes.map((note) => (
+        <p key={note} className="border-b border-border/80 px-3 py-1.5 text-xs text-amber-600 dark:text-amber-400">{note}</p>
+      ))}
+      <div ref={scrollRef} className="log-scrollbar relative max-h-80 overflow-auto p-2 font-mono text-xs">
+        {contextQuery.isPending ? <p className="px-1 py-2 text-muted-foreground">Loading context…</p> : null}
+        {contextQuery.error ? (
+          <p className="px-1 py-2 text-red-600 dark:text-red-400">
+            Could not load context: {isPrivateApiError(contextQuery.error) ? contextQuery.error.message : 'request failed.'}
+          </p>
+        ) : null}
+        {contextQuery.data && contextQuery.data.entries.length === 0 ? (
+          <p className="px-1 py-2 text-muted-foreground">No lines found around this entry.</p>
+        ) : null}
+        {contextQuery.data?.entries.map((line, index) => {
+          const isAnchor = line.position === 'anchor';
+          return (
+            <div
+              key={`${line.timestamp}-${index}`}
+              ref={index === anchorIndex ? anchorRef : undefined}
+              data-position={line.position}
+              className={cn(
+                'flex gap-2 px-1 py-0.5',
+                wrapLines ? 'whitespace-pre-wrap break-words' : 'whitespace-pre',
+                isAnchor ? 'rounded bg-amber-100/80 ring-1 ring-amber-400/70 dark:bg-amber-500/15' : 'hover:bg-muted/40',
+              )}
+            >
+              <span className="shrink-0 text-muted-foreground">{formatContextTime(line.timestamp)}</span>
+              <span className={cn('w-12 shrink-0 uppercase', levelTextClass[line.level] || 'text-violet-500')}>{line.level}</span>
+              <span className="min-w-0">{line.message}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import * as React from 'react';
+import { X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import type { CorrelateResponse, LogsEntry } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+export interface LogCorrelationPanelProps extends React.HTMLAttributes<HTMLDivElement> {
+  correlationId: string;
+  data?: CorrelateResponse;
+  isPending: boolean;
+  errorMessage?: string | null;
+  wrapLines: boolean;
+  onClose: () => void;
+}
+
+const STREAM_LABEL_PREFERENCE = ['service', 'app', 'container', 'pod', 'job'];
+
+const levelTextClass: Record<string, string> = {
+  error: 'text-red-600 dark:text-red-400',
+  warn: 'text-amber-600 dark:text-amber-400',
+  info: 'text-sky-600 dark:text-sky-400',
+  debug: 'text-slate-500',
+};
+
+const formatOffset = (fromMs: number, value: string): string => {
+  const offsetMs = Date.parse(value) - fromMs;
+  return Number.isFinite(offsetMs) ? `+${(offsetMs / 1000).toFixed(3)}s` : '';
+};
+
+const streamName = (entry: LogsEntry): string => {
+  const name = STREAM_LABEL_PREFERENCE.find((label) => entry.labels[label]);
+  return name ? entry.labels[name] : Object.values(entry.labels)[0] || 'stream';
+};
+
+/**
+ * Every line carrying one trace/request ID across the caller's streams, oldest first, with the time since
+ * the first line and the stream each line came from.
+ */
+export function LogCorrelationPanel({ correlationId, data, isPending, errorMessage, wrapLines, onClose, className, ...props }: LogCorrelationPanelProps) {
+  const meta = data?.meta;
+  const firstMs = data && data.entries.length > 0 ? Date.parse(data.entries[0].timestamp) : 0;
+
+  return (
+    <div className={cn('log-scrollbar min-h-[360px] flex-1 overflow-auto rounded-lg border border-border/80 bg-card/60', className)} {...props}>
+      <div className="flex flex-wrap items-center gap-2 border-b border-border/80 px-3 py-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">Timeline</span>
+        <span className="font-mono-log">{correlationId}</span>
+        {meta ? <span>{meta.returned} lines across {meta.streams} {meta.streams === 1 ? 'stream' : 'streams'}</span> : null}
+        {meta?.redaction.redactedLines ? <span>{meta.redaction.redactedLines} redacted</span> : null}
+        <Button size="sm" variant="ghost" className="ml-auto h-7 px-2" aria-label="Close timeline" onClick={onClose}>
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      {meta?.truncatedAt ? (
+        <p className="border-b border-border/80 px-3 py-1.5 text-xs text-amber-600 dark:text-amber-400">
+          {meta.truncatedAt === 'start'
+            ? 'More lines matched than the row limit; this source keeps the newest, so the start of the timeline is missing.'
+            : 'More lines matched than the row limit; the end of the timeline is missing.'}
+        </p>
+      ) : null}
+      {isPending ? <p className="px-3 py-4 text-sm text-muted-foreground">Searching every permitted stream…</p> : null}
+      {errorMessage ? <p className="px-3 py-4 text-sm text-red-600 dark:text-red-400">Could not load the timeline: {errorMessage}</p> : null}
+      {data && data.entries.length === 0 ? <p className="px-3 py-4 text-sm text-muted-foreground">No lines carry this ID in the query window.</p> : null}
+      <ol className="font-mono-log p-2 text-xs">
+        {data?.entries.map((entry, index) => (
+          <li
+            key={`${entry.timestamp}-${index}`}
+            className={cn('flex gap-2 px-1 py-0.5 hover:bg-muted/40', wrapLines ? 'whitespace-pre-wrap break-words' : 'whitespace-pre')}
+          >
+            <span className="w-20 shrink-0 text-right tabular-nums text-muted-foreground" title={entry.timestamp}>{formatOffset(firstMs, entry.timestamp)}</span>
+            <span className={cn('w-12 shrink-0 uppercase', levelTextClass[entry.level] || 'text-violet-500')}>{entry.level}</span>
+            <span className="w-28 shrink-0 truncate text-muted-foreground" title={Object.entries(entry.labels).map(([key, value]) => `${key}=${value}`).join(', ')}>
+              {streamName(entry)}
+            </span>
+            <span className="min-w-0">{entry.message}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
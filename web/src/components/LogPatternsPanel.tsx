@@ -0,0 +1,81 @@
+import * as React from 'react';
+
+import type { LogPattern, PatternsResponse } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+export interface LogPatternsPanelProps extends React.HTMLAttributes<HTMLDivElement> {
+  data?: PatternsResponse;
+  isPending: boolean;
+  errorMessage?: string | null;
+  selectedSignature: string | null;
+  onSelectPattern: (pattern: LogPattern) => void;
+}
+
+const levelTextClass: Record<string, string> = {
+  error: 'text-red-600 dark:text-red-400',
+  warn: 'text-amber-600 dark:text-amber-400',
+  info: 'text-sky-600 dark:text-sky-400',
+  debug: 'text-slate-500',
+};
+
+const formatSeen = (value: string): string => {
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? value : parsed.toLocaleString([], { hour12: false });
+};
+
+/**
+ * Message signatures of the current query, most frequent first. Clicking one narrows the results table to
+ * the rows with that signature.
+ */
+export function LogPatternsPanel({ data, isPending, errorMessage, selectedSignature, onSelectPattern, className, ...props }: LogPatternsPanelProps) {
+  const meta = data?.meta;
+  const maxCount = Math.max(1, ...(data?.patterns.map((pattern) => pattern.count) ?? []));
+
+  return (
+    <div className={cn('log-scrollbar min-h-[360px] flex-1 overflow-auto rounded-lg border border-border/80 bg-card/60', className)} {...props}>
+      {meta ? (
+        <div className="flex flex-wrap items-center gap-2 border-b border-border/80 px-3 py-2 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{meta.totalPatterns} patterns</span>
+          <span>from {meta.sampledLines} lines{meta.truncated ? ' (newest only)' : ''}</span>
+          {meta.returnedPatterns < meta.totalPatterns ? <span>showing top {meta.returnedPatterns}</span> : null}
+          {meta.redaction.redactedLines ? <span>{meta.redaction.redactedLines} redacted</span> : null}
+        </div>
+      ) : null}
+      {isPending ? <p className="px-3 py-4 text-sm text-muted-foreground">Grouping lines into patterns…</p> : null}
+      {errorMessage ? <p className="px-3 py-4 text-sm text-red-600 dark:text-red-400">Could not load patterns: {errorMessage}</p> : null}
+      {data && data.patterns.length === 0 ? <p className="px-3 py-4 text-sm text-muted-foreground">No lines matched this query.</p> : null}
+      <ul className="divide-y divide-border/80">
+        {data?.patterns.map((pattern) => {
+          const selected = pattern.signature === selectedSignature;
+          return (
+            <li key={pattern.signature}>
+              <button
+                type="button"
+                className={cn(
+                  'w-full px-3 py-2 text-left hover:bg-muted/40 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                  selected && 'bg-amber-100/70 dark:bg-amber-500/15',
+                )}
+                aria-pressed={selected}
+                title={`Sample: ${pattern.sample}`}
+                onClick={() => onSelectPattern(pattern)}
+              >
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="w-12 shrink-0 text-right font-semibold tabular-nums">{pattern.count}</span>
+                  <span className={cn('w-14 shrink-0 uppercase', levelTextClass[pattern.level] || 'text-violet-500')}>{pattern.level}</span>
+                  <span className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted">
+                    <span className="block h-full rounded-full bg-primary/60" style={{ width: `${(pattern.count / maxCount) * 100}%` }} />
+                  </span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {formatSeen(pattern.firstSeen)} – {formatSeen(pattern.lastSeen)}
+                  </span>
+                </div>
+                <p className="font-mono-log mt-1 break-words pl-14 text-[12.5px]">{pattern.signature}</p>
+                <p className="font-mono-log mt-0.5 truncate pl-14 text-[11px] text-muted-foreground">{pattern.sample}</p>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
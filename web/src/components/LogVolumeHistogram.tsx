@@ -0,0 +1,69 @@
+import * as React from 'react';
+
+import type { HistogramBucket, HistogramLevel } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+export interface LogVolumeHistogramProps extends React.HTMLAttributes<HTMLDivElement> {
+  buckets: Array<HistogramBucket>;
+  onZoom?: (bucket: HistogramBucket) => void;
+}
+
+// Stack order is bottom-up so errors sit on the baseline where spikes are easiest to compare.
+const LEVEL_STACK: Array<{ level: HistogramLevel; className: string }> = [
+  { level: 'error', className: 'bg-red-500' },
+  { level: 'warn', className: 'bg-amber-500' },
+  { level: 'info', className: 'bg-sky-500' },
+  { level: 'debug', className: 'bg-slate-400' },
+  { level: 'unknown', className: 'bg-violet-400' },
+];
+
+const formatBucketTime = (value: string): string =>
+  new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Stacked per-level log volume bars; clicking a bar hands its time range to `onZoom`.
+ */
+export function LogVolumeHistogram({ buckets, onZoom, className, ...props }: LogVolumeHistogramProps) {
+  const maxTotal = Math.max(1, ...buckets.map((bucket) => bucket.total));
+  const first = buckets[0];
+  const last = buckets[buckets.length - 1];
+
+  return (
+    <div className={cn('space-y-1.5', className)} {...props}>
+      <div className="flex h-24 items-end gap-px rounded-md border border-border/70 bg-muted/20 p-1.5">
+        {buckets.map((bucket) => (
+          <button
+            key={bucket.start}
+            type="button"
+            className="flex h-full min-w-0 flex-1 flex-col-reverse rounded-sm hover:bg-muted/60 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            title={`${formatBucketTime(bucket.start)} – ${formatBucketTime(bucket.end)}: ${bucket.total} lines${
+              LEVEL_STACK.filter(({ level }) => bucket.counts[level] > 0)
+                .map(({ level }) => `\n${level}: ${bucket.counts[level]}`)
+                .join('')
+            }`}
+            aria-label={`Zoom to ${formatBucketTime(bucket.start)} – ${formatBucketTime(bucket.end)} (${bucket.total} lines)`}
+            disabled={!onZoom}
+            onClick={() => onZoom?.(bucket)}
+          >
+            {LEVEL_STACK.map(({ level, className: barClassName }) => (
+              bucket.counts[level] > 0 ? (
+                <span
+                  key={level}
+                  className={cn('block w-full', barClassName)}
+                  style={{ height: `${(bucket.counts[level] / maxTotal) * 100}%` }}
+                />
+              ) : null
+            ))}
+          </button>
+        ))}
+      </div>
+      {first && last ? (
+        <div className="flex justify-between text-[11px] text-muted-foreground">
+          <span>{formatBucketTime(first.start)}</span>
+          <span>Click a bar to zoom into its time range</span>
+          <span>{formatBucketTime(last.end)}</span>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+import { parseServerSentEvents } from './sse';
+
 const FALLBACK_APP_ID = '5e4dbe96-2384-4865-ae52-f44f4db2f4d0';
 
 type ApiErrorPayload = {
@@ -9,10 +11,54 @@ type ApiErrorPayload = {
 export type QueryLevel = 'error' | 'warn' | 'info' | 'debug';
 export type QueryResultLevel = QueryLevel | 'unknown';
 
+export type LabelFilterOperator = 'eq' | 'neq' | 'regex';
+
+export type LabelFilter = {
+  name: string;
+  op: LabelFilterOperator;
+  value: string;
+};
+
+export type FieldParser = 'json' | 'logfmt';
+
+export type FieldFilterOperator = 'eq' | 'neq' | 'regex' | 'gt' | 'gte' | 'lt' | 'lte';
+
+export type FieldFilter = {
+  name: string;
+  op: FieldFilterOperator;
+  value: string;
+};
+
+export type LogsSourceMode = 'loki' | 'app_logs' | 'opensearch' | 'k8s_logs' | 'docker';
+
+export type LogsSourceCapabilities = {
+  requiresRequestAuth: boolean;
+  supportsQuickSample: boolean;
+  supportsForwardQuery: boolean;
+};
+
+export type LogsLabelScope = {
+  role: string | null;
+  selector: string;
+};
+
+export type LogsSourceOption = {
+  id: string;
+  name: string;
+  maxTimeWindowHours?: number;
+  maxLinesPerQuery?: number;
+  // Caller's effective stream selector on this source; present in Loki mode.
+  labelScope?: LogsLabelScope | null;
+};
+
 export type LogsConfig = {
   lokiBaseUrl?: string;
-  sourceMode?: 'loki' | 'app_logs';
+  sourceMode?: LogsSourceMode;
+  sourceCapabilities?: LogsSourceCapabilities;
+  sources?: Array<LogsSourceOption>;
+  labelScope?: LogsLabelScope | null;
   defaultTimeRange?: string;
+  allowedLabelFilters?: Array<string>;
   maxTimeWindowHours?: number;
   maxLinesPerQuery?: number;
   queryTimeoutMs?: number;
@@ -23,6 +69,7 @@ export type LogsConfig = {
   readiness?: {
     ready: boolean;
     issues: Array<string>;
+    lokiTenantId?: string | null;
   };
 };
 
@@ -31,23 +78,49 @@ export type LogsEntry = {
   level: QueryResultLevel;
   message: string;
   labels: Record<string, string>;
+  // Present when the query set a parser; absent for lines that did not parse.
+  fields?: Record<string, string>;
+  // Trace/request IDs detected in the line; absent when none were found.
+  correlationIds?: Array<CorrelationId>;
+  // Rocket.Chat rooms, users, and messages referenced by labels or JSON fields; resolve them with `resolveEntities`.
+  entityRefs?: Array<EntityRef>;
 };
 
-export type LogsActionType = 'share' | 'incident_draft' | 'thread_note';
+export type CorrelationId = {
+  name: string;
+  value: string;
+};
+
+export type EntityKind = 'room' | 'user' | 'username' | 'message';
+
+export type EntityRef = {
+  kind: EntityKind;
+  key: string;
+  value: string;
+};
+
+export type LogsActionType = 'share' | 'incident_draft' | 'thread_note' | 'export_bundle';
 
 export type LogsQueryMeta = {
   query: string;
+  sourceId?: string | null;
   start: string;
   end: string;
   requestedLimit: number;
   returned: number;
   truncated: boolean;
-  requestedLevel: QueryLevel | null;
+  // Opaque position of the last returned line; send it back as `cursor` to fetch the next older page.
+  nextCursor?: string | null;
+  requestedLevel: QueryResultLevel | Array<QueryResultLevel> | null;
   search: string | null;
+  labels?: Array<LabelFilter>;
+  parser?: FieldParser | null;
+  fields?: Array<FieldFilter>;
   redaction?: {
     enabled: boolean;
     redactedLines: number;
     totalRedactions: number;
+    rules?: Array<{ name: string; count: number }>;
   };
   guardrails: {
     maxTimeWindowHours: number;
@@ -58,7 +131,7 @@ export type LogsQueryMeta = {
 
 export type LogsQueryResponse = {
   ok: true;
-  source: 'loki' | 'app_logs';
+  source: LogsSourceMode;
   meta: LogsQueryMeta;
   entries: Array<LogsEntry>;
 };
@@ -69,6 +142,25 @@ export type AuditEntry = {
   action:
     | 'query'
     | 'query_denied'
+    | 'labels'
+    | 'labels_denied'
+    | 'histogram'
+    | 'histogram_denied'
+    | 'patterns'
+    | 'patterns_denied'
+    | 'compare'
+    | 'compare_denied'
+    | 'correlate'
+    | 'correlate_denied'
+    | 'export'
+    | 'export_denied'
+    | 'export_bundle'
+    | 'export_bundle_denied'
+    | 'stream_start'
+    | 'stream_start_denied'
+    | 'stream_end'
+    | 'context'
+    | 'context_denied'
     | 'share'
     | 'share_denied'
     | 'incident_draft'
@@ -107,11 +199,244 @@ export type AuditResponse = {
 export type LogsActionResponse = {
   ok: true;
   action: LogsActionType;
-  postedMessageId: string;
+  postedMessageId: string | null;
   target: {
     roomId: string;
     threadId: string | null;
   };
+  // Only for `export_bundle`; `postedMessageId` is then the thread note, or null without a thread target.
+  upload?: {
+    id: string;
+    filename: string;
+    bytes: number;
+    url: string | null;
+  };
+  bundle?: {
+    lines: number;
+    droppedLines: number;
+    truncated: boolean;
+    files: Array<string>;
+  };
+};
+
+export type HistogramLevel = 'error' | 'warn' | 'info' | 'debug' | 'unknown';
+
+export type HistogramBucket = {
+  start: string;
+  end: string;
+  total: number;
+  counts: Record<HistogramLevel, number>;
+};
+
+export type HistogramResponse = {
+  ok: true;
+  source: LogsSourceMode;
+  meta: {
+    query: string;
+    sourceId: string | null;
+    start: string;
+    end: string;
+    stepSeconds: number;
+    requestedLevel: QueryResultLevel | Array<QueryResultLevel> | null;
+    search: string | null;
+    labels: Array<LabelFilter>;
+    total: number;
+    totals: Record<HistogramLevel, number>;
+  };
+  buckets: Array<HistogramBucket>;
+};
+
+export type LogPattern = {
+  signature: string;
+  count: number;
+  level: QueryResultLevel;
+  firstSeen: string;
+  lastSeen: string;
+  sample: string;
+};
+
+export type PatternsResponse = {
+  ok: true;
+  source: LogsSourceMode;
+  meta: {
+    query: string;
+    sourceId: string | null;
+    start: string;
+    end: string;
+    requestedLimit: number;
+    sampledLines: number;
+    truncated: boolean;
+    totalPatterns: number;
+    returnedPatterns: number;
+    requestedLevel: QueryResultLevel | Array<QueryResultLevel> | null;
+    search: string | null;
+    labels: Array<LabelFilter>;
+    redaction: {
+      enabled: boolean;
+      redactedLines: number;
+      totalRedactions: number;
+    };
+  };
+  patterns: Array<LogPattern>;
+};
+
+export type PatternChange = {
+  signature: string;
+  level: QueryResultLevel;
+  sample: string;
+  baselineCount: number;
+  targetCount: number;
+  ratio: number | null;
+};
+
+export type LevelCounts = Record<QueryResultLevel, number>;
+
+export type CompareWindowMeta = {
+  start: string;
+  end: string;
+  sampledLines: number;
+  truncated: boolean;
+  patterns: number;
+};
+
+export type CompareResponse = {
+  ok: true;
+  source: LogsSourceMode;
+  meta: {
+    query: string;
+    sourceId: string | null;
+    requestedLimit: number;
+    target: CompareWindowMeta;
+    baseline: CompareWindowMeta & { offsetSeconds: number | null };
+    requestedLevel: QueryResultLevel | Array<QueryResultLevel> | null;
+    search: string | null;
+    labels: Array<LabelFilter>;
+    redaction: {
+      enabled: boolean;
+      redactedLines: number;
+      totalRedactions: number;
+    };
+  };
+  levels: {
+    target: LevelCounts;
+    baseline: LevelCounts;
+  };
+  patterns: {
+    new: Array<PatternChange>;
+    gone: Array<PatternChange>;
+    increased: Array<PatternChange>;
+  };
+};
+
+export type TailStreamState = {
+  stream: string;
+  cursor: string | null;
+  returned: number;
+  truncated: boolean;
+  pollIntervalMs: number;
+};
+
+// `cursor` is the upstream nanosecond timestamp the server sent as the SSE event id.
+export type TailEntry = LogsEntry & { cursor: string };
+
+export type TailBatch = {
+  stream?: TailStreamState;
+  entries: Array<TailEntry>;
+  retryMs?: number;
+  ended: boolean;
+};
+
+export type ContextPosition = 'before' | 'anchor' | 'after';
+
+export type ContextEntry = LogsEntry & { position: ContextPosition };
+
+export type ContextSide = {
+  requested: number;
+  returned: number;
+  truncated: boolean;
+  // False when the source could only read the newest lines of its window, so lines next to the anchor may be missing.
+  contiguous: boolean;
+};
+
+export type ContextResponse = {
+  ok: true;
+  source: LogsSourceMode;
+  meta: {
+    sourceId: string | null;
+    anchor: { timestamp: string; precision: 'ns' | 'ms'; found: boolean };
+    labels: Record<string, string>;
+    start: string;
+    end: string;
+    before: ContextSide;
+    after: ContextSide;
+    redaction?: {
+      enabled: boolean;
+      redactedLines: number;
+      totalRedactions: number;
+    };
+  };
+  entries: Array<ContextEntry>;
+};
+
+export type CorrelateResponse = {
+  ok: true;
+  source: LogsSourceMode;
+  meta: {
+    query: string;
+    sourceId: string | null;
+    id: string;
+    start: string;
+    end: string;
+    requestedLimit: number;
+    returned: number;
+    streams: number;
+    truncated: boolean;
+    truncatedAt: 'start' | 'end' | null;
+    redaction: {
+      enabled: boolean;
+      redactedLines: number;
+      totalRedactions: number;
+    };
+  };
+  // Oldest first.
+  entries: Array<LogsEntry>;
+};
+
+export type EntitiesRequest = {
+  rooms: Array<string>;
+  users: Array<string>;
+  usernames: Array<string>;
+  messages: Array<string>;
+};
+
+export type EntitiesResponse = {
+  ok: true;
+  entities: {
+    rooms: Array<{ id: string; name: string; displayName: string | null; type: string; path: string; url: string | null }>;
+    users: Array<{ id: string; username: string; name: string | null; path: string; url: string | null }>;
+    messages: Array<{ id: string; roomId: string; roomName: string; path: string; url: string | null }>;
+  };
+  meta: {
+    requested: number;
+    // Ids that do not exist or that the caller cannot see.
+    unresolved: Array<{ kind: EntityKind; value: string }>;
+    workspaceOrigin: string | null;
+  };
+};
+
+export type LabelsResponse = {
+  ok: true;
+  source: LogsSourceMode;
+  meta: {
+    sourceId: string | null;
+    name: string | null;
+    start: string;
+    end: string;
+    returned: number;
+    truncated: boolean;
+    cached: boolean;
+  };
+  values: Array<string>;
 };
 
 export type RoomTarget = {
@@ -162,8 +487,10 @@ export type SavedViewQuery = {
   start?: string;
   end?: string;
   limit: number;
-  level?: QueryLevel;
+  level?: QueryResultLevel | Array<QueryResultLevel>;
   search?: string;
+  source?: string;
+  labels?: Array<LabelFilter>;
 };
 
 export type SavedView = {
@@ -356,7 +683,8 @@ const parseJsonSafe = async (response: Response): Promise<unknown> => {
   }
 };
 
-const requestPrivateApi = async <T>(path: string, init?: RequestInit): Promise<T> => {
+// Resolves the first API base candidate that accepts the request and returns the raw response.
+const fetchPrivateApi = async (path: string, init?: RequestInit, accept = 'application/json'): Promise<Response> => {
   const normalizedPath = path.replace(/^\/+/, '');
   let finalError: PrivateApiError | undefined;
 
@@ -368,7 +696,7 @@ const requestPrivateApi = async <T>(path: string, init?: RequestInit): Promise<T
     const response = await fetch(`${candidateBase}/${normalizedPath}`, {
       credentials: 'include',
       headers: {
-        Accept: 'application/json',
+        Accept: accept,
         ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
         ...(authHeaders || {}),
         ...(init?.headers || {}),
@@ -376,11 +704,11 @@ const requestPrivateApi = async <T>(path: string, init?: RequestInit): Promise<T
       ...init,
     });
 
-    const payload = (await parseJsonSafe(response)) as ApiErrorPayload | undefined;
-    if (response.ok && payload?.ok !== false) {
-      return payload as T;
+    if (response.ok) {
+      return response;
     }
 
+    const payload = (await parseJsonSafe(response)) as ApiErrorPayload | undefined;
     const error = new PrivateApiError(payload?.error || `Request failed (${response.status})`, response.status, payload?.details);
     finalError = error;
     if (
@@ -397,6 +725,16 @@ const requestPrivateApi = async <T>(path: string, init?: RequestInit): Promise<T
   throw finalError || new PrivateApiError('Request failed (no API base candidate)', 500);
 };
 
+const requestPrivateApi = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetchPrivateApi(path, init);
+  const payload = (await parseJsonSafe(response)) as ApiErrorPayload | undefined;
+  if (payload?.ok === false) {
+    throw new PrivateApiError(payload.error || `Request failed (${response.status})`, response.status, payload.details);
+  }
+
+  return payload as T;
+};
+
 export const getRuntimeConnection = () => ({
   appId,
   privateApiBase,
@@ -409,20 +747,32 @@ export const getRuntimeConnection = () => ({
 
 export const getConfig = () => requestPrivateApi<{ ok: true; config: LogsConfig }>('config');
 
-export const queryLogs = (input: {
+type QueryFilterInput = {
   since?: string;
   start?: string;
   end?: string;
-  limit: number;
-  level?: QueryLevel;
+  levels?: Array<QueryResultLevel>;
   search?: string;
-}) => {
-  const body: Record<string, unknown> = {
-    limit: input.limit,
-  };
+  source?: string;
+  labels?: Array<LabelFilter>;
+  parser?: FieldParser;
+  fields?: Array<FieldFilter>;
+};
+
+const buildQueryFilterBody = (input: QueryFilterInput): Record<string, unknown> => {
+  const body: Record<string, unknown> = {};
 
-  if (input.level) {
-    body.level = input.level;
+  const labels = input.labels?.filter((filter) => filter.name && filter.value);
+  if (labels && labels.length > 0) {
+    body.labels = labels;
+  }
+
+  if (input.source) {
+    body.source = input.source;
+  }
+
+  if (input.levels && input.levels.length > 0) {
+    body.level = input.levels;
   }
 
   const search = input.search?.trim();
@@ -430,6 +780,14 @@ export const queryLogs = (input: {
     body.search = search;
   }
 
+  if (input.parser) {
+    body.parser = input.parser;
+    const fields = input.fields?.filter((filter) => filter.name);
+    if (fields && fields.length > 0) {
+      body.fields = fields;
+    }
+  }
+
   if (input.start || input.end) {
     body.start = input.start;
     body.end = input.end;
@@ -437,10 +795,111 @@ export const queryLogs = (input: {
     body.since = input.since;
   }
 
-  return requestPrivateApi<LogsQueryResponse>('query', {
+  return body;
+};
+
+export const queryLogs = (input: QueryFilterInput & { limit: number; cursor?: string }) =>
+  requestPrivateApi<LogsQueryResponse>('query', {
     method: 'POST',
-    body: JSON.stringify(body),
+    body: JSON.stringify({ limit: input.limit, ...(input.cursor ? { cursor: input.cursor } : {}), ...buildQueryFilterBody(input) }),
   });
+
+export const queryHistogram = (input: QueryFilterInput) =>
+  requestPrivateApi<HistogramResponse>('histogram', {
+    method: 'POST',
+    body: JSON.stringify(buildQueryFilterBody(input)),
+  });
+
+export const queryPatterns = (input: QueryFilterInput & { limit: number }) =>
+  requestPrivateApi<PatternsResponse>('patterns', {
+    method: 'POST',
+    body: JSON.stringify({ limit: input.limit, ...buildQueryFilterBody(input) }),
+  });
+
+// `baseline` is an offset such as `24h`; without it the server compares against the preceding window.
+export const compareWindows = (input: QueryFilterInput & { limit: number; baseline?: string }) =>
+  requestPrivateApi<CompareResponse>('compare', {
+    method: 'POST',
+    body: JSON.stringify({ limit: input.limit, ...(input.baseline ? { baseline: input.baseline } : {}), ...buildQueryFilterBody(input) }),
+  });
+
+export const correlateLogs = (input: { id: string; since?: string; start?: string; end?: string; source?: string; limit: number }) =>
+  requestPrivateApi<CorrelateResponse>('correlate', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+
+export const resolveEntities = (input: EntitiesRequest) =>
+  requestPrivateApi<EntitiesResponse>('entities', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+
+export type ExportFormat = 'jsonl' | 'csv' | 'text';
+
+export const exportLogs = async (input: QueryFilterInput & { format: ExportFormat }): Promise<{ blob: Blob; filename: string }> => {
+  const response = await fetchPrivateApi(
+    'export',
+    { method: 'POST', body: JSON.stringify({ format: input.format, ...buildQueryFilterBody(input) }) },
+    '*/*',
+  );
+  const disposition = response.headers.get('content-disposition') || '';
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `logs-export.${input.format === 'text' ? 'txt' : input.format}`;
+  return { blob: await response.blob(), filename };
+};
+
+export const getLogContext = (input: { timestamp: string; labels: Record<string, string>; source?: string; before?: number; after?: number }) =>
+  requestPrivateApi<ContextResponse>('context', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+
+export const tailLogs = async (input: { stream?: string; cursor?: string | null; end?: boolean; filters?: Omit<QueryFilterInput, 'since' | 'start' | 'end' | 'parser' | 'fields'> }): Promise<TailBatch> => {
+  // A new stream may resume from the cursor of an expired one; filters are only sent when opening a stream.
+  const body: Record<string, unknown> = {
+    ...(input.stream ? { stream: input.stream } : buildQueryFilterBody(input.filters || {})),
+    ...(input.cursor ? { cursor: input.cursor } : {}),
+    ...(input.end ? { end: true } : {}),
+  };
+  const response = await fetchPrivateApi('tail', { method: 'POST', body: JSON.stringify(body) }, 'text/event-stream');
+  const { events, retryMs } = parseServerSentEvents(await response.text());
+
+  const batch: TailBatch = { entries: [], retryMs, ended: false };
+  for (const event of events) {
+    if (event.event === 'stream') {
+      batch.stream = JSON.parse(event.data) as TailStreamState;
+    } else if (event.event === 'log') {
+      batch.entries.push({ ...(JSON.parse(event.data) as LogsEntry), cursor: event.id || '' });
+    } else if (event.event === 'end') {
+      batch.ended = true;
+    }
+  }
+  return batch;
+};
+
+export const getLabels = (input: {
+  name?: string;
+  since?: string;
+  start?: string;
+  end?: string;
+  source?: string;
+}) => {
+  const params = new URLSearchParams();
+  if (input.name) {
+    params.set('name', input.name);
+  }
+  if (input.source) {
+    params.set('source', input.source);
+  }
+  if (input.start || input.end) {
+    params.set('start', input.start || '');
+    params.set('end', input.end || '');
+  } else if (input.since) {
+    params.set('since', input.since);
+  }
+
+  const suffix = params.toString();
+  return requestPrivateApi<LabelsResponse>(suffix ? `labels?${suffix}` : 'labels');
 };
 
 export const getAudit = (input: {
@@ -542,6 +1001,8 @@ export const postLogAction = (input: {
     search?: string;
     requestedLevel?: string;
   };
+  // Required for `export_bundle`: the query the bundle re-runs.
+  query?: QueryFilterInput;
 }) =>
   requestPrivateApi<LogsActionResponse>('actions', {
     method: 'POST',
@@ -549,8 +1010,15 @@ export const postLogAction = (input: {
       action: input.action,
       targetRoomId: input.targetRoomId,
       targetThreadId: input.targetThreadId,
-      entry: input.entry,
+      // The server accepts only these entry keys; parsed fields and correlation IDs stay client-side.
+      entry: {
+        timestamp: input.entry.timestamp,
+        level: input.entry.level,
+        message: input.entry.message,
+        labels: input.entry.labels,
+      },
       context: input.context,
+      query: input.query ? buildQueryFilterBody(input.query) : undefined,
     }),
   });
 
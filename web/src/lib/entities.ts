@@ -0,0 +1,66 @@
+import type { EntitiesRequest, EntitiesResponse, EntityRef, LogsEntry } from '@/lib/api';
+
+const MAX_VALUES_PER_KIND = 50;
+
+export type EntityLink = {
+  label: string;
+  url: string;
+};
+
+export const entityRefKey = (ref: Pick<EntityRef, 'kind' | 'value'>): string => `${ref.kind}:${ref.value}`;
+
+/**
+ * Collects the entity references of loaded rows into one `/entities` lookup (newest rows first, at most 50
+ * values per kind, sorted so the same rows always produce the same lookup).
+ */
+export const collectEntityLookup = (entries: Array<Pick<LogsEntry, 'entityRefs'>>): EntitiesRequest | null => {
+  const lookup: EntitiesRequest = { rooms: [], users: [], usernames: [], messages: [] };
+  const keys = { room: 'rooms', user: 'users', username: 'usernames', message: 'messages' } as const;
+  for (const entry of entries) {
+    for (const ref of entry.entityRefs ?? []) {
+      const values = lookup[keys[ref.kind]];
+      if (values.length < MAX_VALUES_PER_KIND && !values.includes(ref.value)) {
+        values.push(ref.value);
+      }
+    }
+  }
+
+  const kinds = Object.values(keys);
+  if (kinds.every((kind) => lookup[kind].length === 0)) {
+    return null;
+  }
+  for (const kind of kinds) {
+    lookup[kind].sort();
+  }
+  return lookup;
+};
+
+/**
+ * Maps `kind:value` to a labelled deep link. Entities without an absolute URL (unknown workspace origin) or
+ * that did not resolve are left out, so their chips are not rendered.
+ */
+export const buildEntityLinkMap = (response: EntitiesResponse | undefined): Map<string, EntityLink> => {
+  const links = new Map<string, EntityLink>();
+  if (!response) {
+    return links;
+  }
+
+  for (const room of response.entities.rooms) {
+    if (room.url) {
+      links.set(entityRefKey({ kind: 'room', value: room.id }), { label: `#${room.displayName || room.name}`, url: room.url });
+    }
+  }
+  for (const user of response.entities.users) {
+    if (user.url) {
+      const link = { label: `@${user.username}`, url: user.url };
+      links.set(entityRefKey({ kind: 'user', value: user.id }), link);
+      links.set(entityRefKey({ kind: 'username', value: user.username }), link);
+    }
+  }
+  for (const message of response.entities.messages) {
+    if (message.url) {
+      links.set(entityRefKey({ kind: 'message', value: message.id }), { label: `message in #${message.roomName}`, url: message.url });
+    }
+  }
+  return links;
+};
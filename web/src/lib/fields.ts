@@ -0,0 +1,92 @@
+import type { FieldFilter, FieldFilterOperator, LogsEntry } from './api';
+
+export const MAX_FIELD_COLUMNS = 8;
+
+export type FieldSort = {
+  name: string;
+  direction: 'asc' | 'desc';
+};
+
+// Longer tokens first so `>=` is not read as `>` followed by a value starting with `=`.
+const FIELD_FILTER_TOKENS: Array<{ token: string; op: FieldFilterOperator }> = [
+  { token: '!=', op: 'neq' },
+  { token: '=~', op: 'regex' },
+  { token: '>=', op: 'gte' },
+  { token: '<=', op: 'lte' },
+  { token: '>', op: 'gt' },
+  { token: '<', op: 'lt' },
+  { token: '=', op: 'eq' },
+];
+
+const FIELD_FILTER_PATTERN = /^([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)(!=|=~|>=|<=|>|<|=)(.*)$/;
+
+/**
+ * Parses space-separated field filters such as `msg.userId=abc status>=500`. Values containing spaces can be
+ * double-quoted (`msg="user joined"`). The server re-validates every filter.
+ */
+export const parseFieldFilterInput = (raw: string): { filters: Array<FieldFilter> } | { error: string } => {
+  const filters: Array<FieldFilter> = [];
+  const tokens = raw.match(/(?:[^\s"]+|"(?:[^"\\]|\\.)*")+/g) || [];
+  for (const token of tokens) {
+    const match = token.match(FIELD_FILTER_PATTERN);
+    const option = match ? FIELD_FILTER_TOKENS.find((candidate) => candidate.token === match[2]) : undefined;
+    if (!match || !option) {
+      return { error: `Field filter "${token}" must look like name=value, name!=value, name=~regex, or name>=number.` };
+    }
+
+    let value = match[3];
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+    filters.push({ name: match[1], op: option.op, value });
+  }
+  return { filters };
+};
+
+/**
+ * Picks the field columns for a result set: filtered fields first, then the fields present on the most lines.
+ */
+export const collectFieldColumns = (entries: Array<LogsEntry>, filters: Array<FieldFilter> = []): Array<string> => {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    for (const name of Object.keys(entry.fields || {})) {
+      counts.set(name, (counts.get(name) || 0) + 1);
+    }
+  }
+
+  const columns = Array.from(new Set(filters.map((filter) => filter.name)));
+  const remaining = Array.from(counts.keys())
+    .filter((name) => !columns.includes(name))
+    .sort((a, b) => (counts.get(b) || 0) - (counts.get(a) || 0) || a.localeCompare(b));
+  return [...columns, ...remaining].slice(0, MAX_FIELD_COLUMNS);
+};
+
+/**
+ * Stable sort by one field. Numbers compare numerically, other values as text, and lines without the field
+ * always sort last.
+ */
+export const sortEntriesByField = (entries: Array<LogsEntry>, sort: FieldSort | null): Array<LogsEntry> => {
+  if (!sort) {
+    return entries;
+  }
+
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return entries
+    .map((entry, index) => ({ entry, index, value: entry.fields?.[sort.name] }))
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        return a.value === b.value ? a.index - b.index : a.value === undefined ? 1 : -1;
+      }
+      return compareFieldValues(a.value, b.value) * factor || a.index - b.index;
+    })
+    .map(({ entry }) => entry);
+};
+
+const compareFieldValues = (a: string, b: string): number => {
+  const left = a.trim() ? Number(a) : NaN;
+  const right = b.trim() ? Number(b) : NaN;
+  if (Number.isFinite(left) && Number.isFinite(right)) {
+    return left - right;
+  }
+  return a.localeCompare(b);
+};
@@ -0,0 +1,36 @@
+const MAX_SIGNATURE_LENGTH = 200;
+
+// Keep in sync with `src/api/logs/logPatterns.ts`: pattern signatures from `/patterns` are matched against
+// result rows by normalizing each row here the same way.
+const SIGNATURE_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<ts>'],
+  [/\b\d{2}:\d{2}:\d{2}(?:[.,]\d+)?\b/g, '<ts>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+  [/\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g, '<ip>'],
+  [/\b0x[0-9a-f]+\b/gi, '<hex>'],
+  [/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, '<hex>'],
+  [/\b(?=[A-Za-z0-9]*\d)(?=[A-Za-z0-9]*[A-Za-z])[A-Za-z0-9]{10,}\b/g, '<id>'],
+  [/(?<![A-Za-z<])\d+(?:\.\d+)?/g, '<num>'],
+];
+
+export const normalizeLogSignature = (message: string): string => {
+  let text = message.replace(/\s+/g, ' ').trim();
+  if (text.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(text) as Record<string, unknown>;
+      if (typeof parsed.msg === 'string' && parsed.msg.trim()) {
+        text = parsed.msg.replace(/\s+/g, ' ').trim();
+      }
+    } catch {
+      // Not JSON content; keep the compacted line.
+    }
+  }
+
+  for (const [pattern, placeholder] of SIGNATURE_REPLACEMENTS) {
+    text = text.replace(pattern, placeholder);
+  }
+  if (!text) {
+    return '[empty]';
+  }
+  return text.length > MAX_SIGNATURE_LENGTH ? `${text.slice(0, MAX_SIGNATURE_LENGTH - 3)}...` : text;
+};
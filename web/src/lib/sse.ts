@@ -0,0 +1,46 @@
+export type ServerSentEventMessage = {
+  event: string;
+  data: string;
+  id?: string;
+};
+
+/**
+ * Parses a complete `text/event-stream` body into its events and the last `retry:` hint.
+ *
+ * Only the fields the tail endpoint emits are handled; comments and unknown fields are ignored.
+ */
+export const parseServerSentEvents = (body: string): { events: Array<ServerSentEventMessage>; retryMs?: number } => {
+  const events: Array<ServerSentEventMessage> = [];
+  let retryMs: number | undefined;
+
+  for (const block of body.replace(/\r\n?/g, '\n').split('\n\n')) {
+    let event = 'message';
+    let id: string | undefined;
+    const data: Array<string> = [];
+
+    for (const line of block.split('\n')) {
+      if (!line || line.startsWith(':')) {
+        continue;
+      }
+
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+      if (field === 'event') {
+        event = value;
+      } else if (field === 'data') {
+        data.push(value);
+      } else if (field === 'id') {
+        id = value;
+      } else if (field === 'retry' && /^\d+$/.test(value)) {
+        retryMs = Number(value);
+      }
+    }
+
+    if (data.length > 0) {
+      events.push({ event, data: data.join('\n'), id });
+    }
+  }
+
+  return { events, retryMs };
+};
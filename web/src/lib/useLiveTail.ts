@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { isPrivateApiError, tailLogs, type TailEntry } from '@/lib/api';
+
+export const MAX_LIVE_TAIL_LINES = 1000;
+const DEFAULT_TAIL_POLL_INTERVAL_MS = 2000;
+
+export type LiveTailStatus = 'idle' | 'live' | 'paused';
+
+type LiveTailFilters = NonNullable<Parameters<typeof tailLogs>[0]['filters']>;
+
+/**
+ * Drives the `/tail` endpoint: opens a stream, requests the next batch after each `retry` hint, and keeps
+ * the newest `MAX_LIVE_TAIL_LINES` lines oldest-first.
+ *
+ * Pausing stops requesting but keeps the cursor. If the server expired the stream meanwhile (410), the
+ * hook opens a new one from the same cursor so no lines are duplicated.
+ */
+export function useLiveTail() {
+  const [status, setStatus] = useState<LiveTailStatus>('idle');
+  const [entries, setEntries] = useState<Array<TailEntry>>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [skippedLines, setSkippedLines] = useState(false);
+
+  const streamRef = useRef<string | null>(null);
+  const cursorRef = useRef<string | null>(null);
+  const filtersRef = useRef<LiveTailFilters>({});
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Bumped on pause/stop so responses from an abandoned run are ignored.
+  const runRef = useRef(0);
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const poll = useCallback(async (run: number) => {
+    try {
+      const batch = await tailLogs(
+        streamRef.current
+          ? { stream: streamRef.current, cursor: cursorRef.current }
+          : { filters: filtersRef.current, cursor: cursorRef.current },
+      );
+      if (run !== runRef.current) {
+        return;
+      }
+
+      if (batch.stream) {
+        streamRef.current = batch.stream.stream;
+        cursorRef.current = batch.stream.cursor || cursorRef.current;
+        if (batch.stream.truncated) {
+          setSkippedLines(true);
+        }
+      }
+      if (batch.entries.length > 0) {
+        setEntries((current) => [...current, ...batch.entries].slice(-MAX_LIVE_TAIL_LINES));
+      }
+
+      const delay = batch.stream?.pollIntervalMs || batch.retryMs || DEFAULT_TAIL_POLL_INTERVAL_MS;
+      timerRef.current = setTimeout(() => void poll(run), delay);
+    } catch (pollError) {
+      if (run !== runRef.current) {
+        return;
+      }
+
+      if (isPrivateApiError(pollError) && pollError.status === 410 && streamRef.current) {
+        streamRef.current = null;
+        timerRef.current = setTimeout(() => void poll(run), 0);
+        return;
+      }
+
+      runRef.current += 1;
+      streamRef.current = null;
+      setStatus('idle');
+      setError(isPrivateApiError(pollError) ? pollError.message : 'Live tail request failed.');
+    }
+  }, []);
+
+  const closeStream = useCallback(() => {
+    const stream = streamRef.current;
+    streamRef.current = null;
+    if (stream) {
+      void tailLogs({ stream, end: true }).catch(() => undefined);
+    }
+  }, []);
+
+  const start = useCallback((filters: LiveTailFilters) => {
+    clearTimer();
+    closeStream();
+    runRef.current += 1;
+    filtersRef.current = filters;
+    cursorRef.current = null;
+    setEntries([]);
+    setError(null);
+    setSkippedLines(false);
+    setStatus('live');
+    void poll(runRef.current);
+  }, [closeStream, poll]);
+
+  const pause = useCallback(() => {
+    clearTimer();
+    runRef.current += 1;
+    setStatus('paused');
+  }, []);
+
+  const resume = useCallback(() => {
+    clearTimer();
+    runRef.current += 1;
+    setError(null);
+    setStatus('live');
+    void poll(runRef.current);
+  }, [poll]);
+
+  const stop = useCallback(() => {
+    clearTimer();
+    runRef.current += 1;
+    closeStream();
+    setStatus('idle');
+  }, [closeStream]);
+
+  useEffect(() => () => {
+    clearTimer();
+    runRef.current += 1;
+    closeStream();
+  }, [closeStream]);
+
+  return { status, entries, error, skippedLines, start, pause, resume, stop };
+}